@@ -1,4 +1,6 @@
 const esbuild = require("esbuild");
+const fs = require("fs");
+const path = require("path");
 
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
@@ -23,21 +25,67 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
+/**
+ * sql.js loads its wasm binary at runtime, so it has to sit next to the bundle
+ * @type {import('esbuild').Plugin}
+ */
+const copySqlWasmPlugin = {
+	name: 'copy-sql-wasm',
+
+	setup(build) {
+		build.onEnd(() => {
+			const source = require.resolve('sql.js/dist/sql-wasm.wasm');
+			fs.mkdirSync('dist', { recursive: true });
+			fs.copyFileSync(source, path.join('dist', 'sql-wasm.wasm'));
+		});
+	},
+};
+
+/**
+ * The bundled TypeScript compiler looks for its lib.*.d.ts files next to the bundle.
+ * Without them, globals like Promise and Record can't be resolved during dependency resolution
+ * @type {import('esbuild').Plugin}
+ */
+const copyTypeScriptLibsPlugin = {
+	name: 'copy-typescript-libs',
+
+	setup(build) {
+		build.onEnd(() => {
+			const libDir = path.dirname(require.resolve('typescript'));
+			fs.mkdirSync('dist', { recursive: true });
+			for (const fileName of fs.readdirSync(libDir)) {
+				if (/^lib\..*\.d\.ts$/.test(fileName)) {
+					fs.copyFileSync(path.join(libDir, fileName), path.join('dist', fileName));
+				}
+			}
+		});
+	},
+};
+
 async function main() {
 	const ctx = await esbuild.context({
-		entryPoints: [
-			'src/extension.ts'
-		],
+		entryPoints: {
+			extension: 'src/extension.ts',
+			// Standalone stdio MCP server, spawned by the AI editor rather than VS Code
+			'mcp-server': 'src/mcp-server.ts',
+			// Headless CLI for CI and pre-commit hooks
+			cli: 'src/cli.ts',
+			// Worker thread parsing files for the symbol index, started by all of the above
+			'symbol-extraction-worker': 'src/features/symbol-index/symbol-extraction-worker.ts'
+		},
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
+		outdir: 'dist',
+		// kuzu is a native addon, loaded at runtime from the node_modules/kuzu that .vscodeignore keeps in the VSIX
+		external: ['vscode', 'kuzu'],
 		logLevel: 'silent',
 		plugins: [
+			copySqlWasmPlugin,
+			copyTypeScriptLibsPlugin,
 			/* add to the end of plugins array */
 			esbuildProblemMatcherPlugin,
 		],
@@ -0,0 +1,307 @@
+#!/usr/bin/env node
+// Headless CursorCrawl CLI for CI and pre-commit hooks
+// Usage: cursorcrawl <command> [--root <workspace>] [options]
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { HostService, createNodeHostAdapter } from '@/shared/services/host-service';
+import { HostProgress } from '@/shared/types/progress-reporter';
+import { ensureProjectAnalysis, ensureLlmApiKey, getIgnoredPatterns } from '@/shared/utils/project-analysis';
+import { DocstringGenerationMode, generateDocstringIndex, resumeDocstringGeneration, regenerateStaleDocstrings } from '@/features/generate-docstring/generate-docstring';
+import { generateDocstringsParallel } from '@/features/generate-docstring/generate-docstring-parallel';
+import { CodebaseContextService } from '@/features/docstring-analyzer/codebase-context-generator';
+import { DuplicateLogicAnalyzerService } from '@/features/docstring-analyzer/duplicate-logic-analyzer';
+import { EmbeddingDuplicateAnalyzerService } from '@/features/docstring-analyzer/embedding-duplicate-analyzer';
+import { StructuralCloneService } from '@/features/structural-clones/structural-clone-service';
+import { MergeJsonService } from '@/features/merge-json/merge-json-service';
+import { DependencyGraphService } from '@/features/dependency-graph/dependency-graph-service';
+import { CursorRulesService } from '@/features/cursor-rules/cursor-rules-service';
+import { DeadCodeService } from '@/features/dead-code/dead-code-service';
+import { CycleDetectionService } from '@/features/cycles/cycle-detection-service';
+import { ArchitectureService } from '@/features/architecture/architecture-service';
+import { executeContextExtraction } from '@/context-extractor';
+
+const USAGE = `Usage: cursorcrawl <command> [--root <workspace>] [options]
+
+Commands:
+  index                           Build the symbol index, project tree and cursor rules
+  docstrings [--parallel] [--resume | --stale]
+                                  Generate docstrings for the symbol index (--resume only fills in missing ones,
+                                  --stale only regenerates those whose code changed since they were written)
+  duplicates [--mode llm|embedding|structural]
+                                  Detect duplicate logic (defaults to the duplicateDetectionMode setting)
+  context [--prompt <text>]       Write the codebase context, or the relevant info for the @file references in a prompt
+  graph [--out <file>]            Write the dependency graph HTML (defaults to .cursorcrawl/dependency-graph.html)
+  rules                           Regenerate the .cursor/rules files from the symbol index
+  deadcode                        Write the unused exports, unimported files and unreachable symbols to .cursorcrawl/dead-code.json
+  cycles                          Write the file and symbol dependency cycles to .cursorcrawl/cycles.json
+  architecture                    Check the dependency edges against the layers in .cursorcrawl/architecture.json
+
+cycles and architecture exit with code 2 when they find cycles or violations.
+
+Settings are read from the cursorcrawl.* keys of <workspace>/.vscode/settings.json.
+API keys can also be provided through the environment or .env.local.`;
+
+// Services log their progress with console.log, which belongs on stderr next to the progress messages
+const printResult = console.log.bind(console);
+console.log = console.error;
+
+/**
+ * Parsed command line options shared by all commands
+ */
+interface CliOptions {
+  rootPath: string;
+  parallel: boolean;
+  resume: boolean;
+  stale: boolean;
+  mode?: string;
+  prompt?: string;
+  out?: string;
+}
+
+/**
+ * Progress reporter writing to stderr, so stdout only carries command results
+ */
+const cliProgress: HostProgress = {
+  report: ({ message }) => {
+    if (message) {
+      console.error(message);
+    }
+  }
+};
+
+/**
+ * Reports a progress message
+ * @param message - The progress message
+ */
+const reportProgress = (message: string): void => cliProgress.report({ message });
+
+/**
+ * Fails the command when the configured LLM provider has no API key
+ * @param rootPath - The workspace root path
+ */
+const requireLlmApiKey = async (rootPath: string): Promise<void> => {
+  if (!await ensureLlmApiKey(rootPath, false)) {
+    throw new Error('LLM API key not found. Set it in the environment, .env.local or the cursorcrawl settings.');
+  }
+};
+
+/**
+ * Builds the symbol index and the files derived from it
+ * @param options - The command line options
+ */
+const runIndex = async ({ rootPath }: CliOptions): Promise<void> => {
+  const { success } = await ensureProjectAnalysis(rootPath, { showMessages: false, progress: cliProgress });
+  if (!success) {
+    throw new Error('Failed to build the symbol index');
+  }
+  printResult(`Symbol index written to ${path.join(rootPath, '.cursorcrawl')}`);
+};
+
+/**
+ * Generates docstrings for the existing symbol index
+ * @param options - The command line options
+ */
+const runDocstrings = async ({ rootPath, parallel, resume, stale }: CliOptions): Promise<void> => {
+  await requireLlmApiKey(rootPath);
+  const ignoredPatterns = await getIgnoredPatterns(rootPath);
+
+  if (parallel) {
+    const concurrency = HostService.getAdapter().getConfiguration<number>('docstringGenerationConcurrency', 5);
+    const mode = resume
+      ? DocstringGenerationMode.GENERATE_MISSING
+      : stale ? DocstringGenerationMode.REGENERATE_STALE : DocstringGenerationMode.GENERATE_ALL;
+    if (!await generateDocstringsParallel(rootPath, ignoredPatterns, cliProgress, undefined, concurrency, mode)) {
+      throw new Error('Failed to generate docstrings in parallel mode');
+    }
+  } else if (resume) {
+    await resumeDocstringGeneration(rootPath, ignoredPatterns, cliProgress);
+  } else if (stale) {
+    await regenerateStaleDocstrings(rootPath, ignoredPatterns, cliProgress);
+  } else {
+    await generateDocstringIndex(rootPath, ignoredPatterns, cliProgress);
+  }
+  printResult('Docstrings generated');
+};
+
+/**
+ * Detects duplicate logic and stores the scores for the dependency graph
+ * @param options - The command line options
+ */
+const runDuplicates = async ({ rootPath, mode }: CliOptions): Promise<void> => {
+  const host = HostService.getAdapter();
+  const detectionMode = mode ?? host.getConfiguration<string>('duplicateDetectionMode', 'llm');
+
+  let filePath: string;
+  if (detectionMode === 'structural') {
+    filePath = await StructuralCloneService.detectClones(
+      rootPath,
+      reportProgress,
+      host.getConfiguration<number>('structuralCloneSimilarityThreshold', 0.8)
+    );
+  } else if (detectionMode === 'llm' || detectionMode === 'embedding') {
+    if (detectionMode === 'llm') {
+      await requireLlmApiKey(rootPath);
+    }
+
+    // Both analyses work on the codebase context, so create it on first use
+    try {
+      await DuplicateLogicAnalyzerService.readCodebaseContext(rootPath);
+    } catch (error) {
+      reportProgress('Codebase context not found, generating it...');
+      await CodebaseContextService.generateAndWriteCodebaseContext(rootPath);
+    }
+
+    filePath = detectionMode === 'embedding'
+      ? await EmbeddingDuplicateAnalyzerService.analyzeDuplicateLogic(rootPath, reportProgress, {
+        similarityThreshold: host.getConfiguration<number>('duplicateSimilarityThreshold', 0.85),
+        confirmationPairs: host.getConfiguration<number>('duplicateConfirmationPairs', 20)
+      })
+      : await DuplicateLogicAnalyzerService.analyzeDuplicateLogic(rootPath, reportProgress);
+  } else {
+    throw new Error(`Unknown duplicate detection mode "${detectionMode}" (expected llm, embedding or structural)`);
+  }
+  printResult(`Duplicate analysis written to ${filePath}`);
+};
+
+/**
+ * Writes the codebase context, or the relevant info for the files referenced in a prompt
+ * @param options - The command line options
+ */
+const runContext = async ({ rootPath, prompt }: CliOptions): Promise<void> => {
+  if (prompt === undefined) {
+    const filePath = await CodebaseContextService.generateAndWriteCodebaseContext(rootPath);
+    printResult(`Codebase context written to ${filePath}`);
+    return;
+  }
+
+  const result = await executeContextExtraction(prompt, rootPath);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+  printResult(`${result.message}\nRelevant info written to ${result.relevantInfoPath}`);
+};
+
+/**
+ * Writes the dependency graph visualization, including any duplicate scores
+ * @param options - The command line options
+ */
+const runGraph = async ({ rootPath, out }: CliOptions): Promise<void> => {
+  try {
+    await MergeJsonService.mergeJsonFiles(rootPath);
+  } catch (error) {
+    // No duplicate analysis yet, so the graph is drawn without scores
+    reportProgress('No duplicate analysis found, generating the graph without scores');
+  }
+
+  const outPath = out ? path.resolve(out) : undefined;
+  const visualizationPath = await DependencyGraphService.generateVisualization(rootPath, outPath);
+  printResult(`Dependency graph written to ${visualizationPath}`);
+};
+
+/**
+ * Regenerates the .cursor/rules files
+ * @param options - The command line options
+ */
+const runRules = async ({ rootPath }: CliOptions): Promise<void> => {
+  const written = await CursorRulesService.generateRules(rootPath);
+  printResult(`Wrote ${written.length} rule files to ${path.join(rootPath, '.cursor', 'rules')}`);
+};
+
+/**
+ * Writes the dead code report
+ * @param options - The command line options
+ */
+const runDeadCode = async ({ rootPath }: CliOptions): Promise<void> => {
+  const filePath = await DeadCodeService.detectDeadCode(rootPath, reportProgress);
+  printResult(`Dead code report written to ${filePath}`);
+};
+
+/**
+ * Writes the dependency cycles
+ * @param options - The command line options
+ * @returns Exit code 2 if there are cycles, so CI can fail on them
+ */
+const runCycles = async ({ rootPath }: CliOptions): Promise<number> => {
+  const { report, outputPath } = await CycleDetectionService.detectCycles(rootPath, reportProgress);
+  printResult(`${report.fileCycles.length} file cycles and ${report.symbolCycles.length} symbol cycles written to ${outputPath}`);
+  return report.fileCycles.length > 0 || report.symbolCycles.length > 0 ? 2 : 0;
+};
+
+/**
+ * Writes the architecture violations
+ * @param options - The command line options
+ * @returns Exit code 2 if there are violations, so CI can fail on them
+ */
+const runArchitecture = async ({ rootPath }: CliOptions): Promise<number> => {
+  const { report, outputPath } = await ArchitectureService.checkArchitecture(rootPath, reportProgress);
+  printResult(`${report.violations.length} architecture violations written to ${outputPath}`);
+  return report.violations.length > 0 ? 2 : 0;
+};
+
+// Commands return an exit code when they have findings, the others exit with 0
+const COMMANDS: Record<string, (options: CliOptions) => Promise<number | void>> = {
+  index: runIndex,
+  docstrings: runDocstrings,
+  duplicates: runDuplicates,
+  context: runContext,
+  graph: runGraph,
+  rules: runRules,
+  deadcode: runDeadCode,
+  cycles: runCycles,
+  architecture: runArchitecture
+};
+
+/**
+ * Parses the arguments and runs the requested command
+ * @returns The process exit code
+ */
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      root: { type: 'string' },
+      parallel: { type: 'boolean', default: false },
+      resume: { type: 'boolean', default: false },
+      stale: { type: 'boolean', default: false },
+      mode: { type: 'string' },
+      prompt: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  const [commandName] = positionals;
+  if (values.help || !commandName) {
+    printResult(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const command = COMMANDS[commandName];
+  if (!command) {
+    console.error(`Unknown command "${commandName}"\n\n${USAGE}`);
+    return 1;
+  }
+
+  const rootPath = path.resolve(values.root ?? process.env.CURSORCRAWL_ROOT ?? process.cwd());
+  HostService.setAdapter(createNodeHostAdapter(rootPath));
+
+  const exitCode = await command({
+    rootPath,
+    parallel: values.parallel ?? false,
+    resume: values.resume ?? false,
+    stale: values.stale ?? false,
+    mode: values.mode,
+    prompt: values.prompt,
+    out: values.out
+  });
+  return exitCode ?? 0;
+};
+
+main()
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch(error => {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
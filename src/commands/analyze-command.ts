@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { ProgressService } from '@/shared/services/progress-service';
-import { showErrorMessage } from '@/shared/services/workspace-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
 import { ensureProjectAnalysis } from '@/shared/utils/project-analysis';
 
 /**
@@ -8,14 +8,14 @@ import { ensureProjectAnalysis } from '@/shared/utils/project-analysis';
  * @param context - VS Code extension context for registration
  */
 export const registerAnalyzeCommand = (context: vscode.ExtensionContext): void => {
-    const command = vscode.commands.registerCommand('cursorcrawl.analyze', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            showErrorMessage('No workspace folder found. Please open a folder first.');
+    const command = vscode.commands.registerCommand('cursorcrawl.analyze', async (requestedRootPath?: string) => {
+        // Multi-root workspaces can analyze every folder at once, each into its own index
+        const rootPaths = requestedRootPath
+            ? [requestedRootPath]
+            : await WorkspaceService.pickWorkspaceFolders('Select the workspace folder to analyze');
+        if (rootPaths.length === 0) {
             return;
         }
-
-        const rootPath = workspaceFolders[0].uri.fsPath;
         
         // Ask if docstrings should be generated
         const generateDocstrings = await vscode.window.showQuickPick(
@@ -23,29 +23,33 @@ export const registerAnalyzeCommand = (context: vscode.ExtensionContext): void =
                 { label: 'Yes', description: 'Build symbol index and generate docstrings' },
                 { label: 'No', description: 'Build symbol index only (no AI-generated docstrings)' }
             ],
-            { placeHolder: 'Would you like to generate docstrings? This requires an OpenAI API key.' }
+            { placeHolder: 'Would you like to generate docstrings? This requires a configured LLM provider.' }
         );
         
         if (!generateDocstrings) {
             return; // User canceled
         }
         
-        // First, build the symbol index only
-        await ProgressService.runWithProgress(
-            'Building Symbol Index',
-            async (progress) => {
-                await ensureProjectAnalysis(rootPath, {
-                    generateDocstrings: false, // Never generate docstrings here
-                    showMessages: generateDocstrings.label === 'No', // Only show messages if not generating docstrings later
-                    progress
-                });
-            }
-        );
+        for (const rootPath of rootPaths) {
+            // First, build the symbol index only
+            await ProgressService.runWithProgress(
+                rootPaths.length > 1 ? `Building Symbol Index (${WorkspaceService.getRootName(rootPath)})` : 'Building Symbol Index',
+                async (progress) => {
+                    await ensureProjectAnalysis(rootPath, {
+                        generateDocstrings: false, // Never generate docstrings here
+                        showMessages: generateDocstrings.label === 'No', // Only show messages if not generating docstrings later
+                        progress
+                    });
+                }
+            );
+        }
         
         // If user wants docstrings, trigger the regular docstring generation command
         if (generateDocstrings.label === 'Yes') {
-            // Execute the dedicated Generate Docstring command (which has a cancel button)
-            await vscode.commands.executeCommand('cursorcrawl.generateDocstringIndex');
+            for (const rootPath of rootPaths) {
+                // Execute the dedicated Generate Docstring command (which has a cancel button)
+                await vscode.commands.executeCommand('cursorcrawl.generateDocstringIndex', rootPath);
+            }
         }
     });
 
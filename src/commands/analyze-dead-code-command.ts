@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { ProgressService } from '@/shared/services/progress-service';
+import { ProjectService } from '@/shared/services/project-service';
+import { showErrorMessage } from '@/shared/services/workspace-service';
+import { DeadCodeService } from '@/features/dead-code/dead-code-service';
+
+/**
+ * Registers the analyze dead code command
+ * @param context - VS Code extension context for registration
+ */
+export const registerAnalyzeDeadCodeCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.analyzeDeadCode', async () => {
+        // Dead code is found by walking the dependency edges, so no LLM is needed
+        const result = await ProjectService.initializeWorkspace({
+            validateSymbolIndex: true
+        });
+
+        if (!result.rootPath) {
+            return;
+        }
+
+        const rootPath = result.rootPath;
+
+        await ProgressService.runWithProgress(
+            'Analyzing Dead Code',
+            async (progress) => {
+                try {
+                    const filePath = await DeadCodeService.detectDeadCode(
+                        rootPath,
+                        (progressMessage: string) => progress.report({ message: progressMessage })
+                    );
+
+                    const openFile = 'Open File';
+                    const userChoice = await vscode.window.showInformationMessage(
+                        `Dead code analysis completed. Results saved to ${filePath}`,
+                        openFile
+                    );
+
+                    if (userChoice === openFile) {
+                        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+                    }
+                } catch (error) {
+                    showErrorMessage('Failed to analyze dead code', error);
+                }
+            }
+        );
+    });
+
+    context.subscriptions.push(command);
+};
@@ -5,6 +5,7 @@ import { ProgressService } from '@/shared/services/progress-service';
 import { ProjectService } from '@/shared/services/project-service';
 import { showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
 import { DuplicateLogicAnalyzerService } from '@/features/docstring-analyzer/duplicate-logic-analyzer';
+import { EmbeddingDuplicateAnalyzerService } from '@/features/docstring-analyzer/embedding-duplicate-analyzer';
 
 /**
  * Registers the analyze duplicate logic command
@@ -12,10 +13,14 @@ import { DuplicateLogicAnalyzerService } from '@/features/docstring-analyzer/dup
  */
 export const registerAnalyzeDuplicateLogicCommand = (context: vscode.ExtensionContext): void => {
     const command = vscode.commands.registerCommand('cursorcrawl.analyzeDuplicateLogic', async () => {
+        const config = vscode.workspace.getConfiguration('cursorcrawl');
+        const detectionMode = config.get<'llm' | 'embedding'>('duplicateDetectionMode', 'llm');
+        
         // Initialize the workspace with required services
+        // Embedding mode only uses the LLM to confirm candidates, so it can run without one
         const result = await ProjectService.initializeWorkspace({
-            checkOpenAi: true,
-            requireOpenAi: true,
+            checkLlm: true,
+            requireLlm: detectionMode === 'llm',
             validateSymbolIndex: true
         });
         
@@ -44,7 +49,7 @@ export const registerAnalyzeDuplicateLogicCommand = (context: vscode.ExtensionCo
                         
                         if (generateResponse === 'Yes') {
                             // Generate codebase context first
-                            await vscode.commands.executeCommand('cursorcrawl.generateCodebaseContext');
+                            await vscode.commands.executeCommand('cursorcrawl.generateCodebaseContext', rootPath);
                         } else {
                             throw new Error('Codebase context is required for analysis');
                         }
@@ -54,12 +59,15 @@ export const registerAnalyzeDuplicateLogicCommand = (context: vscode.ExtensionCo
                     progress.report({ message: 'Starting analysis...' });
                     
                     // Analyze with progress reports
-                    const filePath = await DuplicateLogicAnalyzerService.analyzeDuplicateLogic(
-                        rootPath,
-                        (progressMessage) => {
-                            progress.report({ message: progressMessage });
-                        }
-                    );
+                    const reportProgress = (progressMessage: string) => {
+                        progress.report({ message: progressMessage });
+                    };
+                    const filePath = detectionMode === 'embedding'
+                        ? await EmbeddingDuplicateAnalyzerService.analyzeDuplicateLogic(rootPath, reportProgress, {
+                            similarityThreshold: config.get<number>('duplicateSimilarityThreshold', 0.85),
+                            confirmationPairs: config.get<number>('duplicateConfirmationPairs', 20)
+                        })
+                        : await DuplicateLogicAnalyzerService.analyzeDuplicateLogic(rootPath, reportProgress);
                     
                     // Step 3: Show results
                     progress.report({ message: 'Analysis complete.' });
@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { ProjectService } from '@/shared/services/project-service';
+import { showErrorMessage } from '@/shared/services/workspace-service';
+import { CodebaseChatPanel } from '@/features/codebase-chat/codebase-chat-panel';
+
+/**
+ * Registers the ask the codebase command
+ * @param context - VS Code extension context for registration
+ */
+export const registerAskCodebaseCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.askCodebase', async () => {
+        try {
+            const result = await ProjectService.initializeWorkspace({
+                checkLlm: true,
+                requireLlm: true,
+                validateSymbolIndex: true
+            });
+            
+            if (!result.rootPath) {
+                return;
+            }
+            
+            CodebaseChatPanel.show(result.rootPath);
+        } catch (error) {
+            showErrorMessage('Failed to open codebase chat', error);
+        }
+    });
+
+    context.subscriptions.push(command);
+};
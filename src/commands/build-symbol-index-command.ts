@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { ProgressService } from '@/shared/services/progress-service';
-import { showErrorMessage } from '@/shared/services/workspace-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
 import { ensureProjectAnalysis } from '@/shared/utils/project-analysis';
 
 /**
@@ -8,25 +8,26 @@ import { ensureProjectAnalysis } from '@/shared/utils/project-analysis';
  * @param context - VS Code extension context for registration
  */
 export const registerBuildSymbolIndexCommand = (context: vscode.ExtensionContext): void => {
-    const command = vscode.commands.registerCommand('cursorcrawl.buildSymbolIndex', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            showErrorMessage('No workspace folder open.');
-            return;
-        }
-        
-        const rootPath = workspaceFolders[0].uri.fsPath;
+    const command = vscode.commands.registerCommand('cursorcrawl.buildSymbolIndex', async (requestedRootPath?: string) => {
+        // Multi-root workspaces can index every folder at once, each into its own index
+        const rootPaths = requestedRootPath
+            ? [requestedRootPath]
+            : await WorkspaceService.pickWorkspaceFolders('Select the workspace folder to index');
         
-        await ProgressService.runWithProgress(
-            'Building Symbol Index',
-            async (progress) => {
-                await ensureProjectAnalysis(rootPath, {
-                    generateDocstrings: false,
-                    showMessages: true,
-                    progress
-                });
-            }
-        );
+        for (const rootPath of rootPaths) {
+            await ProgressService.runWithProgress(
+                rootPaths.length > 1 ? `Building Symbol Index (${WorkspaceService.getRootName(rootPath)})` : 'Building Symbol Index',
+                async (progress, token) => {
+                    await ensureProjectAnalysis(rootPath, {
+                        generateDocstrings: false,
+                        showMessages: true,
+                        progress,
+                        token
+                    });
+                },
+                { cancellable: true }
+            );
+        }
     });
 
     context.subscriptions.push(command);
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import { ProgressService } from '@/shared/services/progress-service';
+import { ProjectService } from '@/shared/services/project-service';
+import { showErrorMessage } from '@/shared/services/workspace-service';
+import { ArchitectureService } from '@/features/architecture/architecture-service';
+import { ArchitectureDiagnostics } from '@/features/architecture/architecture-diagnostics';
+
+/**
+ * Registers the check architecture command
+ * @param context - VS Code extension context for registration
+ */
+export const registerCheckArchitectureCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.checkArchitecture', async () => {
+        // The layers are checked against the dependency edges, so no LLM is needed
+        const result = await ProjectService.initializeWorkspace({
+            validateSymbolIndex: true
+        });
+
+        if (!result.rootPath) {
+            return;
+        }
+
+        const rootPath = result.rootPath;
+
+        // Without a config there is nothing to check, so offer a starter one to edit
+        if (!await fs.pathExists(ArchitectureService.getConfigPath(rootPath))) {
+            const createConfig = 'Create Example';
+            const userChoice = await vscode.window.showInformationMessage(
+                'No .cursorcrawl/architecture.json found. Declare your layers and their allowed dependencies there first.',
+                createConfig
+            );
+
+            if (userChoice === createConfig) {
+                const configPath = await ArchitectureService.writeExampleConfig(rootPath);
+                await vscode.window.showTextDocument(vscode.Uri.file(configPath));
+            }
+            return;
+        }
+
+        await ProgressService.runWithProgress(
+            'Checking Architecture',
+            async (progress) => {
+                try {
+                    const { report, outputPath } = await ArchitectureService.checkArchitecture(
+                        rootPath,
+                        (progressMessage: string) => progress.report({ message: progressMessage })
+                    );
+                    ArchitectureDiagnostics.update(rootPath, report);
+
+                    const openFile = 'Open File';
+                    const userChoice = await vscode.window.showInformationMessage(
+                        `Found ${report.violations.length} architecture violations, shown in the Problems panel. Results saved to ${outputPath}`,
+                        openFile
+                    );
+
+                    if (userChoice === openFile) {
+                        await vscode.window.showTextDocument(vscode.Uri.file(outputPath));
+                    }
+                } catch (error) {
+                    showErrorMessage('Failed to check the architecture', error);
+                }
+            }
+        );
+    });
+
+    context.subscriptions.push(command, { dispose: () => ArchitectureDiagnostics.dispose() });
+};
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { WorkspaceService, showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
+
+// Cursor reads project-level MCP servers from this file
+const CURSOR_MCP_CONFIG_PATH = path.join('.cursor', 'mcp.json');
+
+/**
+ * Registers the configure MCP server command
+ * Adds the bundled server to .cursor/mcp.json, keeping any servers already configured there
+ * @param context - VS Code extension context for registration
+ */
+export const registerConfigureMcpServerCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.configureMcpServer', async () => {
+        const rootPath = await WorkspaceService.pickWorkspaceFolder();
+        if (!rootPath) {
+            return;
+        }
+        const configPath = path.join(rootPath, CURSOR_MCP_CONFIG_PATH);
+        
+        try {
+            const config = await fs.pathExists(configPath) ? await fs.readJson(configPath) : {};
+            config.mcpServers = {
+                ...config.mcpServers,
+                cursorcrawl: {
+                    command: 'node',
+                    args: [path.join(context.extensionPath, 'dist', 'mcp-server.js'), '--root', rootPath]
+                }
+            };
+            
+            await fs.ensureDir(path.dirname(configPath));
+            await fs.writeJson(configPath, config, { spaces: 2 });
+            
+            showInformationMessage(`CursorCrawl MCP server added to ${configPath}`);
+        } catch (error) {
+            showErrorMessage('Failed to configure MCP server', error);
+        }
+    });
+
+    context.subscriptions.push(command);
+};
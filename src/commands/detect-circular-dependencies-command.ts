@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { ProgressService } from '@/shared/services/progress-service';
+import { ProjectService } from '@/shared/services/project-service';
+import { showErrorMessage } from '@/shared/services/workspace-service';
+import { CycleDetectionService } from '@/features/cycles/cycle-detection-service';
+import { CycleDiagnostics } from '@/features/cycles/cycle-diagnostics';
+
+/**
+ * Registers the detect circular dependencies command
+ * @param context - VS Code extension context for registration
+ */
+export const registerDetectCircularDependenciesCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.detectCircularDependencies', async () => {
+        // Cycles are found in the dependency edges, so no LLM is needed
+        const result = await ProjectService.initializeWorkspace({
+            validateSymbolIndex: true
+        });
+
+        if (!result.rootPath) {
+            return;
+        }
+
+        const rootPath = result.rootPath;
+
+        await ProgressService.runWithProgress(
+            'Detecting Circular Dependencies',
+            async (progress) => {
+                try {
+                    const { report, outputPath } = await CycleDetectionService.detectCycles(
+                        rootPath,
+                        (progressMessage: string) => progress.report({ message: progressMessage })
+                    );
+                    CycleDiagnostics.update(rootPath, report);
+
+                    const openFile = 'Open File';
+                    const userChoice = await vscode.window.showInformationMessage(
+                        `Found ${report.fileCycles.length} file cycles and ${report.symbolCycles.length} symbol cycles, ` +
+                        `shown in the Problems panel. Results saved to ${outputPath}`,
+                        openFile
+                    );
+
+                    if (userChoice === openFile) {
+                        await vscode.window.showTextDocument(vscode.Uri.file(outputPath));
+                    }
+                } catch (error) {
+                    showErrorMessage('Failed to detect circular dependencies', error);
+                }
+            }
+        );
+    });
+
+    context.subscriptions.push(command, { dispose: () => CycleDiagnostics.dispose() });
+};
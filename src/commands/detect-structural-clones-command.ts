@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { ProgressService } from '@/shared/services/progress-service';
+import { ProjectService } from '@/shared/services/project-service';
+import { showErrorMessage } from '@/shared/services/workspace-service';
+import { StructuralCloneService } from '@/features/structural-clones/structural-clone-service';
+
+/**
+ * Registers the detect structural clones command
+ * @param context - VS Code extension context for registration
+ */
+export const registerDetectStructuralClonesCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.detectStructuralClones', async () => {
+        const config = vscode.workspace.getConfiguration('cursorcrawl');
+        
+        // Clone detection only compares syntax trees, so no LLM is needed
+        const result = await ProjectService.initializeWorkspace({
+            validateSymbolIndex: true
+        });
+        
+        if (!result.rootPath) {
+            return;
+        }
+        
+        const rootPath = result.rootPath;
+        
+        await ProgressService.runWithProgress(
+            'Detecting Structural Clones',
+            async (progress) => {
+                try {
+                    const filePath = await StructuralCloneService.detectClones(
+                        rootPath,
+                        (progressMessage: string) => progress.report({ message: progressMessage }),
+                        config.get<number>('structuralCloneSimilarityThreshold', 0.8)
+                    );
+                    
+                    const openFile = 'Open File';
+                    const userChoice = await vscode.window.showInformationMessage(
+                        `Structural clone detection completed. Results saved to ${filePath}`,
+                        openFile
+                    );
+                    
+                    if (userChoice === openFile) {
+                        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+                    }
+                } catch (error) {
+                    showErrorMessage('Failed to detect structural clones', error);
+                }
+            }
+        );
+    });
+
+    context.subscriptions.push(command);
+};
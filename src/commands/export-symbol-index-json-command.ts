@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { ProgressService } from '@/shared/services/progress-service';
+import { WorkspaceService, showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+
+/**
+ * Registers the export symbol index JSON command
+ * @param context - VS Code extension context for registration
+ */
+export const registerExportSymbolIndexJsonCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.exportSymbolIndexJson', async () => {
+        const rootPath = await WorkspaceService.pickWorkspaceFolder();
+        if (!rootPath) {
+            return;
+        }
+        
+        await ProgressService.runWithProgress(
+            'Exporting Symbol Index',
+            async (progress) => {
+                try {
+                    progress.report({ message: 'Reading symbol store...' });
+                    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(
+                        rootPath,
+                        'Symbol index not found. Please build it first using the "Build Symbol Index" command.'
+                    );
+                    
+                    progress.report({ message: 'Writing symbol-index.json...' });
+                    const indexPath = await SymbolIndexService.exportSymbolIndexJson(rootPath, symbolIndex);
+                    
+                    showInformationMessage(`Symbol index exported to ${indexPath}`);
+                } catch (error) {
+                    showErrorMessage('Failed to export symbol index', error);
+                }
+            }
+        );
+    });
+
+    context.subscriptions.push(command);
+};
@@ -11,9 +11,8 @@ import { executeContextExtraction } from '@/context-extractor';
  */
 export const registerExtractContextCommand = (context: vscode.ExtensionContext): void => {
     const command = vscode.commands.registerCommand('cursorcrawl.extractContext', async () => {
-        const workspaceFolder = WorkspaceService.getWorkspaceFolder();
+        const workspaceFolder = await WorkspaceService.pickWorkspaceFolder();
         if (!workspaceFolder) {
-            showErrorMessage('No workspace folder found. Please open a folder first.');
             return;
         }
 
@@ -48,7 +47,7 @@ export const registerExtractContextCommand = (context: vscode.ExtensionContext):
                             
                             if (response === 'Yes') {
                                 // Run analysis first
-                                await vscode.commands.executeCommand('cursorcrawl.analyze');
+                                await vscode.commands.executeCommand('cursorcrawl.analyze', workspaceFolder);
                                 
                                 // Try extraction again after analysis
                                 progress.report({ message: "Re-attempting context extraction after analysis..." });
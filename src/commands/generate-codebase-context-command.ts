@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { ProgressService } from '@/shared/services/progress-service';
-import { showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
+import { WorkspaceService, showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
 import { CodebaseContextService } from '@/features/docstring-analyzer/codebase-context-generator';
 
 /**
@@ -8,15 +8,12 @@ import { CodebaseContextService } from '@/features/docstring-analyzer/codebase-c
  * @param context - VS Code extension context for registration
  */
 export const registerGenerateCodebaseContextCommand = (context: vscode.ExtensionContext): void => {
-    const command = vscode.commands.registerCommand('cursorcrawl.generateCodebaseContext', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            showErrorMessage('No workspace folder open.');
+    const command = vscode.commands.registerCommand('cursorcrawl.generateCodebaseContext', async (requestedRootPath?: string) => {
+        const rootPath = requestedRootPath ?? await WorkspaceService.pickWorkspaceFolder();
+        if (!rootPath) {
             return;
         }
         
-        const rootPath = workspaceFolders[0].uri.fsPath;
-        
         await ProgressService.runWithProgress(
             'Generating Codebase Context',
             async (progress) => {
@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { ProgressService } from '@/shared/services/progress-service';
+import { WorkspaceService, showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
+import { CursorRulesService } from '@/features/cursor-rules/cursor-rules-service';
+
+/**
+ * Registers the generate cursor rules command
+ * @param context - VS Code extension context for registration
+ */
+export const registerGenerateCursorRulesCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.generateCursorRules', async () => {
+        const rootPath = await WorkspaceService.pickWorkspaceFolder();
+        if (!rootPath) {
+            return;
+        }
+        
+        await ProgressService.runWithProgress(
+            'Generating Cursor Rules',
+            async (progress) => {
+                try {
+                    progress.report({ message: 'Reading symbol index...' });
+                    const ruleFiles = await CursorRulesService.generateRules(rootPath);
+                    
+                    showInformationMessage(`Generated ${ruleFiles.length} rule files in ${CursorRulesService.getRulesDir(rootPath)}`);
+                } catch (error) {
+                    showErrorMessage('Failed to generate cursor rules', error);
+                }
+            }
+        );
+    });
+
+    context.subscriptions.push(command);
+};
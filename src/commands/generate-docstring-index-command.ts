@@ -2,22 +2,21 @@ import * as vscode from 'vscode';
 import { ProgressService } from '@/shared/services/progress-service';
 import { WorkspaceService, showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
-import { getIgnoredPatterns, generateDocstrings, ensureOpenAIApiKey } from '@/shared/utils/project-analysis';
+import { getIgnoredPatterns, generateDocstrings, ensureLlmApiKey } from '@/shared/utils/project-analysis';
 
 /**
  * Registers the generate docstring index command
  * @param context - VS Code extension context for registration
  */
 export const registerGenerateDocstringIndexCommand = (context: vscode.ExtensionContext): void => {
-    const command = vscode.commands.registerCommand('cursorcrawl.generateDocstringIndex', async () => {
-        const workspaceFolder = WorkspaceService.getWorkspaceFolder();
+    const command = vscode.commands.registerCommand('cursorcrawl.generateDocstringIndex', async (requestedRootPath?: string) => {
+        const workspaceFolder = requestedRootPath ?? await WorkspaceService.pickWorkspaceFolder();
         if (!workspaceFolder) {
-            showErrorMessage('No workspace folder open.');
             return;
         }
         
-        // Ensure OpenAI API key is available
-        const apiKeyAvailable = await ensureOpenAIApiKey(workspaceFolder, true);
+        // Ensure the LLM provider API key is available
+        const apiKeyAvailable = await ensureLlmApiKey(workspaceFolder, true);
         if (!apiKeyAvailable) {
             return;
         }
@@ -31,7 +30,7 @@ export const registerGenerateDocstringIndexCommand = (context: vscode.ExtensionC
             
             if (response === 'Yes') {
                 // Run build symbol index first
-                await vscode.commands.executeCommand('cursorcrawl.buildSymbolIndex');
+                await vscode.commands.executeCommand('cursorcrawl.buildSymbolIndex', workspaceFolder);
             } else {
                 return;
             }
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { ProgressService } from '@/shared/services/progress-service';
 import { WorkspaceService, showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
-import { getIgnoredPatterns, ensureOpenAIApiKey } from '@/shared/utils/project-analysis';
+import { getIgnoredPatterns, ensureLlmApiKey } from '@/shared/utils/project-analysis';
 import { generateDocstringsParallel } from '@/features/generate-docstring/generate-docstring-parallel';
 
 /**
@@ -11,14 +11,13 @@ import { generateDocstringsParallel } from '@/features/generate-docstring/genera
  */
 export const registerGenerateDocstringIndexParallelCommand = (context: vscode.ExtensionContext): void => {
     const command = vscode.commands.registerCommand('cursorcrawl.generateDocstringIndexParallel', async () => {
-        const workspaceFolder = WorkspaceService.getWorkspaceFolder();
+        const workspaceFolder = await WorkspaceService.pickWorkspaceFolder();
         if (!workspaceFolder) {
-            showErrorMessage('No workspace folder open.');
             return;
         }
         
-        // Ensure OpenAI API key is available
-        const apiKeyAvailable = await ensureOpenAIApiKey(workspaceFolder, true);
+        // Ensure the LLM provider API key is available
+        const apiKeyAvailable = await ensureLlmApiKey(workspaceFolder, true);
         if (!apiKeyAvailable) {
             return;
         }
@@ -32,7 +31,7 @@ export const registerGenerateDocstringIndexParallelCommand = (context: vscode.Ex
             
             if (response === 'Yes') {
                 // Run build symbol index first
-                await vscode.commands.executeCommand('cursorcrawl.buildSymbolIndex');
+                await vscode.commands.executeCommand('cursorcrawl.buildSymbolIndex', workspaceFolder);
             } else {
                 return;
             }
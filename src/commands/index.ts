@@ -4,7 +4,18 @@ export { registerGenerateDocstringIndexCommand } from './generate-docstring-inde
 export { registerGenerateDocstringIndexParallelCommand } from './generate-docstring-index-parallel-command';
 export { registerExtractContextCommand } from './extract-context-command';
 export { registerResumeDocstringGenerationCommand } from './resume-docstring-generation-command';
+export { registerRegenerateStaleDocstringsCommand } from './regenerate-stale-docstrings-command';
+export { registerWriteDocstringsToSourceCommand } from './write-docstrings-to-source-command';
 export { registerGenerateCodebaseContextCommand } from './generate-codebase-context-command';
 export { registerAnalyzeDuplicateLogicCommand } from './analyze-duplicate-logic-command';
 export { registerShowDependencyGraphCommand } from './show-dependency-graph-command';
-export { registerMergeJsonForVisualizationCommand } from './merge-json-for-visualization-command'; 
\ No newline at end of file
+export { registerMergeJsonForVisualizationCommand } from './merge-json-for-visualization-command';
+export { registerGenerateCursorRulesCommand } from './generate-cursor-rules-command';
+export { registerExportSymbolIndexJsonCommand } from './export-symbol-index-json-command';
+export { registerQueryCodeGraphCommand } from './query-code-graph-command';
+export { registerDetectStructuralClonesCommand } from './detect-structural-clones-command';
+export { registerAnalyzeDeadCodeCommand } from './analyze-dead-code-command';
+export { registerDetectCircularDependenciesCommand } from './detect-circular-dependencies-command';
+export { registerCheckArchitectureCommand } from './check-architecture-command';
+export { registerAskCodebaseCommand } from './ask-codebase-command';
+export { registerConfigureMcpServerCommand } from './configure-mcp-server-command';
\ No newline at end of file
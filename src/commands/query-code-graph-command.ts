@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { ProgressService } from '@/shared/services/progress-service';
+import { WorkspaceService, showErrorMessage } from '@/shared/services/workspace-service';
+import { CodeGraphService } from '@/features/code-graph/code-graph-service';
+
+// Key used to remember the last query between invocations
+const LAST_QUERY_STATE_KEY = 'cursorcrawl.lastCodeGraphQuery';
+const DEFAULT_QUERY = 'MATCH (s:Symbol)-[:DEPENDS_ON]->(d:Symbol) RETURN s.name, s.filePath, d.name, d.filePath LIMIT 25';
+
+/**
+ * Registers the query code graph command
+ * @param context - VS Code extension context for registration
+ */
+export const registerQueryCodeGraphCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.queryCodeGraph', async () => {
+        const rootPath = await WorkspaceService.pickWorkspaceFolder();
+        if (!rootPath) {
+            return;
+        }
+        
+        const cypher = await vscode.window.showInputBox({
+            prompt: 'Enter a Cypher query (nodes: Symbol, File; edges: DEPENDS_ON, DEFINED_IN, DUPLICATE_OF)',
+            value: context.workspaceState.get<string>(LAST_QUERY_STATE_KEY, DEFAULT_QUERY),
+            ignoreFocusOut: true
+        });
+        
+        if (!cypher?.trim()) {
+            return;
+        }
+        
+        await context.workspaceState.update(LAST_QUERY_STATE_KEY, cypher);
+        
+        await ProgressService.runWithProgress(
+            'Querying Code Graph',
+            async (progress) => {
+                try {
+                    const result = await CodeGraphService.query(rootPath, cypher, progress);
+                    
+                    const document = await vscode.workspace.openTextDocument({
+                        content: CodeGraphService.formatResultAsMarkdown(cypher, result),
+                        language: 'markdown'
+                    });
+                    await vscode.window.showTextDocument(document, { preview: false });
+                } catch (error) {
+                    showErrorMessage('Failed to query code graph', error);
+                }
+            }
+        );
+    });
+
+    context.subscriptions.push(command);
+};
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { ProgressService } from '@/shared/services/progress-service';
+import { WorkspaceService, showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { getIgnoredPatterns, ensureLlmApiKey } from '@/shared/utils/project-analysis';
+import { regenerateStaleDocstrings } from '@/features/generate-docstring/generate-docstring';
+
+/**
+ * Registers the regenerate stale docstrings command
+ * @param context - VS Code extension context for registration
+ */
+export const registerRegenerateStaleDocstringsCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.regenerateStaleDocstrings', async () => {
+        const workspaceFolder = await WorkspaceService.pickWorkspaceFolder();
+        if (!workspaceFolder) {
+            return;
+        }
+
+        // Ensure the LLM provider API key is available
+        const apiKeyAvailable = await ensureLlmApiKey(workspaceFolder, true);
+        if (!apiKeyAvailable) {
+            return;
+        }
+
+        // Stale docstrings are only known for an indexed project
+        if (!await SymbolIndexService.symbolIndexExists(workspaceFolder)) {
+            showErrorMessage('Symbol index not found. Please build the symbol index first.');
+            return;
+        }
+
+        await ProgressService.runWithProgress(
+            'Regenerating Stale Docstrings',
+            async (progress, token) => {
+                try {
+                    const ignoredPatterns = await getIgnoredPatterns(workspaceFolder);
+
+                    // Only symbols whose code changed since their docstring was written are sent to the LLM
+                    await regenerateStaleDocstrings(workspaceFolder, ignoredPatterns, progress, token);
+
+                    if (token?.isCancellationRequested) {
+                        showInformationMessage('Docstring generation was cancelled.');
+                        return;
+                    }
+
+                    showInformationMessage('Stale docstrings regenerated successfully.');
+                } catch (error) {
+                    console.error('Error regenerating stale docstrings:', error);
+                    showErrorMessage('Error regenerating stale docstrings', error);
+                }
+            },
+            { cancellable: true }
+        );
+    });
+
+    context.subscriptions.push(command);
+};
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { ProgressService } from '@/shared/services/progress-service';
 import { WorkspaceService, showErrorMessage, showInformationMessage } from '@/shared/services/workspace-service';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
-import { getIgnoredPatterns, ensureOpenAIApiKey } from '@/shared/utils/project-analysis';
+import { getIgnoredPatterns, ensureLlmApiKey } from '@/shared/utils/project-analysis';
 import { resumeDocstringGeneration } from '@/features/generate-docstring/generate-docstring';
 
 /**
@@ -11,14 +11,13 @@ import { resumeDocstringGeneration } from '@/features/generate-docstring/generat
  */
 export const registerResumeDocstringGenerationCommand = (context: vscode.ExtensionContext): void => {
     const command = vscode.commands.registerCommand('cursorcrawl.resumeDocstringGeneration', async () => {
-        const workspaceFolder = WorkspaceService.getWorkspaceFolder();
+        const workspaceFolder = await WorkspaceService.pickWorkspaceFolder();
         if (!workspaceFolder) {
-            showErrorMessage('No workspace folder open.');
             return;
         }
         
-        // Ensure OpenAI API key is available
-        const apiKeyAvailable = await ensureOpenAIApiKey(workspaceFolder, true);
+        // Ensure the LLM provider API key is available
+        const apiKeyAvailable = await ensureLlmApiKey(workspaceFolder, true);
         if (!apiKeyAvailable) {
             return;
         }
@@ -32,7 +31,7 @@ export const registerResumeDocstringGenerationCommand = (context: vscode.Extensi
             
             if (response === 'Yes') {
                 // Run build symbol index first
-                await vscode.commands.executeCommand('cursorcrawl.buildSymbolIndex');
+                await vscode.commands.executeCommand('cursorcrawl.buildSymbolIndex', workspaceFolder);
             } else {
                 return;
             }
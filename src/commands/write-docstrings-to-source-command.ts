@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ProgressService } from '@/shared/services/progress-service';
+import { FileSystemService } from '@/shared/services/file-system-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { WorkspaceService, showErrorMessage, showInformationMessage, showWarningMessage } from '@/shared/services/workspace-service';
+import { DocstringWritebackService } from '@/features/docstring-writeback/docstring-writeback-service';
+import { DocstringCodeActions, DOCSTRING_DOCUMENT_SELECTOR } from '@/features/docstring-writeback/docstring-code-actions';
+
+/**
+ * Registers the write docstrings to source command, and the code action doing the same for one declaration
+ * @param context - VS Code extension context for registration
+ */
+export const registerWriteDocstringsToSourceCommand = (context: vscode.ExtensionContext): void => {
+    const command = vscode.commands.registerCommand('cursorcrawl.writeDocstringsToSource', async () => {
+        const rootPath = await WorkspaceService.pickWorkspaceFolder();
+        if (!rootPath) {
+            return;
+        }
+
+        const symbolIndex = await SymbolIndexService.readSymbolIndex(rootPath);
+        if (!symbolIndex) {
+            showErrorMessage('Symbol index not found. Please build the symbol index and generate docstrings first.');
+            return;
+        }
+
+        // Offer to limit the edits to the file being edited, since a whole project makes a long preview
+        let filePaths = Object.keys(symbolIndex);
+        const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const activeFilePath = activeFile && FileSystemService.normalizeFilePath(activeFile, rootPath);
+        if (activeFilePath && symbolIndex[activeFilePath]) {
+            const currentFile = 'Current File';
+            const scope = await vscode.window.showQuickPick([currentFile, 'All Files'], {
+                placeHolder: 'Write the generated docstrings of which files?'
+            });
+            if (!scope) {
+                return;
+            }
+            if (scope === currentFile) {
+                filePaths = [activeFilePath];
+            }
+        }
+
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        const refusedFiles: string[] = [];
+        let editCount = 0;
+
+        const prepared = await ProgressService.runWithProgress(
+            'Writing Docstrings to Source',
+            async (progress, token) => {
+                try {
+                    for (const [fileIndex, filePath] of filePaths.entries()) {
+                        if (token?.isCancellationRequested) {
+                            return false;
+                        }
+
+                        const symbols = DocstringWritebackService.getWritableSymbols(symbolIndex[filePath]);
+                        if (symbols.length === 0) {
+                            continue;
+                        }
+                        progress.report({ message: `[${fileIndex + 1}/${filePaths.length}] ${filePath}` });
+
+                        // Open editors may have unsaved changes, which the edits must be checked against
+                        const uri = vscode.Uri.file(path.join(rootPath, filePath));
+                        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === uri.fsPath);
+                        if (!openDocument && !await fs.pathExists(uri.fsPath)) {
+                            continue;
+                        }
+                        const content = openDocument?.getText() ?? await fs.readFile(uri.fsPath, 'utf8');
+
+                        const { edits, refusedReason } = await DocstringWritebackService.planFileEdits(rootPath, filePath, symbols, content);
+                        if (refusedReason) {
+                            refusedFiles.push(`${filePath} (${refusedReason})`);
+                            continue;
+                        }
+
+                        DocstringCodeActions.addEdits(workspaceEdit, uri, edits, true);
+                        editCount += edits.length;
+                    }
+                    return true;
+                } catch (error) {
+                    showErrorMessage('Failed to prepare the docstring edits', error);
+                    return false;
+                }
+            },
+            { cancellable: true }
+        );
+        if (!prepared) {
+            return;
+        }
+
+        // Files whose code changed since generation are never touched, their docstrings may describe code that's gone
+        if (refusedFiles.length > 0) {
+            showWarningMessage(
+                `Skipped ${refusedFiles.length} files that changed since their docstrings were generated: ${refusedFiles.join('; ')}. ` +
+                'Rebuild the symbol index and run "Regenerate Stale Docstrings" first.'
+            );
+        }
+
+        if (editCount === 0) {
+            showInformationMessage('No generated docstrings to write.');
+            return;
+        }
+
+        // Every edit needs confirmation, so VS Code opens the refactor preview to accept or reject each symbol
+        await vscode.workspace.applyEdit(workspaceEdit, { isRefactoring: true });
+    });
+
+    const codeActions = vscode.languages.registerCodeActionsProvider(DOCSTRING_DOCUMENT_SELECTOR, DocstringCodeActions, {
+        providedCodeActionKinds: [vscode.CodeActionKind.RefactorRewrite]
+    });
+
+    context.subscriptions.push(command, codeActions);
+};
@@ -3,7 +3,6 @@ import { RelevantInfoService } from '@/features/context-extractor/relevant-info-
 import { SymbolIndexAnalyzer } from '@/features/context-extractor/symbol-index-analyzer';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
 import * as path from 'path';
-import * as vscode from 'vscode';
 import { WorkspaceService } from '@/shared/services/workspace-service';
 
 /**
@@ -11,7 +10,7 @@ import { WorkspaceService } from '@/shared/services/workspace-service';
  * @param promptText The prompt text to analyze
  * @returns Array of file paths referenced in the prompt
  */
-export const extractContextFiles = ContextFileService.extractContextFiles;
+export const extractContextFiles = ContextFileService.extractContextFiles.bind(ContextFileService);
 
 /**
  * Extracts and resolves file references from a prompt to actual file paths
@@ -19,7 +18,7 @@ export const extractContextFiles = ContextFileService.extractContextFiles;
  * @param rootPath The workspace root path
  * @returns Promise resolving to array of valid file paths
  */
-export const extractAndResolveContextFiles = ContextFileService.extractAndResolveContextFiles;
+export const extractAndResolveContextFiles = ContextFileService.extractAndResolveContextFiles.bind(ContextFileService);
 
 /**
  * Generates relevant information based on context files
@@ -27,7 +26,7 @@ export const extractAndResolveContextFiles = ContextFileService.extractAndResolv
  * @param contextFiles Array of already-verified file paths from the workspace
  * @returns The filtered relevant information
  */
-export const generateRelevantInfo = RelevantInfoService.generateRelevantInfo;
+export const generateRelevantInfo = RelevantInfoService.generateRelevantInfo.bind(RelevantInfoService);
 
 /**
  * Executes the complete context extraction workflow
@@ -84,7 +83,7 @@ export const executeContextExtraction = async (
 };
 
 // Find files matching pattern, useful for file discovery
-export const findFilesMatchingPattern = ContextFileService.findFilesMatchingPattern;
+export const findFilesMatchingPattern = ContextFileService.findFilesMatchingPattern.bind(ContextFileService);
 
 // Export the SymbolIndexAnalyzer for direct use
 export { SymbolIndexAnalyzer }; 
\ No newline at end of file
@@ -9,20 +9,38 @@ import {
 	registerGenerateDocstringIndexParallelCommand,
 	registerExtractContextCommand,
 	registerResumeDocstringGenerationCommand,
+	registerRegenerateStaleDocstringsCommand,
+	registerWriteDocstringsToSourceCommand,
 	registerGenerateCodebaseContextCommand,
 	registerAnalyzeDuplicateLogicCommand,
 	registerShowDependencyGraphCommand,
-	registerMergeJsonForVisualizationCommand
+	registerMergeJsonForVisualizationCommand,
+	registerGenerateCursorRulesCommand,
+	registerExportSymbolIndexJsonCommand,
+	registerQueryCodeGraphCommand,
+	registerDetectStructuralClonesCommand,
+	registerAnalyzeDeadCodeCommand,
+	registerDetectCircularDependenciesCommand,
+	registerCheckArchitectureCommand,
+	registerAskCodebaseCommand,
+	registerConfigureMcpServerCommand
 } from '@/commands';
 
 // Import file watcher
 import { setupFileWatcher } from '@/features/file-watcher';
 
+// Import host adapter
+import { HostService } from '@/shared/services/host-service';
+import { VscodeHostAdapter } from '@/shared/services/vscode-host-adapter';
+
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export function activate(context: vscode.ExtensionContext) {
 	console.log('Congratulations, your extension "cursorcrawl" is now active!');
 
+	// Route settings and messages of the core services through VS Code
+	HostService.setAdapter(VscodeHostAdapter);
+
 	// Register commands
 	registerAnalyzeCommand(context);
 	registerBuildSymbolIndexCommand(context);
@@ -30,10 +48,21 @@ export function activate(context: vscode.ExtensionContext) {
 	registerGenerateDocstringIndexParallelCommand(context);
 	registerExtractContextCommand(context);
 	registerResumeDocstringGenerationCommand(context);
+	registerRegenerateStaleDocstringsCommand(context);
+	registerWriteDocstringsToSourceCommand(context);
 	registerGenerateCodebaseContextCommand(context);
 	registerAnalyzeDuplicateLogicCommand(context);
 	registerShowDependencyGraphCommand(context);
 	registerMergeJsonForVisualizationCommand(context);
+	registerGenerateCursorRulesCommand(context);
+	registerExportSymbolIndexJsonCommand(context);
+	registerQueryCodeGraphCommand(context);
+	registerDetectStructuralClonesCommand(context);
+	registerAnalyzeDeadCodeCommand(context);
+	registerDetectCircularDependenciesCommand(context);
+	registerCheckArchitectureCommand(context);
+	registerAskCodebaseCommand(context);
+	registerConfigureMcpServerCommand(context);
 	
 	// Initialize file watcher
 	setupFileWatcher(context);
@@ -0,0 +1,66 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ArchitectureReport } from '@/features/architecture/architecture-service';
+
+// Created on first use, so the Problems panel only gets an architecture source once the layers have been checked
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+// Files with violation diagnostics, per workspace root, so a root can be refreshed without touching the others
+const filesByRoot = new Map<string, vscode.Uri[]>();
+
+/**
+ * Shows architecture violations as errors in the Problems panel
+ */
+export const ArchitectureDiagnostics = {
+  /**
+   * Checks if a root's violations are shown, so they are kept up to date as the index changes
+   * @param rootPath - The workspace root path
+   * @returns Whether the root has been checked against its architecture
+   */
+  isTracking(rootPath: string): boolean {
+    return filesByRoot.has(rootPath);
+  },
+
+  /**
+   * Replaces the violation diagnostics of a root, one on the line of each offending reference
+   * @param rootPath - The workspace root path
+   * @param report - The architecture report of the root
+   */
+  update(rootPath: string, report: ArchitectureReport): void {
+    diagnosticCollection ??= vscode.languages.createDiagnosticCollection('cursorcrawl-architecture');
+    const collection = diagnosticCollection;
+    filesByRoot.get(rootPath)?.forEach(uri => collection.delete(uri));
+
+    const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+    for (const violation of report.violations) {
+      // Index lines are 1-based, editor lines 0-based
+      const line = Math.max(violation.line - 1, 0);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+        `Layer "${violation.fromLayer}" may not depend on layer "${violation.toLayer}": ` +
+        `${violation.fromSymbol} ${violation.kind ?? 'uses'} ${violation.toSymbol} from ${violation.toFile}`,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = 'CursorCrawl';
+      const diagnostics = diagnosticsByFile.get(violation.fromFile) ?? [];
+      diagnostics.push(diagnostic);
+      diagnosticsByFile.set(violation.fromFile, diagnostics);
+    }
+
+    const uris = [...diagnosticsByFile.entries()].map(([filePath, diagnostics]) => {
+      const uri = vscode.Uri.file(path.join(rootPath, filePath));
+      collection.set(uri, diagnostics);
+      return uri;
+    });
+    filesByRoot.set(rootPath, uris);
+  },
+
+  /**
+   * Removes the diagnostics of every root
+   */
+  dispose(): void {
+    diagnosticCollection?.dispose();
+    diagnosticCollection = undefined;
+    filesByRoot.clear();
+  }
+};
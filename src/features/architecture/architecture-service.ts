@@ -0,0 +1,283 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { DependencyKind, SymbolIndex } from '@/shared/types/symbol-index';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+import { matchesGlob } from '@/shared/utils/glob';
+
+const ARCHITECTURE_CONFIG_FILENAME = 'architecture.json';
+const ARCHITECTURE_VIOLATIONS_FILENAME = 'architecture-violations.json';
+
+/**
+ * A layer of the architecture
+ */
+export interface ArchitectureLayer {
+  /**
+   * Name of the layer, used in `mayDependOn`
+   */
+  name: string;
+
+  /**
+   * Globs of the files in the layer, relative to the workspace root, e.g. `src/shared/**`
+   */
+  patterns: string[];
+
+  /**
+   * Layers this layer may depend on besides itself. Omitted when the layer may depend on anything
+   */
+  mayDependOn?: string[];
+
+  /**
+   * What belongs in the layer, shown in the generated cursor rule
+   */
+  description?: string;
+}
+
+/**
+ * Contents of `.cursorcrawl/architecture.json`
+ * Files are in the first layer with a matching pattern; files in no layer are not checked
+ */
+export interface ArchitectureConfig {
+  layers: ArchitectureLayer[];
+}
+
+/**
+ * A dependency edge crossing from a layer into a layer it may not depend on
+ */
+export interface ArchitectureViolation {
+  fromFile: string;
+  fromSymbol: string;
+  fromLayer: string;
+  toFile: string;
+  toSymbol: string;
+  toLayer: string;
+  line: number;
+  kind?: DependencyKind;
+}
+
+/**
+ * Output format of the architecture check
+ */
+export interface ArchitectureReport {
+  violations: ArchitectureViolation[];
+}
+
+// Starter config for the usual commands -> features -> shared layout
+const EXAMPLE_ARCHITECTURE_CONFIG: ArchitectureConfig = {
+  layers: [
+    {
+      name: 'commands',
+      patterns: ['src/commands/**'],
+      mayDependOn: ['features', 'shared'],
+      description: 'Editor commands, wiring features to the UI'
+    },
+    {
+      name: 'features',
+      patterns: ['src/features/**'],
+      mayDependOn: ['shared'],
+      description: 'One directory per feature'
+    },
+    {
+      name: 'shared',
+      patterns: ['src/shared/**'],
+      mayDependOn: [],
+      description: 'Services, types and utilities used across features'
+    }
+  ]
+};
+
+/**
+ * Service for checking dependency edges against the layers declared in `.cursorcrawl/architecture.json`
+ */
+export const ArchitectureService = {
+  /**
+   * Gets the path of the architecture config
+   * @param rootPath - The workspace root path
+   * @returns The config file path
+   */
+  getConfigPath(rootPath: string): string {
+    return path.join(WorkspaceService.getCursorCrawlDir(rootPath), ARCHITECTURE_CONFIG_FILENAME);
+  },
+
+  /**
+   * Gets the path of the violations report
+   * @param rootPath - The workspace root path
+   * @returns The report file path
+   */
+  getResultsPath(rootPath: string): string {
+    return path.join(WorkspaceService.getCursorCrawlDir(rootPath), ARCHITECTURE_VIOLATIONS_FILENAME);
+  },
+
+  /**
+   * Reads the architecture config
+   * @param rootPath - The workspace root path
+   * @returns The config, or undefined if the workspace doesn't declare one
+   * @throws Error if the config isn't valid
+   */
+  async readConfig(rootPath: string): Promise<ArchitectureConfig | undefined> {
+    const configPath = this.getConfigPath(rootPath);
+    if (!await fs.pathExists(configPath)) {
+      return undefined;
+    }
+
+    const config = await fs.readJson(configPath);
+    this.validateConfig(config);
+    return config;
+  },
+
+  /**
+   * Checks that a parsed config declares named layers with patterns, and only refers to declared layers
+   * @param config - The parsed config
+   * @throws Error describing the first problem found
+   */
+  validateConfig(config: ArchitectureConfig): void {
+    if (!Array.isArray(config?.layers)) {
+      throw new Error(`${ARCHITECTURE_CONFIG_FILENAME} must have a "layers" array`);
+    }
+
+    const names = new Set(config.layers.map(layer => layer.name));
+    for (const layer of config.layers) {
+      if (typeof layer.name !== 'string' || !Array.isArray(layer.patterns)) {
+        throw new Error(`Every layer in ${ARCHITECTURE_CONFIG_FILENAME} needs a "name" and a "patterns" array`);
+      }
+      const unknown = layer.mayDependOn?.find(name => !names.has(name));
+      if (unknown) {
+        throw new Error(`Layer "${layer.name}" may depend on "${unknown}", which is not a layer in ${ARCHITECTURE_CONFIG_FILENAME}`);
+      }
+    }
+  },
+
+  /**
+   * Writes the starter config, for the commands -> features -> shared layout
+   * @param rootPath - The workspace root path
+   * @returns The config file path
+   */
+  async writeExampleConfig(rootPath: string): Promise<string> {
+    await WorkspaceService.ensureCursorCrawlDir(rootPath);
+    const configPath = this.getConfigPath(rootPath);
+    await fs.writeJson(configPath, EXAMPLE_ARCHITECTURE_CONFIG, { spaces: 2 });
+    return configPath;
+  },
+
+  /**
+   * Finds the layer of a file
+   * @param config - The architecture config
+   * @param filePath - Path of the file relative to the workspace root
+   * @returns The first layer with a matching pattern, or undefined if the file is in none
+   */
+  getLayer(config: ArchitectureConfig, filePath: string): ArchitectureLayer | undefined {
+    return config.layers.find(layer => layer.patterns.some(pattern => matchesGlob(filePath, pattern)));
+  },
+
+  /**
+   * Checks every dependency edge of the symbol index against the layers
+   * @param symbolIndex - The symbol index
+   * @param config - The architecture config
+   * @returns The violations, in file and line order
+   */
+  findViolations(symbolIndex: SymbolIndex, config: ArchitectureConfig): ArchitectureViolation[] {
+    const layerCache = new Map<string, ArchitectureLayer | undefined>();
+    const getLayer = (filePath: string) => {
+      if (!layerCache.has(filePath)) {
+        layerCache.set(filePath, this.getLayer(config, filePath));
+      }
+      return layerCache.get(filePath);
+    };
+
+    const violations: ArchitectureViolation[] = [];
+    for (const filePath of Object.keys(symbolIndex)) {
+      const fromLayer = getLayer(filePath);
+      if (!fromLayer?.mayDependOn) {
+        continue;
+      }
+
+      for (const symbol of symbolIndex[filePath]) {
+        // Other roots have their own architecture
+        for (const dependency of symbol.depends_on) {
+          const toLayer = !dependency.root && getLayer(dependency.filePath);
+          if (!toLayer || toLayer === fromLayer || fromLayer.mayDependOn.includes(toLayer.name)) {
+            continue;
+          }
+          violations.push({
+            fromFile: filePath,
+            fromSymbol: symbol.name,
+            fromLayer: fromLayer.name,
+            toFile: dependency.filePath,
+            toSymbol: dependency.name,
+            toLayer: toLayer.name,
+            line: dependency.line,
+            ...(dependency.kind ? { kind: dependency.kind } : {})
+          });
+        }
+      }
+    }
+
+    return violations.sort((a, b) => a.fromFile.localeCompare(b.fromFile) || a.line - b.line);
+  },
+
+  /**
+   * Renders the layers as an always-applied cursor rule
+   * @param config - The architecture config
+   * @returns The rule content, without the front matter
+   */
+  renderRule(config: ArchitectureConfig): string {
+    const lines: string[] = [
+      '# Architecture',
+      '',
+      'The code is organized in layers. Keep new code in the right layer, and only add dependencies in the allowed directions.',
+      'If a change needs a dependency that is not allowed, move the shared code down into a layer both sides may depend on instead.',
+      ''
+    ];
+
+    for (const layer of config.layers) {
+      lines.push(`## ${layer.name}`, '');
+      if (layer.description) {
+        lines.push(layer.description, '');
+      }
+      lines.push(`- Files: ${layer.patterns.map(pattern => `\`${pattern}\``).join(', ')}`);
+
+      if (!layer.mayDependOn) {
+        lines.push('- May depend on any layer');
+      } else {
+        const allowed = layer.mayDependOn.map(name => `\`${name}\``);
+        const forbidden = config.layers
+          .filter(other => other !== layer && !layer.mayDependOn!.includes(other.name))
+          .map(other => `\`${other.name}\``);
+        lines.push(`- May depend on: ${allowed.length > 0 ? allowed.join(', ') : 'nothing outside this layer'}`);
+        if (forbidden.length > 0) {
+          lines.push(`- Must not import from: ${forbidden.join(', ')}`);
+        }
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  },
+
+  /**
+   * Checks the symbol index against the architecture config and saves the violations
+   * @param rootPath - The workspace root path
+   * @param progressCallback - Optional callback for progress updates
+   * @returns The report and the path of the report file
+   * @throws Error if the workspace has no architecture config
+   */
+  async checkArchitecture(
+    rootPath: string,
+    progressCallback?: (message: string) => void
+  ): Promise<{ report: ArchitectureReport; outputPath: string }> {
+    const config = await this.readConfig(rootPath);
+    if (!config) {
+      throw new Error(`No architecture config found. Declare the layers in ${this.getConfigPath(rootPath)}`);
+    }
+    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(rootPath);
+
+    progressCallback?.(`Checking dependency edges against ${config.layers.length} layers...`);
+    const report: ArchitectureReport = { violations: this.findViolations(symbolIndex, config) };
+
+    progressCallback?.(`Writing results (${report.violations.length} violations) to JSON file`);
+    const outputPath = this.getResultsPath(rootPath);
+    await fs.writeJson(outputPath, report, { spaces: 2 });
+
+    return { report, outputPath };
+  }
+};
@@ -0,0 +1,466 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { SymbolIndex } from '@/shared/types/symbol-index';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { SymbolStoreService } from '@/shared/services/symbol-store-service';
+import { DuplicateAnalysisEntry, MergeJsonService } from '@/features/merge-json/merge-json-service';
+
+// Constants
+const CODE_GRAPH_DIRNAME = 'code-graph.kuzu';
+const CODE_GRAPH_BUILD_INFO_FILENAME = 'code-graph-build.json';
+
+const SCHEMA_STATEMENTS = [
+  'CREATE NODE TABLE File(path STRING, PRIMARY KEY (path))',
+  'CREATE NODE TABLE Symbol(id STRING, name STRING, type STRING, filePath STRING, line INT64, docstring STRING, duplicateScore INT64, PRIMARY KEY (id))',
+  'CREATE REL TABLE DEFINED_IN(FROM Symbol TO File)',
+  'CREATE REL TABLE DEPENDS_ON(FROM Symbol TO Symbol, line INT64)',
+  'CREATE REL TABLE DUPLICATE_OF(FROM Symbol TO Symbol, score INT64)'
+];
+
+/**
+ * The parts of the kuzu Node.js API used by the code graph
+ * kuzu is a native addon that isn't available on every platform, so it is loaded lazily
+ */
+interface KuzuQueryResult {
+  getAll(): Promise<Record<string, unknown>[]>;
+  close(): void;
+}
+
+interface KuzuPreparedStatement {
+  isSuccess(): boolean;
+  getErrorMessage(): string;
+}
+
+interface KuzuConnection {
+  query(statement: string): Promise<KuzuQueryResult | KuzuQueryResult[]>;
+  prepare(statement: string): Promise<KuzuPreparedStatement>;
+  execute(statement: KuzuPreparedStatement, params?: Record<string, unknown>): Promise<KuzuQueryResult>;
+  close(): Promise<void>;
+}
+
+interface KuzuDatabase {
+  close(): Promise<void>;
+}
+
+interface KuzuModule {
+  Database: new (databasePath: string) => KuzuDatabase;
+  Connection: new (database: KuzuDatabase) => KuzuConnection;
+}
+
+/**
+ * Result of a Cypher query against the code graph
+ */
+export interface CodeGraphQueryResult {
+  /**
+   * Column names in the order they were returned
+   */
+  columns: string[];
+
+  /**
+   * Result rows keyed by column name
+   */
+  rows: Record<string, unknown>[];
+}
+
+// Open graph databases, keyed by workspace root
+const openGraphs = new Map<string, { database: KuzuDatabase; connection: KuzuConnection }>();
+
+/**
+ * Builds the graph id of a symbol
+ * @param filePath - Normalized path of the file containing the symbol
+ * @param name - Name of the symbol
+ * @returns The symbol id
+ */
+const getSymbolId = (filePath: string, name: string): string => `${filePath}:${name}`;
+
+/**
+ * Service for the optional embedded Kuzu graph of the symbol index
+ */
+export const CodeGraphService = {
+  /**
+   * Loads the kuzu module
+   * @returns The kuzu module
+   * @throws Error if kuzu isn't installed or can't be loaded on this platform
+   */
+  loadKuzu(): KuzuModule {
+    try {
+      return require('kuzu') as KuzuModule;
+    } catch (error) {
+      console.error('Error loading kuzu:', error);
+      throw new Error(
+        `The kuzu graph database is not available on ${process.platform}-${process.arch}. ` +
+        'Install the CursorCrawl VSIX built for this platform, or run "npm install kuzu" in the extension directory.'
+      );
+    }
+  },
+
+  /**
+   * Gets the path to the graph database
+   * @param rootPath - The workspace root path
+   * @returns The path to the database
+   */
+  getGraphPath(rootPath: string): string {
+    return path.join(WorkspaceService.getCursorCrawlDir(rootPath), CODE_GRAPH_DIRNAME);
+  },
+
+  /**
+   * Gets the path to the file recording when the graph was last built
+   * @param rootPath - The workspace root path
+   * @returns The path to the build info file
+   */
+  getBuildInfoPath(rootPath: string): string {
+    return path.join(WorkspaceService.getCursorCrawlDir(rootPath), CODE_GRAPH_BUILD_INFO_FILENAME);
+  },
+
+  /**
+   * Opens the graph database for a workspace
+   * @param rootPath - The workspace root path
+   * @returns The open connection
+   */
+  openGraph(rootPath: string): KuzuConnection {
+    const openGraph = openGraphs.get(rootPath);
+    if (openGraph) {
+      return openGraph.connection;
+    }
+
+    const kuzu = this.loadKuzu();
+    const database = new kuzu.Database(this.getGraphPath(rootPath));
+    const connection = new kuzu.Connection(database);
+    openGraphs.set(rootPath, { database, connection });
+
+    return connection;
+  },
+
+  /**
+   * Closes the graph database for a workspace if it is open
+   * @param rootPath - The workspace root path
+   */
+  async closeGraph(rootPath: string): Promise<void> {
+    const openGraph = openGraphs.get(rootPath);
+    if (!openGraph) {
+      return;
+    }
+
+    openGraphs.delete(rootPath);
+    await openGraph.connection.close();
+    await openGraph.database.close();
+  },
+
+  /**
+   * Runs a statement that doesn't return rows
+   * @param connection - The graph connection
+   * @param statement - The Cypher statement
+   */
+  async runStatement(connection: KuzuConnection, statement: string): Promise<void> {
+    const result = await connection.query(statement);
+    (Array.isArray(result) ? result : [result]).forEach(queryResult => queryResult.close());
+  },
+
+  /**
+   * Prepares a statement for repeated execution
+   * @param connection - The graph connection
+   * @param statement - The Cypher statement
+   * @returns A function executing the statement with parameters
+   */
+  async prepareStatement(
+    connection: KuzuConnection,
+    statement: string
+  ): Promise<(params: Record<string, unknown>) => Promise<void>> {
+    const prepared = await connection.prepare(statement);
+    if (!prepared.isSuccess()) {
+      throw new Error(`Failed to prepare statement: ${prepared.getErrorMessage()}`);
+    }
+
+    return async (params) => {
+      const result = await connection.execute(prepared, params);
+      result.close();
+    };
+  },
+
+  /**
+   * Reads the duplicate analysis, if any, to attach scores and DUPLICATE_OF edges
+   * @param rootPath - The workspace root path
+   * @returns The duplicate analysis entries
+   */
+  async readDuplicateAnalysis(rootPath: string): Promise<DuplicateAnalysisEntry[]> {
+    try {
+      const { duplicateAnalysisPath } = MergeJsonService.getFilePaths(rootPath);
+      return await MergeJsonService.readStoredDuplicateAnalysis(rootPath, duplicateAnalysisPath);
+    } catch {
+      // The graph is still useful without duplicate analysis
+      return [];
+    }
+  },
+
+  /**
+   * Rebuilds the graph database from a symbol index
+   * @param rootPath - The workspace root path
+   * @param symbolIndex - The symbol index
+   * @param progress - Optional progress reporter
+   */
+  async buildGraph(
+    rootPath: string,
+    symbolIndex: SymbolIndex,
+    progress?: { report: (info: { message: string }) => void }
+  ): Promise<void> {
+    // Fail before touching the existing graph if kuzu can't be loaded
+    this.loadKuzu();
+
+    await this.closeGraph(rootPath);
+    await fs.remove(this.getGraphPath(rootPath));
+    await WorkspaceService.ensureCursorCrawlDir(rootPath);
+
+    const connection = this.openGraph(rootPath);
+
+    progress?.report({ message: 'Creating code graph schema...' });
+    for (const statement of SCHEMA_STATEMENTS) {
+      await this.runStatement(connection, statement);
+    }
+
+    const duplicateAnalysis = await this.readDuplicateAnalysis(rootPath);
+    const duplicateScores = new Map<string, number>();
+    for (const entry of duplicateAnalysis) {
+      duplicateScores.set(getSymbolId(entry.filePath, entry.name), entry.score);
+    }
+
+    const createFile = await this.prepareStatement(connection, 'CREATE (:File {path: $path})');
+    const createSymbol = await this.prepareStatement(
+      connection,
+      'CREATE (:Symbol {id: $id, name: $name, type: $type, filePath: $filePath, line: $line, docstring: $docstring, duplicateScore: $duplicateScore})'
+    );
+    const createDefinedIn = await this.prepareStatement(
+      connection,
+      'MATCH (s:Symbol {id: $symbolId}), (f:File {path: $path}) CREATE (s)-[:DEFINED_IN]->(f)'
+    );
+    const createDependsOn = await this.prepareStatement(
+      connection,
+      'MATCH (a:Symbol {id: $fromId}), (b:Symbol {id: $toId}) CREATE (a)-[:DEPENDS_ON {line: $line}]->(b)'
+    );
+    const createDuplicateOf = await this.prepareStatement(
+      connection,
+      'MATCH (a:Symbol {id: $fromId}), (b:Symbol {id: $toId}) CREATE (a)-[:DUPLICATE_OF {score: $score}]->(b)'
+    );
+
+    // Insert everything in one transaction; committing each row separately is very slow
+    await this.runStatement(connection, 'BEGIN TRANSACTION');
+    try {
+      await this.insertGraphData(
+        symbolIndex,
+        duplicateAnalysis,
+        { createFile, createSymbol, createDefinedIn, createDependsOn, createDuplicateOf },
+        duplicateScores,
+        progress
+      );
+      await this.runStatement(connection, 'COMMIT');
+    } catch (error) {
+      await this.runStatement(connection, 'ROLLBACK');
+      throw error;
+    }
+
+    await fs.writeJson(this.getBuildInfoPath(rootPath), {
+      builtAt: Date.now(),
+      files: Object.keys(symbolIndex).length
+    }, { spaces: 2 });
+
+    console.log(`Code graph built at ${this.getGraphPath(rootPath)}`);
+  },
+
+  /**
+   * Inserts the nodes and edges of the graph
+   * @param symbolIndex - The symbol index
+   * @param duplicateAnalysis - The duplicate analysis entries
+   * @param statements - Prepared insert statements
+   * @param duplicateScores - Duplicate scores keyed by symbol id
+   * @param progress - Optional progress reporter
+   */
+  async insertGraphData(
+    symbolIndex: SymbolIndex,
+    duplicateAnalysis: DuplicateAnalysisEntry[],
+    statements: Record<
+      'createFile' | 'createSymbol' | 'createDefinedIn' | 'createDependsOn' | 'createDuplicateOf',
+      (params: Record<string, unknown>) => Promise<void>
+    >,
+    duplicateScores: Map<string, number>,
+    progress?: { report: (info: { message: string }) => void }
+  ): Promise<void> {
+    const { createFile, createSymbol, createDefinedIn, createDependsOn, createDuplicateOf } = statements;
+
+    // First pass: nodes and DEFINED_IN edges
+    progress?.report({ message: 'Adding files and symbols to code graph...' });
+    const symbolIds = new Set<string>();
+    for (const [filePath, entries] of Object.entries(symbolIndex)) {
+      await createFile({ path: filePath });
+
+      for (const entry of entries) {
+        const id = getSymbolId(filePath, entry.name);
+        // Overloads and redeclarations share an id, keep the first one
+        if (symbolIds.has(id)) {
+          continue;
+        }
+        symbolIds.add(id);
+
+        await createSymbol({
+          id,
+          name: entry.name,
+          type: entry.type,
+          filePath,
+          line: entry.location.line,
+          docstring: entry.docstring,
+          duplicateScore: duplicateScores.get(id) ?? 0
+        });
+        await createDefinedIn({ symbolId: id, path: filePath });
+      }
+    }
+
+    // Second pass: DEPENDS_ON edges between symbols that exist in the graph
+    progress?.report({ message: 'Adding dependency edges to code graph...' });
+    const dependencyEdges = new Set<string>();
+    for (const [filePath, entries] of Object.entries(symbolIndex)) {
+      for (const entry of entries) {
+        const fromId = getSymbolId(filePath, entry.name);
+
+        for (const dependency of entry.depends_on) {
+          // The graph covers one workspace root, so edges into other roots have no target node
+          if (dependency.root) {
+            continue;
+          }
+
+          const toId = getSymbolId(dependency.filePath, dependency.name);
+          const edgeKey = `${fromId}->${toId}`;
+          if (!symbolIds.has(toId) || dependencyEdges.has(edgeKey)) {
+            continue;
+          }
+          dependencyEdges.add(edgeKey);
+
+          await createDependsOn({ fromId, toId, line: dependency.line });
+        }
+      }
+    }
+
+    // Third pass: DUPLICATE_OF edges from the duplicate analysis
+    progress?.report({ message: 'Adding duplicate edges to code graph...' });
+    for (const entry of duplicateAnalysis) {
+      if (!entry.duplicateName || !entry.duplicateFilePath) {
+        continue;
+      }
+
+      const fromId = getSymbolId(entry.filePath, entry.name);
+      const toId = getSymbolId(entry.duplicateFilePath, entry.duplicateName);
+      if (fromId === toId || !symbolIds.has(fromId) || !symbolIds.has(toId)) {
+        continue;
+      }
+
+      await createDuplicateOf({ fromId, toId, score: entry.score });
+    }
+
+    console.log(`Added ${symbolIds.size} symbols and ${dependencyEdges.size} dependency edges to the code graph`);
+  },
+
+  /**
+   * Determines if the graph is missing or older than the symbol store or duplicate analysis
+   * @param rootPath - The workspace root path
+   * @returns Whether the graph needs to be rebuilt
+   */
+  async isGraphStale(rootPath: string): Promise<boolean> {
+    const buildInfoPath = this.getBuildInfoPath(rootPath);
+    if (!await fs.pathExists(buildInfoPath) || !await fs.pathExists(this.getGraphPath(rootPath))) {
+      return true;
+    }
+
+    const { builtAt } = await fs.readJson(buildInfoPath) as { builtAt: number };
+    const { duplicateAnalysisPath } = MergeJsonService.getFilePaths(rootPath);
+
+    for (const sourcePath of [SymbolStoreService.getStorePath(rootPath), duplicateAnalysisPath]) {
+      if (await fs.pathExists(sourcePath) && (await fs.stat(sourcePath)).mtimeMs > builtAt) {
+        return true;
+      }
+    }
+
+    return false;
+  },
+
+  /**
+   * Rebuilds the graph from the stored symbol index if it is out of date
+   * @param rootPath - The workspace root path
+   * @param progress - Optional progress reporter
+   */
+  async ensureGraph(
+    rootPath: string,
+    progress?: { report: (info: { message: string }) => void }
+  ): Promise<void> {
+    if (!await this.isGraphStale(rootPath)) {
+      return;
+    }
+
+    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(
+      rootPath,
+      'Symbol index not found. Please build it first using the "Build Symbol Index" command.'
+    );
+
+    await this.buildGraph(rootPath, symbolIndex, progress);
+  },
+
+  /**
+   * Runs a Cypher query against the code graph, building the graph first if needed
+   * @param rootPath - The workspace root path
+   * @param cypher - The Cypher query
+   * @param progress - Optional progress reporter
+   * @returns The query result
+   */
+  async query(
+    rootPath: string,
+    cypher: string,
+    progress?: { report: (info: { message: string }) => void }
+  ): Promise<CodeGraphQueryResult> {
+    await this.ensureGraph(rootPath, progress);
+
+    progress?.report({ message: 'Running query...' });
+    const connection = this.openGraph(rootPath);
+    const results = await connection.query(cypher);
+
+    // Multiple statements return one result each; the last one is what the user asked for
+    const resultList = Array.isArray(results) ? results : [results];
+    const rows = await resultList[resultList.length - 1].getAll();
+    resultList.forEach(result => result.close());
+
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    return { columns, rows };
+  },
+
+  /**
+   * Formats a query result as a markdown table
+   * @param cypher - The query that produced the result
+   * @param result - The query result
+   * @returns The markdown document
+   */
+  formatResultAsMarkdown(cypher: string, result: CodeGraphQueryResult): string {
+    const formatCell = (value: unknown): string => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value, (_key, v) =>
+        typeof v === 'bigint' ? v.toString() : v
+      ) ?? '';
+      return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    };
+
+    const lines = [
+      '# Code Graph Query',
+      '',
+      '```cypher',
+      cypher,
+      '```',
+      '',
+      `${result.rows.length} row${result.rows.length === 1 ? '' : 's'}`,
+      ''
+    ];
+
+    if (result.columns.length > 0) {
+      lines.push(
+        `| ${result.columns.join(' | ')} |`,
+        `| ${result.columns.map(() => '---').join(' | ')} |`,
+        ...result.rows.map(row => `| ${result.columns.map(column => formatCell(row[column])).join(' | ')} |`)
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+};
@@ -0,0 +1,312 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ChatTurn, CodebaseChatService } from './codebase-chat-service';
+
+/**
+ * Messages sent from the webview to the extension
+ */
+type ChatPanelRequest =
+  | { type: 'ask'; question: string }
+  | { type: 'openLocation'; filePath: string; line: number; character?: number }
+  | { type: 'clear' };
+
+/**
+ * A chat panel and the conversation held in it
+ */
+interface ChatSession {
+  panel: vscode.WebviewPanel;
+  conversation: ChatTurn[];
+}
+
+// One panel per workspace root, reused so the conversation survives running the command again
+const sessions = new Map<string, ChatSession>();
+
+/**
+ * Webview panel for asking questions about the codebase
+ */
+export const CodebaseChatPanel = {
+  /**
+   * Shows the chat panel of a workspace root, creating it if needed
+   * @param rootPath - The workspace root path
+   */
+  show(rootPath: string): void {
+    const existing = sessions.get(rootPath);
+    if (existing) {
+      existing.panel.reveal(vscode.ViewColumn.Beside);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'cursorcrawl.codebaseChat',
+      `Ask the Codebase: ${path.basename(rootPath)}`,
+      vscode.ViewColumn.Beside,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    const session: ChatSession = { panel, conversation: [] };
+    sessions.set(rootPath, session);
+
+    panel.webview.html = this.createHtml(crypto.randomBytes(16).toString('hex'), panel.webview.cspSource);
+
+    panel.webview.onDidReceiveMessage((message: ChatPanelRequest) => {
+      this.handleMessage(rootPath, session, message).catch(error => {
+        console.error('Error handling chat message:', error);
+      });
+    });
+
+    panel.onDidDispose(() => {
+      sessions.delete(rootPath);
+    });
+  },
+
+  /**
+   * Handles a message from the webview
+   * @param rootPath - The workspace root path
+   * @param session - The chat panel and its conversation
+   * @param message - The message
+   */
+  async handleMessage(rootPath: string, session: ChatSession, message: ChatPanelRequest): Promise<void> {
+    switch (message.type) {
+      case 'ask': {
+        try {
+          const result = await CodebaseChatService.askQuestion(rootPath, message.question, session.conversation);
+          session.conversation.push({ question: message.question, answer: result.answer });
+          await session.panel.webview.postMessage({ type: 'answer', ...result });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          await session.panel.webview.postMessage({ type: 'error', message: errorMessage });
+        }
+        break;
+      }
+      case 'openLocation':
+        await this.openLocation(rootPath, message.filePath, message.line, message.character ?? 0);
+        break;
+      case 'clear':
+        session.conversation = [];
+        break;
+    }
+  },
+
+  /**
+   * Opens the editor at a symbol location
+   * @param rootPath - The workspace root path
+   * @param filePath - Path of the file relative to the workspace root
+   * @param line - 1-based line number
+   * @param character - 0-based character offset
+   */
+  async openLocation(rootPath: string, filePath: string, line: number, character: number): Promise<void> {
+    const absolutePath = path.resolve(rootPath, filePath);
+
+    // Citations come from LLM output, so only open files inside the workspace
+    if (path.relative(rootPath, absolutePath).startsWith('..') || !await fs.pathExists(absolutePath)) {
+      vscode.window.showWarningMessage(`File not found in workspace: ${filePath}`);
+      return;
+    }
+
+    const position = new vscode.Position(Math.max(0, line - 1), character);
+    await vscode.window.showTextDocument(vscode.Uri.file(absolutePath), {
+      viewColumn: vscode.ViewColumn.One,
+      selection: new vscode.Range(position, position)
+    });
+  },
+
+  /**
+   * Creates the HTML content of the chat panel
+   * @param nonce - Nonce allowing the inline script to run
+   * @param cspSource - The webview's content security policy source
+   * @returns HTML content as string
+   */
+  createHtml(nonce: string, cspSource: string): string {
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Ask the Codebase</title>
+  <style>
+    body {
+      display: flex;
+      flex-direction: column;
+      height: 100vh;
+      margin: 0;
+      padding: 0;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background-color: var(--vscode-editor-background);
+    }
+
+    #messages {
+      flex: 1;
+      overflow-y: auto;
+      padding: 10px;
+    }
+
+    .message {
+      margin-bottom: 12px;
+      padding: 8px 10px;
+      border-radius: 4px;
+      white-space: pre-wrap;
+      line-height: 1.4;
+    }
+
+    .message.question {
+      background-color: var(--vscode-input-background);
+    }
+
+    .message.error {
+      color: var(--vscode-errorForeground);
+    }
+
+    .sources {
+      margin-top: 8px;
+      font-size: 0.9em;
+      opacity: 0.8;
+    }
+
+    a {
+      color: var(--vscode-textLink-foreground);
+      cursor: pointer;
+    }
+
+    form {
+      display: flex;
+      gap: 6px;
+      padding: 10px;
+      border-top: 1px solid var(--vscode-panel-border);
+    }
+
+    textarea {
+      flex: 1;
+      resize: vertical;
+      min-height: 40px;
+      font-family: inherit;
+      color: var(--vscode-input-foreground);
+      background-color: var(--vscode-input-background);
+      border: 1px solid var(--vscode-input-border, transparent);
+    }
+
+    button {
+      color: var(--vscode-button-foreground);
+      background-color: var(--vscode-button-background);
+      border: none;
+      padding: 4px 12px;
+      cursor: pointer;
+    }
+
+    button:disabled {
+      opacity: 0.5;
+    }
+  </style>
+</head>
+<body>
+  <div id="messages"></div>
+  <form id="ask-form">
+    <textarea id="question" placeholder="Ask a question about the codebase..."></textarea>
+    <button type="submit" id="ask">Ask</button>
+    <button type="button" id="clear">Clear</button>
+  </form>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const messages = document.getElementById('messages');
+    const questionInput = document.getElementById('question');
+    const askButton = document.getElementById('ask');
+
+    // Matches citations such as src/extension.ts:12
+    const citationPattern = /([\\w@.\\/-]+\\.[A-Za-z]+):(\\d+)/g;
+
+    function escapeHtml(text) {
+      return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
+
+    function linkCitations(text) {
+      return escapeHtml(text).replace(citationPattern, (match, filePath, line) =>
+        \`<a data-file="\${filePath}" data-line="\${line}">\${match}</a>\`
+      );
+    }
+
+    function addMessage(className, html) {
+      const element = document.createElement('div');
+      element.className = 'message ' + className;
+      element.innerHTML = html;
+      messages.appendChild(element);
+      messages.scrollTop = messages.scrollHeight;
+      return element;
+    }
+
+    function setBusy(busy) {
+      askButton.disabled = busy;
+      askButton.textContent = busy ? 'Thinking...' : 'Ask';
+    }
+
+    document.getElementById('ask-form').addEventListener('submit', event => {
+      event.preventDefault();
+      const question = questionInput.value.trim();
+      if (!question || askButton.disabled) {
+        return;
+      }
+
+      addMessage('question', escapeHtml(question));
+      questionInput.value = '';
+      setBusy(true);
+      vscode.postMessage({ type: 'ask', question });
+    });
+
+    questionInput.addEventListener('keydown', event => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        document.getElementById('ask-form').requestSubmit();
+      }
+    });
+
+    document.getElementById('clear').addEventListener('click', () => {
+      messages.innerHTML = '';
+      vscode.postMessage({ type: 'clear' });
+    });
+
+    messages.addEventListener('click', event => {
+      const link = event.target.closest('a[data-file]');
+      if (link) {
+        vscode.postMessage({
+          type: 'openLocation',
+          filePath: link.dataset.file,
+          line: Number(link.dataset.line),
+          character: link.dataset.character ? Number(link.dataset.character) : undefined
+        });
+      }
+    });
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      setBusy(false);
+
+      if (message.type === 'error') {
+        addMessage('error', escapeHtml(message.message));
+        return;
+      }
+
+      if (message.type === 'answer') {
+        const sourceLinks = message.sources.map(source =>
+          \`<a data-file="\${escapeHtml(source.filePath)}" data-line="\${source.line}" data-character="\${source.character}">\${escapeHtml(source.name)}</a>\`
+        ).join(', ');
+
+        addMessage(
+          'answer',
+          linkCitations(message.answer) +
+            (sourceLinks ? \`<div class="sources">Sources: \${sourceLinks}</div>\` : '')
+        );
+      }
+    });
+  </script>
+</body>
+</html>
+`;
+  }
+};
@@ -0,0 +1,266 @@
+import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { LlmService } from '@/shared/services/llm-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+
+// Configuration for symbol retrieval
+const CHAT_RETRIEVAL_CONFIG = {
+  // Symbols matched directly by the question before dependency expansion
+  seedSymbols: 8,
+  // Symbols sent to the LLM as context
+  contextSymbols: 12,
+  // Share of a seed's score passed to the symbols it depends on or that depend on it
+  dependencyProximityWeight: 0.5,
+  // Character limits for the context sent to the LLM
+  maxDocstringLength: 600,
+  maxSnippetLength: 800,
+  // Previous exchanges included so follow-up questions make sense
+  historyTurns: 3,
+};
+
+// Words too common to say anything about which symbols are relevant
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'get', 'how',
+  'i', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'this', 'that', 'to', 'what', 'when', 'where',
+  'which', 'who', 'why', 'with', 'you', 'we', 'our', 'there', 'used', 'use', 'code', 'codebase'
+]);
+
+/**
+ * A symbol retrieved as context for a question
+ */
+export interface ChatSource {
+  name: string;
+  type: string;
+  filePath: string;
+  line: number;
+  character: number;
+}
+
+/**
+ * A previous question and answer in the conversation
+ */
+export interface ChatTurn {
+  question: string;
+  answer: string;
+}
+
+/**
+ * The answer to a question, with the symbols it was based on
+ */
+export interface ChatAnswer {
+  answer: string;
+  sources: ChatSource[];
+}
+
+/**
+ * Truncates text to a maximum length
+ * @param text - The text to truncate
+ * @param maxLength - The maximum length
+ * @returns The truncated text
+ */
+const truncate = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+
+/**
+ * Service for answering questions about the codebase from the symbol index
+ * Relevant symbols are retrieved by name, docstring text and dependency proximity before calling the LLM
+ */
+export const CodebaseChatService = {
+  /**
+   * Splits text into lowercase search tokens, breaking camelCase and snake_case identifiers apart
+   * @param text - The text to tokenize
+   * @returns The tokens, without stop words
+   */
+  tokenize(text: string): string[] {
+    return text
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+  },
+
+  /**
+   * Computes the inverse document frequency of every docstring token
+   * @param entries - All symbol entries
+   * @returns Map of token to IDF weight
+   */
+  computeIdf(entries: SymbolIndexEntry[]): Map<string, number> {
+    const documentFrequency = new Map<string, number>();
+    for (const entry of entries) {
+      for (const token of new Set(this.tokenize(`${entry.name} ${entry.docstring}`))) {
+        documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+      }
+    }
+
+    const idf = new Map<string, number>();
+    for (const [token, frequency] of documentFrequency) {
+      idf.set(token, Math.log(1 + entries.length / frequency));
+    }
+    return idf;
+  },
+
+  /**
+   * Scores how well a symbol's name and docstring match the question
+   * @param entry - The symbol entry
+   * @param question - The raw question
+   * @param questionTokens - The tokenized question
+   * @param idf - IDF weights of the docstring tokens
+   * @returns The relevance score (0 if unrelated)
+   */
+  scoreEntry(
+    entry: SymbolIndexEntry,
+    question: string,
+    questionTokens: Set<string>,
+    idf: Map<string, number>
+  ): number {
+    let score = 0;
+
+    // Mentioning a symbol by name is the strongest signal
+    const shortName = entry.name.split('.').pop() ?? entry.name;
+    if (new RegExp(`\\b${shortName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(question)) {
+      score += 10;
+    }
+
+    const nameTokens = new Set(this.tokenize(entry.name));
+    const docstringTokens = new Set(this.tokenize(entry.docstring));
+    for (const token of questionTokens) {
+      const weight = idf.get(token) ?? 0;
+      if (nameTokens.has(token)) {
+        score += 2 * weight;
+      }
+      if (docstringTokens.has(token)) {
+        score += weight;
+      }
+    }
+
+    return score;
+  },
+
+  /**
+   * Retrieves the symbols most relevant to a question
+   * Direct matches are expanded to the symbols they depend on and the symbols that depend on them
+   * @param symbolIndex - The symbol index
+   * @param question - The question
+   * @returns The relevant symbols, most relevant first
+   */
+  retrieveSymbols(symbolIndex: SymbolIndex, question: string): SymbolIndexEntry[] {
+    const entries = Object.values(symbolIndex).flat();
+    const entriesById = new Map(entries.map(entry => [`${entry.filePath}:${entry.name}`, entry]));
+    const questionTokens = new Set(this.tokenize(question));
+    const idf = this.computeIdf(entries);
+
+    const scores = new Map<string, number>();
+    for (const entry of entries) {
+      const score = this.scoreEntry(entry, question, questionTokens, idf);
+      if (score > 0) {
+        scores.set(`${entry.filePath}:${entry.name}`, score);
+      }
+    }
+
+    const seeds = [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, CHAT_RETRIEVAL_CONFIG.seedSymbols);
+
+    // Neighbours in the dependency graph inherit part of the seed's score
+    for (const [seedId, seedScore] of seeds) {
+      const seed = entriesById.get(seedId);
+      if (!seed) {
+        continue;
+      }
+
+      const neighbourIds = [
+        ...seed.depends_on.map(dep => `${dep.filePath}:${dep.name}`),
+        ...seed.dependents.map(dep => `${dep.filePath}:${dep.name}`)
+      ];
+      for (const neighbourId of new Set(neighbourIds)) {
+        if (entriesById.has(neighbourId)) {
+          const proximityScore = seedScore * CHAT_RETRIEVAL_CONFIG.dependencyProximityWeight;
+          scores.set(neighbourId, (scores.get(neighbourId) ?? 0) + proximityScore);
+        }
+      }
+    }
+
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, CHAT_RETRIEVAL_CONFIG.contextSymbols)
+      .map(([id]) => entriesById.get(id))
+      .filter((entry): entry is SymbolIndexEntry => !!entry);
+  },
+
+  /**
+   * Formats a retrieved symbol as context for the LLM
+   * @param entry - The symbol entry
+   * @returns The formatted context block
+   */
+  formatSymbolContext(entry: SymbolIndexEntry): string {
+    const dependsOn = entry.depends_on.map(dep => dep.name).join(', ');
+    const dependents = entry.dependents.map(dep => dep.name).join(', ');
+
+    return [
+      `### ${entry.type} ${entry.name} (${entry.filePath}:${entry.location.line})`,
+      `Docstring: ${truncate(entry.docstring, CHAT_RETRIEVAL_CONFIG.maxDocstringLength)}`,
+      dependsOn ? `Depends on: ${dependsOn}` : '',
+      dependents ? `Used by: ${dependents}` : '',
+      '```typescript',
+      truncate(entry.snippet, CHAT_RETRIEVAL_CONFIG.maxSnippetLength),
+      '```'
+    ].filter(line => line !== '').join('\n');
+  },
+
+  /**
+   * Creates the prompt for a question
+   * @param question - The question
+   * @param symbols - The retrieved symbols
+   * @param history - Previous turns of the conversation
+   * @returns The prompt
+   */
+  createPrompt(question: string, symbols: SymbolIndexEntry[], history: ChatTurn[]): string {
+    const historyText = history
+      .slice(-CHAT_RETRIEVAL_CONFIG.historyTurns)
+      .map(turn => `Q: ${turn.question}\nA: ${turn.answer}`)
+      .join('\n\n');
+
+    return `
+Answer the question about this codebase using the symbols below.
+
+${symbols.length > 0 ? symbols.map(symbol => this.formatSymbolContext(symbol)).join('\n\n') : 'No matching symbols were found in the symbol index.'}
+${historyText ? `\nPrevious conversation:\n${historyText}\n` : ''}
+Question: ${question}
+
+Cite every symbol you rely on as filePath:line exactly as given in its heading (for example src/extension.ts:12).
+If the symbols above are not enough to answer, say so instead of guessing.
+`;
+  },
+
+  /**
+   * Answers a question about the codebase
+   * @param rootPath - The workspace root path
+   * @param question - The question
+   * @param history - Previous turns of the conversation
+   * @returns The answer and the symbols it was based on
+   */
+  async askQuestion(rootPath: string, question: string, history: ChatTurn[] = []): Promise<ChatAnswer> {
+    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(
+      rootPath,
+      'Symbol index not found. Please build it first using the "Build Symbol Index" command.'
+    );
+    const symbols = this.retrieveSymbols(symbolIndex, question);
+
+    const provider = LlmService.createProviderForWorkspace(rootPath);
+    const answer = await LlmService.withRetry(() => provider.complete({
+      system: 'You are an expert software engineer answering questions about a TypeScript codebase. Be concise and cite the symbols you use.',
+      prompt: this.createPrompt(question, symbols, history),
+      temperature: 0.2
+    }));
+
+    return {
+      answer,
+      sources: symbols.map(symbol => ({
+        name: symbol.name,
+        type: symbol.type,
+        filePath: symbol.filePath,
+        line: symbol.location.line,
+        character: symbol.location.character
+      }))
+    };
+  }
+};
@@ -118,7 +118,12 @@ export const RelevantInfoService = {
     };
     
     // Process the symbol index using the SymbolIndexAnalyzer
-    const analysisResult = SymbolIndexAnalyzer.analyzeSymbolIndex(symbolIndex, contextFiles);
+    const analysisResult = SymbolIndexAnalyzer.analyzeSymbolIndex(
+      symbolIndex,
+      contextFiles,
+      SymbolIndexService.isPublicApiOnly(),
+      SymbolIndexService.getContextEdgeKinds()
+    );
     
     // Assign dependency graph
     relevantInfo.dependencyGraph = analysisResult.dependencyInfo;
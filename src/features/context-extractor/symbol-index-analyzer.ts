@@ -1,5 +1,6 @@
-import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { DependencyKind, SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
 import { FileImportInfo } from '@/shared/types/relevant-info';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
 
 /**
  * Interface for the result of analyzing a symbol index
@@ -29,11 +30,15 @@ export const SymbolIndexAnalyzer = {
    * Analyzes a symbol index to extract relevant information
    * @param symbolIndex The complete symbol index
    * @param contextFiles Array of file paths to filter by
+   * @param publicApiOnly Whether to only keep the public API of the related files
+   * @param edgeKinds Only follow edges of these kinds to related files (all edges by default)
    * @returns Analysis result containing filtered index and dependency info
    */
   analyzeSymbolIndex(
     symbolIndex: SymbolIndex,
-    contextFiles: string[]
+    contextFiles: string[],
+    publicApiOnly: boolean = false,
+    edgeKinds?: DependencyKind[]
   ): SymbolIndexAnalysisResult {
     // Create a set of files we know we want to include
     const relevantFiles = new Set<string>(contextFiles);
@@ -46,11 +51,16 @@ export const SymbolIndexAnalyzer = {
     this.processDirectContextFiles(symbolIndex, contextFiles, filteredIndex, dependencyInfo);
     
     // Second pass: process references and build dependency relationships
-    this.processReferencesAndDependencies(symbolIndex, filteredIndex, dependencyInfo, relevantFiles);
+    this.processReferencesAndDependencies(symbolIndex, filteredIndex, dependencyInfo, relevantFiles, edgeKinds);
     
     // Third pass: consolidate and normalize results
     this.normalizeResults(filteredIndex, dependencyInfo);
     
+    // Fourth pass: the context files are kept whole, their related files only show what they export
+    if (publicApiOnly) {
+      this.filterPublicApi(filteredIndex, contextFiles);
+    }
+    
     return {
       filteredIndex,
       dependencyInfo,
@@ -92,7 +102,8 @@ export const SymbolIndexAnalyzer = {
     symbolIndex: SymbolIndex,
     filteredIndex: SymbolIndex,
     dependencyInfo: Record<string, FileImportInfo>,
-    relevantFiles: Set<string>
+    relevantFiles: Set<string>,
+    edgeKinds?: DependencyKind[]
   ): void {
     // Process each context file to find dependencies and dependents
     for (const filePath in filteredIndex) {
@@ -102,10 +113,10 @@ export const SymbolIndexAnalyzer = {
       
       for (const symbol of fileSymbols) {
         // Process dependencies (files this file imports from)
-        this.processDependencies(symbol, filePath, symbolIndex, filteredIndex, dependencyInfo, relevantFiles);
+        this.processDependencies(symbol, filePath, symbolIndex, filteredIndex, dependencyInfo, relevantFiles, edgeKinds);
         
         // Process dependents (files that import from this file)
-        this.processDependents(symbol, filePath, symbolIndex, filteredIndex, dependencyInfo, relevantFiles);
+        this.processDependents(symbol, filePath, symbolIndex, filteredIndex, dependencyInfo, relevantFiles, edgeKinds);
       }
     }
   },
@@ -119,11 +130,12 @@ export const SymbolIndexAnalyzer = {
     symbolIndex: SymbolIndex,
     filteredIndex: SymbolIndex,
     dependencyInfo: Record<string, FileImportInfo>,
-    relevantFiles: Set<string>
+    relevantFiles: Set<string>,
+    edgeKinds?: DependencyKind[]
   ): void {
     for (const dependency of symbol.depends_on || []) {
       const sourceFile = dependency.filePath;
-      if (!sourceFile || sourceFile === filePath) {continue;}
+      if (!sourceFile || sourceFile === filePath || !this.isFollowedEdge(dependency.kind, edgeKinds)) {continue;}
       
       // Add to the set of relevant files
       relevantFiles.add(sourceFile);
@@ -156,11 +168,12 @@ export const SymbolIndexAnalyzer = {
     symbolIndex: SymbolIndex,
     filteredIndex: SymbolIndex,
     dependencyInfo: Record<string, FileImportInfo>,
-    relevantFiles: Set<string>
+    relevantFiles: Set<string>,
+    edgeKinds?: DependencyKind[]
   ): void {
     for (const dependent of symbol.dependents || []) {
       const targetFile = dependent.filePath;
-      if (!targetFile || targetFile === filePath) {continue;}
+      if (!targetFile || targetFile === filePath || !this.isFollowedEdge(dependent.kind, edgeKinds)) {continue;}
       
       // Add to the set of relevant files
       relevantFiles.add(targetFile);
@@ -184,6 +197,14 @@ export const SymbolIndexAnalyzer = {
     }
   },
 
+  /**
+   * Checks if an edge leads to related files
+   * Edges from indexes built before edge kinds were recorded are always followed
+   */
+  isFollowedEdge(kind: DependencyKind | undefined, edgeKinds?: DependencyKind[]): boolean {
+    return !kind || !edgeKinds || edgeKinds.length === 0 || edgeKinds.includes(kind);
+  },
+
   /**
    * Add an import relationship to the dependency info
    */
@@ -250,6 +271,21 @@ export const SymbolIndexAnalyzer = {
     }
   },
 
+  /**
+   * Removes the symbols that aren't part of the public API from the related files
+   */
+  filterPublicApi(
+    filteredIndex: SymbolIndex,
+    contextFiles: string[]
+  ): void {
+    for (const filePath in filteredIndex) {
+      if (contextFiles.includes(filePath)) {continue;}
+      
+      const fileSymbols = filteredIndex[filePath];
+      filteredIndex[filePath] = fileSymbols.filter(symbol => SymbolIndexService.isPublicApi(symbol, fileSymbols));
+    }
+  },
+
   /**
    * Normalize and finalize the results
    */
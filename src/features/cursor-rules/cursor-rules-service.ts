@@ -0,0 +1,295 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { DuplicateAnalysisEntry, MergeJsonService } from '@/features/merge-json/merge-json-service';
+import { ArchitectureService } from '@/features/architecture/architecture-service';
+
+// Constants
+const CURSOR_RULES_DIR = path.join('.cursor', 'rules');
+const GENERATED_RULE_MARKER = '<!-- Generated by CursorCrawl. Manual edits will be overwritten. -->';
+const MIN_DUPLICATE_SCORE = 3;
+const MAX_SUMMARY_LENGTH = 200;
+// Prefixed so it can't clash with the rule of an `architecture` directory
+const ARCHITECTURE_RULE_NAME = 'cursorcrawl-architecture';
+
+/**
+ * Symbols grouped by the directory ("area") that contains them
+ */
+export interface RuleArea {
+  /**
+   * Directory path relative to the workspace root ('' for the root itself)
+   */
+  directory: string;
+
+  /**
+   * Name of the generated rule file without extension
+   */
+  name: string;
+
+  /**
+   * Symbols declared in the directory, keyed by file path
+   */
+  files: Record<string, SymbolIndexEntry[]>;
+}
+
+/**
+ * Service for generating .cursor/rules/*.mdc files from the symbol index
+ */
+export const CursorRulesService = {
+  /**
+   * Gets the path to the .cursor/rules directory
+   * @param rootPath - The workspace root path
+   * @returns The path to the rules directory
+   */
+  getRulesDir(rootPath: string): string {
+    return path.join(rootPath, CURSOR_RULES_DIR);
+  },
+
+  /**
+   * Converts a directory path to a rule file name
+   * @param directory - Directory path relative to the workspace root
+   * @returns A file-system safe rule name
+   */
+  getAreaName(directory: string): string {
+    if (!directory || directory === '.') {
+      return 'root';
+    }
+    return directory.replace(/[\\/]+/g, '-').replace(/[^\w.-]/g, '_');
+  },
+
+  /**
+   * Groups the public API of the symbol index by directory
+   * Module-private symbols can't be reused from another file, so the rules only list what each file exports
+   * @param symbolIndex - The symbol index
+   * @returns The rule areas, sorted by directory
+   */
+  groupByArea(symbolIndex: SymbolIndex): RuleArea[] {
+    const areas = new Map<string, RuleArea>();
+
+    for (const [filePath, entries] of Object.entries(symbolIndex)) {
+      const symbols = entries.filter(entry =>
+        entry.name !== '__file__' && SymbolIndexService.isPublicApi(entry, entries)
+      );
+      if (symbols.length === 0) {
+        continue;
+      }
+
+      const directory = path.posix.dirname(filePath) === '.' ? '' : path.posix.dirname(filePath);
+      let area = areas.get(directory);
+      if (!area) {
+        area = { directory, name: this.getAreaName(directory), files: {} };
+        areas.set(directory, area);
+      }
+      area.files[filePath] = symbols;
+    }
+
+    return [...areas.values()].sort((a, b) => a.directory.localeCompare(b.directory));
+  },
+
+  /**
+   * Reduces a JSDoc block to a single-line summary
+   * @param docstring - The JSDoc comment
+   * @returns The summary, or an empty string if the docstring has no description
+   */
+  summarizeDocstring(docstring: string): string {
+    const description = docstring
+      .replace(/^\s*\/\*\*/, '')
+      .replace(/\*\/\s*$/, '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\*\s?/, '').trim())
+      .join(' ')
+      .split(/\s@\w+/)[0]
+      .replace(/^@\w+.*/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return description.length > MAX_SUMMARY_LENGTH
+      ? `${description.substring(0, MAX_SUMMARY_LENGTH - 3)}...`
+      : description;
+  },
+
+  /**
+   * Reads the duplicate analysis if it exists and indexes it by symbol
+   * @param rootPath - The workspace root path
+   * @returns Map of "filePath|name" keys to duplicate analysis entries
+   */
+  async readDuplicateMap(rootPath: string): Promise<Map<string, DuplicateAnalysisEntry>> {
+    const duplicateMap = new Map<string, DuplicateAnalysisEntry>();
+    const { duplicateAnalysisPath } = MergeJsonService.getFilePaths(rootPath);
+
+    if (!await fs.pathExists(duplicateAnalysisPath)) {
+      return duplicateMap;
+    }
+
+    try {
+      const entries = await MergeJsonService.readDuplicateAnalysis(duplicateAnalysisPath);
+      for (const entry of entries) {
+        duplicateMap.set(`${entry.filePath}|${entry.name}`, entry);
+      }
+    } catch (error) {
+      console.error('Error reading duplicate analysis for cursor rules:', error);
+    }
+
+    return duplicateMap;
+  },
+
+  /**
+   * Renders the .mdc content for a single area
+   * @param area - The area to render
+   * @param duplicateMap - Duplicate analysis indexed by symbol
+   * @returns The rule file content
+   */
+  renderAreaRule(area: RuleArea, duplicateMap: Map<string, DuplicateAnalysisEntry>): string {
+    const displayDirectory = area.directory || 'the project root';
+    const glob = area.directory ? `${area.directory}/*` : '*';
+    const lines: string[] = [
+      '---',
+      `description: Existing symbols in ${displayDirectory}. Reuse these before writing new code here.`,
+      `globs: ${glob}`,
+      'alwaysApply: false',
+      '---',
+      GENERATED_RULE_MARKER,
+      '',
+      `# ${displayDirectory}`,
+      '',
+      'The symbols below already exist. Before writing a new function, class or type in this area,',
+      'check this list and reuse or extend the existing implementation instead of writing a new one.',
+      ''
+    ];
+
+    const duplicates: string[] = [];
+
+    for (const filePath of Object.keys(area.files).sort()) {
+      lines.push(`## ${filePath}`, '');
+
+      for (const symbol of area.files[filePath]) {
+        const summary = this.summarizeDocstring(symbol.docstring);
+        const signature = symbol.signature ? ` \`${symbol.signature}\`` : '';
+        lines.push(`- \`${symbol.name}\` (${symbol.type}, line ${symbol.location.line})${signature}${summary ? `: ${summary}` : ''}`);
+
+        const duplicate = duplicateMap.get(`${filePath}|${symbol.name}`);
+        if (duplicate && duplicate.score >= MIN_DUPLICATE_SCORE && duplicate.duplicateName) {
+          duplicates.push(
+            `- \`${symbol.name}\` (${filePath}) likely duplicates \`${duplicate.duplicateName}\`` +
+            `${duplicate.duplicateFilePath ? ` (${duplicate.duplicateFilePath})` : ''} - score ${duplicate.score}/5`
+          );
+        }
+      }
+
+      lines.push('');
+    }
+
+    if (duplicates.length > 0) {
+      lines.push(
+        '## Likely duplicates',
+        '',
+        'Do not add more copies of this logic. Prefer consolidating into one of the existing implementations.',
+        '',
+        ...duplicates,
+        ''
+      );
+    }
+
+    return lines.join('\n');
+  },
+
+  /**
+   * Renders the .mdc content for the architecture layers, applied to every request
+   * @param rootPath - The workspace root path
+   * @returns The rule file content, or undefined if the workspace has no valid architecture config
+   */
+  async renderArchitectureRule(rootPath: string): Promise<string | undefined> {
+    try {
+      const config = await ArchitectureService.readConfig(rootPath);
+      if (!config) {
+        return undefined;
+      }
+
+      return [
+        '---',
+        'description: Architecture layers and the directions dependencies may go in.',
+        'globs:',
+        'alwaysApply: true',
+        '---',
+        GENERATED_RULE_MARKER,
+        '',
+        ArchitectureService.renderRule(config)
+      ].join('\n');
+    } catch (error) {
+      console.error('Error reading architecture config for cursor rules:', error);
+      return undefined;
+    }
+  },
+
+  /**
+   * Removes previously generated rule files that are no longer produced
+   * @param rulesDir - The .cursor/rules directory
+   * @param keep - File names written during this run
+   */
+  async removeStaleRules(rulesDir: string, keep: Set<string>): Promise<void> {
+    const existing = await fs.readdir(rulesDir);
+
+    for (const file of existing) {
+      if (!file.endsWith('.mdc') || keep.has(file)) {
+        continue;
+      }
+
+      const filePath = path.join(rulesDir, file);
+      const content = await fs.readFile(filePath, 'utf8');
+      if (content.includes(GENERATED_RULE_MARKER)) {
+        await fs.remove(filePath);
+      }
+    }
+  },
+
+  /**
+   * Generates the .cursor/rules files from a symbol index
+   * @param rootPath - The workspace root path
+   * @param symbolIndex - The symbol index to generate rules from
+   * @returns The paths of the written rule files
+   */
+  async writeRules(rootPath: string, symbolIndex: SymbolIndex): Promise<string[]> {
+    const rulesDir = this.getRulesDir(rootPath);
+    await fs.ensureDir(rulesDir);
+
+    const duplicateMap = await this.readDuplicateMap(rootPath);
+    const written: string[] = [];
+    const fileNames = new Set<string>();
+
+    for (const area of this.groupByArea(symbolIndex)) {
+      const fileName = `${area.name}.mdc`;
+      const filePath = path.join(rulesDir, fileName);
+      await fs.writeFile(filePath, this.renderAreaRule(area, duplicateMap), 'utf8');
+      fileNames.add(fileName);
+      written.push(filePath);
+    }
+
+    const architectureRule = await this.renderArchitectureRule(rootPath);
+    if (architectureRule) {
+      const fileName = `${ARCHITECTURE_RULE_NAME}.mdc`;
+      const filePath = path.join(rulesDir, fileName);
+      await fs.writeFile(filePath, architectureRule, 'utf8');
+      fileNames.add(fileName);
+      written.push(filePath);
+    }
+
+    await this.removeStaleRules(rulesDir, fileNames);
+
+    return written;
+  },
+
+  /**
+   * Reads the symbol index and generates the .cursor/rules files
+   * @param rootPath - The workspace root path
+   * @returns The paths of the written rule files
+   */
+  async generateRules(rootPath: string): Promise<string[]> {
+    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(
+      rootPath,
+      'Symbol index not found. Please build it first using the "Build Symbol Index" command.'
+    );
+
+    return this.writeRules(rootPath, symbolIndex);
+  }
+};
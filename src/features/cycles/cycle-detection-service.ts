@@ -0,0 +1,292 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { DependencyKind, SymbolIndex } from '@/shared/types/symbol-index';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+
+const CYCLES_FILENAME = 'cycles.json';
+
+/**
+ * A dependency edge of a cycle, with the reference that creates it
+ */
+export interface CycleEdge {
+  fromFile: string;
+  fromSymbol: string;
+  toFile: string;
+  toSymbol: string;
+  line: number;
+  kind?: DependencyKind;
+}
+
+/**
+ * A cycle of files or symbols
+ * - nodes: the strongly connected component, as file paths or `<file>:<symbol>` keys
+ * - edges: the shortest loop through the component, in order, each edge leading to the next
+ */
+export interface DependencyCycle {
+  nodes: string[];
+  edges: CycleEdge[];
+}
+
+/**
+ * Output format of the cycle detection
+ */
+export interface CycleReport {
+  fileCycles: DependencyCycle[];
+  symbolCycles: DependencyCycle[];
+}
+
+/**
+ * Dependency graph as adjacency maps from each node to its successors, with the edge leading to each
+ */
+type CycleGraph = Map<string, Map<string, CycleEdge>>;
+
+/**
+ * Creates the key of a symbol node, the same as its dependency graph node ID
+ * @param filePath - Path of the symbol's file
+ * @param name - The symbol name
+ * @returns The key
+ */
+const getSymbolKey = (filePath: string, name: string): string => `${filePath}:${name}`;
+
+/**
+ * Adds an edge to a graph, keeping the earliest reference between the same two nodes
+ * @param graph - The graph
+ * @param from - The source node
+ * @param to - The target node
+ * @param edge - The edge
+ */
+const addEdge = (graph: CycleGraph, from: string, to: string, edge: CycleEdge): void => {
+  const successors = graph.get(from) ?? new Map<string, CycleEdge>();
+  graph.set(from, successors);
+  const existing = successors.get(to);
+  if (!existing || edge.line < existing.line) {
+    successors.set(to, edge);
+  }
+};
+
+/**
+ * Service for finding circular dependencies between files and between symbols
+ */
+export const CycleDetectionService = {
+  /**
+   * Gets the path of the cycle report
+   * @param rootPath - The workspace root path
+   * @returns The report file path
+   */
+  getResultsPath(rootPath: string): string {
+    return path.join(WorkspaceService.getCursorCrawlDir(rootPath), CYCLES_FILENAME);
+  },
+
+  /**
+   * Builds the file import graph, one edge per pair of files
+   * @param symbolIndex - The symbol index
+   * @returns The file graph
+   */
+  buildFileGraph(symbolIndex: SymbolIndex): CycleGraph {
+    const graph: CycleGraph = new Map();
+    for (const [filePath, fileSymbols] of Object.entries(symbolIndex)) {
+      for (const symbol of fileSymbols) {
+        // Edges into other roots can't close a cycle in this one
+        for (const dependency of symbol.depends_on) {
+          if (dependency.root || dependency.filePath === filePath) {
+            continue;
+          }
+          addEdge(graph, filePath, dependency.filePath, {
+            fromFile: filePath,
+            fromSymbol: symbol.name,
+            toFile: dependency.filePath,
+            toSymbol: dependency.name,
+            line: dependency.line,
+            ...(dependency.kind ? { kind: dependency.kind } : {})
+          });
+        }
+      }
+    }
+    return graph;
+  },
+
+  /**
+   * Builds the symbol dependency graph, one edge per pair of symbols
+   * A symbol referring to itself, like a recursive function, is not a cycle
+   * @param symbolIndex - The symbol index
+   * @returns The symbol graph
+   */
+  buildSymbolGraph(symbolIndex: SymbolIndex): CycleGraph {
+    const graph: CycleGraph = new Map();
+    for (const [filePath, fileSymbols] of Object.entries(symbolIndex)) {
+      for (const symbol of fileSymbols) {
+        const from = getSymbolKey(filePath, symbol.name);
+        for (const dependency of symbol.depends_on) {
+          const to = getSymbolKey(dependency.filePath, dependency.name);
+          if (dependency.root || to === from) {
+            continue;
+          }
+          addEdge(graph, from, to, {
+            fromFile: filePath,
+            fromSymbol: symbol.name,
+            toFile: dependency.filePath,
+            toSymbol: dependency.name,
+            line: dependency.line,
+            ...(dependency.kind ? { kind: dependency.kind } : {})
+          });
+        }
+      }
+    }
+    return graph;
+  },
+
+  /**
+   * Finds the strongly connected components of a graph with Tarjan's algorithm
+   * The depth-first search keeps its own stack, so long dependency chains can't overflow the call stack
+   * @param graph - The graph
+   * @returns The components, each in the order its nodes were visited
+   */
+  findStronglyConnectedComponents(graph: CycleGraph): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    const visit = (node: string) => {
+      indices.set(node, indices.size);
+      lowLinks.set(node, indices.get(node)!);
+      stack.push(node);
+      onStack.add(node);
+    };
+
+    for (const root of graph.keys()) {
+      if (indices.has(root)) {
+        continue;
+      }
+
+      visit(root);
+      const frames = [{ node: root, successors: [...(graph.get(root)?.keys() ?? [])], next: 0 }];
+
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1];
+
+        if (frame.next < frame.successors.length) {
+          const successor = frame.successors[frame.next++];
+          if (!indices.has(successor)) {
+            visit(successor);
+            frames.push({ node: successor, successors: [...(graph.get(successor)?.keys() ?? [])], next: 0 });
+          } else if (onStack.has(successor)) {
+            lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indices.get(successor)!));
+          }
+          continue;
+        }
+
+        frames.pop();
+        const parent = frames[frames.length - 1];
+        if (parent) {
+          lowLinks.set(parent.node, Math.min(lowLinks.get(parent.node)!, lowLinks.get(frame.node)!));
+        }
+
+        // A node that can't reach anything visited before it is the root of a component
+        if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.node);
+          components.push(component.reverse());
+        }
+      }
+    }
+
+    return components;
+  },
+
+  /**
+   * Finds the shortest loop from a node back to itself within its component
+   * @param graph - The graph
+   * @param component - The strongly connected component
+   * @param start - The node to start from
+   * @returns The edges of the loop, in order
+   */
+  findShortestLoop(graph: CycleGraph, component: Set<string>, start: string): CycleEdge[] {
+    const previous = new Map<string, string>();
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      for (const successor of graph.get(node)?.keys() ?? []) {
+        if (!component.has(successor) || previous.has(successor)) {
+          continue;
+        }
+        previous.set(successor, node);
+        if (successor === start) {
+          queue.length = 0;
+          break;
+        }
+        queue.push(successor);
+      }
+    }
+
+    // Walk back from the start node to the start node
+    const edges: CycleEdge[] = [];
+    let node = start;
+    do {
+      const predecessor = previous.get(node)!;
+      edges.push(graph.get(predecessor)!.get(node)!);
+      node = predecessor;
+    } while (node !== start);
+    return edges.reverse();
+  },
+
+  /**
+   * Finds the cycles of a graph, one per strongly connected component of more than one node
+   * @param graph - The graph
+   * @returns The cycles, starting from the alphabetically first node of each
+   */
+  findCycles(graph: CycleGraph): DependencyCycle[] {
+    return this.findStronglyConnectedComponents(graph)
+      .filter(component => component.length > 1)
+      .map(component => {
+        const nodes = [...component].sort();
+        return { nodes, edges: this.findShortestLoop(graph, new Set(component), nodes[0]) };
+      })
+      .sort((a, b) => a.nodes[0].localeCompare(b.nodes[0]));
+  },
+
+  /**
+   * Finds the file and symbol cycles of a symbol index
+   * @param symbolIndex - The symbol index
+   * @returns The cycle report
+   */
+  analyzeCycles(symbolIndex: SymbolIndex): CycleReport {
+    return {
+      fileCycles: this.findCycles(this.buildFileGraph(symbolIndex)),
+      symbolCycles: this.findCycles(this.buildSymbolGraph(symbolIndex))
+    };
+  },
+
+  /**
+   * Detects the cycles of the symbol index and saves the report
+   * @param rootPath - The workspace root path
+   * @param progressCallback - Optional callback for progress updates
+   * @returns The cycle report and the path of the report file
+   */
+  async detectCycles(
+    rootPath: string,
+    progressCallback?: (message: string) => void
+  ): Promise<{ report: CycleReport; outputPath: string }> {
+    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(rootPath);
+
+    progressCallback?.('Finding strongly connected files and symbols...');
+    const report = this.analyzeCycles(symbolIndex);
+
+    progressCallback?.(
+      `Writing results (${report.fileCycles.length} file cycles, ${report.symbolCycles.length} symbol cycles) to JSON file`
+    );
+    await WorkspaceService.ensureCursorCrawlDir(rootPath);
+    const outputPath = this.getResultsPath(rootPath);
+    await fs.writeJson(outputPath, report, { spaces: 2 });
+
+    return { report, outputPath };
+  }
+};
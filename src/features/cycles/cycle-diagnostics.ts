@@ -0,0 +1,80 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CycleEdge, CycleReport, DependencyCycle } from '@/features/cycles/cycle-detection-service';
+
+// Created on first use, so the Problems panel only gets a cycles source once cycles have been detected
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+// Files with cycle diagnostics, per workspace root, so a root can be refreshed without touching the others
+const filesByRoot = new Map<string, vscode.Uri[]>();
+
+/**
+ * Describes a cycle as the chain of its nodes, back to the first one
+ * @param cycle - The cycle
+ * @param getNode - Gets the node an edge leaves from
+ * @returns The chain, e.g. `a.ts → b.ts → a.ts`
+ */
+const describeLoop = (cycle: DependencyCycle, getNode: (edge: CycleEdge) => string): string =>
+  [...cycle.edges.map(getNode), getNode(cycle.edges[0])].join(' → ');
+
+/**
+ * Shows the cycles of the symbol index as warnings in the Problems panel
+ */
+export const CycleDiagnostics = {
+  /**
+   * Checks if a root's cycles are shown, so they are kept up to date as the index changes
+   * @param rootPath - The workspace root path
+   * @returns Whether the root has been checked for cycles
+   */
+  isTracking(rootPath: string): boolean {
+    return filesByRoot.has(rootPath);
+  },
+
+  /**
+   * Replaces the cycle diagnostics of a root
+   * Every edge of a cycle gets a warning on the line of the reference that creates it
+   * @param rootPath - The workspace root path
+   * @param report - The cycle report of the root
+   */
+  update(rootPath: string, report: CycleReport): void {
+    diagnosticCollection ??= vscode.languages.createDiagnosticCollection('cursorcrawl-cycles');
+    const collection = diagnosticCollection;
+    filesByRoot.get(rootPath)?.forEach(uri => collection.delete(uri));
+
+    const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+    const addDiagnostic = (edge: CycleEdge, message: string) => {
+      // Index lines are 1-based, editor lines 0-based
+      const line = Math.max(edge.line - 1, 0);
+      const diagnostic = new vscode.Diagnostic(new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER), message, vscode.DiagnosticSeverity.Warning);
+      diagnostic.source = 'CursorCrawl';
+      const diagnostics = diagnosticsByFile.get(edge.fromFile) ?? [];
+      diagnostics.push(diagnostic);
+      diagnosticsByFile.set(edge.fromFile, diagnostics);
+    };
+
+    for (const cycle of report.fileCycles) {
+      const loop = describeLoop(cycle, edge => edge.fromFile);
+      cycle.edges.forEach(edge => addDiagnostic(edge, `Import cycle: ${loop} (${edge.fromSymbol} uses ${edge.toSymbol} from ${edge.toFile})`));
+    }
+    for (const cycle of report.symbolCycles) {
+      const loop = describeLoop(cycle, edge => edge.fromSymbol);
+      cycle.edges.forEach(edge => addDiagnostic(edge, `Dependency cycle: ${loop} (${edge.fromSymbol} ${edge.kind ?? 'uses'} ${edge.toSymbol})`));
+    }
+
+    const uris = [...diagnosticsByFile.entries()].map(([filePath, diagnostics]) => {
+      const uri = vscode.Uri.file(path.join(rootPath, filePath));
+      collection.set(uri, diagnostics);
+      return uri;
+    });
+    filesByRoot.set(rootPath, uris);
+  },
+
+  /**
+   * Removes the diagnostics of every root
+   */
+  dispose(): void {
+    diagnosticCollection?.dispose();
+    diagnosticCollection = undefined;
+    filesByRoot.clear();
+  }
+};
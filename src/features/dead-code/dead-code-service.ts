@@ -0,0 +1,239 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { HostService } from '@/shared/services/host-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+
+const DEAD_CODE_FILENAME = 'dead-code.json';
+
+// Name of the symbol holding a file's top-level code
+const FILE_SYMBOL_NAME = '__file__';
+
+// Entry points of a VS Code extension, the default project this was written for
+const DEFAULT_ENTRY_POINTS = ['src/extension.ts:activate', 'src/extension.ts:deactivate'];
+
+/**
+ * A symbol reported as dead code
+ */
+export interface DeadCodeSymbol {
+  name: string;
+  type: SymbolIndexEntry['type'];
+  filePath: string;
+  line: number;
+}
+
+/**
+ * Output format of the dead code analysis
+ * - unusedExports: exported symbols no other file depends on
+ * - unimportedFiles: files none of whose symbols are used or re-exported by another file
+ * - unreachableSymbols: symbols no chain of dependencies leads to from the entry points
+ */
+export interface DeadCodeReport {
+  entryPoints: DeadCodeSymbol[];
+  unusedExports: DeadCodeSymbol[];
+  unimportedFiles: string[];
+  unreachableSymbols: DeadCodeSymbol[];
+}
+
+/**
+ * How a symbol shows up in the dead code report, unreachable taking precedence over unused export
+ */
+export type DeadCodeStatus = 'unreachable' | 'unused-export';
+
+/**
+ * Creates the key of a symbol, unique within a root
+ * @param filePath - Path of the symbol's file
+ * @param name - The symbol name
+ * @returns The key
+ */
+const getSymbolKey = (filePath: string, name: string): string => `${filePath}:${name}`;
+
+/**
+ * Creates the report entry of a symbol
+ * @param symbol - The symbol
+ * @returns The report entry
+ */
+const toDeadCodeSymbol = (symbol: SymbolIndexEntry): DeadCodeSymbol => ({
+  name: symbol.name,
+  type: symbol.type,
+  filePath: symbol.filePath,
+  line: symbol.location.line
+});
+
+/**
+ * Service for finding unused exports, unimported files and code unreachable from the entry points
+ */
+export const DeadCodeService = {
+  /**
+   * Gets the path of the dead code report
+   * @param rootPath - The workspace root path
+   * @returns The report file path
+   */
+  getResultsPath(rootPath: string): string {
+    return path.join(WorkspaceService.getCursorCrawlDir(rootPath), DEAD_CODE_FILENAME);
+  },
+
+  /**
+   * Gets the configured entry points, as `<file>:<symbol>` or `<file>` for every symbol of a file
+   * @returns The entry points, relative to the workspace root
+   */
+  getEntryPoints(): string[] {
+    return HostService.getAdapter().getConfiguration<string[]>('deadCodeEntryPoints', DEFAULT_ENTRY_POINTS);
+  },
+
+  /**
+   * Finds the indexed symbols matching the entry points
+   * A file entry point also covers the symbols it re-exports, which are the API of a library
+   * @param symbolIndex - The symbol index
+   * @param entryPoints - The entry points, as `<file>:<symbol>` or `<file>`
+   * @returns The entry point symbols
+   */
+  resolveEntryPoints(symbolIndex: SymbolIndex, entryPoints: string[]): SymbolIndexEntry[] {
+    const entryFiles = new Set<string>();
+    const entrySymbolKeys = new Set<string>();
+    for (const entryPoint of entryPoints) {
+      const [filePath, name] = entryPoint.split(':');
+      if (name) {
+        entrySymbolKeys.add(getSymbolKey(filePath, name));
+      } else {
+        entryFiles.add(filePath);
+      }
+    }
+
+    return Object.values(symbolIndex).flat().filter(symbol =>
+      entryFiles.has(symbol.filePath) ||
+      entrySymbolKeys.has(getSymbolKey(symbol.filePath, symbol.name)) ||
+      !!symbol.reExportedBy?.some(filePath => entryFiles.has(filePath))
+    );
+  },
+
+  /**
+   * Finds the symbols reachable from the entry points by following their dependencies
+   * Reaching a symbol loads its file, which reaches the file's top-level code,
+   * and reaching a class reaches its members, as the methods of an instance can be called without naming the class
+   * @param symbolIndex - The symbol index
+   * @param entrySymbols - The entry point symbols
+   * @returns Keys of the reachable symbols
+   */
+  findReachableSymbols(symbolIndex: SymbolIndex, entrySymbols: SymbolIndexEntry[]): Set<string> {
+    // Overloads share a key, the first declaration stands for all of them
+    const symbolsByKey = new Map<string, SymbolIndexEntry>();
+    for (const symbol of Object.values(symbolIndex).flat()) {
+      const key = getSymbolKey(symbol.filePath, symbol.name);
+      if (!symbolsByKey.has(key)) {
+        symbolsByKey.set(key, symbol);
+      }
+    }
+
+    const reachable = new Set<string>();
+    const queue = [...entrySymbols];
+
+    // The queue only grows, so it is walked with an index instead of shifting the array
+    for (let next = 0; next < queue.length; next++) {
+      const symbol = queue[next];
+      const key = getSymbolKey(symbol.filePath, symbol.name);
+      if (reachable.has(key)) {
+        continue;
+      }
+      reachable.add(key);
+
+      const fileSymbols = symbolIndex[symbol.filePath] || [];
+      queue.push(...fileSymbols.filter(candidate => candidate.name === FILE_SYMBOL_NAME));
+      if (symbol.type === 'class') {
+        queue.push(...fileSymbols.filter(candidate => candidate.name.startsWith(`${symbol.name}.`)));
+      }
+
+      // Dependencies in other roots are outside this report
+      for (const dependency of symbol.depends_on) {
+        const target = !dependency.root && symbolsByKey.get(getSymbolKey(dependency.filePath, dependency.name));
+        if (target) {
+          queue.push(target);
+        }
+      }
+    }
+
+    return reachable;
+  },
+
+  /**
+   * Analyzes the symbol index for dead code
+   * Unreachable symbols are only reported when at least one entry point is indexed,
+   * as otherwise every symbol would be
+   * @param symbolIndex - The symbol index
+   * @param entryPoints - The entry points, as `<file>:<symbol>` or `<file>`
+   * @returns The dead code report
+   */
+  analyzeDeadCode(symbolIndex: SymbolIndex, entryPoints: string[]): DeadCodeReport {
+    const entrySymbols = this.resolveEntryPoints(symbolIndex, entryPoints);
+    const entryKeys = new Set(entrySymbols.map(symbol => getSymbolKey(symbol.filePath, symbol.name)));
+    const entryFiles = new Set(entrySymbols.map(symbol => symbol.filePath));
+    const allSymbols = Object.values(symbolIndex).flat().filter(symbol => symbol.name !== FILE_SYMBOL_NAME);
+
+    // Dependents in other roots use the symbol too
+    const isUsedElsewhere = (symbol: SymbolIndexEntry): boolean =>
+      symbol.dependents.some(dependent => dependent.root || dependent.filePath !== symbol.filePath);
+
+    const unusedExports = allSymbols.filter(symbol =>
+      symbol.exported && !isUsedElsewhere(symbol) && !entryKeys.has(getSymbolKey(symbol.filePath, symbol.name))
+    );
+
+    const unimportedFiles = Object.entries(symbolIndex)
+      .filter(([filePath, fileSymbols]) =>
+        fileSymbols.length > 0 && !entryFiles.has(filePath) &&
+        !fileSymbols.some(symbol => isUsedElsewhere(symbol) || symbol.reExportedBy?.length)
+      )
+      .map(([filePath]) => filePath);
+
+    const reachable = entrySymbols.length > 0 ? this.findReachableSymbols(symbolIndex, entrySymbols) : undefined;
+    const unreachableSymbols = reachable
+      ? allSymbols.filter(symbol => !reachable.has(getSymbolKey(symbol.filePath, symbol.name)))
+      : [];
+
+    return {
+      entryPoints: entrySymbols.map(toDeadCodeSymbol),
+      unusedExports: unusedExports.map(toDeadCodeSymbol),
+      unimportedFiles: unimportedFiles.sort(),
+      unreachableSymbols: unreachableSymbols.map(toDeadCodeSymbol)
+    };
+  },
+
+  /**
+   * Gets the dead code status of every symbol in a report
+   * @param report - The dead code report
+   * @returns Map from `<file>:<symbol>` to the symbol's status
+   */
+  getSymbolStatuses(report: DeadCodeReport): Map<string, DeadCodeStatus> {
+    const statuses = new Map<string, DeadCodeStatus>();
+    report.unusedExports.forEach(symbol => statuses.set(getSymbolKey(symbol.filePath, symbol.name), 'unused-export'));
+    report.unreachableSymbols.forEach(symbol => statuses.set(getSymbolKey(symbol.filePath, symbol.name), 'unreachable'));
+    return statuses;
+  },
+
+  /**
+   * Analyzes the symbol index for dead code and saves the report
+   * @param rootPath - The workspace root path
+   * @param progressCallback - Optional callback for progress updates
+   * @returns The path of the report file
+   */
+  async detectDeadCode(rootPath: string, progressCallback?: (message: string) => void): Promise<string> {
+    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(rootPath);
+
+    progressCallback?.('Following dependencies from the entry points...');
+    const entryPoints = this.getEntryPoints();
+    const report = this.analyzeDeadCode(symbolIndex, entryPoints);
+    if (report.entryPoints.length === 0) {
+      console.log(`None of the entry points ${entryPoints.join(', ')} are indexed, skipping unreachable symbols`);
+    }
+
+    progressCallback?.(
+      `Writing results (${report.unusedExports.length} unused exports, ${report.unimportedFiles.length} unimported files, ` +
+      `${report.unreachableSymbols.length} unreachable symbols) to JSON file`
+    );
+    await WorkspaceService.ensureCursorCrawlDir(rootPath);
+    const outputPath = this.getResultsPath(rootPath);
+    await fs.writeJson(outputPath, report, { spaces: 2 });
+
+    return outputPath;
+  }
+};
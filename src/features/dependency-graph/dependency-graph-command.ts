@@ -5,6 +5,17 @@ import { DependencyGraphService } from '@/features/dependency-graph/dependency-g
 import { WorkspaceService } from '@/shared/services/workspace-service';
 import { MergeJsonService } from '@/features/merge-json/merge-json-service';
 
+/**
+ * Generates the graph of one root, or a graph clustered per root when several are selected
+ * @param rootPaths - The selected workspace roots
+ * @returns Path of the visualization HTML
+ */
+const generateGraphVisualization = (rootPaths: string[]): Promise<string> => {
+  return rootPaths.length === 1
+    ? DependencyGraphService.generateVisualization(rootPaths[0])
+    : DependencyGraphService.generateWorkspaceVisualization(rootPaths);
+};
+
 /**
  * Handles execution of the dependency graph visualization command
  * @returns A function that handles the command
@@ -12,10 +23,9 @@ import { MergeJsonService } from '@/features/merge-json/merge-json-service';
 export const showDependencyGraphCommand = (): vscode.Disposable => {
   return vscode.commands.registerCommand('cursorcrawl.showDependencyGraph', async () => {
     try {
-      const rootPath = WorkspaceService.getWorkspaceFolder();
+      const rootPaths = await WorkspaceService.pickWorkspaceFolders('Select the workspace folder to graph');
       
-      if (!rootPath) {
-        vscode.window.showErrorMessage('No workspace folder found.');
+      if (rootPaths.length === 0) {
         return;
       }
       
@@ -31,7 +41,7 @@ export const showDependencyGraphCommand = (): vscode.Disposable => {
           
           try {
             // Generate the visualization
-            const visualizationPath = await DependencyGraphService.generateVisualization(rootPath);
+            const visualizationPath = await generateGraphVisualization(rootPaths);
             
             // Show the visualization in the browser
             const uri = vscode.Uri.file(visualizationPath);
@@ -56,10 +66,9 @@ export const showDependencyGraphCommand = (): vscode.Disposable => {
 export const showDependencyGraphWithDuplicatesCommand = (): vscode.Disposable => {
   return vscode.commands.registerCommand('cursorcrawl.showDependencyGraphWithDuplicates', async () => {
     try {
-      const rootPath = WorkspaceService.getWorkspaceFolder();
+      const rootPaths = await WorkspaceService.pickWorkspaceFolders('Select the workspace folder to graph');
       
-      if (!rootPath) {
-        vscode.window.showErrorMessage('No workspace folder found.');
+      if (rootPaths.length === 0) {
         return;
       }
       
@@ -76,15 +85,17 @@ export const showDependencyGraphWithDuplicatesCommand = (): vscode.Disposable =>
             progress.report({ message: 'Merging JSON files...' });
             
             // Check if we need to generate the merged JSON first
-            const { mergedJsonPath } = MergeJsonService.getFilePaths(rootPath);
-            if (!await fs.pathExists(mergedJsonPath)) {
-              await MergeJsonService.mergeJsonFiles(rootPath);
+            for (const rootPath of rootPaths) {
+              const { mergedJsonPath } = MergeJsonService.getFilePaths(rootPath);
+              if (!await fs.pathExists(mergedJsonPath)) {
+                await MergeJsonService.mergeJsonFiles(rootPath);
+              }
             }
             
             progress.report({ message: 'Generating visualization...' });
             
             // Generate the visualization
-            const visualizationPath = await DependencyGraphService.generateVisualization(rootPath);
+            const visualizationPath = await generateGraphVisualization(rootPaths);
             
             // Show the visualization in the browser
             const uri = vscode.Uri.file(visualizationPath);
@@ -1,9 +1,11 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import * as vscode from 'vscode';
-import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { DependencyKind, SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
 import { SymbolIndexWithScores } from '@/shared/types/symbol-index-with-scores';
+import { DeadCodeService, DeadCodeStatus } from '@/features/dead-code/dead-code-service';
+import { CycleDetectionService } from '@/features/cycles/cycle-detection-service';
 
 /**
  * Interface for graph node data
@@ -13,7 +15,12 @@ export interface GraphNode {
   label: string;
   type: string;
   filePath: string;
+  root?: string;
+  publicApi?: boolean;
+  deadCode?: DeadCodeStatus;
+  inCycle?: boolean;
   duplicateScore?: number;
+  structuralCloneScore?: number;
 }
 
 /**
@@ -22,7 +29,10 @@ export interface GraphNode {
 export interface GraphEdge {
   source: string;
   target: string;
-  type: 'dependency' | 'dependent';
+  type: 'dependency' | 'dependent' | 'renders';
+  kind?: DependencyKind;
+  crossRoot?: boolean;
+  inCycle?: boolean;
 }
 
 /**
@@ -32,6 +42,8 @@ export interface GraphData {
   nodes: GraphNode[];
   edges: GraphEdge[];
   hasDuplicateAnalysis: boolean;
+  hasStructuralCloneAnalysis: boolean;
+  roots: string[];
 }
 
 /**
@@ -45,24 +57,85 @@ export interface DuplicateAnalysisData {
  * Service to handle dependency graph operations
  */
 export const DependencyGraphService = {
+  /**
+   * Creates the ID of a graph node
+   * @param filePath - Path of the symbol's file relative to its root
+   * @param name - The symbol name
+   * @param root - Name of the symbol's workspace root (only set in workspace graphs)
+   * @returns The node ID
+   */
+  getNodeId(filePath: string, name: string, root?: string): string {
+    return root ? `${root}/${filePath}:${name}` : `${filePath}:${name}`;
+  },
+
+  /**
+   * Gets the node ID at the other end of an edge, if it can be shown in the graph
+   * Edges into another root only have a node to point to in workspace graphs
+   * @param reference - The dependency or dependent
+   * @param rootName - Name of the root being processed (only set in workspace graphs)
+   * @returns The node ID, or undefined if the edge leaves the graph
+   */
+  getReferenceNodeId(reference: { name: string; filePath: string; root?: string }, rootName?: string): string | undefined {
+    if (reference.root && !rootName) {
+      return undefined;
+    }
+    return this.getNodeId(reference.filePath, reference.name, reference.root ?? rootName);
+  },
+
+  /**
+   * Collects the edges from components to the components they render
+   * These are drawn instead of the plain dependency edge between the same nodes
+   * @param symbolIndex - The symbol index to process
+   * @param rootName - Name of the workspace root (only set in workspace graphs)
+   * @returns IDs of the render edges, as `<source>-><target>`
+   */
+  getRenderEdgeIds(symbolIndex: SymbolIndex, rootName?: string): Set<string> {
+    const renderEdgeIds = new Set<string>();
+    Object.values(symbolIndex).forEach(fileSymbols => {
+      fileSymbols.forEach(symbol => {
+        const nodeId = this.getNodeId(symbol.filePath, symbol.name, rootName);
+        symbol.renders?.forEach(child => {
+          const targetId = this.getReferenceNodeId(child, rootName);
+          if (targetId) {
+            renderEdgeIds.add(`${nodeId}->${targetId}`);
+          }
+        });
+      });
+    });
+    return renderEdgeIds;
+  },
+
+  /**
+   * Checks if an edge is drawn as a render edge: the JSX or import edge between a component and a component it renders
+   * @param renderEdgeIds - IDs of the render edges
+   * @param edgeId - The edge ID, as `<source>-><target>`
+   * @param kind - Kind of the edge
+   * @returns Whether the edge renders its target
+   */
+  isRenderEdge(renderEdgeIds: Set<string>, edgeId: string, kind?: DependencyKind): boolean {
+    return renderEdgeIds.has(edgeId) && (!kind || kind === 'calls');
+  },
+
   /**
    * Creates graph data from symbol index
    * @param symbolIndex - The symbol index to process
    * @param duplicateAnalysisData - Optional duplicate analysis data
+   * @param rootName - Name of the workspace root, set when building a multi-root workspace graph
    * @returns Graph data for visualization
    */
-  createGraphData(symbolIndex: SymbolIndex, duplicateAnalysisData?: DuplicateAnalysisData): GraphData {
+  createGraphData(symbolIndex: SymbolIndex, duplicateAnalysisData?: DuplicateAnalysisData, rootName?: string): GraphData {
     const nodes: GraphNode[] = [];
     const edges: GraphEdge[] = [];
     const nodeIds = new Set<string>();
     const edgeMap = new Map<string, boolean>();
     const hasDuplicateAnalysis = !!duplicateAnalysisData && Object.keys(duplicateAnalysisData).length > 0;
+    const renderEdgeIds = this.getRenderEdgeIds(symbolIndex, rootName);
     
     // Process all symbols in the index
     Object.values(symbolIndex).forEach(fileSymbols => {
       fileSymbols.forEach(symbol => {
         // Create a unique ID for the symbol
-        const nodeId = `${symbol.filePath}:${symbol.name}`;
+        const nodeId = this.getNodeId(symbol.filePath, symbol.name, rootName);
         
         // Add node if it doesn't already exist
         if (!nodeIds.has(nodeId)) {
@@ -72,7 +145,9 @@ export const DependencyGraphService = {
             id: nodeId,
             label: symbol.name,
             type: symbol.type,
-            filePath: symbol.filePath
+            filePath: symbol.filePath,
+            ...(rootName ? { root: rootName } : {}),
+            publicApi: SymbolIndexService.isPublicApi(symbol, fileSymbols)
           };
           
           // Add duplicate score if available
@@ -85,37 +160,45 @@ export const DependencyGraphService = {
         
         // Process dependencies
         symbol.depends_on.forEach(dep => {
-          const targetId = `${dep.filePath}:${dep.name}`;
+          const targetId = this.getReferenceNodeId(dep, rootName);
           const edgeId = `${nodeId}->${targetId}`;
           
-          if (!edgeMap.has(edgeId)) {
-            edgeMap.set(edgeId, true);
+          // Each kind of use between the same two symbols is its own edge
+          const edgeKey = `${edgeId}|${dep.kind ?? ''}`;
+          if (targetId && !edgeMap.has(edgeKey)) {
+            edgeMap.set(edgeKey, true);
             edges.push({
               source: nodeId,
               target: targetId,
-              type: 'dependency'
+              type: this.isRenderEdge(renderEdgeIds, edgeId, dep.kind) ? 'renders' : 'dependency',
+              ...(dep.kind ? { kind: dep.kind } : {}),
+              ...(dep.root ? { crossRoot: true } : {})
             });
           }
         });
         
         // Process dependents
         symbol.dependents.forEach(dep => {
-          const sourceId = `${dep.filePath}:${dep.name}`;
+          const sourceId = this.getReferenceNodeId(dep, rootName);
           const edgeId = `${sourceId}->${nodeId}`;
           
-          if (!edgeMap.has(edgeId)) {
-            edgeMap.set(edgeId, true);
+          // Each kind of use between the same two symbols is its own edge
+          const edgeKey = `${edgeId}|${dep.kind ?? ''}`;
+          if (sourceId && !edgeMap.has(edgeKey)) {
+            edgeMap.set(edgeKey, true);
             edges.push({
               source: sourceId,
               target: nodeId,
-              type: 'dependent'
+              type: this.isRenderEdge(renderEdgeIds, edgeId, dep.kind) ? 'renders' : 'dependent',
+              ...(dep.kind ? { kind: dep.kind } : {}),
+              ...(dep.root ? { crossRoot: true } : {})
             });
           }
         });
       });
     });
     
-    return { nodes, edges, hasDuplicateAnalysis };
+    return { nodes, edges, hasDuplicateAnalysis, hasStructuralCloneAnalysis: false, roots: rootName ? [rootName] : [] };
   },
   
   /**
@@ -165,9 +248,10 @@ export const DependencyGraphService = {
   /**
    * Creates graph data from merged symbol index with scores
    * @param mergedJson - The merged symbol index with scores
+   * @param rootName - Name of the workspace root, set when building a multi-root workspace graph
    * @returns Graph data for visualization
    */
-  createGraphDataFromMergedJson(mergedJson: SymbolIndexWithScores): GraphData {
+  createGraphDataFromMergedJson(mergedJson: SymbolIndexWithScores, rootName?: string): GraphData {
     const nodes: GraphNode[] = [];
     const edges: GraphEdge[] = [];
     const nodeIds = new Set<string>();
@@ -175,12 +259,16 @@ export const DependencyGraphService = {
     const hasDuplicateAnalysis = Object.values(mergedJson).some(fileSymbols => 
       fileSymbols.some(symbol => symbol.scores?.some(score => score.type === 'duplicateAnalysis'))
     );
+    const hasStructuralCloneAnalysis = Object.values(mergedJson).some(fileSymbols => 
+      fileSymbols.some(symbol => symbol.scores?.some(score => score.type === 'structuralClone'))
+    );
+    const renderEdgeIds = this.getRenderEdgeIds(mergedJson, rootName);
     
     // Process all symbols in the merged index
     Object.values(mergedJson).forEach(fileSymbols => {
       fileSymbols.forEach(symbol => {
         // Create a unique ID for the symbol
-        const nodeId = `${symbol.filePath}:${symbol.name}`;
+        const nodeId = this.getNodeId(symbol.filePath, symbol.name, rootName);
         
         // Add node if it doesn't already exist
         if (!nodeIds.has(nodeId)) {
@@ -190,7 +278,9 @@ export const DependencyGraphService = {
             id: nodeId,
             label: symbol.name,
             type: symbol.type,
-            filePath: symbol.filePath
+            filePath: symbol.filePath,
+            ...(rootName ? { root: rootName } : {}),
+            publicApi: SymbolIndexService.isPublicApi(symbol, fileSymbols)
           };
           
           // Add duplicate score if available
@@ -199,60 +289,120 @@ export const DependencyGraphService = {
             node.duplicateScore = duplicateScore.score;
           }
           
+          // Add structural clone score if available
+          const structuralCloneScore = symbol.scores?.find(score => score.type === 'structuralClone');
+          if (structuralCloneScore) {
+            node.structuralCloneScore = structuralCloneScore.score;
+          }
+          
           nodes.push(node);
         }
         
         // Process dependencies
         symbol.depends_on.forEach(dep => {
-          const targetId = `${dep.filePath}:${dep.name}`;
+          const targetId = this.getReferenceNodeId(dep, rootName);
           const edgeId = `${nodeId}->${targetId}`;
           
-          if (!edgeMap.has(edgeId)) {
-            edgeMap.set(edgeId, true);
+          // Each kind of use between the same two symbols is its own edge
+          const edgeKey = `${edgeId}|${dep.kind ?? ''}`;
+          if (targetId && !edgeMap.has(edgeKey)) {
+            edgeMap.set(edgeKey, true);
             edges.push({
               source: nodeId,
               target: targetId,
-              type: 'dependency'
+              type: this.isRenderEdge(renderEdgeIds, edgeId, dep.kind) ? 'renders' : 'dependency',
+              ...(dep.kind ? { kind: dep.kind } : {}),
+              ...(dep.root ? { crossRoot: true } : {})
             });
           }
         });
         
         // Process dependents
         symbol.dependents.forEach(dep => {
-          const sourceId = `${dep.filePath}:${dep.name}`;
+          const sourceId = this.getReferenceNodeId(dep, rootName);
           const edgeId = `${sourceId}->${nodeId}`;
           
-          if (!edgeMap.has(edgeId)) {
-            edgeMap.set(edgeId, true);
+          // Each kind of use between the same two symbols is its own edge
+          const edgeKey = `${edgeId}|${dep.kind ?? ''}`;
+          if (sourceId && !edgeMap.has(edgeKey)) {
+            edgeMap.set(edgeKey, true);
             edges.push({
               source: sourceId,
               target: nodeId,
-              type: 'dependent'
+              type: this.isRenderEdge(renderEdgeIds, edgeId, dep.kind) ? 'renders' : 'dependent',
+              ...(dep.kind ? { kind: dep.kind } : {}),
+              ...(dep.root ? { crossRoot: true } : {})
             });
           }
         });
       });
     });
     
-    return { nodes, edges, hasDuplicateAnalysis };
+    return { nodes, edges, hasDuplicateAnalysis, hasStructuralCloneAnalysis, roots: rootName ? [rootName] : [] };
   },
   
+  /**
+   * Marks the nodes reported as dead code, following dependencies from the configured entry points
+   * @param graphData - The graph data of one root
+   * @param symbolIndex - The root's symbol index
+   */
+  markDeadCode(graphData: GraphData, symbolIndex: SymbolIndex): void {
+    const report = DeadCodeService.analyzeDeadCode(symbolIndex, DeadCodeService.getEntryPoints());
+    const statuses = DeadCodeService.getSymbolStatuses(report);
+    graphData.nodes.forEach(node => {
+      const status = statuses.get(`${node.filePath}:${node.label}`);
+      if (status) {
+        node.deadCode = status;
+      }
+    });
+  },
+
+  /**
+   * Marks the edges closing a file or symbol cycle, and the nodes they connect
+   * File cycles are made of symbol edges too, so both are drawn as loops between symbols
+   * @param graphData - The graph data of one root
+   * @param symbolIndex - The root's symbol index
+   * @param rootName - Name of the workspace root (only set in workspace graphs)
+   */
+  markCycles(graphData: GraphData, symbolIndex: SymbolIndex, rootName?: string): void {
+    const report = CycleDetectionService.analyzeCycles(symbolIndex);
+    const cycleEdgeIds = new Set([...report.fileCycles, ...report.symbolCycles].flatMap(cycle => cycle.edges).map(edge =>
+      `${this.getNodeId(edge.fromFile, edge.fromSymbol, rootName)}->${this.getNodeId(edge.toFile, edge.toSymbol, rootName)}`
+    ));
+    if (cycleEdgeIds.size === 0) {
+      return;
+    }
+
+    const cycleNodeIds = new Set<string>();
+    graphData.edges.forEach(edge => {
+      if (cycleEdgeIds.has(`${edge.source}->${edge.target}`)) {
+        edge.inCycle = true;
+        cycleNodeIds.add(edge.source);
+        cycleNodeIds.add(edge.target);
+      }
+    });
+    graphData.nodes.forEach(node => {
+      if (cycleNodeIds.has(node.id)) {
+        node.inCycle = true;
+      }
+    });
+  },
+
   /**
    * Creates the HTML content for the dependency graph visualization
    * @param graphData - The graph data to visualize
    * @returns HTML content as string
    */
   createVisualizationHtml(graphData: GraphData): string {
-    // Build the view toggle buttons HTML - only include duplicate view button if we have duplicate analysis data
-    const viewToggleButtonsHtml = graphData.hasDuplicateAnalysis 
-      ? `
-    <span>View: </span>
-    <button id="dependency-view" class="active">Dependency</button>
-    <button id="duplicate-view">Duplicate</button>
-    `
-      : `
+    // Build the view toggle buttons HTML - only include score view buttons for the analyses we have data for
+    const viewToggleButtonsHtml = `
     <span>View: </span>
     <button id="dependency-view" class="active">Dependency</button>
+    ${graphData.hasDuplicateAnalysis ? '<button id="duplicate-view">Duplicate</button>' : ''}
+    ${graphData.hasStructuralCloneAnalysis ? '<button id="structural-view">Structural Clones</button>' : ''}
+    <button id="dead-code-view">Dead Code</button>
+    <button id="cycles-view">Cycles</button>
+    <button id="public-api-toggle">Public API only</button>
     `;
 
     return `
@@ -290,6 +440,16 @@ export const DependencyGraphService = {
       box-shadow: 0 1px 4px rgba(0, 0, 0, 0.2);
     }
 
+    #edge-kind-toggles {
+      margin-top: 8px;
+      font-size: 12px;
+    }
+
+    #edge-kind-toggles label {
+      margin-right: 8px;
+      white-space: nowrap;
+    }
+
     .view-toggle {
       position: absolute;
       top: 10px;
@@ -375,6 +535,7 @@ export const DependencyGraphService = {
     <button id="zoom-out">Zoom Out</button>
     <button id="reset">Reset</button>
     <input type="text" id="search" placeholder="Search nodes...">
+    <div id="edge-kind-toggles"></div>
   </div>
 
   <div class="view-toggle">
@@ -407,6 +568,58 @@ export const DependencyGraphService = {
       <span>Score 5 (High duplication)</span>
     </div>
   </div>
+
+  <div id="structural-legend" class="legend">
+    <h3>Structural Clone Score</h3>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #ffffff;"></div>
+      <span>Score 1 (No clone)</span>
+    </div>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #ffcccc;"></div>
+      <span>Score 2 (Type-3, similar)</span>
+    </div>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #ff9999;"></div>
+      <span>Score 3 (Type-3, very similar)</span>
+    </div>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #ff6666;"></div>
+      <span>Score 4 (Type-2, renamed copy)</span>
+    </div>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #cc0000;"></div>
+      <span>Score 5 (Type-1, exact copy)</span>
+    </div>
+  </div>
+
+  <div id="dead-code-legend" class="legend">
+    <h3>Dead Code</h3>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #cc0000;"></div>
+      <span>Unreachable from the entry points</span>
+    </div>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #ff9800;"></div>
+      <span>Exported, but only used in its own file</span>
+    </div>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #e0e0e0;"></div>
+      <span>Live</span>
+    </div>
+  </div>
+
+  <div id="cycles-legend" class="legend">
+    <h3>Cycles</h3>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #cc0000;"></div>
+      <span>Symbols and edges in a file or symbol cycle</span>
+    </div>
+    <div class="legend-item">
+      <div class="legend-color" style="background-color: #e0e0e0;"></div>
+      <span>Not in a cycle</span>
+    </div>
+  </div>
   
   <script>
     // Graph data
@@ -419,6 +632,9 @@ export const DependencyGraphService = {
     // Current view mode
     let currentView = 'dependency';
     
+    // Whether symbols outside the public API are hidden
+    let publicApiOnly = ${SymbolIndexService.isPublicApiOnly()};
+    
     // Create a color scale based on node type
     const typeColorMap = {
       'function': '#4285F4',
@@ -428,9 +644,19 @@ export const DependencyGraphService = {
       'variable': '#8F00FF',
       'method': '#00ACC1',
       'enum': '#FF6D00',
+      'component': '#E91E63',
+      'hook': '#009688',
+      'property': '#795548',
       'other': '#757575'
     };
 
+    // Dead code colors, from the most to the least certain
+    const deadCodeColorMap = {
+      'unreachable': '#cc0000',
+      'unused-export': '#ff9800',
+      'live': '#e0e0e0'
+    };
+
     // Create a color scale for duplicate scores
     const duplicateColorScale = d3.scaleLinear()
       .domain([1, 5])
@@ -441,6 +667,7 @@ export const DependencyGraphService = {
     console.log('Nodes with duplicate scores:', graphData.nodes.filter(n => n.duplicateScore !== undefined).length);
     console.log('Total nodes:', graphData.nodes.length);
     console.log('Has duplicate analysis:', graphData.hasDuplicateAnalysis);
+    console.log('Has structural clone analysis:', graphData.hasStructuralCloneAnalysis);
     
     // Create SVG
     const svg = d3.select('#graph-container')
@@ -468,6 +695,43 @@ export const DependencyGraphService = {
       .force('center', d3.forceCenter(width / 2, height / 2))
       .force('collision', d3.forceCollide().radius(30));
     
+    // In multi-root workspace graphs, pull each root's nodes towards its own anchor
+    const isWorkspaceGraph = graphData.roots.length > 1;
+    const rootColorScale = d3.scaleOrdinal(d3.schemeTableau10).domain(graphData.roots);
+    const rootAnchors = new Map(graphData.roots.map((root, i) => {
+      const angle = (2 * Math.PI * i) / graphData.roots.length;
+      const radius = Math.min(width, height) / 3;
+      return [root, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) }];
+    }));
+    
+    if (isWorkspaceGraph) {
+      simulation
+        .force('rootX', d3.forceX(d => rootAnchors.get(d.root).x).strength(0.15))
+        .force('rootY', d3.forceY(d => rootAnchors.get(d.root).y).strength(0.15));
+    }
+    
+    // Root clusters are drawn first so they stay behind the links and nodes
+    const hull = container.append('g')
+      .selectAll('path')
+      .data(isWorkspaceGraph ? graphData.roots : [])
+      .enter()
+      .append('path')
+      .attr('fill', root => rootColorScale(root))
+      .attr('fill-opacity', 0.08)
+      .attr('stroke', root => rootColorScale(root))
+      .attr('stroke-width', 2);
+    
+    const hullLabel = container.append('g')
+      .selectAll('text')
+      .data(isWorkspaceGraph ? graphData.roots : [])
+      .enter()
+      .append('text')
+      .attr('font-size', '20px')
+      .attr('font-weight', 'bold')
+      .attr('text-anchor', 'middle')
+      .attr('fill', root => rootColorScale(root))
+      .text(root => root);
+    
     // Create links
     const link = container.append('g')
       .selectAll('line')
@@ -475,8 +739,9 @@ export const DependencyGraphService = {
       .enter()
       .append('line')
       .attr('class', 'link')
-      .attr('stroke', '#999')
-      .attr('stroke-width', 1);
+      .attr('stroke', getLinkColor)
+      .attr('stroke-width', getLinkWidth)
+      .attr('stroke-dasharray', d => d.crossRoot ? '4,3' : null);
     
     // Create nodes
     const node = container.append('g')
@@ -503,6 +768,21 @@ export const DependencyGraphService = {
       .attr('dy', '.35em')
       .text(d => d.label);
 
+    // Components rendering other components stand out from plain dependencies, and in the cycles view the loops do
+    function getLinkColor(d) {
+      if (currentView === 'cycles') {
+        return d.inCycle ? '#cc0000' : '#ddd';
+      }
+      return d.type === 'renders' ? typeColorMap.component : '#999';
+    }
+    
+    function getLinkWidth(d) {
+      if (currentView === 'cycles' && d.inCycle) {
+        return 3;
+      }
+      return d.type === 'renders' ? 2 : 1;
+    }
+
     // Function to get node color based on current view
     function getNodeColor(d, view) {
       if (view === 'duplicate' && d.duplicateScore !== undefined) {
@@ -510,6 +790,12 @@ export const DependencyGraphService = {
         const color = duplicateColorScale(d.duplicateScore);
         console.log('Node:', d.label, 'Score:', d.duplicateScore, 'Color:', color);
         return color;
+      } else if (view === 'structural' && d.structuralCloneScore !== undefined) {
+        return duplicateColorScale(d.structuralCloneScore);
+      } else if (view === 'dead-code') {
+        return deadCodeColorMap[d.deadCode || 'live'];
+      } else if (view === 'cycles') {
+        return d.inCycle ? '#cc0000' : '#e0e0e0';
       } else {
         return typeColorMap[d.type] || typeColorMap.other;
       }
@@ -524,10 +810,26 @@ export const DependencyGraphService = {
         <strong>File:</strong> \${d.filePath}
       \`;
       
+      if (d.root !== undefined) {
+        content += \`<br><strong>Root:</strong> \${d.root}\`;
+      }
+      
       if (d.duplicateScore !== undefined) {
         content += \`<br><strong>Duplicate Score:</strong> \${d.duplicateScore}\`;
       }
       
+      if (d.structuralCloneScore !== undefined) {
+        content += \`<br><strong>Structural Clone Score:</strong> \${d.structuralCloneScore}\`;
+      }
+      
+      if (d.deadCode !== undefined) {
+        content += \`<br><strong>Dead Code:</strong> \${d.deadCode}\`;
+      }
+      
+      if (d.inCycle) {
+        content += '<br><strong>In a dependency cycle</strong>';
+      }
+      
       tooltip.style('display', 'block')
         .html(content)
         .style('left', (event.pageX + 10) + 'px')
@@ -547,8 +849,39 @@ export const DependencyGraphService = {
         .attr('y2', d => d.target.y);
       
       node.attr('transform', d => \`translate(\${d.x}, \${d.y})\`);
+      
+      if (isWorkspaceGraph) {
+        updateRootClusters();
+      }
     });
     
+    // Redraws the outline and label around each root's nodes
+    function updateRootClusters() {
+      const padding = 30;
+      const clusters = new Map(graphData.roots.map(root => [root, []]));
+      graphData.nodes.forEach(d => {
+        // Padding every node with four corners keeps hulls valid for roots with one or two nodes
+        clusters.get(d.root).push(
+          [d.x - padding, d.y - padding],
+          [d.x - padding, d.y + padding],
+          [d.x + padding, d.y - padding],
+          [d.x + padding, d.y + padding]
+        );
+      });
+      
+      hull.attr('d', root => {
+        const points = d3.polygonHull(clusters.get(root));
+        return points ? 'M' + points.join('L') + 'Z' : null;
+      });
+      
+      hullLabel
+        .attr('x', root => d3.mean(clusters.get(root), point => point[0]))
+        .attr('y', root => {
+          const points = clusters.get(root);
+          return points.length ? d3.min(points, point => point[1]) - 10 : 0;
+        });
+    }
+    
     // Drag functions
     function dragstarted(event, d) {
       if (!event.active) simulation.alphaTarget(0.3).restart();
@@ -597,18 +930,92 @@ export const DependencyGraphService = {
       });
     }
 
+    if (graphData.hasStructuralCloneAnalysis) {
+      d3.select('#structural-view').on('click', function() {
+        if (currentView !== 'structural') {
+          currentView = 'structural';
+          updateViewMode();
+        }
+      });
+    }
+
+    d3.select('#dead-code-view').on('click', function() {
+      if (currentView !== 'dead-code') {
+        currentView = 'dead-code';
+        updateViewMode();
+      }
+    });
+
+    d3.select('#cycles-view').on('click', function() {
+      if (currentView !== 'cycles') {
+        currentView = 'cycles';
+        updateViewMode();
+      }
+    });
+
+    d3.select('#public-api-toggle').on('click', function() {
+      publicApiOnly = !publicApiOnly;
+      applyPublicApiFilter();
+    });
+    
+    // Each kind of edge in the graph (calls, reads, extends...) can be switched off
+    const edgeKinds = [...new Set(graphData.edges.map(d => d.kind).filter(kind => kind))].sort();
+    const hiddenEdgeKinds = new Set();
+    const edgeKindToggles = d3.select('#edge-kind-toggles')
+      .selectAll('label')
+      .data(edgeKinds)
+      .enter()
+      .append('label');
+    
+    edgeKindToggles.append('input')
+      .attr('type', 'checkbox')
+      .property('checked', true)
+      .on('change', function(event, kind) {
+        if (this.checked) {
+          hiddenEdgeKinds.delete(kind);
+        } else {
+          hiddenEdgeKinds.add(kind);
+        }
+        updateLinkVisibility();
+      });
+    
+    edgeKindToggles.append('span').text(kind => ' ' + kind);
+    
+    // Hides the symbols outside the public API, and the links to them
+    function applyPublicApiFilter() {
+      d3.select('#public-api-toggle').classed('active', publicApiOnly);
+      node.style('display', d => publicApiOnly && !d.publicApi ? 'none' : null);
+      updateLinkVisibility();
+    }
+    
+    // Links are hidden when their kind is switched off or one of their ends is hidden
+    function updateLinkVisibility() {
+      link.style('display', d =>
+        hiddenEdgeKinds.has(d.kind) || (publicApiOnly && !(d.source.publicApi && d.target.publicApi)) ? 'none' : null
+      );
+    }
+    
+    applyPublicApiFilter();
+
     function updateViewMode() {
       console.log('Updating view mode to:', currentView);
       
       // Update button states
       d3.select('#dependency-view').classed('active', currentView === 'dependency');
       d3.select('#duplicate-view').classed('active', currentView === 'duplicate');
+      d3.select('#structural-view').classed('active', currentView === 'structural');
+      d3.select('#dead-code-view').classed('active', currentView === 'dead-code');
+      d3.select('#cycles-view').classed('active', currentView === 'cycles');
       
       // Update node colors - force reapplication of colors
       circles.attr('fill', d => getNodeColor(d, currentView));
+      link.attr('stroke', getLinkColor).attr('stroke-width', getLinkWidth);
       
       // Show/hide duplicate legend
       d3.select('#duplicate-legend').classed('show', currentView === 'duplicate');
+      d3.select('#structural-legend').classed('show', currentView === 'structural');
+      d3.select('#dead-code-legend').classed('show', currentView === 'dead-code');
+      d3.select('#cycles-legend').classed('show', currentView === 'cycles');
     }
     
     d3.select('#search').on('input', function() {
@@ -620,7 +1027,7 @@ export const DependencyGraphService = {
         .attr('r', 8)
         .attr('fill', d => getNodeColor(d, currentView));
       
-      link.attr('stroke', '#999').attr('stroke-width', 1);
+      link.attr('stroke', getLinkColor).attr('stroke-width', getLinkWidth);
       
       if (term) {
         // Highlight matching nodes
@@ -663,37 +1070,50 @@ export const DependencyGraphService = {
   },
 
   /**
-   * Generates and saves the dependency graph visualization
+   * Loads the graph data of one root, using the merged JSON with scores when available
    * @param rootPath - The workspace root path
-   * @returns Promise that resolves when the visualization is saved
+   * @param rootName - Name of the workspace root, set when building a multi-root workspace graph
+   * @returns Graph data for visualization
    */
-  async generateVisualization(rootPath: string): Promise<string> {
-    let graphData: GraphData;
-    
+  async loadGraphData(rootPath: string, rootName?: string): Promise<GraphData> {
     // First try to read the merged JSON with scores
     const mergedJson = await this.readMergedJsonData(rootPath);
     
     if (mergedJson) {
       console.log('Using merged JSON with scores for visualization');
-      graphData = this.createGraphDataFromMergedJson(mergedJson);
-    } else {
-      // Fall back to the original approach
-      console.log('Falling back to original symbol index and duplicate analysis');
-      
-      // Read the symbol index
-      const symbolIndex = await SymbolIndexService.readSymbolIndex(rootPath);
-      
-      if (!symbolIndex) {
-        throw new Error('Symbol index not found. Run "Build Symbol Index" command first.');
-      }
-      
-      // Read duplicate analysis data if available
-      const duplicateAnalysisData = await this.readDuplicateAnalysisData(rootPath);
-      
-      // Create graph data
-      graphData = this.createGraphData(symbolIndex, duplicateAnalysisData);
+      const graphData = this.createGraphDataFromMergedJson(mergedJson, rootName);
+      this.markDeadCode(graphData, mergedJson);
+      this.markCycles(graphData, mergedJson, rootName);
+      return graphData;
+    }
+    
+    // Fall back to the original approach
+    console.log('Falling back to original symbol index and duplicate analysis');
+    
+    // Read the symbol index
+    const symbolIndex = await SymbolIndexService.readSymbolIndex(rootPath);
+    
+    if (!symbolIndex) {
+      throw new Error('Symbol index not found. Run "Build Symbol Index" command first.');
     }
     
+    // Read duplicate analysis data if available
+    const duplicateAnalysisData = await this.readDuplicateAnalysisData(rootPath);
+    
+    // Create graph data
+    const graphData = this.createGraphData(symbolIndex, duplicateAnalysisData, rootName);
+    this.markDeadCode(graphData, symbolIndex);
+    this.markCycles(graphData, symbolIndex, rootName);
+    return graphData;
+  },
+
+  /**
+   * Writes the visualization HTML for graph data
+   * @param graphData - The graph data to visualize
+   * @param visualizationPath - Path of the HTML file
+   * @returns The path of the written file
+   */
+  async writeVisualization(graphData: GraphData, visualizationPath: string): Promise<string> {
     // Add a duplicate view button only if we have duplicate analysis
     if (graphData.hasDuplicateAnalysis) {
       console.log('Duplicate analysis data found, adding duplicate view button');
@@ -703,12 +1123,73 @@ export const DependencyGraphService = {
     const htmlContent = this.createVisualizationHtml(graphData);
     
     // Ensure directory exists
-    const visualizationPath = this.getVisualizationPath(rootPath);
     await fs.ensureDir(path.dirname(visualizationPath));
     
     // Write HTML file
     await fs.writeFile(visualizationPath, htmlContent, 'utf8');
     
     return visualizationPath;
+  },
+
+  /**
+   * Generates and saves the dependency graph visualization
+   * @param rootPath - The workspace root path
+   * @param outPath - Optional output path (defaults to .cursorcrawl/dependency-graph.html)
+   * @returns Promise that resolves when the visualization is saved
+   */
+  async generateVisualization(rootPath: string, outPath?: string): Promise<string> {
+    const graphData = await this.loadGraphData(rootPath);
+    return this.writeVisualization(graphData, outPath ?? this.getVisualizationPath(rootPath));
+  },
+
+  /**
+   * Generates one visualization for several roots of a multi-root workspace, clustered per root
+   * Roots that have not been indexed yet are left out
+   * @param rootPaths - The workspace root paths
+   * @param outPath - Optional output path (defaults to .cursorcrawl/workspace-dependency-graph.html in the first root)
+   * @returns The path of the written file
+   */
+  async generateWorkspaceVisualization(rootPaths: string[], outPath?: string): Promise<string> {
+    const workspaceGraph: GraphData = {
+      nodes: [],
+      edges: [],
+      hasDuplicateAnalysis: false,
+      hasStructuralCloneAnalysis: false,
+      roots: []
+    };
+    
+    for (const rootPath of rootPaths) {
+      const rootName = WorkspaceService.getRootName(rootPath);
+      if (!await SymbolIndexService.symbolIndexExists(rootPath)) {
+        console.log(`Skipping ${rootName} in the workspace graph: no symbol index`);
+        continue;
+      }
+      
+      const rootGraph = await this.loadGraphData(rootPath, rootName);
+      workspaceGraph.nodes.push(...rootGraph.nodes);
+      workspaceGraph.edges.push(...rootGraph.edges);
+      workspaceGraph.hasDuplicateAnalysis ||= rootGraph.hasDuplicateAnalysis;
+      workspaceGraph.hasStructuralCloneAnalysis ||= rootGraph.hasStructuralCloneAnalysis;
+      workspaceGraph.roots.push(rootName);
+    }
+    
+    if (workspaceGraph.roots.length === 0) {
+      throw new Error('Symbol index not found. Run "Build Symbol Index" command first.');
+    }
+    
+    // Both roots record a cross-root edge, and edges into skipped roots have no target node
+    const nodeIds = new Set(workspaceGraph.nodes.map(node => node.id));
+    const edgeIds = new Set<string>();
+    workspaceGraph.edges = workspaceGraph.edges.filter(edge => {
+      const edgeId = `${edge.source}->${edge.target}`;
+      if (edgeIds.has(edgeId) || !nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+        return false;
+      }
+      edgeIds.add(edgeId);
+      return true;
+    });
+    
+    const visualizationPath = outPath ?? path.join(path.dirname(this.getVisualizationPath(rootPaths[0])), 'workspace-dependency-graph.html');
+    return this.writeVisualization(workspaceGraph, visualizationPath);
   }
-}; 
\ No newline at end of file
+};
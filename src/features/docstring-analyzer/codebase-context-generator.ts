@@ -19,7 +19,7 @@ export interface CodebaseContextEntry {
   /**
    * Type of the symbol
    */
-  type: 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'enum' | 'other';
+  type: 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'enum' | 'component' | 'hook' | 'property' | 'other';
 
   /**
    * Path to the file containing the symbol
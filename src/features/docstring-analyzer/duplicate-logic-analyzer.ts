@@ -1,18 +1,16 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import OpenAI from 'openai';
 import { z } from 'zod';
-import { zodResponseFormat } from 'openai/helpers/zod';
 import { CodebaseContext, CodebaseContextEntry } from './codebase-context-generator';
-import { OpenAiService } from '@/shared/services/openai-service';
+import { LlmService, RetryConfig, DEFAULT_RETRY_CONFIG } from '@/shared/services/llm-service';
+import { LlmProvider } from '@/shared/types/llm-provider';
 import { WorkspaceService } from '@/shared/services/workspace-service';
+import { MergeJsonService } from '@/features/merge-json/merge-json-service';
 
 // Constants
 const DUPLICATE_ANALYSIS_FILENAME = 'duplicate-analysis.json';
 const DUPLICATE_ANALYSIS_TYPE_FILENAME = 'duplicate-analysis-{type}.json';
 
-const O3_MINI_MODEL = 'o3-mini';
-
 /**
  * Interface for the duplicate logic analysis result
  */
@@ -48,6 +46,16 @@ export interface DuplicateLogicResult {
    * The name of the most likely duplicate (if score is 3, 4, or 5)
    */
   duplicateName?: string;
+  
+  /**
+   * Cosine similarity to the most likely duplicate (embedding mode only)
+   */
+  similarity?: number;
+  
+  /**
+   * Whether the LLM confirmed the duplicate (embedding mode only, set for candidates sent for confirmation)
+   */
+  llmConfirmed?: boolean;
 }
 
 /**
@@ -91,28 +99,6 @@ interface TypeGroupedEntries {
   }[];
 }
 
-/**
- * Configuration for retry logic, imported from OpenAIService
- */
-interface RetryConfig {
-  maxRetries: number;
-  initialDelayMs: number;
-  backoffFactor: number;
-  maxDelayMs: number;
-  verbose: boolean;
-}
-
-/**
- * Default retry configuration
- */
-const DEFAULT_RETRY_CONFIG: RetryConfig = {
-  maxRetries: 3,
-  initialDelayMs: 1000,
-  backoffFactor: 2,
-  maxDelayMs: 10000,
-  verbose: true
-};
-
 /**
  * Service for analyzing duplicate logic in codebase
  */
@@ -180,7 +166,7 @@ export const DuplicateLogicAnalyzerService = {
   },
 
   /**
-   * Formats the code entries for the OpenAI prompt
+   * Formats the code entries for the LLM prompt
    * @param entries - The code entries to format
    * @returns The formatted entries string
    */
@@ -195,10 +181,10 @@ export const DuplicateLogicAnalyzerService = {
   },
 
   /**
-   * Creates the prompt for the OpenAI model
+   * Creates the prompt for the LLM
    * @param formattedEntries - The formatted code entries
    * @param typeCategory - The type category being analyzed
-   * @returns The prompt for the OpenAI model
+   * @returns The prompt for the LLM
    */
   createPrompt(formattedEntries: string, typeCategory: string): string {
     return `You are tasked with analyzing a codebase for potentially duplicated logic. Below is information about ${typeCategory} in the codebase. Each entry includes the filepath, name, type, and a docstring describing what it does.
@@ -233,15 +219,15 @@ The output format must be a JSON object with a "results" array containing EXACTL
   },
 
   /**
-   * Safely sends the prompt to the OpenAI API using structured outputs
-   * @param client - The OpenAI client
+   * Safely sends the prompt to the LLM provider using structured outputs
+   * @param provider - The LLM provider
    * @param prompt - The prompt to send
-   * @param retryConfig - Configuration for retry behavior
    * @param entries - The entries being analyzed (for validation)
+   * @param retryConfig - Configuration for retry behavior
    * @returns The parsed structured output
    */
   async safeCompletionWithParse(
-    client: OpenAI, 
+    provider: LlmProvider, 
     prompt: string,
     entries: Array<{filePath: string; name: string; type: string; docstring: string}>,
     retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
@@ -256,91 +242,22 @@ The output format must be a JSON object with a "results" array containing EXACTL
     };
     
     try {
-      return await OpenAiService.withRetry(
+      return await LlmService.withRetry(
         async () => {
-          try {
-            // First try the beta.chat.completions.parse method
-            const completion = await client.beta.chat.completions.parse({
-              model: O3_MINI_MODEL,
-              messages: [
-                { 
-                  role: 'system', 
-                  content: 'You are an expert code analyzer that identifies potentially duplicated logic in a codebase.' 
-                },
-                { role: 'user', content: prompt }
-              ],
-              response_format: zodResponseFormat(DuplicateLogicOutputSchema, "response"),
-            });
-
-            // Extract the parsed result which is already validated against the schema
-            const result = completion.choices[0].message.parsed as DuplicateLogicOutput;
-            
-            // Validate result completeness - check if we have substantially fewer results than entries
-            if (result.results.length < entryCount * 0.9) {
-              console.warn(`Incomplete results detected: Received ${result.results.length} results for ${entryCount} entries`);
-              throw new Error(`Incomplete results: Only ${result.results.length} of ${entryCount} entries were processed`);
-            }
-            
-            return result;
-          } catch (error) {
-            // Handle various error types
-            if (error instanceof Error) {
-              // Check for incomplete results (our custom error)
-              if (error.message.includes('Incomplete results')) {
-                console.warn('Incomplete results detected, retrying with standard completion');
-              }
-              
-              // Check if it's a beta API error
-              else if (
-                error.message.includes('500') || 
-                error.message.includes('beta') ||
-                error.message.includes('parse') ||
-                error.message.includes('content_filter')
-              ) {
-                console.warn('Beta API failed, falling back to standard chat completion:', error);
-              } else {
-                // Unexpected error, just log and rethrow
-                console.error('Unexpected error in API call:', error);
-                throw error;
-              }
-              
-              // Try standard completion as fallback
-              const fallbackCompletion = await client.chat.completions.create({
-                model: O3_MINI_MODEL,
-                messages: [
-                  { 
-                    role: 'system', 
-                    content: 'You are an expert code analyzer that identifies potentially duplicated logic in a codebase. Return ONLY valid JSON matching this schema: ' + JSON.stringify(DuplicateLogicOutputSchema.shape) 
-                  },
-                  { role: 'user', content: prompt + '\n\nReturn ONLY valid JSON with no explanation.' }
-                ],
-                response_format: { type: "json_object" },
-                temperature: 0, // Lower temperature for more consistent results
-              });
-
-              const content = fallbackCompletion.choices[0].message.content;
-              if (!content) {
-                throw new Error('Empty response from OpenAI API');
-              }
-
-              try {
-                // Parse and validate the JSON response
-                const parsedResult = DuplicateLogicOutputSchema.parse(JSON.parse(content)) as DuplicateLogicOutput;
-                
-                // Validate result completeness
-                if (parsedResult.results.length < entryCount * 0.9) {
-                  console.warn(`Incomplete results from fallback: Received ${parsedResult.results.length} results for ${entryCount} entries`);
-                  throw new Error(`Incomplete results from fallback: Only ${parsedResult.results.length} of ${entryCount} entries were processed`);
-                }
-                
-                return parsedResult;
-              } catch (parseError) {
-                console.error('Failed to parse fallback response:', parseError);
-                throw new Error('Failed to parse response: ' + String(parseError));
-              }
-            }
-            throw error;
+          const result: DuplicateLogicOutput = await provider.completeStructured({
+            system: 'You are an expert code analyzer that identifies potentially duplicated logic in a codebase.',
+            prompt,
+            schema: DuplicateLogicOutputSchema,
+            schemaName: 'response',
+          });
+          
+          // Validate result completeness - check if we have substantially fewer results than entries
+          if (result.results.length < entryCount * 0.9) {
+            console.warn(`Incomplete results detected: Received ${result.results.length} results for ${entryCount} entries`);
+            throw new Error(`Incomplete results: Only ${result.results.length} of ${entryCount} entries were processed`);
           }
+          
+          return result;
         },
         enhancedRetryConfig
       );
@@ -366,7 +283,7 @@ The output format must be a JSON object with a "results" array containing EXACTL
         }
         
         // For other errors, just throw
-        const enhancedError = new Error(`Persistent OpenAI API errors after multiple retries: ${error.message}`);
+        const enhancedError = new Error(`Persistent ${provider.kind} API errors after multiple retries: ${error.message}`);
         throw enhancedError;
       }
       
@@ -393,9 +310,20 @@ The output format must be a JSON object with a "results" array containing EXACTL
     return outputPath;
   },
 
+  /**
+   * Writes the results for one type category to its own JSON file
+   * @param rootPath - The workspace root path
+   * @param typeCategory - The type category (e.g., 'function', 'class')
+   * @param results - The results to write
+   * @returns The path to the written file
+   */
+  async writeTypeResults(rootPath: string, typeCategory: string, results: DuplicateLogicOutput): Promise<string> {
+    return this.writeResults(rootPath, results, DUPLICATE_ANALYSIS_TYPE_FILENAME.replace('{type}', typeCategory));
+  },
+
   /**
    * Process a chunk of the codebase (entries of a specific type)
-   * @param client - The OpenAI client
+   * @param provider - The LLM provider
    * @param entries - The entries to process
    * @param typeCategory - The type category being processed
    * @param rootPath - The workspace root path
@@ -403,7 +331,7 @@ The output format must be a JSON object with a "results" array containing EXACTL
    * @returns The analysis results for this chunk
    */
   async processChunk(
-    client: OpenAI,
+    provider: LlmProvider,
     entries: Array<{filePath: string; name: string; type: string; docstring: string}>,
     typeCategory: string,
     rootPath: string,
@@ -416,20 +344,15 @@ The output format must be a JSON object with a "results" array containing EXACTL
     const prompt = this.createPrompt(formattedEntries, typeCategory);
     
     try {
-      // Send to OpenAI with structured output
+      // Send to the LLM provider with structured output
       progressCallback?.(`Analyzing ${entries.length} ${typeCategory}s...`);
-      const output = await this.safeCompletionWithParse(client, prompt, entries);
+      const output = await this.safeCompletionWithParse(provider, prompt, entries);
       
       // Additional validation of results
       this.validateResults(output.results, entries);
       
       // Write the type-specific results to a separate JSON file
-      const typeSpecificFilename = DUPLICATE_ANALYSIS_TYPE_FILENAME.replace('{type}', typeCategory);
-      const typePath = await this.writeResults(
-        rootPath, 
-        output, 
-        typeSpecificFilename
-      );
+      const typePath = await this.writeTypeResults(rootPath, typeCategory, output);
       
       progressCallback?.(`Wrote ${output.results.length} ${typeCategory} results to ${typePath}`);
       
@@ -444,12 +367,7 @@ The output format must be a JSON object with a "results" array containing EXACTL
       const fallbackResults = this.createFallbackResults(entries);
       
       // Write the fallback results
-      const typeSpecificFilename = DUPLICATE_ANALYSIS_TYPE_FILENAME.replace('{type}', `${typeCategory}-fallback`);
-      const typePath = await this.writeResults(
-        rootPath, 
-        { results: fallbackResults }, 
-        typeSpecificFilename
-      );
+      const typePath = await this.writeTypeResults(rootPath, `${typeCategory}-fallback`, { results: fallbackResults });
       
       progressCallback?.(`Wrote ${fallbackResults.length} fallback ${typeCategory} results to ${typePath}`);
       
@@ -523,14 +441,8 @@ The output format must be a JSON object with a "results" array containing EXACTL
     // Read the codebase context
     const codebaseContext = await this.readCodebaseContext(rootPath);
     
-    // Get environment variables for OpenAI
-    const envVars = OpenAiService.loadEnvironmentVars(rootPath);
-    
-    // Create OpenAI client
-    const client = OpenAiService.createOpenAIClient(envVars.OPENAI_API_KEY);
-    if (!client) {
-      throw new Error('OpenAI client not created. Check your API key configuration.');
-    }
+    // Create the configured LLM provider
+    const provider = LlmService.createProviderForWorkspace(rootPath);
     
     // Group entries by type
     const groupedEntries = this.groupEntriesByType(codebaseContext);
@@ -545,7 +457,7 @@ The output format must be a JSON object with a "results" array containing EXACTL
       processedTypes++;
       progressCallback?.(`Processing ${entries.length} ${typeCategory}s (${processedTypes}/${Object.keys(groupedEntries).length})`);
       
-      const results = await this.processChunk(client, entries, typeCategory, rootPath, progressCallback);
+      const results = await this.processChunk(provider, entries, typeCategory, rootPath, progressCallback);
       allResults.push(...results);
       
       progressCallback?.(`Completed ${typeCategory}s: ${results.length} results`);
@@ -554,6 +466,11 @@ The output format must be a JSON object with a "results" array containing EXACTL
     // Write the combined results to a file
     progressCallback?.(`Writing combined results (${allResults.length} entries) to JSON file`);
     const combinedOutput: DuplicateLogicOutput = { results: allResults };
-    return this.writeResults(rootPath, combinedOutput);
+    const outputPath = await this.writeResults(rootPath, combinedOutput);
+    
+    // Keep the scores next to the symbols in the symbol store
+    await MergeJsonService.storeDuplicateAnalysis(rootPath, allResults);
+    
+    return outputPath;
   }
 }; 
\ No newline at end of file
@@ -0,0 +1,386 @@
+import * as crypto from 'crypto';
+import { z } from 'zod';
+import { CodebaseContext } from './codebase-context-generator';
+import {
+  DuplicateLogicAnalyzerService,
+  DuplicateLogicOutput,
+  DuplicateLogicResult
+} from './duplicate-logic-analyzer';
+import { EmbeddingService } from '@/shared/services/embedding-service';
+import { LlmService } from '@/shared/services/llm-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { StoredEmbedding, SymbolStoreService } from '@/shared/services/symbol-store-service';
+import { EmbeddingProvider } from '@/shared/types/embedding-provider';
+import { LlmProvider } from '@/shared/types/llm-provider';
+import { MergeJsonService } from '@/features/merge-json/merge-json-service';
+
+// Constants
+const EMBEDDING_BATCH_SIZE = 64;
+const CONFIRMATION_BATCH_SIZE = 10;
+const MAX_EMBEDDED_SNIPPET_LENGTH = 2000;
+const MAX_PROMPT_SNIPPET_LENGTH = 1200;
+
+/**
+ * Options for embedding-based duplicate detection
+ */
+export interface EmbeddingDuplicateOptions {
+  /**
+   * Minimum cosine similarity for a pair to count as a likely duplicate (score 3 and above)
+   */
+  similarityThreshold?: number;
+
+  /**
+   * Number of top candidate pairs sent to the LLM for confirmation (0 disables confirmation)
+   */
+  confirmationPairs?: number;
+}
+
+/**
+ * A codebase entry prepared for embedding
+ */
+interface EmbeddedEntry {
+  filePath: string;
+  name: string;
+  type: string;
+  docstring: string;
+  snippet: string;
+  text: string;
+  contentHash: string;
+  vector?: Float32Array;
+}
+
+/**
+ * Zod schema for the LLM confirmation of candidate pairs
+ */
+const PairConfirmationSchema = z.object({
+  pairs: z.array(z.object({
+    id: z.number().describe('The id of the candidate pair, exactly as provided'),
+    isDuplicate: z.boolean().describe('Whether the two constructs implement substantially the same logic'),
+    score: z.number().describe('Duplication score (1-5) where 1 is unlikely and 5 is very likely duplicated')
+  })).describe('One verdict for each candidate pair')
+});
+
+/**
+ * Truncates text to a maximum length
+ * @param text - The text to truncate
+ * @param maxLength - The maximum length
+ * @returns The truncated text
+ */
+const truncate = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+
+/**
+ * Service for detecting duplicate logic by comparing embeddings of docstrings and snippets
+ * Candidate pairs come from nearest neighbours; the LLM only confirms the top candidates
+ */
+export const EmbeddingDuplicateAnalyzerService = {
+  /**
+   * Maps a cosine similarity to the 1-5 duplication score used by the LLM analysis
+   * @param similarity - Similarity to the nearest neighbour
+   * @param threshold - Minimum similarity for a likely duplicate
+   * @returns The duplication score
+   */
+  similarityToScore(similarity: number, threshold: number): number {
+    const band = (1 - threshold) / 3;
+
+    if (similarity >= threshold + 2 * band) {
+      return 5;
+    }
+    if (similarity >= threshold + band) {
+      return 4;
+    }
+    if (similarity >= threshold) {
+      return 3;
+    }
+    if (similarity >= threshold - 0.1) {
+      return 2;
+    }
+    return 1;
+  },
+
+  /**
+   * Builds the entries to embed, joining snippets from the symbol index
+   * @param rootPath - The workspace root path
+   * @param codebaseContext - The codebase context
+   * @returns The entries with their embedding text
+   */
+  async prepareEntries(rootPath: string, codebaseContext: CodebaseContext): Promise<EmbeddedEntry[]> {
+    const symbolIndex = await SymbolIndexService.readSymbolIndex(rootPath) ?? {};
+    const entries: EmbeddedEntry[] = [];
+
+    for (const [filePath, contextEntries] of Object.entries(codebaseContext)) {
+      const symbols = symbolIndex[filePath] ?? [];
+
+      for (const entry of contextEntries) {
+        const snippet = symbols.find(symbol => symbol.name === entry.name && symbol.type === entry.type)?.snippet ?? '';
+        const text = `${entry.type} ${entry.name}\n${entry.docstring}\n${truncate(snippet, MAX_EMBEDDED_SNIPPET_LENGTH)}`;
+
+        entries.push({
+          filePath,
+          name: entry.name,
+          type: entry.type,
+          docstring: entry.docstring,
+          snippet,
+          text,
+          contentHash: crypto.createHash('sha1').update(text).digest('hex')
+        });
+      }
+    }
+
+    return entries;
+  },
+
+  /**
+   * Embeds the entries, reusing vectors cached in the symbol store when the text hasn't changed
+   * @param rootPath - The workspace root path
+   * @param provider - The embedding provider
+   * @param entries - The entries to embed (vectors are assigned in place)
+   * @param progressCallback - Optional callback for progress reporting
+   */
+  async embedEntries(
+    rootPath: string,
+    provider: EmbeddingProvider,
+    entries: EmbeddedEntry[],
+    progressCallback?: (message: string) => void
+  ): Promise<void> {
+    const modelKey = `${provider.kind}:${provider.model}`;
+    const cached = new Map<string, StoredEmbedding>();
+    for (const embedding of await SymbolStoreService.readEmbeddings(rootPath, modelKey)) {
+      cached.set(`${embedding.filePath}|${embedding.name}|${embedding.type}`, embedding);
+    }
+
+    const missing: EmbeddedEntry[] = [];
+    for (const entry of entries) {
+      const hit = cached.get(`${entry.filePath}|${entry.name}|${entry.type}`);
+      if (hit && hit.contentHash === entry.contentHash) {
+        entry.vector = hit.vector;
+      } else {
+        missing.push(entry);
+      }
+    }
+
+    progressCallback?.(`Reusing ${entries.length - missing.length} cached embeddings, embedding ${missing.length} entries`);
+
+    for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+      progressCallback?.(`Embedding entries ${i + 1}-${i + batch.length} of ${missing.length}`);
+
+      const vectors = await LlmService.withRetry(() => provider.embed(batch.map(entry => entry.text)));
+      batch.forEach((entry, index) => {
+        entry.vector = EmbeddingService.normalize(vectors[index]);
+      });
+    }
+
+    // Replace the cache so symbols that no longer exist are dropped
+    await SymbolStoreService.replaceEmbeddings(
+      rootPath,
+      modelKey,
+      entries.map(entry => ({
+        filePath: entry.filePath,
+        name: entry.name,
+        type: entry.type,
+        contentHash: entry.contentHash,
+        vector: entry.vector as Float32Array
+      }))
+    );
+  },
+
+  /**
+   * Finds the nearest neighbour of each entry within its group and scores it
+   * @param entries - Embedded entries of one type category
+   * @param threshold - Minimum similarity for a likely duplicate
+   * @returns One result per entry
+   */
+  findNearestNeighbours(entries: EmbeddedEntry[], threshold: number): DuplicateLogicResult[] {
+    const best = entries.map(() => ({ index: -1, similarity: -1 }));
+
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const similarity = EmbeddingService.cosineSimilarity(
+          entries[i].vector as Float32Array,
+          entries[j].vector as Float32Array
+        );
+
+        if (similarity > best[i].similarity) {
+          best[i] = { index: j, similarity };
+        }
+        if (similarity > best[j].similarity) {
+          best[j] = { index: i, similarity };
+        }
+      }
+    }
+
+    return entries.map((entry, i) => {
+      const result: DuplicateLogicResult = {
+        filePath: entry.filePath,
+        name: entry.name,
+        type: entry.type,
+        score: 1
+      };
+
+      if (best[i].index < 0) {
+        return result;
+      }
+
+      const similarity = Math.round(best[i].similarity * 1000) / 1000;
+      const score = this.similarityToScore(similarity, threshold);
+      const duplicate = entries[best[i].index];
+
+      return {
+        ...result,
+        score,
+        similarity,
+        ...(score >= 3 ? { duplicateFilePath: duplicate.filePath, duplicateName: duplicate.name } : {})
+      };
+    });
+  },
+
+  /**
+   * Creates the prompt asking the LLM to confirm candidate pairs
+   * @param pairs - The candidate pairs with their ids
+   * @returns The prompt
+   */
+  createConfirmationPrompt(pairs: Array<{ id: number; entry: EmbeddedEntry; duplicate: EmbeddedEntry }>): string {
+    const formatEntry = (entry: EmbeddedEntry) =>
+      `${entry.type} ${entry.name} (${entry.filePath})\nDocstring: ${entry.docstring}\nCode:\n${truncate(entry.snippet, MAX_PROMPT_SNIPPET_LENGTH)}`;
+
+    const formattedPairs = pairs
+      .map(pair => `PAIR ${pair.id}\n--- A ---\n${formatEntry(pair.entry)}\n--- B ---\n${formatEntry(pair.duplicate)}`)
+      .join('\n\n');
+
+    return `Each pair below was flagged as possibly duplicated logic because the descriptions are similar. Decide for each pair whether A and B implement substantially the same logic, so that one could reuse the other.
+
+${formattedPairs}
+
+Return a "pairs" array with one object for EVERY pair:
+- id: the pair id exactly as provided
+- isDuplicate: true if A and B duplicate each other's logic, false otherwise
+- score: a number between 1 and 5 (strictly integers) for how likely the logic is duplicated`;
+  },
+
+  /**
+   * Asks the LLM to confirm the most similar candidate pairs and adjusts their scores
+   * @param provider - The LLM provider
+   * @param results - All results (updated in place)
+   * @param entriesByKey - Embedded entries keyed by "filePath|name"
+   * @param maxPairs - Number of top candidates to confirm
+   * @param progressCallback - Optional callback for progress reporting
+   */
+  async confirmTopCandidates(
+    provider: LlmProvider,
+    results: DuplicateLogicResult[],
+    entriesByKey: Map<string, EmbeddedEntry>,
+    maxPairs: number,
+    progressCallback?: (message: string) => void
+  ): Promise<void> {
+    const candidates = results
+      .filter(result => result.score >= 3 && result.duplicateFilePath && result.duplicateName)
+      .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0))
+      .slice(0, maxPairs);
+
+    for (let i = 0; i < candidates.length; i += CONFIRMATION_BATCH_SIZE) {
+      const batch = candidates.slice(i, i + CONFIRMATION_BATCH_SIZE);
+      const pairs = batch.map((result, index) => ({
+        id: i + index,
+        result,
+        entry: entriesByKey.get(`${result.filePath}|${result.name}`) as EmbeddedEntry,
+        duplicate: entriesByKey.get(`${result.duplicateFilePath}|${result.duplicateName}`) as EmbeddedEntry
+      })).filter(pair => pair.entry && pair.duplicate);
+
+      progressCallback?.(`Confirming candidate pairs ${i + 1}-${i + batch.length} of ${candidates.length} with the LLM`);
+
+      try {
+        const output = await LlmService.withRetry(() => provider.completeStructured({
+          system: 'You are an expert code analyzer that identifies duplicated logic in a codebase.',
+          prompt: this.createConfirmationPrompt(pairs),
+          schema: PairConfirmationSchema,
+          schemaName: 'response',
+        }));
+
+        for (const verdict of output.pairs) {
+          const pair = pairs.find(candidate => candidate.id === verdict.id);
+          if (!pair) {
+            continue;
+          }
+
+          const llmScore = Math.min(5, Math.max(1, Math.round(verdict.score)));
+          pair.result.llmConfirmed = verdict.isDuplicate;
+          // Keep the verdict and the score consistent with each other
+          pair.result.score = verdict.isDuplicate ? Math.max(3, llmScore) : Math.min(2, llmScore);
+        }
+      } catch (error) {
+        // Unconfirmed candidates keep their embedding scores
+        console.error('Error confirming duplicate candidates:', error);
+        progressCallback?.(`Could not confirm candidate pairs: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  },
+
+  /**
+   * Analyzes the codebase context for duplicate logic using embeddings
+   * @param rootPath - The workspace root path
+   * @param progressCallback - Optional callback for progress reporting
+   * @param options - Similarity threshold and LLM confirmation options
+   * @returns Path to the combined output JSON file
+   */
+  async analyzeDuplicateLogic(
+    rootPath: string,
+    progressCallback?: (message: string) => void,
+    options: EmbeddingDuplicateOptions = {}
+  ): Promise<string> {
+    const { similarityThreshold = 0.85, confirmationPairs = 20 } = options;
+
+    const codebaseContext = await DuplicateLogicAnalyzerService.readCodebaseContext(rootPath);
+    const embeddingProvider = EmbeddingService.createProviderForWorkspace(rootPath);
+
+    // Embed every entry (cached vectors are reused)
+    const entries = await this.prepareEntries(rootPath, codebaseContext);
+    await this.embedEntries(rootPath, embeddingProvider, entries, progressCallback);
+
+    const entriesByKey = new Map(entries.map(entry => [`${entry.filePath}|${entry.name}`, entry]));
+
+    // Compare entries within each type category, like the LLM analysis does
+    const groupedEntries = new Map<string, EmbeddedEntry[]>();
+    for (const entry of entries) {
+      if (!groupedEntries.has(entry.type)) {
+        groupedEntries.set(entry.type, []);
+      }
+      groupedEntries.get(entry.type)?.push(entry);
+    }
+
+    const resultsByType = new Map<string, DuplicateLogicResult[]>();
+    for (const [typeCategory, typeEntries] of groupedEntries) {
+      progressCallback?.(`Finding nearest neighbours for ${typeEntries.length} ${typeCategory}s`);
+      resultsByType.set(typeCategory, this.findNearestNeighbours(typeEntries, similarityThreshold));
+    }
+
+    const allResults = [...resultsByType.values()].flat();
+
+    // Only the strongest candidates are worth an LLM call
+    const llmConfig = LlmService.getProviderConfig(rootPath);
+    if (confirmationPairs > 0 && !LlmService.isMissingApiKey(llmConfig)) {
+      await this.confirmTopCandidates(
+        LlmService.createProvider(llmConfig),
+        allResults,
+        entriesByKey,
+        confirmationPairs,
+        progressCallback
+      );
+    } else if (confirmationPairs > 0) {
+      progressCallback?.('No LLM API key configured, skipping confirmation of candidate pairs');
+    }
+
+    for (const [typeCategory, results] of resultsByType) {
+      await DuplicateLogicAnalyzerService.writeTypeResults(rootPath, typeCategory, { results });
+    }
+
+    progressCallback?.(`Writing combined results (${allResults.length} entries) to JSON file`);
+    const combinedOutput: DuplicateLogicOutput = { results: allResults };
+    const outputPath = await DuplicateLogicAnalyzerService.writeResults(rootPath, combinedOutput);
+
+    // Keep the scores next to the symbols in the symbol store
+    await MergeJsonService.storeDuplicateAnalysis(rootPath, allResults);
+
+    return outputPath;
+  }
+};
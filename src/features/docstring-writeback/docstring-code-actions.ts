@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { FileSystemService } from '@/shared/services/file-system-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { SymbolStoreService } from '@/shared/services/symbol-store-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+import { DocstringEdit, DocstringWritebackService } from '@/features/docstring-writeback/docstring-writeback-service';
+
+// Languages whose declarations can get a JSDoc, including the script blocks of single-file components
+export const DOCSTRING_DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+  'typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'vue', 'svelte'
+].map(language => ({ language, scheme: 'file' }));
+
+/**
+ * Offers to write a symbol's generated docstring above its declaration, from the declaration line
+ */
+export const DocstringCodeActions = {
+  /**
+   * Adds the docstring edits of a file to a workspace edit
+   * @param workspaceEdit - The workspace edit
+   * @param uri - The file
+   * @param edits - Docstring edits of the file
+   * @param needsConfirmation - Whether each edit is shown in the refactor preview, to be accepted or rejected on its own
+   */
+  addEdits(workspaceEdit: vscode.WorkspaceEdit, uri: vscode.Uri, edits: DocstringEdit[], needsConfirmation: boolean): void {
+    for (const edit of edits) {
+      workspaceEdit.replace(uri, new vscode.Range(edit.startLine, 0, edit.endLine, 0), edit.text, {
+        needsConfirmation,
+        label: `${edit.replacesExisting ? 'Replace' : 'Insert'} JSDoc of ${edit.symbol.name}`,
+        description: `line ${edit.symbol.location.line}`
+      });
+    }
+  },
+
+  /**
+   * Provides a code action for each symbol declared on the line of the selection that has a generated docstring
+   * @param document - The document
+   * @param range - The selection
+   * @returns The code actions, disabled with the reason when the code changed since its docstring was generated
+   */
+  async provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): Promise<vscode.CodeAction[]> {
+    const rootPath = WorkspaceService.findRootForFile(document.uri.fsPath, WorkspaceService.getWorkspaceFolders());
+    if (!rootPath || !await SymbolIndexService.symbolIndexExists(rootPath)) {
+      return [];
+    }
+
+    const filePath = FileSystemService.normalizeFilePath(document.uri.fsPath, rootPath);
+    const symbolIndex = await SymbolStoreService.readSymbolIndex(rootPath, [filePath]);
+    const symbols = DocstringWritebackService.getWritableSymbols(symbolIndex[filePath] ?? [])
+      .filter(symbol => symbol.location.line - 1 === range.start.line);
+    if (symbols.length === 0) {
+      return [];
+    }
+
+    const { edits, refusedReason } = await DocstringWritebackService.planFileEdits(rootPath, filePath, symbols, document.getText());
+    if (refusedReason) {
+      const action = new vscode.CodeAction('Write generated JSDoc', vscode.CodeActionKind.RefactorRewrite);
+      action.disabled = { reason: `${refusedReason}. Rebuild the symbol index and regenerate the stale docstrings first.` };
+      return [action];
+    }
+
+    return edits.map(edit => {
+      const action = new vscode.CodeAction(`Write generated JSDoc of ${edit.symbol.name}`, vscode.CodeActionKind.RefactorRewrite);
+      action.edit = new vscode.WorkspaceEdit();
+      this.addEdits(action.edit, document.uri, [edit], false);
+      return action;
+    });
+  }
+};
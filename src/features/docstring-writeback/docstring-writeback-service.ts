@@ -0,0 +1,300 @@
+import * as path from 'path';
+import { SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { ComponentFileService } from '@/shared/services/component-file-service';
+import { DocstringGenerationService } from '@/features/generate-docstring/docstring-generation-service';
+import { SymbolExtractionService } from '@/features/symbol-index/symbol-extraction-service';
+
+// What may come before a symbol's name on its declaration line, so the JSDoc lands above the right statement
+const DECLARATION_PREFIX = /^\s*((@[\w.]+(\([^()]*\))?|export|default|declare|const|let|var|async|abstract|public|private|protected|static|readonly|override|accessor|get|set)\s+)*$/;
+
+// Tags naming a parameter or property, kept per name rather than per tag
+const NAMED_TAGS = new Set(['param', 'property', 'template']);
+
+// Tags that can appear more than once, kept unless the generated docstring has the exact same one
+const REPEATABLE_TAGS = new Set(['see', 'example', 'throws', 'todo', 'link']);
+
+// Alternative spellings of the same tag
+const TAG_ALIASES: Record<string, string> = {
+  arg: 'param',
+  argument: 'param',
+  prop: 'property',
+  return: 'returns',
+  exception: 'throws'
+};
+
+/**
+ * A docstring written above the declaration of a symbol
+ */
+export interface DocstringEdit {
+  symbol: SymbolIndexEntry;
+
+  /**
+   * First replaced line (0-based), the existing JSDoc's first line or the declaration line
+   */
+  startLine: number;
+
+  /**
+   * Declaration line (0-based), or its first decorator line, the line after the replaced ones
+   */
+  endLine: number;
+
+  /**
+   * The JSDoc, indented like the declaration and ending with a line break
+   */
+  text: string;
+
+  /**
+   * Whether an existing JSDoc is replaced rather than a new one inserted
+   */
+  replacesExisting: boolean;
+}
+
+/**
+ * The docstring edits of a file, or why the file must not be touched
+ */
+export interface FileDocstringEdits {
+  edits: DocstringEdit[];
+  refusedReason?: string;
+}
+
+/**
+ * Removes the comment delimiters and leading stars of a JSDoc
+ * @param docstring - The JSDoc comment
+ * @returns Its lines, without leading and trailing blank lines
+ */
+const getJsDocLines = (docstring: string): string[] => {
+  const lines = docstring.trim()
+    .replace(/^\/\*\*/, '')
+    .replace(/\*\/$/, '')
+    .split(/\r?\n/)
+    .map(line => {
+      const starred = line.match(/^\s*\* ?(.*)$/);
+      return (starred ? starred[1] : line.trim()).trimEnd();
+    });
+
+  while (lines.length > 0 && !lines[0]) {
+    lines.shift();
+  }
+  while (lines.length > 0 && !lines[lines.length - 1]) {
+    lines.pop();
+  }
+  return lines;
+};
+
+/**
+ * Splits JSDoc lines into the description and its tags, each tag with its continuation lines
+ * @param lines - Lines of the JSDoc
+ * @returns The description lines and the tags
+ */
+const splitJsDocTags = (lines: string[]): { description: string[]; tags: string[][] } => {
+  const description: string[] = [];
+  const tags: string[][] = [];
+  for (const line of lines) {
+    if (/^@\w/.test(line)) {
+      tags.push([line]);
+    } else if (tags.length > 0) {
+      tags[tags.length - 1].push(line);
+    } else {
+      description.push(line);
+    }
+  }
+  return { description, tags };
+};
+
+/**
+ * Identifies a tag, so an existing tag is only kept when the generated docstring has nothing in its place
+ * @param tag - Lines of the tag
+ * @returns The tag name, with the parameter name for named tags and the whole text for repeatable ones
+ */
+const getTagKey = (tag: string[]): string => {
+  const [, tagName, rest] = tag[0].match(/^@(\w+)\s*(.*)$/) ?? ['', '', ''];
+  const name = TAG_ALIASES[tagName] ?? tagName;
+  if (NAMED_TAGS.has(name)) {
+    const paramName = rest.replace(/^\{[^}]*\}\s*/, '').split(/\s/)[0].replace(/^\[|\]$/g, '').split('=')[0];
+    return `${name}:${paramName}`;
+  }
+  return REPEATABLE_TAGS.has(name) ? `${name}:${tag.join('\n')}` : name;
+};
+
+/**
+ * Service writing generated docstrings into the source, above the declaration of their symbol
+ */
+export const DocstringWritebackService = {
+  /**
+   * Selects the symbols with a generated docstring that can be written into their file
+   * Docstrings without the hash of the code they were written for can't be checked against the source, so they are left out,
+   * and so are the placeholders naming only the symbol that a failed generation stored before
+   * @param symbols - Symbols of a file
+   * @returns The symbols to write
+   */
+  getWritableSymbols(symbols: SymbolIndexEntry[]): SymbolIndexEntry[] {
+    return symbols.filter(symbol =>
+      !DocstringGenerationService.isEmptyDocstring(symbol.docstring, symbol.name) &&
+      !!symbol.docstringHash &&
+      // A single-file component's symbol spans the whole file, there is no declaration to document
+      !(symbol.type === 'component' && ComponentFileService.isComponentFile(symbol.filePath))
+    );
+  },
+
+  /**
+   * Finds the first line of the decorators right above a declaration, which its JSDoc goes above
+   * Decorator arguments may span several lines, like `@Component({ ... })`
+   * @param lines - Lines of the file
+   * @param declarationLine - Declaration line (0-based)
+   * @returns The first decorator line (0-based), or the declaration line if there are no decorators above it
+   */
+  findDecoratorsStart(lines: string[], declarationLine: number): number {
+    let decoratorsStart = declarationLine;
+    // Closing brackets seen so far whose opening bracket is further up, inside the arguments of a decorator
+    let unclosedBrackets = 0;
+    for (let i = declarationLine - 1; i >= 0; i--) {
+      const trimmed = lines[i].trim();
+      const isInsideArguments = unclosedBrackets > 0;
+      unclosedBrackets += (trimmed.match(/[)}\]]/g)?.length ?? 0) - (trimmed.match(/[({[]/g)?.length ?? 0);
+      if (unclosedBrackets > 0) {
+        // Only the arguments' closing line may come between the decorator and the declaration
+        if (!isInsideArguments && !/^[)}\]]+$/.test(trimmed)) {
+          break;
+        }
+        continue;
+      }
+
+      // A line like `@Input() value = 1;` declares a member of its own rather than decorating the next line
+      const isDecorator = isInsideArguments
+        ? /^@[\w.]+\(/.test(trimmed)
+        : /^(@[\w.]+(\(.*\))?\s*)+$/.test(trimmed);
+      if (unclosedBrackets < 0 || !isDecorator) {
+        break;
+      }
+      decoratorsStart = i;
+    }
+    return decoratorsStart;
+  },
+
+  /**
+   * Finds the JSDoc right above a declaration
+   * @param lines - Lines of the file
+   * @param declarationLine - Declaration line (0-based), its first decorator line if it has decorators
+   * @returns The JSDoc's first line (0-based), or undefined if the declaration has none
+   */
+  findJsDocStart(lines: string[], declarationLine: number): number | undefined {
+    const lastLine = declarationLine - 1;
+    if (lastLine < 0 || !lines[lastLine].trim().endsWith('*/')) {
+      return undefined;
+    }
+
+    for (let i = lastLine; i >= 0; i--) {
+      const trimmed = lines[i].trim();
+      if (trimmed.startsWith('/**')) {
+        return i;
+      }
+      // A plain block comment, or code ending in a comment, isn't the declaration's JSDoc
+      if (trimmed.startsWith('/*') || (i !== lastLine && !trimmed.startsWith('*')) || (i === lastLine && trimmed.includes('/*'))) {
+        return undefined;
+      }
+    }
+    return undefined;
+  },
+
+  /**
+   * Merges a generated docstring with the JSDoc it replaces
+   * Tags of the existing JSDoc that the generated one has no counterpart for, like @deprecated or @internal, are kept
+   * @param generated - The generated docstring
+   * @param existing - The JSDoc currently above the declaration, if any
+   * @param indent - Indentation of the declaration
+   * @param eol - Line break of the file
+   * @returns The JSDoc to write, ending with a line break
+   */
+  renderDocstring(generated: string, existing: string | undefined, indent: string, eol: string): string {
+    const { description, tags } = splitJsDocTags(getJsDocLines(generated));
+    const generatedKeys = new Set(tags.map(getTagKey));
+    const keptTags = existing
+      ? splitJsDocTags(getJsDocLines(existing)).tags.filter(tag => !generatedKeys.has(getTagKey(tag)))
+      : [];
+
+    // A kept tag goes after the generated tags of the same name, so e.g. every @param stays before @returns
+    const getTagName = (tag: string[]) => getTagKey(tag).split(':')[0];
+    for (const tag of keptTags) {
+      const lastSameName = tags.map(getTagName).lastIndexOf(getTagName(tag));
+      tags.splice(lastSameName >= 0 ? lastSameName + 1 : tags.length, 0, tag);
+    }
+
+    const lines = [...description, ...tags.flat()];
+    return [
+      `${indent}/**`,
+      ...lines.map(line => line ? `${indent} * ${line}` : `${indent} *`),
+      `${indent} */`
+    ].join(eol) + eol;
+  },
+
+  /**
+   * Plans the edits writing the docstrings of a file's symbols above their declarations
+   * The whole file is refused if any of the symbols changed since its docstring was generated, or moved from its indexed location
+   * @param rootPath - Project root path
+   * @param filePath - Normalized file path
+   * @param symbols - Symbols to write, from getWritableSymbols
+   * @param content - Current content of the file, including unsaved changes
+   * @returns The edits, without the symbols whose docstring is already in the source
+   */
+  async planFileEdits(
+    rootPath: string,
+    filePath: string,
+    symbols: SymbolIndexEntry[],
+    content: string
+  ): Promise<FileDocstringEdits> {
+    // The source is extracted again, so each symbol's hash is compared with the code as it is now
+    const currentSymbols = await SymbolExtractionService.extractSymbols(path.join(rootPath, filePath), filePath, rootPath, content);
+    const changedSymbols = symbols.filter(symbol => {
+      const current = currentSymbols.find(candidate =>
+        candidate.name === symbol.name &&
+        candidate.type === symbol.type &&
+        candidate.location.line === symbol.location.line &&
+        candidate.location.character === symbol.location.character
+      );
+      return !current || current.snippetHash !== symbol.docstringHash;
+    });
+    if (changedSymbols.length > 0) {
+      return {
+        edits: [],
+        refusedReason: `${changedSymbols.map(symbol => symbol.name).join(', ')} changed since the docstrings were generated`
+      };
+    }
+
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    const edits: DocstringEdit[] = [];
+    const documentedLines = new Set<number>();
+
+    for (const symbol of symbols) {
+      // Index lines are 1-based, and symbols declared on the same line, like `const a = 1, b = 2`, share one JSDoc
+      const declarationLine = symbol.location.line - 1;
+      const declaration = lines[declarationLine] ?? '';
+      if (documentedLines.has(declarationLine) || !DECLARATION_PREFIX.test(declaration.slice(0, symbol.location.character))) {
+        continue;
+      }
+      documentedLines.add(declarationLine);
+
+      // The JSDoc of a decorated declaration goes above its decorators
+      const declarationStart = this.findDecoratorsStart(lines, declarationLine);
+      const jsDocStart = this.findJsDocStart(lines, declarationStart);
+      const existing = jsDocStart !== undefined ? lines.slice(jsDocStart, declarationStart).join(eol) : undefined;
+      const indent = (lines[declarationStart] ?? '').match(/^\s*/)?.[0] ?? '';
+      const text = this.renderDocstring(symbol.docstring, existing, indent, eol);
+
+      // Docstrings read from the source, or written back before, are only reformatted if their text changed
+      if (existing !== undefined && getJsDocLines(existing).join('\n') === getJsDocLines(text).join('\n')) {
+        continue;
+      }
+
+      edits.push({
+        symbol,
+        startLine: jsDocStart ?? declarationStart,
+        endLine: declarationStart,
+        text,
+        replacesExisting: jsDocStart !== undefined
+      });
+    }
+
+    return { edits };
+  }
+};
@@ -6,18 +6,21 @@ import { ProjectService } from '@/shared/services/project-service';
 import { SymbolIndexOrchestrator } from '@/features/symbol-index/symbol-index-orchestrator';
 import { ensureProjectAnalysis } from '@/shared/utils/project-analysis';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { TsLanguageServiceRegistry } from '@/features/symbol-index/ts-language-service-registry';
+import { CycleDetectionService } from '@/features/cycles/cycle-detection-service';
+import { CycleDiagnostics } from '@/features/cycles/cycle-diagnostics';
+import { ArchitectureService } from '@/features/architecture/architecture-service';
+import { ArchitectureDiagnostics } from '@/features/architecture/architecture-diagnostics';
 
 /**
- * Sets up a file system watcher to automatically update project analysis when files change
- * @param context - The extension context for registration
+ * Watches one workspace root and keeps its project analysis up to date
+ * @param workspaceFolder - The workspace root path
+ * @returns The watcher, to dispose when the folder leaves the workspace
  */
-export const setupFileWatcher = (context: vscode.ExtensionContext): void => {
-    const workspaceFolder = WorkspaceService.getWorkspaceFolder();
-    if (!workspaceFolder) {
-        return;
-    }
-
-    const watcher = vscode.workspace.createFileSystemWatcher('**/*', false, false, false);
+const watchWorkspaceFolder = (workspaceFolder: string): vscode.Disposable => {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(workspaceFolder, '**/*'), false, false, false
+    );
     
     // Shared symbol index state for incremental updates
     let symbolIndexCache: SymbolIndex | undefined = undefined;
@@ -35,50 +38,121 @@ export const setupFileWatcher = (context: vscode.ExtensionContext): void => {
         }
     };
     
-    // Debounce to avoid too many updates
+    /**
+     * Re-indexes the changed files, or the whole root when none are given
+     * @param changedFiles - Paths of the files changed since the last update
+     */
+    const runProjectAnalysis = async (changedFiles: string[]) => {
+        try {
+            // Ensure we have the latest on-disk version before updating when files change
+            if (changedFiles.length > 0 && !symbolIndexCache) {
+                await initializeSymbolIndexCache();
+            }
+            
+            // Use the refactored project analysis workflow
+            const result = await ensureProjectAnalysis(workspaceFolder, {
+                generateDocstrings: false,
+                showMessages: false,
+                incremental: changedFiles.length > 0 && !!symbolIndexCache,
+                changedFiles,
+                symbolIndexCache
+            });
+            
+            // Update the symbol index cache if successful
+            if (result.success && result.symbolIndex) {
+                symbolIndexCache = result.symbolIndex;
+                
+                // Once cycles are shown in the Problems panel, keep them in step with the index
+                if (CycleDiagnostics.isTracking(workspaceFolder)) {
+                    CycleDiagnostics.update(workspaceFolder, CycleDetectionService.analyzeCycles(result.symbolIndex));
+                }
+                if (ArchitectureDiagnostics.isTracking(workspaceFolder)) {
+                    const config = await ArchitectureService.readConfig(workspaceFolder);
+                    const violations = config ? ArchitectureService.findViolations(result.symbolIndex, config) : [];
+                    ArchitectureDiagnostics.update(workspaceFolder, { violations });
+                }
+            }
+            
+            console.log('Project analysis updated automatically.');
+        } catch (error) {
+            console.error('Error updating project analysis:', error);
+        }
+    };
+    
+    // Debounce to avoid too many updates, collecting every file changed in a burst
     let debounceTimer: NodeJS.Timeout | null = null;
-    const updateProjectAnalysis = async (changedFile?: string) => {
+    const changedFiles = new Set<string>();
+    let fullUpdateRequested = false;
+    // Updates run one after another, so a slow update never overlaps with the one for the next burst
+    let analysisQueue: Promise<void> = Promise.resolve();
+    const updateProjectAnalysis = (changedFile?: string) => {
+        if (changedFile) {
+            changedFiles.add(changedFile);
+        } else {
+            fullUpdateRequested = true;
+        }
         if (debounceTimer) {
             clearTimeout(debounceTimer);
         }
         
-        debounceTimer = setTimeout(async () => {
-            try {
-                // Ensure we have the latest on-disk version before updating when a file changes
-                if (changedFile && !symbolIndexCache) {
-                    await initializeSymbolIndexCache();
-                }
-                
-                // Use the refactored project analysis workflow
-                const result = await ensureProjectAnalysis(workspaceFolder, {
-                    generateDocstrings: false,
-                    showMessages: false,
-                    incremental: !!changedFile && !!symbolIndexCache,
-                    changedFile,
-                    symbolIndexCache
-                });
-                
-                // Update the symbol index cache if successful
-                if (result.success && result.symbolIndex) {
-                    symbolIndexCache = result.symbolIndex;
-                }
-                
-                console.log('Project analysis updated automatically.');
-            } catch (error) {
-                console.error('Error updating project analysis:', error);
-            }
+        debounceTimer = setTimeout(() => {
+            // A full update covers every changed file
+            const filesToUpdate = fullUpdateRequested ? [] : [...changedFiles];
+            changedFiles.clear();
+            fullUpdateRequested = false;
+            analysisQueue = analysisQueue.then(() => runProjectAnalysis(filesToUpdate));
         }, 1000); // Wait 1 second after the last change
     };
     
-    // Watch for file changes
-    watcher.onDidCreate((uri) => updateProjectAnalysis(uri.fsPath));
-    watcher.onDidChange((uri) => updateProjectAnalysis(uri.fsPath));
-    watcher.onDidDelete((uri) => updateProjectAnalysis(uri.fsPath));
+    // Watch for source file changes
+    // Other files are skipped, which includes the stores other roots rewrite when they are re-indexed
+    const onFileEvent = (uri: vscode.Uri) => {
+        if (FileSystemService.isAnalyzableFile(uri.fsPath)) {
+            updateProjectAnalysis(uri.fsPath);
+        }
+    };
+    watcher.onDidCreate(onFileEvent);
+    watcher.onDidChange(onFileEvent);
+    watcher.onDidDelete(onFileEvent);
     
     // Initialize cache from disk and then generate analysis on startup
     initializeSymbolIndexCache().then(() => {
         updateProjectAnalysis();
     });
     
-    context.subscriptions.push(watcher);
+    return {
+        dispose: () => {
+            watcher.dispose();
+            // The language services keep the root's programs in memory for incremental updates
+            TsLanguageServiceRegistry.disposeRoot(workspaceFolder);
+        }
+    };
+};
+
+/**
+ * Sets up file system watchers to automatically update project analysis when files change
+ * Each root of a multi-root workspace gets its own watcher and symbol index
+ * @param context - The extension context for registration
+ */
+export const setupFileWatcher = (context: vscode.ExtensionContext): void => {
+    const watchers = new Map<string, vscode.Disposable>();
+    
+    const watchFolder = (rootPath: string) => {
+        if (!watchers.has(rootPath)) {
+            watchers.set(rootPath, watchWorkspaceFolder(rootPath));
+        }
+    };
+    
+    WorkspaceService.getWorkspaceFolders().forEach(watchFolder);
+    
+    // Folders can be added to or removed from the workspace at any time
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(event => {
+        event.added.forEach(folder => watchFolder(folder.uri.fsPath));
+        event.removed.forEach(folder => {
+            watchers.get(folder.uri.fsPath)?.dispose();
+            watchers.delete(folder.uri.fsPath);
+        });
+    }));
+    
+    context.subscriptions.push({ dispose: () => watchers.forEach(watcher => watcher.dispose()) });
 }; 
\ No newline at end of file
@@ -1,22 +1,67 @@
-import OpenAI from 'openai';
-import { OpenAiService } from '@/shared/services/openai-service';
+import { showErrorMessage, showWarningMessage } from '@/shared/services/workspace-service';
+import { z } from 'zod';
+import { LlmService, RetryConfig, DEFAULT_RETRY_CONFIG } from '@/shared/services/llm-service';
+import { LlmProvider } from '@/shared/types/llm-provider';
 import { SymbolIndexEntry } from '@/shared/types/symbol-index';
 
+// Define structured output schema for the LLM response
+export interface DocstringOutput {
+  docstrings: Array<{
+    name: string;
+    docstring: string;
+    type: 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'enum' | 'component' | 'hook' | 'property' | 'other';
+    line: number;
+  }>;
+}
+
+// Define Zod schema for the docstring response
+const DocstringSchema = z.object({
+  docstrings: z.array(
+    z.object({
+      name: z.string().describe('The name of the function/method'),
+      type: z.enum(['function', 'class', 'interface', 'type', 'variable', 'method', 'enum', 'other']).describe('The type of the node (function, class, etc.)'),
+      line: z.number().describe('The line number where the node starts'),
+      docstring: z.string().describe('The generated JSDoc comment block')
+    })
+  )
+});
+
+/**
+ * Creates the docstring returned for a symbol when generation fails, naming only the symbol
+ * @param name - Name of the symbol
+ * @returns The placeholder docstring
+ */
+const createPlaceholderDocstring = (name: string): string => `/**\n * ${name}\n */`;
+
 /**
- * Service for generating docstrings using OpenAI
+ * Service for generating docstrings using the configured LLM provider
  */
 export const DocstringGenerationService = {
+  /**
+   * Determines if a docstring is the placeholder returned when generation failed
+   * @param docstring - The docstring to check
+   * @param name - Name of the symbol the docstring belongs to
+   * @returns True if the docstring only names the symbol
+   */
+  isPlaceholderDocstring: (docstring: string | undefined, name: string): boolean =>
+    docstring?.trim() === createPlaceholderDocstring(name),
+
   /**
    * Determines if a docstring is empty or missing
    * @param docstring - The docstring to check
-   * @returns True if the docstring is empty or missing
+   * @param name - Name of the symbol, to also treat the placeholder of a failed generation as empty
+   * @returns True if the docstring is empty, missing or a placeholder
    */
-  isEmptyDocstring: (docstring?: string): boolean => {
+  isEmptyDocstring: (docstring?: string, name?: string): boolean => {
     // If docstring is undefined or null, it's empty
     if (!docstring) {
       return true;
     }
     
+    if (name !== undefined && DocstringGenerationService.isPlaceholderDocstring(docstring, name)) {
+      return true;
+    }
+    
     const trimmed = docstring.trim();
     
     // Check for various empty docstring patterns
@@ -43,33 +88,151 @@ export const DocstringGenerationService = {
   },
 
   /**
-   * Pure function to process symbols and generate docstrings using the OpenAI API
-   * @param params - Object containing file content, symbols to process, and OpenAI client
+   * Safely generates docstrings for multiple code elements with retries
+   * @param provider - The LLM provider
+   * @param prompt - The prompt to send to the provider
+   * @param retryConfig - Configuration for retry behavior
+   * @returns Promise resolving to the parsed response
+   */
+  safeCompletionWithParse: async (
+    provider: LlmProvider,
+    prompt: string,
+    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+  ): Promise<DocstringOutput> => {
+    try {
+      return await LlmService.withRetry(
+        () => provider.completeStructured({
+          system: 'You are a helpful assistant that generates high-quality TypeScript docstrings.',
+          prompt,
+          schema: DocstringSchema,
+          schemaName: 'response'
+        }),
+        retryConfig
+      );
+    } catch (error) {
+      // Check if this error occurred after exhausting retries
+      if (error instanceof Error && (error as any).retriesExhausted) {
+        console.error('All retry attempts failed in safeCompletionWithParse:', error);
+        
+        // Create enhanced error for cancellation handling
+        const enhancedError = new Error(`Persistent ${provider.kind} API errors after multiple retries: ${error.message}`);
+        (enhancedError as any).shouldCancelGeneration = true;
+        throw enhancedError;
+      }
+      
+      throw error;
+    }
+  },
+
+  /**
+   * Generates docstrings for multiple code elements in a file
+   * @param provider - The LLM provider
+   * @param fileContent - The complete file content
+   * @param nodes - Information about the nodes that need docstrings
+   * @returns Object containing generated docstrings for each node
+   */
+  generateDocstringsStructured: async (
+    provider: LlmProvider,
+    fileContent: string,
+    nodes: Array<{
+      name: string;
+      type: SymbolIndexEntry['type'];
+      location: { line: number; character: number };
+      snippet: string;
+      signature?: string;
+    }>
+  ): Promise<DocstringOutput> => {
+    try {
+      const prompt = `I need highly detailed and thorough JSDoc style docstrings for specific declarations in this TypeScript file. 
+Here's the complete file content for context:
+
+\`\`\`typescript
+${fileContent}
+\`\`\`
+
+Generate docstrings for the following declarations (identified by name, type, and line number):
+${JSON.stringify(nodes, null, 2)}
+
+For each declaration, provide a comprehensive and detailed docstring that explains what it does, its parameters, return type, and possible errors.
+Where a declaration has a signature, it is the exact type-checked signature: document its parameters and return type as written there.
+Be concise but complete. Return the docstrings as structured data.`;
+
+      // Use the retry-enabled safe completion function
+      return await DocstringGenerationService.safeCompletionWithParse(provider, prompt);
+
+    } catch (error) {
+      console.error('Error generating structured docstrings:', error);
+      
+      // Show more detailed error information to help with debugging
+      if (error instanceof Error) {
+        console.error('Error details:', {
+          message: error.message,
+          name: error.name,
+          stack: error.stack,
+          shouldCancel: (error as any).shouldCancelGeneration === true
+        });
+        
+        // If the error indicates we should cancel generation, don't return fallback docstrings
+        if ((error as any).shouldCancelGeneration === true) {
+          // Provide user-friendly notification
+          showErrorMessage(`Docstring generation cancelled: ${error.message}`);
+          
+          // Re-throw the error to stop the process
+          throw error;
+        }
+        
+        // For server errors that are temporary, show a notification but continue with fallback
+        if ((error as any).isServerError === true) {
+          showWarningMessage(`${provider.kind} server error encountered. Using simple docstrings as fallback.`);
+        } else {
+          // For other errors, show a generic error message
+          showErrorMessage(`Failed to generate docstrings: ${error.message}. Using fallback docstrings.`);
+        }
+      }
+      
+      // Return placeholder docstrings if API call fails (but only for non-cancellation errors)
+      return {
+        docstrings: nodes.map(node => ({
+          name: node.name,
+          type: node.type,
+          line: node.location.line,
+          docstring: createPlaceholderDocstring(node.name)
+        }))
+      };
+    }
+  },
+
+  /**
+   * Pure function to process symbols and generate docstrings using the LLM provider
+   * @param params - Object containing file content, symbols to process, and LLM provider
    * @returns Promise resolving to array of symbols with updated docstrings
    */
   generateDocstringsForSymbols: async ({
     fileContent,
     symbols,
-    client
+    provider
   }: {
     fileContent: string;
     symbols: SymbolIndexEntry[];
-    client: OpenAI;
+    provider: LlmProvider;
   }): Promise<SymbolIndexEntry[]> => {
     try {
       // Extract node information to pass to the model
       const nodeInfos = symbols.map(symbol => ({
         name: symbol.name,
-        // Map 'method' and 'enum' to 'function' and 'other' for compatibility with OpenAI's expected input
-        type: (symbol.type === 'method' ? 'function' : 
+        // Map 'method', 'enum', 'component', 'hook' and 'property' to 'function', 'other', 'class', 'function' and 'variable' for compatibility with the model's expected input
+        type: (symbol.type === 'method' || symbol.type === 'hook' ? 'function' : 
                symbol.type === 'enum' ? 'other' : 
+               symbol.type === 'component' ? 'class' :
+               symbol.type === 'property' ? 'variable' :
                symbol.type) as 'function' | 'class' | 'interface' | 'type' | 'variable' | 'other',
         location: symbol.location,
         snippet: symbol.snippet,
+        ...(symbol.signature ? { signature: symbol.signature } : {}),
       }));
       
       // Generate docstrings using the structured approach
-      const output = await OpenAiService.generateDocstringsStructured(client, fileContent, nodeInfos);
+      const output = await DocstringGenerationService.generateDocstringsStructured(provider, fileContent, nodeInfos);
       
       // Map the generated docstrings back to the original symbols
       const updatedSymbols = [...symbols];
@@ -79,14 +242,20 @@ export const DocstringGenerationService = {
         const symbolIndex = updatedSymbols.findIndex(
           s => s.name === generatedDocstring.name && 
                (s.type === generatedDocstring.type || 
-                (s.type === 'method' && generatedDocstring.type === 'function') ||
-                (s.type === 'enum' && generatedDocstring.type === 'other'))
+                ((s.type === 'method' || s.type === 'hook') && generatedDocstring.type === 'function') ||
+                (s.type === 'enum' && generatedDocstring.type === 'other') ||
+                (s.type === 'component' && generatedDocstring.type === 'class') ||
+                (s.type === 'property' && generatedDocstring.type === 'variable'))
         );
         
-        if (symbolIndex !== -1) {
+        // A placeholder from a failed request leaves the symbol as it was, so it's generated again on the next run
+        if (symbolIndex !== -1 && !DocstringGenerationService.isPlaceholderDocstring(generatedDocstring.docstring, generatedDocstring.name)) {
+          // The docstring now describes the current code, so it's no longer stale
+          const { stale, ...symbol } = updatedSymbols[symbolIndex];
           updatedSymbols[symbolIndex] = {
-            ...updatedSymbols[symbolIndex],
-            docstring: generatedDocstring.docstring
+            ...symbol,
+            docstring: generatedDocstring.docstring,
+            ...(symbol.snippetHash ? { docstringHash: symbol.snippetHash } : {})
           };
         }
       }
@@ -141,7 +310,7 @@ export const DocstringGenerationService = {
       
       // Check each symbol
       for (const symbol of fileSymbols) {
-        if (DocstringGenerationService.isEmptyDocstring(symbol.docstring)) {
+        if (DocstringGenerationService.isEmptyDocstring(symbol.docstring, symbol.name)) {
           emptyDocstrings++;
         } else {
           filledDocstrings++;
@@ -20,7 +20,7 @@ export const FileIoService = {
   writeSymbolsNeedingDocstrings: async (
     rootPath: string,
     symbolIndex: SymbolIndex,
-    isEmptyDocstring: (docstring?: string) => boolean
+    isEmptyDocstring: (docstring?: string, name?: string) => boolean
   ): Promise<void> => {
     try {
       const symbolsNeedingDocstrings: Array<{
@@ -35,7 +35,7 @@ export const FileIoService = {
         const fileSymbols = symbolIndex[filePath];
         
         for (const symbol of fileSymbols) {
-          if (isEmptyDocstring(symbol.docstring)) {
+          if (isEmptyDocstring(symbol.docstring, symbol.name)) {
             symbolsNeedingDocstrings.push({
               filePath,
               name: symbol.name,
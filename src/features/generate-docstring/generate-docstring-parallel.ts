@@ -1,16 +1,14 @@
-import * as vscode from 'vscode';
-import OpenAI from 'openai';
-
 // Import types and services
 import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
 import { FileSystemService } from '@/shared/services/file-system-service';
-import { WorkspaceService } from '@/shared/services/workspace-service';
-import { OpenAiService } from '@/shared/services/openai-service';
+import { WorkspaceService, showErrorMessage } from '@/shared/services/workspace-service';
+import { LlmService } from '@/shared/services/llm-service';
+import { LlmProvider } from '@/shared/types/llm-provider';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
 import { DocstringGenerationService } from './docstring-generation-service';
-import { ProgressReporter, adaptVSCodeProgress } from '@/shared/types/progress-reporter';
+import { ProgressReporter, HostProgress, HostCancellationToken, adaptHostProgress } from '@/shared/types/progress-reporter';
 import { FileIoService } from './file-io-service';
-import { DocstringGenerationMode } from './generate-docstring';
+import { DocstringGenerationMode, getSymbolsForMode, countStaleDocstrings } from './generate-docstring';
 
 /**
  * Interface for file batch processing parameters
@@ -20,7 +18,7 @@ interface FileBatchParams {
   symbols: SymbolIndexEntry[];
   fullFilePath: string;
   fileContent: string;
-  client: OpenAI;
+  provider: LlmProvider;
   progress?: ProgressReporter;
   mode: DocstringGenerationMode;
   totalFiles: number;
@@ -37,19 +35,15 @@ const processFileDocstrings = async ({
   symbols,
   fullFilePath,
   fileContent,
-  client,
+  provider,
   progress,
   mode,
   totalFiles,
   fileIndex
 }: FileBatchParams): Promise<SymbolIndexEntry[]> => {
   try {
-    const skipExisting = mode === DocstringGenerationMode.GENERATE_MISSING;
-    
     // Filter symbols based on the generation mode
-    const symbolsToProcess = skipExisting
-      ? symbols.filter(symbol => DocstringGenerationService.isEmptyDocstring(symbol.docstring))
-      : symbols;
+    const symbolsToProcess = getSymbolsForMode(symbols, mode);
     
     // Skip file if no symbols need processing
     if (symbolsToProcess.length === 0) {
@@ -57,9 +51,11 @@ const processFileDocstrings = async ({
     }
     
     // Update progress for this file
-    const progressMessage = skipExisting
+    const progressMessage = mode === DocstringGenerationMode.GENERATE_MISSING
       ? `[${fileIndex}/${totalFiles}] Generating missing docstrings for: ${filePath} (${symbolsToProcess.length} symbols)`
-      : `[${fileIndex}/${totalFiles}] Generating docstrings for: ${filePath}`;
+      : mode === DocstringGenerationMode.REGENERATE_STALE
+        ? `[${fileIndex}/${totalFiles}] Regenerating stale docstrings for: ${filePath} (${symbolsToProcess.length} symbols)`
+        : `[${fileIndex}/${totalFiles}] Generating docstrings for: ${filePath}`;
     
     progress?.report({ message: progressMessage });
     
@@ -67,7 +63,7 @@ const processFileDocstrings = async ({
     const updatedSymbols = await DocstringGenerationService.generateDocstringsForSymbols({
       fileContent,
       symbols: symbolsToProcess,
-      client
+      provider
     });
     
     // Check for cancellation after processing symbols
@@ -105,7 +101,7 @@ const processFileDocstrings = async ({
  * @param symbolIndex - The symbol index
  * @param projectFiles - All project files
  * @param rootPath - Root path of the project
- * @param client - OpenAI client
+ * @param provider - LLM provider
  * @param progress - Progress reporter
  * @param token - Cancellation token
  * @param mode - Docstring generation mode
@@ -118,9 +114,9 @@ const processFileBatch = async (
   symbolIndex: SymbolIndex,
   projectFiles: string[],
   rootPath: string,
-  client: OpenAI,
+  provider: LlmProvider,
   progress?: ProgressReporter,
-  token?: vscode.CancellationToken,
+  token?: HostCancellationToken,
   mode: DocstringGenerationMode = DocstringGenerationMode.GENERATE_ALL,
   totalFiles: number = 0,
   startIndex: number = 0
@@ -152,7 +148,7 @@ const processFileBatch = async (
       symbols: fileSymbols,
       fullFilePath,
       fileContent,
-      client,
+      provider,
       progress,
       mode,
       totalFiles,
@@ -160,10 +156,11 @@ const processFileBatch = async (
     });
     
     // Count processed symbols for statistics
+    const selectedSymbols = new Set(getSymbolsForMode(fileSymbols, mode));
     const fileProcessedCount = updatedSymbols.filter((symbol, index) => 
-      !DocstringGenerationService.isEmptyDocstring(symbol.docstring) && 
+      !DocstringGenerationService.isEmptyDocstring(symbol.docstring, symbol.name) && 
       (mode === DocstringGenerationMode.GENERATE_ALL || 
-       DocstringGenerationService.isEmptyDocstring(fileSymbols[index].docstring))
+       (selectedSymbols.has(fileSymbols[index]) && symbol !== fileSymbols[index]))
     ).length;
     
     return { filePath, processedCount: fileProcessedCount, updatedSymbols };
@@ -191,7 +188,7 @@ const processFileBatch = async (
  * @param symbolIndex - The symbol index
  * @param projectFiles - All project files
  * @param rootPath - Root path of the project
- * @param client - OpenAI client
+ * @param provider - LLM provider
  * @param progress - Progress reporter
  * @param token - Cancellation token
  * @param mode - Docstring generation mode
@@ -203,9 +200,9 @@ const processFilesInBatches = async (
   symbolIndex: SymbolIndex,
   projectFiles: string[],
   rootPath: string,
-  client: OpenAI,
+  provider: LlmProvider,
   progress?: ProgressReporter,
-  token?: vscode.CancellationToken,
+  token?: HostCancellationToken,
   mode: DocstringGenerationMode = DocstringGenerationMode.GENERATE_ALL
 ): Promise<{ processedCount: number; updatedIndex: SymbolIndex }> => {
   let totalProcessedCount = 0;
@@ -228,7 +225,7 @@ const processFilesInBatches = async (
       updatedIndex,
       projectFiles,
       rootPath,
-      client,
+      provider,
       progress,
       token,
       mode,
@@ -263,8 +260,8 @@ const processFilesInBatches = async (
 export async function generateDocstringsParallel(
   rootPath: string,
   ignoredPatterns: string[] = [],
-  progress?: vscode.Progress<{ message?: string }>,
-  token?: vscode.CancellationToken,
+  progress?: HostProgress,
+  token?: HostCancellationToken,
   concurrency: number = 5,
   mode: DocstringGenerationMode = DocstringGenerationMode.GENERATE_ALL
 ): Promise<boolean> {
@@ -272,7 +269,7 @@ export async function generateDocstringsParallel(
     // Ensure .cursorcrawl directory exists
     await WorkspaceService.ensureCursorCrawlDir(rootPath);
     
-    // Check if symbol-index.json exists and load it
+    // Check if the symbol index exists and load it
     const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(
       rootPath, 
       'Symbol index not found. Please build the symbol index first.'
@@ -295,24 +292,22 @@ export async function generateDocstringsParallel(
       progress?.report({ 
         message: `Preparing to generate missing docstrings in parallel (${validation.emptyDocstrings} symbols need processing)...` 
       });
+    } else if (mode === DocstringGenerationMode.REGENERATE_STALE) {
+      progress?.report({
+        message: `Preparing to regenerate stale docstrings in parallel (${countStaleDocstrings(symbolIndex)} symbols need processing)...`
+      });
     } else {
       progress?.report({ message: 'Preparing to generate all docstrings in parallel...' });
     }
     
-    // Get environment variables for OpenAI
-    const envVars = OpenAiService.loadEnvironmentVars(rootPath);
-    
-    // Create OpenAI client for docstring generation
-    const client = OpenAiService.createOpenAIClient(envVars.OPENAI_API_KEY);
-    if (!client) {
-      throw new Error('OpenAI client not created. Check your API key configuration.');
-    }
+    // Create the configured LLM provider for docstring generation
+    const provider = LlmService.createProviderForWorkspace(rootPath);
     
     // Get project files
     const projectFiles = await FileSystemService.getProjectFiles(rootPath, ignoredPatterns);
     
     // Set up progress reporting
-    const progressAdapter = progress ? adaptVSCodeProgress(progress, token) : undefined;
+    const progressAdapter = progress ? adaptHostProgress(progress, token) : undefined;
     
     // Get files with symbols that need processing
     const filesToProcess = Object.keys(symbolIndex);
@@ -330,7 +325,7 @@ export async function generateDocstringsParallel(
       for (const filePath in symbolIndex) {
         const fileSymbols = symbolIndex[filePath];
         for (const symbol of fileSymbols) {
-          if (!DocstringGenerationService.isEmptyDocstring(symbol.docstring)) {
+          if (!DocstringGenerationService.isEmptyDocstring(symbol.docstring, symbol.name)) {
             skippedSymbolCount++;
           }
         }
@@ -345,7 +340,7 @@ export async function generateDocstringsParallel(
         symbolIndex, 
         projectFiles, 
         rootPath, 
-        client, 
+        provider, 
         progressAdapter, 
         token, 
         mode
@@ -363,7 +358,9 @@ export async function generateDocstringsParallel(
       // Report completion statistics
       const completionMessage = mode === DocstringGenerationMode.GENERATE_MISSING
         ? `Parallel docstring generation complete. Generated ${processedCount} docstrings, skipped ${skippedSymbolCount} existing docstrings.`
-        : `Parallel docstring generation complete. Generated/updated ${processedCount} docstrings.`;
+        : mode === DocstringGenerationMode.REGENERATE_STALE
+          ? `Parallel docstring generation complete. Regenerated ${processedCount} stale docstrings.`
+          : `Parallel docstring generation complete. Generated/updated ${processedCount} docstrings.`;
       
       progress?.report({ message: completionMessage });
       return true;
@@ -383,24 +380,24 @@ export async function generateDocstringsParallel(
     
     if (error instanceof Error) {
       if (error.message.includes('500')) {
-        errorMessage = 'OpenAI server error (500). The service is temporarily unavailable. Please try again later.';
+        errorMessage = 'LLM provider server error (500). The service is temporarily unavailable. Please try again later.';
       } else if (error.message.includes('401') || error.message.includes('API key')) {
-        errorMessage = 'Invalid or missing OpenAI API key. Please check your API key configuration.';
+        errorMessage = 'Invalid or missing LLM provider API key. Please check your API key configuration.';
       } else if (error.message.includes('429') || error.message.includes('rate limit')) {
-        errorMessage = 'OpenAI API rate limit exceeded. Consider reducing the concurrency setting and try again.';
+        errorMessage = 'LLM provider rate limit exceeded. Consider reducing the concurrency setting and try again.';
       } else if (error.message.includes('timeout')) {
-        errorMessage = 'Request to OpenAI API timed out. Please check your network connection and try again.';
+        errorMessage = 'Request to the LLM provider timed out. Please check your network connection and try again.';
       } else if (error.message.includes('retry') || (error as any).shouldCancelGeneration === true) {
         errorMessage = 'Docstring generation failed after multiple retry attempts. Please try again later.';
       } else if ((error as any).isServerError === true) {
-        errorMessage = 'OpenAI service is experiencing issues. Docstring generation has been cancelled. Please try again later.';
+        errorMessage = 'The LLM provider is experiencing issues. Docstring generation has been cancelled. Please try again later.';
       } else {
         // For other errors, include the actual error message
         errorMessage = `Error generating docstrings in parallel: ${error.message}`;
       }
     }
     
-    vscode.window.showErrorMessage(errorMessage);
+    showErrorMessage(errorMessage);
     return false;
   }
 } 
\ No newline at end of file
@@ -1,16 +1,15 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import * as vscode from 'vscode';
-import OpenAI from 'openai';
 
 // Import types and services
-import { SymbolIndex } from '@/shared/types/symbol-index';
+import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
 import { FileSystemService } from '@/shared/services/file-system-service';
-import { WorkspaceService } from '@/shared/services/workspace-service';
-import { OpenAiService } from '@/shared/services/openai-service';
+import { WorkspaceService, showErrorMessage } from '@/shared/services/workspace-service';
+import { LlmService } from '@/shared/services/llm-service';
+import { LlmProvider } from '@/shared/types/llm-provider';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
 import { DocstringGenerationService } from './docstring-generation-service';
-import { ProgressReporter, adaptVSCodeProgress } from '@/shared/types/progress-reporter';
+import { ProgressReporter, HostProgress, HostCancellationToken, adaptHostProgress } from '@/shared/types/progress-reporter';
 import { FileIoService } from './file-io-service';
 
 // Output directory and file for the symbol index
@@ -24,15 +23,41 @@ export enum DocstringGenerationMode {
   /** Generate docstrings for all symbols, regardless of existing docstrings */
   GENERATE_ALL = 'generate_all',
   /** Only generate docstrings for symbols with empty or missing docstrings */
-  GENERATE_MISSING = 'generate_missing'
+  GENERATE_MISSING = 'generate_missing',
+  /** Only regenerate docstrings whose symbol's code changed since they were written */
+  REGENERATE_STALE = 'regenerate_stale'
 }
 
+/**
+ * Selects the symbols of a file that a generation mode should generate docstrings for
+ * @param symbols - Symbols of the file
+ * @param mode - Docstring generation mode
+ * @returns The symbols to generate docstrings for
+ */
+export const getSymbolsForMode = (symbols: SymbolIndexEntry[], mode: DocstringGenerationMode): SymbolIndexEntry[] => {
+  if (mode === DocstringGenerationMode.GENERATE_MISSING) {
+    return symbols.filter(symbol => DocstringGenerationService.isEmptyDocstring(symbol.docstring, symbol.name));
+  }
+  if (mode === DocstringGenerationMode.REGENERATE_STALE) {
+    return symbols.filter(symbol => symbol.stale);
+  }
+  return symbols;
+};
+
+/**
+ * Counts the symbols of an index with stale docstrings
+ * @param symbolIndex - The symbol index
+ * @returns Number of stale docstrings
+ */
+export const countStaleDocstrings = (symbolIndex: SymbolIndex): number =>
+  Object.values(symbolIndex).reduce((count, symbols) => count + symbols.filter(symbol => symbol.stale).length, 0);
+
 /**
  * Interface for docstring generation parameters
  */
 interface DocstringGenerationParams {
   symbolIndex: SymbolIndex;
-  client: OpenAI;
+  provider: LlmProvider;
   projectFiles: string[];
   rootPath: string;
   progress?: ProgressReporter;
@@ -46,7 +71,7 @@ interface DocstringGenerationParams {
  */
 export const generateDocstrings = async ({
   symbolIndex,
-  client,
+  provider,
   projectFiles,
   rootPath,
   progress,
@@ -61,7 +86,7 @@ export const generateDocstrings = async ({
     let consecutiveErrorCount = 0;
     const MAX_CONSECUTIVE_ERRORS = 3; // Maximum number of consecutive errors before cancelling
     
-    const skipExisting = mode === DocstringGenerationMode.GENERATE_MISSING;
+    const skipExisting = mode !== DocstringGenerationMode.GENERATE_ALL;
     
     // Process files one by one
     for (const filePath in symbolIndex) {
@@ -77,14 +102,7 @@ export const generateDocstrings = async ({
       const fileSymbols = symbolIndex[filePath];
       
       // Filter symbols based on the generation mode
-      const getSymbolsToProcess = () => {
-        if (mode === DocstringGenerationMode.GENERATE_MISSING) {
-          return fileSymbols.filter(symbol => DocstringGenerationService.isEmptyDocstring(symbol.docstring));
-        }
-        return fileSymbols;
-      };
-      
-      const symbolsToProcess = getSymbolsToProcess();
+      const symbolsToProcess = getSymbolsForMode(fileSymbols, mode);
       
       // Log some diagnostics in debug mode
       console.log(`File: ${filePath}, Total symbols: ${fileSymbols.length}, Symbols to process: ${symbolsToProcess.length}`);
@@ -102,6 +120,9 @@ export const generateDocstrings = async ({
         if (mode === DocstringGenerationMode.GENERATE_MISSING) {
           return `Generating missing docstrings for file ${fileCount}/${totalFiles}: ${filePath} (${symbolsToProcess.length} symbols)`;
         }
+        if (mode === DocstringGenerationMode.REGENERATE_STALE) {
+          return `Regenerating stale docstrings for file ${fileCount}/${totalFiles}: ${filePath} (${symbolsToProcess.length} symbols)`;
+        }
         return `Generating docstrings for file ${fileCount}/${totalFiles}: ${filePath}`;
       };
       
@@ -121,7 +142,7 @@ export const generateDocstrings = async ({
         const updatedSymbols = await DocstringGenerationService.generateDocstringsForSymbols({
           fileContent,
           symbols: symbolsToProcess,
-          client
+          provider
         });
         
         // Reset consecutive error count on success
@@ -141,7 +162,7 @@ export const generateDocstrings = async ({
           );
           
           if (actualSymbolIndex !== -1) {
-            fileSymbols[actualSymbolIndex].docstring = updatedSymbol.docstring;
+            fileSymbols[actualSymbolIndex] = updatedSymbol;
             processedSymbolCount++;
             console.log(`Generated docstring for ${updatedSymbol.name}`);
           }
@@ -168,7 +189,7 @@ export const generateDocstrings = async ({
           if (shouldCancel) {
             // Show cancellation message
             const errorMessage = 'Docstring generation cancelled due to persistent errors. Please try again later.';
-            vscode.window.showErrorMessage(errorMessage);
+            showErrorMessage(errorMessage);
             progress?.report({ message: errorMessage });
             
             // Save work done so far
@@ -191,6 +212,9 @@ export const generateDocstrings = async ({
       if (mode === DocstringGenerationMode.GENERATE_MISSING) {
         return `Docstring generation complete. Generated ${processedSymbolCount} docstrings, skipped ${skippedSymbolCount} existing docstrings.`;
       }
+      if (mode === DocstringGenerationMode.REGENERATE_STALE) {
+        return `Docstring generation complete. Regenerated ${processedSymbolCount} stale docstrings.`;
+      }
       return 'Docstring generation complete.';
     };
     
@@ -211,15 +235,15 @@ export const generateDocstrings = async ({
 export const generateDocstringsUnified = async (
   rootPath: string,
   ignoredPatterns: string[] = [],
-  progress?: vscode.Progress<{ message?: string }>,
-  token?: vscode.CancellationToken,
+  progress?: HostProgress,
+  token?: HostCancellationToken,
   mode: DocstringGenerationMode = DocstringGenerationMode.GENERATE_ALL
 ): Promise<void> => {
   try {
     // Ensure .cursorcrawl directory exists
     await WorkspaceService.ensureCursorCrawlDir(rootPath);
     
-    // Check if symbol-index.json exists and load it
+    // Check if the symbol index exists and load it
     const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(
       rootPath, 
       'Symbol index not found. Please build the symbol index first.'
@@ -242,18 +266,16 @@ export const generateDocstringsUnified = async (
       progress?.report({ 
         message: `Preparing to generate missing docstrings (${validation.emptyDocstrings} symbols need processing)...` 
       });
+    } else if (mode === DocstringGenerationMode.REGENERATE_STALE) {
+      progress?.report({
+        message: `Preparing to regenerate stale docstrings (${countStaleDocstrings(symbolIndex)} symbols need processing)...`
+      });
     } else {
       progress?.report({ message: 'Preparing to generate all docstrings...' });
     }
     
-    // Get environment variables for OpenAI
-    const envVars = OpenAiService.loadEnvironmentVars(rootPath);
-    
-    // Create OpenAI client for docstring generation
-    const client = OpenAiService.createOpenAIClient(envVars.OPENAI_API_KEY);
-    if (!client) {
-      throw new Error('OpenAI client not created. Check your API key configuration.');
-    }
+    // Create the configured LLM provider for docstring generation
+    const provider = LlmService.createProviderForWorkspace(rootPath);
     
     // Get project files
     const projectFiles = await FileSystemService.getProjectFiles(rootPath, ignoredPatterns);
@@ -261,16 +283,18 @@ export const generateDocstringsUnified = async (
     // Generate docstrings using the unified function
     await generateDocstrings({
       symbolIndex,
-      client,
+      provider,
       projectFiles,
       rootPath,
-      progress: progress ? adaptVSCodeProgress(progress, token) : undefined,
+      progress: progress ? adaptHostProgress(progress, token) : undefined,
       mode
     });
     
     const completionMessage = mode === DocstringGenerationMode.GENERATE_MISSING
       ? 'Missing docstring generation completed successfully.'
-      : 'Docstring generation completed successfully.';
+      : mode === DocstringGenerationMode.REGENERATE_STALE
+        ? 'Stale docstring regeneration completed successfully.'
+        : 'Docstring generation completed successfully.';
     
     progress?.report({ message: completionMessage });
   } catch (error) {
@@ -281,24 +305,24 @@ export const generateDocstringsUnified = async (
     
     if (error instanceof Error) {
       if (error.message.includes('500')) {
-        errorMessage = 'OpenAI server error (500). The service is temporarily unavailable. Please try again later.';
+        errorMessage = 'LLM provider server error (500). The service is temporarily unavailable. Please try again later.';
       } else if (error.message.includes('401') || error.message.includes('API key')) {
-        errorMessage = 'Invalid or missing OpenAI API key. Please check your API key configuration.';
+        errorMessage = 'Invalid or missing LLM provider API key. Please check your API key configuration.';
       } else if (error.message.includes('429') || error.message.includes('rate limit')) {
-        errorMessage = 'OpenAI API rate limit exceeded. Please wait a few moments and try again.';
+        errorMessage = 'LLM provider rate limit exceeded. Please wait a few moments and try again.';
       } else if (error.message.includes('timeout')) {
-        errorMessage = 'Request to OpenAI API timed out. Please check your network connection and try again.';
+        errorMessage = 'Request to the LLM provider timed out. Please check your network connection and try again.';
       } else if (error.message.includes('retry') || (error as any).shouldCancelGeneration === true) {
         errorMessage = 'Docstring generation failed after multiple retry attempts. Please try again later.';
       } else if ((error as any).isServerError === true) {
-        errorMessage = 'OpenAI service is experiencing issues. Docstring generation has been cancelled. Please try again later.';
+        errorMessage = 'The LLM provider is experiencing issues. Docstring generation has been cancelled. Please try again later.';
       } else {
         // For other errors, include the actual error message
         errorMessage = `Error generating docstrings: ${error.message}`;
       }
     }
     
-    vscode.window.showErrorMessage(errorMessage);
+    showErrorMessage(errorMessage);
     
     // Throw a standard error with the friendly message
     throw new Error(errorMessage);
@@ -315,8 +339,8 @@ export const generateDocstringsUnified = async (
 export const generateDocstringIndex = async (
   rootPath: string,
   ignoredPatterns: string[] = [],
-  progress?: vscode.Progress<{ message?: string }>,
-  token?: vscode.CancellationToken
+  progress?: HostProgress,
+  token?: HostCancellationToken
 ): Promise<void> => {
   return generateDocstringsUnified(
     rootPath,
@@ -337,8 +361,8 @@ export const generateDocstringIndex = async (
 export const resumeDocstringGeneration = async (
   rootPath: string,
   ignoredPatterns: string[] = [],
-  progress?: vscode.Progress<{ message?: string }>,
-  token?: vscode.CancellationToken
+  progress?: HostProgress,
+  token?: HostCancellationToken
 ): Promise<void> => {
   return generateDocstringsUnified(
     rootPath,
@@ -348,3 +372,25 @@ export const resumeDocstringGeneration = async (
     DocstringGenerationMode.GENERATE_MISSING
   );
 };
+
+/**
+ * Regenerates the docstrings of symbols whose code changed since their docstring was written
+ * @param rootPath - Path to the project root
+ * @param ignoredPatterns - Patterns to ignore during file processing
+ * @param progress - Optional progress reporter
+ * @param token - Optional cancellation token
+ */
+export const regenerateStaleDocstrings = async (
+  rootPath: string,
+  ignoredPatterns: string[] = [],
+  progress?: HostProgress,
+  token?: HostCancellationToken
+): Promise<void> => {
+  return generateDocstringsUnified(
+    rootPath,
+    ignoredPatterns,
+    progress,
+    token,
+    DocstringGenerationMode.REGENERATE_STALE
+  );
+};
\ No newline at end of file
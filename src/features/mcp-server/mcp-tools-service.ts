@@ -0,0 +1,283 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { FileSystemService } from '@/shared/services/file-system-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { SymbolStoreService } from '@/shared/services/symbol-store-service';
+import { DuplicateAnalysisEntry, MergeJsonService } from '@/features/merge-json/merge-json-service';
+import { SymbolIndexAnalyzer } from '@/features/context-extractor/symbol-index-analyzer';
+
+// Default number of symbols returned by find_symbol
+const DEFAULT_FIND_LIMIT = 20;
+
+/**
+ * Compact description of a symbol returned by the tools
+ */
+export interface McpSymbolSummary {
+  name: string;
+  type: string;
+  filePath: string;
+  line: number;
+  exported?: 'named' | 'default';
+  signature?: string;
+}
+
+/**
+ * A function that is likely a duplicate of the requested one
+ */
+export interface McpSimilarFunction extends McpSymbolSummary {
+  source: 'duplicateAnalysis' | 'structuralClone';
+  score: number;
+}
+
+// Modification time of the store when it was last loaded, per workspace
+const loadedStoreTimes = new Map<string, number>();
+
+/**
+ * Service implementing the MCP tools on top of the symbol index and duplicate analysis
+ * The extension keeps writing the store while the server runs, so every call checks it is up to date
+ */
+export const McpToolsService = {
+  /**
+   * Reloads the symbol store if another process has written it since it was loaded
+   * @param rootPath - The workspace root path
+   */
+  async refreshStore(rootPath: string): Promise<void> {
+    const storePath = SymbolStoreService.getStorePath(rootPath);
+    if (!await fs.pathExists(storePath)) {
+      return;
+    }
+
+    const { mtimeMs } = await fs.stat(storePath);
+    const loadedTime = loadedStoreTimes.get(rootPath);
+    if (loadedTime !== undefined && loadedTime !== mtimeMs) {
+      await SymbolStoreService.closeStore(rootPath);
+    }
+    loadedStoreTimes.set(rootPath, mtimeMs);
+  },
+
+  /**
+   * Loads the current symbol index
+   * @param rootPath - The workspace root path
+   * @returns The symbol index
+   */
+  async loadSymbolIndex(rootPath: string): Promise<SymbolIndex> {
+    await this.refreshStore(rootPath);
+    return SymbolIndexService.getSymbolIndexOrThrow(
+      rootPath,
+      'Symbol index not found. Run "Build Symbol Index" in the editor (or the CLI) first.'
+    );
+  },
+
+  /**
+   * Converts a file path from a tool argument to the workspace-relative form used in the index
+   * @param rootPath - The workspace root path
+   * @param filePath - An absolute or workspace-relative path
+   * @returns The workspace-relative path with forward slashes
+   */
+  normalizeFilePath(rootPath: string, filePath: string): string {
+    const relativePath = path.isAbsolute(filePath)
+      ? FileSystemService.normalizeFilePath(filePath, rootPath)
+      : filePath.replace(/\\/g, '/');
+    return relativePath.replace(/^\.\//, '');
+  },
+
+  /**
+   * Summarizes a symbol entry
+   * @param entry - The symbol entry
+   * @returns The summary
+   */
+  summarize(entry: SymbolIndexEntry): McpSymbolSummary {
+    return {
+      name: entry.name,
+      type: entry.type,
+      filePath: entry.filePath,
+      line: entry.location.line,
+      ...(entry.exported ? { exported: entry.exported } : {}),
+      ...(entry.signature ? { signature: entry.signature } : {})
+    };
+  },
+
+  /**
+   * Finds the entries for a symbol name, optionally restricted to a file
+   * Method names match with or without their class prefix
+   * @param rootPath - The workspace root path
+   * @param symbolIndex - The symbol index
+   * @param name - The symbol name
+   * @param filePath - Optional file containing the symbol
+   * @returns The matching entries
+   */
+  resolveSymbol(rootPath: string, symbolIndex: SymbolIndex, name: string, filePath?: string): SymbolIndexEntry[] {
+    const normalizedPath = filePath ? this.normalizeFilePath(rootPath, filePath) : undefined;
+    const candidates = normalizedPath
+      ? symbolIndex[normalizedPath] ?? []
+      : Object.values(symbolIndex).flat();
+
+    const matches = candidates.filter(entry => entry.name === name || entry.name.endsWith(`.${name}`));
+    if (matches.length === 0) {
+      throw new Error(`Symbol "${name}" not found${normalizedPath ? ` in ${normalizedPath}` : ''}. Use find_symbol to search.`);
+    }
+    return matches;
+  },
+
+  /**
+   * Searches symbols by name, best matches first (exact, then prefix, then substring)
+   * @param rootPath - The workspace root path
+   * @param query - Text to look for in symbol names
+   * @param type - Optional symbol type to restrict to
+   * @param limit - Maximum number of results
+   * @returns The matching symbols
+   */
+  async findSymbol(rootPath: string, query: string, type?: string, limit: number = DEFAULT_FIND_LIMIT): Promise<McpSymbolSummary[]> {
+    const symbolIndex = await this.loadSymbolIndex(rootPath);
+    const lowerQuery = query.toLowerCase();
+
+    const rank = (entry: SymbolIndexEntry): number => {
+      const lowerName = entry.name.toLowerCase();
+      const shortName = lowerName.split('.').pop() ?? lowerName;
+      if (lowerName === lowerQuery || shortName === lowerQuery) {
+        return 0;
+      }
+      if (lowerName.startsWith(lowerQuery) || shortName.startsWith(lowerQuery)) {
+        return 1;
+      }
+      return lowerName.includes(lowerQuery) ? 2 : -1;
+    };
+
+    return Object.values(symbolIndex)
+      .flat()
+      .filter(entry => !type || entry.type === type)
+      .map(entry => ({ entry, rank: rank(entry) }))
+      .filter(({ rank: entryRank }) => entryRank >= 0)
+      .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name))
+      .slice(0, limit)
+      .map(({ entry }) => this.summarize(entry));
+  },
+
+  /**
+   * Gets the symbols that depend on a symbol
+   * @param rootPath - The workspace root path
+   * @param name - The symbol name
+   * @param filePath - Optional file containing the symbol
+   * @returns The dependents of every matching symbol
+   */
+  async getDependents(rootPath: string, name: string, filePath?: string) {
+    const symbolIndex = await this.loadSymbolIndex(rootPath);
+    return this.resolveSymbol(rootPath, symbolIndex, name, filePath).map(entry => ({
+      ...this.summarize(entry),
+      dependents: entry.dependents
+    }));
+  },
+
+  /**
+   * Gets the symbols a symbol depends on
+   * @param rootPath - The workspace root path
+   * @param name - The symbol name
+   * @param filePath - Optional file containing the symbol
+   * @returns The dependencies of every matching symbol
+   */
+  async getDependencies(rootPath: string, name: string, filePath?: string) {
+    const symbolIndex = await this.loadSymbolIndex(rootPath);
+    return this.resolveSymbol(rootPath, symbolIndex, name, filePath).map(entry => ({
+      ...this.summarize(entry),
+      dependsOn: entry.depends_on
+    }));
+  },
+
+  /**
+   * Gets the docstring and source of a symbol
+   * @param rootPath - The workspace root path
+   * @param name - The symbol name
+   * @param filePath - Optional file containing the symbol
+   * @returns The docstring and snippet of every matching symbol
+   */
+  async getDocstring(rootPath: string, name: string, filePath?: string) {
+    const symbolIndex = await this.loadSymbolIndex(rootPath);
+    return this.resolveSymbol(rootPath, symbolIndex, name, filePath).map(entry => ({
+      ...this.summarize(entry),
+      docstring: entry.docstring,
+      snippet: entry.snippet
+    }));
+  },
+
+  /**
+   * Reads duplicate analysis or structural clone scores, treating a missing analysis as empty
+   * @param read - Function reading the scores
+   * @returns The score entries
+   */
+  async readScoresOrEmpty(read: () => Promise<DuplicateAnalysisEntry[]>): Promise<DuplicateAnalysisEntry[]> {
+    try {
+      return await read();
+    } catch (error) {
+      return [];
+    }
+  },
+
+  /**
+   * Finds functions the duplicate analysis or structural clone detection paired with a symbol
+   * @param rootPath - The workspace root path
+   * @param name - The symbol name
+   * @param filePath - Optional file containing the symbol
+   * @param minScore - Minimum duplication score (1-5)
+   * @returns The similar functions, highest score first
+   */
+  async findSimilarFunctions(rootPath: string, name: string, filePath?: string, minScore: number = 3): Promise<McpSimilarFunction[]> {
+    const symbolIndex = await this.loadSymbolIndex(rootPath);
+    const targets = this.resolveSymbol(rootPath, symbolIndex, name, filePath);
+    const targetKeys = new Set(targets.map(entry => `${entry.filePath}|${entry.name}`));
+    const entriesByKey = new Map(Object.values(symbolIndex).flat().map(entry => [`${entry.filePath}|${entry.name}`, entry]));
+
+    const { duplicateAnalysisPath, structuralClonesPath } = MergeJsonService.getFilePaths(rootPath);
+    const sources: [McpSimilarFunction['source'], DuplicateAnalysisEntry[]][] = [
+      ['duplicateAnalysis', await this.readScoresOrEmpty(() => MergeJsonService.readStoredDuplicateAnalysis(rootPath, duplicateAnalysisPath))],
+      ['structuralClone', await this.readScoresOrEmpty(() => MergeJsonService.readStoredStructuralClones(rootPath, structuralClonesPath))]
+    ];
+
+    const similar = new Map<string, McpSimilarFunction>();
+    for (const [source, entries] of sources) {
+      for (const entry of entries) {
+        if (entry.score < minScore || !entry.duplicateFilePath || !entry.duplicateName) {
+          continue;
+        }
+
+        // Pairs are recorded on one side only, so look at both ends
+        const entryKey = `${entry.filePath}|${entry.name}`;
+        const duplicateKey = `${entry.duplicateFilePath}|${entry.duplicateName}`;
+        const otherKey = targetKeys.has(entryKey) ? duplicateKey : targetKeys.has(duplicateKey) ? entryKey : undefined;
+        const other = otherKey ? entriesByKey.get(otherKey) : undefined;
+        if (!otherKey || !other) {
+          continue;
+        }
+
+        const existing = similar.get(`${source}|${otherKey}`);
+        if (!existing || existing.score < entry.score) {
+          similar.set(`${source}|${otherKey}`, { ...this.summarize(other), source, score: entry.score });
+        }
+      }
+    }
+
+    return [...similar.values()].sort((a, b) => b.score - a.score);
+  },
+
+  /**
+   * Gets the symbols and import relationships relevant to a set of files
+   * @param rootPath - The workspace root path
+   * @param files - Absolute or workspace-relative file paths
+   * @returns The symbols of the files and their dependency graph
+   */
+  async getRelevantContext(rootPath: string, files: string[]) {
+    const symbolIndex = await this.loadSymbolIndex(rootPath);
+    const contextFiles = files.map(file => this.normalizeFilePath(rootPath, file));
+    const { filteredIndex, dependencyInfo } = SymbolIndexAnalyzer.analyzeSymbolIndex(
+      symbolIndex,
+      contextFiles,
+      SymbolIndexService.isPublicApiOnly(),
+      SymbolIndexService.getContextEdgeKinds()
+    );
+
+    return {
+      symbols: filteredIndex,
+      dependencyGraph: dependencyInfo
+    };
+  }
+};
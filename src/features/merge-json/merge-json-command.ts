@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs-extra';
 import { MergeJsonService } from '@/features/merge-json/merge-json-service';
 import { WorkspaceService } from '@/shared/services/workspace-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
 
 /**
  * Handles execution of the merge JSON for visualization command
@@ -10,10 +11,9 @@ import { WorkspaceService } from '@/shared/services/workspace-service';
 export const mergeJsonForVisualizationCommand = (): vscode.Disposable => {
   return vscode.commands.registerCommand('cursorcrawl.mergeJsonForVisualization', async () => {
     try {
-      const rootPath = WorkspaceService.getWorkspaceFolder();
+      const rootPath = await WorkspaceService.pickWorkspaceFolder();
       
       if (!rootPath) {
-        vscode.window.showErrorMessage('No workspace folder found.');
         return;
       }
       
@@ -29,28 +29,28 @@ export const mergeJsonForVisualizationCommand = (): vscode.Disposable => {
           
           try {
             // Check if required files exist
-            const { symbolIndexPath, duplicateAnalysisPath } = MergeJsonService.getFilePaths(rootPath);
+            const { duplicateAnalysisPath, structuralClonesPath } = MergeJsonService.getFilePaths(rootPath);
             
-            const symbolIndexExists = await fs.pathExists(symbolIndexPath);
+            const symbolIndexExists = await SymbolIndexService.symbolIndexExists(rootPath);
             const duplicateAnalysisExists = await fs.pathExists(duplicateAnalysisPath);
+            const structuralClonesExist = await fs.pathExists(structuralClonesPath);
             
             if (!symbolIndexExists) {
-              throw new Error('Symbol index file not found. Please run "Build Symbol Index" command first.');
+              throw new Error('Symbol index not found. Please run "Build Symbol Index" command first.');
             }
             
-            if (!duplicateAnalysisExists) {
-              throw new Error('Duplicate analysis file not found. Please run "Analyze Duplicate Logic" command first.');
+            if (!duplicateAnalysisExists && !structuralClonesExist) {
+              throw new Error('Duplicate analysis file not found. Please run "Analyze Duplicate Logic" or "Detect Structural Clones" command first.');
             }
             
             try {
               progress.report({ message: 'Reading input files...' });
               
-              // Preview the file sizes and basic structure
-              const symbolIndexStats = await fs.stat(symbolIndexPath);
-              const duplicateAnalysisStats = await fs.stat(duplicateAnalysisPath);
-              
-              console.log(`Symbol index file size: ${symbolIndexStats.size} bytes`);
-              console.log(`Duplicate analysis file size: ${duplicateAnalysisStats.size} bytes`);
+              // Preview the file size
+              if (duplicateAnalysisExists) {
+                const duplicateAnalysisStats = await fs.stat(duplicateAnalysisPath);
+                console.log(`Duplicate analysis file size: ${duplicateAnalysisStats.size} bytes`);
+              }
               
               // Merge the files
               progress.report({ message: 'Merging data...' });
@@ -3,10 +3,15 @@ import * as path from 'path';
 import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
 import { ScoreInfo, SymbolIndexWithScores, SymbolIndexEntryWithScores } from '@/shared/types/symbol-index-with-scores';
 import { WorkspaceService } from '@/shared/services/workspace-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { SymbolStoreService } from '@/shared/services/symbol-store-service';
 
 // Constants
 const SYMBOL_INDEX_FILENAME = 'symbol-index.json';
+const DUPLICATE_ANALYSIS_SCORE_TYPE = 'duplicateAnalysis';
 const DUPLICATE_ANALYSIS_FILENAME = 'duplicate-analysis.json';
+const STRUCTURAL_CLONE_SCORE_TYPE = 'structuralClone';
+const STRUCTURAL_CLONES_FILENAME = 'structural-clones.json';
 const MERGED_JSON_FILENAME = 'merged-json-for-viz.json';
 
 /**
@@ -35,27 +40,11 @@ export const MergeJsonService = {
     return {
       symbolIndexPath: path.join(cursorCrawlDir, SYMBOL_INDEX_FILENAME),
       duplicateAnalysisPath: path.join(cursorCrawlDir, DUPLICATE_ANALYSIS_FILENAME),
+      structuralClonesPath: path.join(cursorCrawlDir, STRUCTURAL_CLONES_FILENAME),
       mergedJsonPath: path.join(cursorCrawlDir, MERGED_JSON_FILENAME)
     };
   },
 
-  /**
-   * Reads the symbol index from disk
-   * @param symbolIndexPath - Path to the symbol index file
-   * @returns The symbol index
-   */
-  async readSymbolIndex(symbolIndexPath: string): Promise<SymbolIndex> {
-    try {
-      if (!await fs.pathExists(symbolIndexPath)) {
-        throw new Error(`Symbol index not found at: ${symbolIndexPath}`);
-      }
-      return await fs.readJson(symbolIndexPath) as SymbolIndex;
-    } catch (error) {
-      console.error('Error reading symbol index:', error);
-      throw error;
-    }
-  },
-
   /**
    * Reads the duplicate analysis data from disk
    * @param duplicateAnalysisPath - Path to the duplicate analysis file
@@ -233,14 +222,123 @@ export const MergeJsonService = {
   },
 
   /**
-   * Merges symbol index with duplicate analysis scores
+   * Reads the duplicate analysis scores from the symbol store, falling back to the JSON file
+   * @param rootPath - The workspace root path
+   * @param duplicateAnalysisPath - Path to the duplicate analysis file
+   * @returns The duplicate analysis entries
+   */
+  async readStoredDuplicateAnalysis(rootPath: string, duplicateAnalysisPath: string): Promise<DuplicateAnalysisEntry[]> {
+    const storedScores = await SymbolStoreService.readScores(rootPath, DUPLICATE_ANALYSIS_SCORE_TYPE);
+    
+    // Analyses written before the symbol store existed only live in the JSON file
+    if (storedScores.length === 0) {
+      return this.readDuplicateAnalysis(duplicateAnalysisPath);
+    }
+    
+    return storedScores.map(score => ({
+      filePath: score.filePath,
+      name: score.name,
+      type: score.type,
+      score: score.score,
+      ...(score.relatedFilePath !== undefined ? { duplicateFilePath: score.relatedFilePath } : {}),
+      ...(score.relatedName !== undefined ? { duplicateName: score.relatedName } : {})
+    }));
+  },
+
+  /**
+   * Stores duplicate analysis scores in the symbol store
+   * @param rootPath - The workspace root path
+   * @param duplicateAnalysis - The duplicate analysis entries
+   */
+  async storeDuplicateAnalysis(rootPath: string, duplicateAnalysis: DuplicateAnalysisEntry[]): Promise<void> {
+    await SymbolStoreService.replaceScores(
+      rootPath,
+      DUPLICATE_ANALYSIS_SCORE_TYPE,
+      duplicateAnalysis.map(entry => ({
+        filePath: entry.filePath,
+        name: entry.name,
+        type: entry.type,
+        score: entry.score,
+        relatedFilePath: entry.duplicateFilePath,
+        relatedName: entry.duplicateName
+      }))
+    );
+  },
+
+  /**
+   * Reads the structural clone scores from the symbol store, falling back to the JSON file
+   * @param rootPath - The workspace root path
+   * @param structuralClonesPath - Path to the structural clones file
+   * @returns The structural clone entries, or an empty array if clones were never detected
+   */
+  async readStoredStructuralClones(rootPath: string, structuralClonesPath: string): Promise<DuplicateAnalysisEntry[]> {
+    const storedScores = await SymbolStoreService.readScores(rootPath, STRUCTURAL_CLONE_SCORE_TYPE);
+    
+    if (storedScores.length === 0) {
+      return await fs.pathExists(structuralClonesPath)
+        ? this.readDuplicateAnalysis(structuralClonesPath)
+        : [];
+    }
+    
+    return storedScores.map(score => ({
+      filePath: score.filePath,
+      name: score.name,
+      type: score.type,
+      score: score.score,
+      ...(score.relatedFilePath !== undefined ? { duplicateFilePath: score.relatedFilePath } : {}),
+      ...(score.relatedName !== undefined ? { duplicateName: score.relatedName } : {})
+    }));
+  },
+
+  /**
+   * Stores structural clone scores in the symbol store
+   * @param rootPath - The workspace root path
+   * @param structuralClones - The structural clone entries
+   */
+  async storeStructuralClones(rootPath: string, structuralClones: DuplicateAnalysisEntry[]): Promise<void> {
+    await SymbolStoreService.replaceScores(
+      rootPath,
+      STRUCTURAL_CLONE_SCORE_TYPE,
+      structuralClones.map(entry => ({
+        filePath: entry.filePath,
+        name: entry.name,
+        type: entry.type,
+        score: entry.score,
+        relatedFilePath: entry.duplicateFilePath,
+        relatedName: entry.duplicateName
+      }))
+    );
+  },
+
+  /**
+   * Builds a lookup map of score entries by name, filePath, and type
+   * @param entries - The score entries
+   * @returns The lookup map
+   */
+  createScoreMap(entries: DuplicateAnalysisEntry[]): Map<string, DuplicateAnalysisEntry> {
+    const scoreMap = new Map<string, DuplicateAnalysisEntry>();
+    
+    entries.forEach(entry => {
+      if (entry && typeof entry === 'object' && 'name' in entry && 'filePath' in entry) {
+        const key = `${entry.name}|${entry.filePath}|${entry.type || ''}`;
+        scoreMap.set(key, entry);
+      }
+    });
+    
+    return scoreMap;
+  },
+
+  /**
+   * Merges symbol index with duplicate analysis and structural clone scores
    * @param symbolIndex - The symbol index
    * @param duplicateAnalysis - The duplicate analysis data
+   * @param structuralClones - The structural clone data
    * @returns The merged symbol index with scores
    */
   mergeJsonData(
     symbolIndex: SymbolIndex, 
-    duplicateAnalysis: DuplicateAnalysisEntry[]
+    duplicateAnalysis: DuplicateAnalysisEntry[],
+    structuralClones: DuplicateAnalysisEntry[] = []
   ): SymbolIndexWithScores {
     // Check if duplicateAnalysis is valid
     if (!Array.isArray(duplicateAnalysis)) {
@@ -248,15 +346,9 @@ export const MergeJsonService = {
       duplicateAnalysis = [];
     }
     
-    // Create lookup map for duplicate analysis data by name, filePath, and type
-    const duplicateMap = new Map<string, DuplicateAnalysisEntry>();
-    
-    duplicateAnalysis.forEach(entry => {
-      if (entry && typeof entry === 'object' && 'name' in entry && 'filePath' in entry) {
-        const key = `${entry.name}|${entry.filePath}|${entry.type || ''}`;
-        duplicateMap.set(key, entry);
-      }
-    });
+    // Create lookup maps for the scores by name, filePath, and type
+    const duplicateMap = this.createScoreMap(duplicateAnalysis);
+    const structuralCloneMap = this.createScoreMap(structuralClones);
     
     // Create a new object with the merged data
     const mergedIndex: SymbolIndexWithScores = {};
@@ -268,6 +360,7 @@ export const MergeJsonService = {
         // Look for matching duplicate analysis entry
         const key = `${entry.name}|${entry.filePath}|${entry.type}`;
         const duplicateEntry = duplicateMap.get(key);
+        const structuralCloneEntry = structuralCloneMap.get(key);
         
         // Create the merged entry
         const mergedEntry: SymbolIndexEntryWithScores = {
@@ -278,11 +371,18 @@ export const MergeJsonService = {
         // Add score if available
         if (duplicateEntry && typeof duplicateEntry.score === 'number') {
           mergedEntry.scores.push({
-            type: 'duplicateAnalysis',
+            type: DUPLICATE_ANALYSIS_SCORE_TYPE,
             score: duplicateEntry.score
           });
         }
         
+        if (structuralCloneEntry && typeof structuralCloneEntry.score === 'number') {
+          mergedEntry.scores.push({
+            type: STRUCTURAL_CLONE_SCORE_TYPE,
+            score: structuralCloneEntry.score
+          });
+        }
+        
         return mergedEntry;
       });
     });
@@ -311,14 +411,24 @@ export const MergeJsonService = {
    * @returns The path to the merged JSON file
    */
   async mergeJsonFiles(rootPath: string): Promise<string> {
-    const { symbolIndexPath, duplicateAnalysisPath, mergedJsonPath } = this.getFilePaths(rootPath);
+    const { duplicateAnalysisPath, structuralClonesPath, mergedJsonPath } = this.getFilePaths(rootPath);
     
-    // Read the input files
-    const symbolIndex = await this.readSymbolIndex(symbolIndexPath);
-    const duplicateAnalysis = await this.readDuplicateAnalysis(duplicateAnalysisPath);
+    // Read the inputs
+    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(rootPath);
+    const structuralClones = await this.readStoredStructuralClones(rootPath, structuralClonesPath);
+    
+    // Structural clones alone are enough to score the graph, so only require the duplicate analysis without them
+    let duplicateAnalysis: DuplicateAnalysisEntry[] = [];
+    try {
+      duplicateAnalysis = await this.readStoredDuplicateAnalysis(rootPath, duplicateAnalysisPath);
+    } catch (error) {
+      if (structuralClones.length === 0) {
+        throw error;
+      }
+    }
     
     // Merge the data
-    const mergedJson = this.mergeJsonData(symbolIndex, duplicateAnalysis);
+    const mergedJson = this.mergeJsonData(symbolIndex, duplicateAnalysis, structuralClones);
     
     // Write the merged result
     await this.writeMergedJson(mergedJsonPath, mergedJson);
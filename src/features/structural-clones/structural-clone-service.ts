@@ -0,0 +1,450 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as ts from 'typescript';
+import { SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+import { MergeJsonService } from '@/features/merge-json/merge-json-service';
+import { ReactSymbolService } from '@/features/symbol-index/react-symbol-service';
+import { ComponentFileService } from '@/shared/services/component-file-service';
+
+// Configuration for structural clone detection
+const STRUCTURAL_CLONE_CONFIG = {
+  // Functions with fewer AST nodes than this are too small to be interesting clones
+  minimumFunctionNodes: 25,
+  // Subtrees with fewer AST nodes than this are ignored when comparing Type-3 clones
+  minimumSubtreeNodes: 4,
+  // Default Dice similarity of subtree hashes for a Type-3 clone
+  similarityThreshold: 0.8,
+};
+
+// Placeholder used when wrapping method snippets so they parse on their own
+const WRAPPER_CLASS_NAME = '__CursorCrawlClone__';
+
+// Matches snippets of object-literal properties, like `name: () => {}`, which only parse inside an object literal
+const OBJECT_PROPERTY_PATTERN = /^(['"][^'"]*['"]|[\w$]+)\s*:/;
+
+// Matches snippets of function declarations, as opposed to variables initialized with a function
+const FUNCTION_DECLARATION_PATTERN = /^(export\s+)?(default\s+)?(async\s+)?function\b/;
+
+/**
+ * Clone categories, from exact copies to copies with modified statements
+ * - type-1: identical apart from whitespace, layout and comments
+ * - type-2: identical after renaming identifiers and replacing literals
+ * - type-3: similar after normalization, with statements added, removed or changed
+ */
+export type StructuralCloneType = 'type-1' | 'type-2' | 'type-3';
+
+/**
+ * A clone of a symbol found elsewhere in the codebase
+ */
+export interface StructuralCloneMatch {
+  filePath: string;
+  name: string;
+  cloneType: StructuralCloneType;
+  similarity: number;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Structural clone result for a single function or method
+ */
+export interface StructuralCloneResult {
+  filePath: string;
+  name: string;
+  type: string;
+  score: number;
+  startLine: number;
+  endLine: number;
+  duplicateFilePath?: string;
+  duplicateName?: string;
+  clones: StructuralCloneMatch[];
+}
+
+/**
+ * Output format of the structural clone analysis
+ */
+export interface StructuralCloneOutput {
+  results: StructuralCloneResult[];
+}
+
+/**
+ * Hashes computed for a single AST subtree
+ */
+interface SubtreeHashes {
+  exact: string;
+  normalized: string;
+  size: number;
+}
+
+/**
+ * A function-like symbol with the fingerprints used to compare it
+ */
+interface FunctionFingerprint {
+  entry: SymbolIndexEntry;
+  startLine: number;
+  endLine: number;
+  exactHash: string;
+  normalizedHash: string;
+  size: number;
+  subtreeCounts: Map<string, number>;
+  subtreeTotal: number;
+}
+
+/**
+ * Hashes a string into a short hex digest
+ * @param text - The text to hash
+ * @returns The digest
+ */
+const hash = (text: string): string =>
+  crypto.createHash('sha1').update(text).digest('hex').substring(0, 16);
+
+/**
+ * Service for detecting Type-1/2/3 clones by hashing normalized TypeScript ASTs
+ */
+export const StructuralCloneService = {
+  /**
+   * Gets the path of the structural clone results file
+   * @param rootPath - The workspace root path
+   * @returns The results file path
+   */
+  getResultsPath(rootPath: string): string {
+    return MergeJsonService.getFilePaths(rootPath).structuralClonesPath;
+  },
+
+  /**
+   * Parses a symbol snippet and finds the function-like node it declares
+   * Method snippets are wrapped in a class (or an object literal for object-literal properties)
+   * and variable snippets in a declaration so they parse on their own.
+   * React components and hooks are declared as either functions or variables
+   * @param entry - The symbol index entry
+   * @returns The function-like node and its source file, or undefined if the symbol is not a function
+   */
+  parseFunction(entry: SymbolIndexEntry): { node: ts.SignatureDeclaration; sourceFile: ts.SourceFile } | undefined {
+    // Single-file components are whole files rather than functions
+    const isReactFunction = (entry.type === 'component' || entry.type === 'hook') && !ComponentFileService.isComponentFile(entry.filePath);
+
+    let source: string;
+    if (entry.type === 'method' && OBJECT_PROPERTY_PATTERN.test(entry.snippet)) {
+      source = `({\n${entry.snippet}\n});`;
+    } else if (entry.type === 'method') {
+      source = `class ${WRAPPER_CLASS_NAME} {\n${entry.snippet}\n}`;
+    } else if (entry.type === 'function' || (isReactFunction && FUNCTION_DECLARATION_PATTERN.test(entry.snippet))) {
+      source = entry.snippet;
+    } else if (entry.type === 'variable' || isReactFunction) {
+      source = `const ${entry.snippet};`;
+    } else {
+      return undefined;
+    }
+
+    // Snippets of .tsx and .jsx files can contain JSX
+    const scriptKind = /\.[jt]sx$/i.test(entry.filePath) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+    const sourceFile = ts.createSourceFile('snippet.ts', source, ts.ScriptTarget.Latest, true, scriptKind);
+
+    let functionNode: ts.SignatureDeclaration | undefined;
+    const visit = (node: ts.Node): void => {
+      if (functionNode) {
+        return;
+      }
+
+      if (
+        (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) ||
+         ts.isArrowFunction(node) || ts.isFunctionExpression(node)) &&
+        node.body
+      ) {
+        functionNode = node;
+        return;
+      }
+
+      // Variables only count when they are initialized with a function, possibly wrapped in forwardRef()/memo()
+      if (ts.isVariableDeclaration(node)) {
+        functionNode = node.initializer && ReactSymbolService.unwrapFunction(node.initializer).node;
+        return;
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return functionNode ? { node: functionNode, sourceFile } : undefined;
+  },
+
+  /**
+   * Gets the label of a node used in both exact and normalized hashes
+   * Operators of unary expressions are not child nodes, so they are part of the label
+   * @param node - The AST node
+   * @returns The node label
+   */
+  getNodeLabel(node: ts.Node): string {
+    if (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) {
+      return `${ts.SyntaxKind[node.kind]}:${ts.tokenToString(node.operator)}`;
+    }
+    return ts.SyntaxKind[node.kind];
+  },
+
+  /**
+   * Gets the leaf text of a node for the exact and normalized hashes
+   * Identifiers are renamed and literals stripped in the normalized form
+   * @param node - The AST node
+   * @param sourceFile - The source file containing the node
+   * @returns The exact and normalized leaf text, or undefined for inner nodes
+   */
+  getLeafText(node: ts.Node, sourceFile: ts.SourceFile): { exact: string; normalized: string } | undefined {
+    if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+      return { exact: node.text, normalized: '$id' };
+    }
+
+    if (
+      ts.isStringLiteral(node) || ts.isNumericLiteral(node) || ts.isBigIntLiteral(node) ||
+      ts.isNoSubstitutionTemplateLiteral(node) || ts.isRegularExpressionLiteral(node) ||
+      ts.isTemplateLiteralToken(node)
+    ) {
+      return { exact: node.getText(sourceFile), normalized: '$lit' };
+    }
+
+    return undefined;
+  },
+
+  /**
+   * Hashes a subtree bottom-up, recording the normalized hash of every subtree large enough to compare
+   * @param node - The root of the subtree
+   * @param sourceFile - The source file containing the node
+   * @param subtreeCounts - Multiset of normalized subtree hashes to fill
+   * @returns The hashes of the subtree
+   */
+  hashSubtree(node: ts.Node, sourceFile: ts.SourceFile, subtreeCounts: Map<string, number>): SubtreeHashes {
+    const label = this.getNodeLabel(node);
+    const leaf = this.getLeafText(node, sourceFile);
+
+    const childHashes: SubtreeHashes[] = [];
+    ts.forEachChild(node, child => {
+      childHashes.push(this.hashSubtree(child, sourceFile, subtreeCounts));
+    });
+
+    const size = 1 + childHashes.reduce((total, child) => total + child.size, 0);
+    const exact = hash(`${label}|${leaf?.exact ?? ''}|${childHashes.map(child => child.exact).join(',')}`);
+    const normalized = hash(`${label}|${leaf?.normalized ?? ''}|${childHashes.map(child => child.normalized).join(',')}`);
+
+    if (size >= STRUCTURAL_CLONE_CONFIG.minimumSubtreeNodes) {
+      subtreeCounts.set(normalized, (subtreeCounts.get(normalized) ?? 0) + 1);
+    }
+
+    return { exact, normalized, size };
+  },
+
+  /**
+   * Fingerprints a function-like symbol
+   * The declared name is left out so that renamed copies of a function still match
+   * @param entry - The symbol index entry
+   * @returns The fingerprint, or undefined if the symbol is not a function or is too small
+   */
+  fingerprint(entry: SymbolIndexEntry): FunctionFingerprint | undefined {
+    const parsed = this.parseFunction(entry);
+    if (!parsed) {
+      return undefined;
+    }
+
+    const { node, sourceFile } = parsed;
+    const subtreeCounts = new Map<string, number>();
+    const parts: SubtreeHashes[] = [];
+
+    node.typeParameters?.forEach(typeParameter => parts.push(this.hashSubtree(typeParameter, sourceFile, subtreeCounts)));
+    node.parameters.forEach(parameter => parts.push(this.hashSubtree(parameter, sourceFile, subtreeCounts)));
+    if (node.type) {
+      parts.push(this.hashSubtree(node.type, sourceFile, subtreeCounts));
+    }
+    const body = (node as ts.FunctionLikeDeclaration).body;
+    if (body) {
+      parts.push(this.hashSubtree(body, sourceFile, subtreeCounts));
+    }
+
+    const size = parts.reduce((total, part) => total + part.size, 0);
+    if (size < STRUCTURAL_CLONE_CONFIG.minimumFunctionNodes) {
+      return undefined;
+    }
+
+    const startLine = entry.location.line;
+    const endLine = startLine + entry.snippet.split('\n').length - 1;
+
+    return {
+      entry,
+      startLine,
+      endLine,
+      exactHash: hash(parts.map(part => part.exact).join(',')),
+      normalizedHash: hash(parts.map(part => part.normalized).join(',')),
+      size,
+      subtreeCounts,
+      subtreeTotal: [...subtreeCounts.values()].reduce((total, count) => total + count, 0)
+    };
+  },
+
+  /**
+   * Computes the Dice similarity of two multisets of subtree hashes
+   * @param a - The first fingerprint
+   * @param b - The second fingerprint
+   * @returns The similarity between 0 and 1
+   */
+  subtreeSimilarity(a: FunctionFingerprint, b: FunctionFingerprint): number {
+    if (a.subtreeTotal === 0 || b.subtreeTotal === 0) {
+      return 0;
+    }
+
+    const [smaller, larger] = a.subtreeCounts.size <= b.subtreeCounts.size
+      ? [a.subtreeCounts, b.subtreeCounts]
+      : [b.subtreeCounts, a.subtreeCounts];
+
+    let shared = 0;
+    for (const [subtreeHash, count] of smaller) {
+      shared += Math.min(count, larger.get(subtreeHash) ?? 0);
+    }
+
+    return (2 * shared) / (a.subtreeTotal + b.subtreeTotal);
+  },
+
+  /**
+   * Classifies a pair of fingerprints
+   * @param a - The first fingerprint
+   * @param b - The second fingerprint
+   * @param similarityThreshold - Minimum similarity for a Type-3 clone
+   * @returns The clone type and similarity, or undefined if the pair is not a clone
+   */
+  classifyPair(
+    a: FunctionFingerprint,
+    b: FunctionFingerprint,
+    similarityThreshold: number
+  ): { cloneType: StructuralCloneType; similarity: number } | undefined {
+    if (a.exactHash === b.exactHash) {
+      return { cloneType: 'type-1', similarity: 1 };
+    }
+
+    if (a.normalizedHash === b.normalizedHash) {
+      return { cloneType: 'type-2', similarity: 1 };
+    }
+
+    // Dice similarity can never exceed this bound, so skip pairs of very different size
+    const upperBound = (2 * Math.min(a.subtreeTotal, b.subtreeTotal)) / (a.subtreeTotal + b.subtreeTotal);
+    if (upperBound < similarityThreshold) {
+      return undefined;
+    }
+
+    const similarity = this.subtreeSimilarity(a, b);
+    return similarity >= similarityThreshold
+      ? { cloneType: 'type-3', similarity: Math.round(similarity * 1000) / 1000 }
+      : undefined;
+  },
+
+  /**
+   * Maps the strongest clone of a symbol to the 1-5 score used by the duplicate analysis
+   * @param clone - The strongest clone, if any
+   * @returns The score
+   */
+  cloneToScore(clone?: StructuralCloneMatch): number {
+    switch (clone?.cloneType) {
+      case 'type-1':
+        return 5;
+      case 'type-2':
+        return 4;
+      case 'type-3':
+        return clone.similarity >= 0.9 ? 3 : 2;
+      default:
+        return 1;
+    }
+  },
+
+  /**
+   * Finds structural clones among the fingerprinted functions
+   * @param fingerprints - The function fingerprints
+   * @param similarityThreshold - Minimum similarity for a Type-3 clone
+   * @returns One result per function, with its clones sorted from strongest to weakest
+   */
+  findClones(fingerprints: FunctionFingerprint[], similarityThreshold: number): StructuralCloneResult[] {
+    const clonesByIndex = fingerprints.map((): StructuralCloneMatch[] => []);
+
+    for (let i = 0; i < fingerprints.length; i++) {
+      for (let j = i + 1; j < fingerprints.length; j++) {
+        // Components are only compared with each other, keeping UI duplicates apart from logic duplicates
+        if ((fingerprints[i].entry.type === 'component') !== (fingerprints[j].entry.type === 'component')) {
+          continue;
+        }
+
+        const match = this.classifyPair(fingerprints[i], fingerprints[j], similarityThreshold);
+        if (!match) {
+          continue;
+        }
+
+        const toMatch = (fingerprint: FunctionFingerprint): StructuralCloneMatch => ({
+          filePath: fingerprint.entry.filePath,
+          name: fingerprint.entry.name,
+          cloneType: match.cloneType,
+          similarity: match.similarity,
+          startLine: fingerprint.startLine,
+          endLine: fingerprint.endLine
+        });
+
+        clonesByIndex[i].push(toMatch(fingerprints[j]));
+        clonesByIndex[j].push(toMatch(fingerprints[i]));
+      }
+    }
+
+    return fingerprints.map((fingerprint, index) => {
+      const clones = clonesByIndex[index].sort((a, b) =>
+        a.cloneType.localeCompare(b.cloneType) || b.similarity - a.similarity
+      );
+      const strongest = clones[0];
+
+      return {
+        filePath: fingerprint.entry.filePath,
+        name: fingerprint.entry.name,
+        type: fingerprint.entry.type,
+        score: this.cloneToScore(strongest),
+        startLine: fingerprint.startLine,
+        endLine: fingerprint.endLine,
+        ...(strongest ? { duplicateFilePath: strongest.filePath, duplicateName: strongest.name } : {}),
+        clones
+      };
+    });
+  },
+
+  /**
+   * Detects structural clones across the symbol index and saves the results
+   * @param rootPath - The workspace root path
+   * @param progressCallback - Optional callback for progress updates
+   * @param similarityThreshold - Minimum similarity for a Type-3 clone
+   * @returns The path of the results file
+   */
+  async detectClones(
+    rootPath: string,
+    progressCallback?: (message: string) => void,
+    similarityThreshold: number = STRUCTURAL_CLONE_CONFIG.similarityThreshold
+  ): Promise<string> {
+    const symbolIndex = await SymbolIndexService.getSymbolIndexOrThrow(rootPath);
+
+    progressCallback?.('Hashing normalized syntax trees...');
+    const fingerprints: FunctionFingerprint[] = [];
+    for (const entries of Object.values(symbolIndex)) {
+      for (const entry of entries) {
+        const fingerprint = this.fingerprint(entry);
+        if (fingerprint) {
+          fingerprints.push(fingerprint);
+        }
+      }
+    }
+
+    progressCallback?.(`Comparing ${fingerprints.length} functions and methods...`);
+    const results = this.findClones(fingerprints, similarityThreshold);
+
+    const clonedCount = results.filter(result => result.clones.length > 0).length;
+    progressCallback?.(`Writing results (${clonedCount} functions with clones) to JSON file`);
+
+    await WorkspaceService.ensureCursorCrawlDir(rootPath);
+    const outputPath = this.getResultsPath(rootPath);
+    const output: StructuralCloneOutput = { results };
+    await fs.writeJson(outputPath, output, { spaces: 2 });
+
+    // Keep the scores next to the symbols in the symbol store
+    await MergeJsonService.storeStructuralClones(rootPath, results);
+
+    return outputPath;
+  }
+};
@@ -1,7 +1,36 @@
 import * as ts from 'typescript';
-import { SymbolIndex } from '@/shared/types/symbol-index';
+import * as path from 'path';
+import { CallSite, DependencyKind, SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
 import { FileSystemService } from '@/shared/services/file-system-service';
 import { TsAnalyzerService } from '@/shared/services/ts-analyzer-service';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+import { TsProjectService } from '@/features/symbol-index/ts-project-service';
+import { TsLanguageServiceRegistry } from '@/features/symbol-index/ts-language-service-registry';
+import { ComponentFileService } from '@/shared/services/component-file-service';
+import { ReactSymbolService } from '@/features/symbol-index/react-symbol-service';
+import { SymbolApiService } from '@/features/symbol-index/symbol-api-service';
+import { MemberSymbolService } from '@/features/symbol-index/member-symbol-service';
+
+// Call site arguments longer than this are shortened
+const MAX_ARGUMENT_LENGTH = 40;
+
+/**
+ * Resolution results of one TypeScript project
+ */
+export interface ProjectResolutionReport {
+  // Config file relative to the root, undefined for files outside any tsconfig.json/jsconfig.json
+  configPath?: string;
+  files: number;
+  unresolvedIdentifiers: number;
+}
+
+/**
+ * Resolution results of all TypeScript projects in a root
+ */
+export interface DependencyResolutionReport {
+  projects: ProjectResolutionReport[];
+  unresolvedIdentifiers: number;
+}
 
 /**
  * Service for resolving dependencies between symbols
@@ -12,30 +41,20 @@ export const DependencyResolverService = {
    * @param symbolIndex - The symbol index
    * @param projectFiles - List of project files
    * @param rootPath - Project root path
+   * @param otherRoots - The other roots of a multi-root workspace, with their stored index if they have one
+   * @param filesToResolve - Only resolve the references in these files (all project files by default)
+   * @returns How many identifiers each TypeScript project failed to resolve
    */
   async resolveDependencies(
     symbolIndex: SymbolIndex,
     projectFiles: string[],
-    rootPath: string
-  ): Promise<void> {
+    rootPath: string,
+    otherRoots: Map<string, SymbolIndex | undefined> = new Map(),
+    filesToResolve?: string[]
+  ): Promise<DependencyResolutionReport> {
+    const report: DependencyResolutionReport = { projects: [], unresolvedIdentifiers: 0 };
+    
     try {
-      // Create a TypeScript compiler host and program for symbol resolution
-      const compilerOptions: ts.CompilerOptions = {
-        target: ts.ScriptTarget.Latest,
-        module: ts.ModuleKind.CommonJS,
-        allowJs: true,
-        checkJs: false,
-        esModuleInterop: true,
-        moduleResolution: ts.ModuleResolutionKind.NodeJs,
-      };
-
-      // Only include analyzable files in the program
-      const analyzableFiles = projectFiles.filter(file => FileSystemService.isAnalyzableFile(file));
-      
-      // Create program and type checker
-      const program = ts.createProgram(analyzableFiles, compilerOptions);
-      const typeChecker = program.getTypeChecker();
-      
       // Create a flat map of all symbols for easy lookup (by name and file path)
       const flatSymbolMap: Record<string, any> = {};
       
@@ -52,261 +71,621 @@ export const DependencyResolverService = {
         'console', 'require', 'import', 'export', 'this', 'true', 'false',
         'null', 'undefined', 'module', 'exports', 'process', 'window',
         'document', 'Object', 'Array', 'String', 'Number', 'Boolean', 'RegExp',
-        'Map', 'Set', 'Promise', 'JSON', 'Math', 'Date', 'Error'
+        'Map', 'Set', 'Promise', 'JSON', 'Math', 'Date', 'Error',
+        // Compiler macros and globals of Vue, Svelte and Astro components
+        'defineProps', 'defineEmits', 'defineModel', 'defineExpose', 'defineOptions', 'defineSlots', 'withDefaults',
+        '$props', '$state', '$derived', '$effect', '$bindable', 'Astro'
       ]);
       
-      // Process each file to find dependencies
-      for (const filePath of projectFiles) {
-        if (!FileSystemService.isAnalyzableFile(filePath)) {
+      const resolvedFiles = filesToResolve && new Set(filesToResolve.map(filePath => path.resolve(filePath)));
+      
+      // Resolve each tsconfig.json/jsconfig.json project with its own program, so its paths and options apply
+      for (const project of TsProjectService.getProjects(rootPath, projectFiles)) {
+        const projectFilesToResolve = resolvedFiles
+          ? project.fileNames.filter(filePath => resolvedFiles.has(path.resolve(filePath)))
+          : project.fileNames;
+        if (projectFilesToResolve.length === 0) {
           continue;
         }
         
-        const normalizedPath = FileSystemService.normalizeFilePath(filePath, rootPath);
+        // Referenced projects are not passed as project references: imports into them would resolve
+        // to their build output, while the index needs their source declarations
+        const program = TsLanguageServiceRegistry.getProgram(rootPath, project);
+        const typeChecker = program.getTypeChecker();
+        const projectReport: ProjectResolutionReport = {
+          configPath: project.configPath ? FileSystemService.normalizeFilePath(project.configPath, rootPath) : undefined,
+          files: projectFilesToResolve.length,
+          unresolvedIdentifiers: 0
+        };
+        report.projects.push(projectReport);
         
-        // Skip if the file isn't in our index
-        if (!symbolIndex[normalizedPath]) {
-          continue;
-        }
+        // Process each file to find dependencies
+        for (const filePath of projectFilesToResolve) {
+          const normalizedPath = FileSystemService.normalizeFilePath(filePath, rootPath);
         
-        // Get the source file from the program
-        const sourceFile = program.getSourceFile(filePath);
-        if (!sourceFile) {
-          continue;
-        }
+          // Get the source file from the program
+          const sourceFile = program.getSourceFile(filePath);
+          if (!sourceFile) {
+            continue;
+          }
         
-        // Stack to track nested container symbols
-        const containerStack: any[] = [];
+          // Exports, modifiers and signatures come from the same type checker as the references.
+          // Barrels without symbols of their own still mark the symbols they re-export
+          SymbolApiService.annotateFile(sourceFile, normalizedPath, symbolIndex, typeChecker, rootPath);
         
-        // Recursively visit nodes
-        const visit = (node: ts.Node) => {
-          try {
-            // Track the container symbol for various kinds of declarations
-            let enteredNewContainer = false;
+          // Skip if the file isn't in our index
+          if (!symbolIndex[normalizedPath]) {
+            continue;
+          }
+        
+          // Files resolved again keep their symbols, so their edges are rebuilt rather than adding the call sites twice
+          if (filesToResolve) {
+            this.clearOutgoingEdges(symbolIndex, normalizedPath);
+          }
+        
+          // Stack to track nested container symbols
+          const containerStack: any[] = [];
+        
+          // Recursively visit nodes
+          const visit = (node: ts.Node) => {
+            try {
+              // Track the container symbol for various kinds of declarations
+              let enteredNewContainer = false;
             
-            if (ts.isFunctionDeclaration(node) || 
-                ts.isMethodDeclaration(node) || 
-                ts.isClassDeclaration(node) ||
-                ts.isInterfaceDeclaration(node) ||
-                ts.isTypeAliasDeclaration(node) ||
-                ts.isEnumDeclaration(node) || 
-                ts.isArrowFunction(node) ||
-                ts.isFunctionExpression(node)) {
+              if (ts.isFunctionDeclaration(node) || 
+                  MemberSymbolService.isMemberDeclaration(node) || 
+                  ts.isClassDeclaration(node) ||
+                  ts.isInterfaceDeclaration(node) ||
+                  ts.isTypeAliasDeclaration(node) ||
+                  ts.isEnumDeclaration(node) || 
+                  ts.isArrowFunction(node) ||
+                  ts.isFunctionExpression(node) ||
+                  ts.isVariableDeclaration(node)) {
               
-              let containerSymbol = null;
+                let containerSymbol = null;
               
-              // Get the container symbol based on the node type
-              if (ts.isFunctionDeclaration(node) && node.name) {
-                const functionName = node.name.text;
-                const symbols = symbolIndex[normalizedPath] || [];
-                containerSymbol = symbols.find(s => s.name === functionName) || null;
-              }
-              else if (ts.isMethodDeclaration(node) && ts.isClassDeclaration(node.parent) && node.parent.name) {
-                const className = node.parent.name.text;
-                const methodName = ts.isIdentifier(node.name) ? node.name.text : '';
-                
-                if (methodName) {
-                  const fullName = `${className}.${methodName}`;
+                // Get the container symbol based on the node type
+                if (ts.isFunctionDeclaration(node) && node.name) {
+                  const functionName = node.name.text;
                   const symbols = symbolIndex[normalizedPath] || [];
-                  containerSymbol = symbols.find(s => s.name === fullName) || null;
+                  containerSymbol = symbols.find(s => s.name === functionName) || null;
+                }
+                else if (MemberSymbolService.isMemberDeclaration(node)) {
+                  // Class and object-literal members are indexed as `Parent.member`
+                  const memberName = MemberSymbolService.getMemberSymbolName(node);
+                  const symbols = symbolIndex[normalizedPath] || [];
+                  containerSymbol = symbols.find(s => s.name === memberName) || null;
+                }
+                else if (ts.isClassDeclaration(node) && node.name) {
+                  const className = node.name.text;
+                  const symbols = symbolIndex[normalizedPath] || [];
+                  containerSymbol = symbols.find(s => s.name === className) || null;
+                }
+                else if (ts.isInterfaceDeclaration(node) && node.name) {
+                  const interfaceName = node.name.text;
+                  const symbols = symbolIndex[normalizedPath] || [];
+                  containerSymbol = symbols.find(s => s.name === interfaceName) || null;
+                }
+                else if (ts.isTypeAliasDeclaration(node) && node.name) {
+                  const typeName = node.name.text;
+                  const symbols = symbolIndex[normalizedPath] || [];
+                  containerSymbol = symbols.find(s => s.name === typeName) || null;
+                }
+                else if (ts.isEnumDeclaration(node) && node.name) {
+                  const enumName = node.name.text;
+                  const symbols = symbolIndex[normalizedPath] || [];
+                  containerSymbol = symbols.find(s => s.name === enumName) || null;
+                }
+                else if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+                  // Functions assigned to a variable, including through forwardRef()/memo() wrappers
+                  const variableName = ReactSymbolService.getAssignedName(node);
+                  const symbols = symbolIndex[normalizedPath] || [];
+                  containerSymbol = (variableName && symbols.find(s => s.name === variableName)) || null;
+                }
+                else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+                  // Components and hooks own their whole declaration, so props types in `React.FC<Props>`
+                  // or `forwardRef<Ref, Props>()` are attributed to them
+                  const variableName = node.name.text;
+                  const symbols = symbolIndex[normalizedPath] || [];
+                  containerSymbol = symbols.find(s => s.name === variableName && (s.type === 'component' || s.type === 'hook')) || null;
                 }
-              }
-              else if (ts.isClassDeclaration(node) && node.name) {
-                const className = node.name.text;
-                const symbols = symbolIndex[normalizedPath] || [];
-                containerSymbol = symbols.find(s => s.name === className) || null;
-              }
-              else if (ts.isInterfaceDeclaration(node) && node.name) {
-                const interfaceName = node.name.text;
-                const symbols = symbolIndex[normalizedPath] || [];
-                containerSymbol = symbols.find(s => s.name === interfaceName) || null;
-              }
-              else if (ts.isTypeAliasDeclaration(node) && node.name) {
-                const typeName = node.name.text;
-                const symbols = symbolIndex[normalizedPath] || [];
-                containerSymbol = symbols.find(s => s.name === typeName) || null;
-              }
-              else if (ts.isEnumDeclaration(node) && node.name) {
-                const enumName = node.name.text;
-                const symbols = symbolIndex[normalizedPath] || [];
-                containerSymbol = symbols.find(s => s.name === enumName) || null;
-              }
-              else if ((ts.isArrowFunction(node) || ts.isFunctionExpression(node)) && node.parent && ts.isVariableDeclaration(node.parent) && node.parent.name && ts.isIdentifier(node.parent.name)) {
-                const variableName = node.parent.name.text;
-                const symbols = symbolIndex[normalizedPath] || [];
-                containerSymbol = symbols.find(s => s.name === variableName) || null;
-              }
               
-              if (containerSymbol) {
-                containerStack.push(containerSymbol);
-                enteredNewContainer = true;
+                if (containerSymbol) {
+                  containerStack.push(containerSymbol);
+                  enteredNewContainer = true;
+                }
               }
-            }
             
-            // Process identifier references to track dependencies
-            if (ts.isIdentifier(node)) {
-              const identifierName = node.text;
-              
-              // Skip common identifiers, keywords, etc.
-              if (excludedIdentifiers.has(identifierName)) {
-                return;
-              }
-              
-              // Skip if this is a declaration position, not a reference
-              if (this.isDeclarationPosition(node)) {
-                return;
-              }
-              
-              const position = node.getStart(sourceFile);
-              const lineNumber = TsAnalyzerService.getLineNumber(sourceFile, position);
-              const contextSnippet = TsAnalyzerService.getContextSnippet(sourceFile, position, 3);
+              // Process identifier references to track dependencies
+              if (ts.isIdentifier(node)) {
+                const identifierName = node.text;
               
-              // Try to resolve the symbol using TypeScript's type checker
-              const symbol = typeChecker.getSymbolAtLocation(node);
-              if (!symbol) {
-                return;
-              }
-              
-              // Get the declaration of the symbol
-              const declarations = symbol.getDeclarations();
-              if (!declarations || declarations.length === 0) {
-                return;
-              }
+                // Skip common identifiers, keywords, etc.
+                if (excludedIdentifiers.has(identifierName)) {
+                  return;
+                }
               
-              // Find the source file of the declaration
-              const declarationSourceFile = declarations[0].getSourceFile();
-              if (!declarationSourceFile) {
-                return;
-              }
+                // Skip if this is a declaration position, not a reference.
+                // Component templates aren't analyzed, so the imports of a component count as its references
+                const isComponentImport = ComponentFileService.isComponentFile(filePath) && this.isImportName(node);
+                if (this.isDeclarationPosition(node) && !isComponentImport) {
+                  return;
+                }
               
-              // Skip if it's an external library
-              const isNodeModule = declarationSourceFile.fileName.includes('node_modules');
-              if (isNodeModule) {
-                return;
-              }
+                const position = node.getStart(sourceFile);
+                const lineNumber = TsAnalyzerService.getLineNumber(sourceFile, position);
+                const contextSnippet = TsAnalyzerService.getContextSnippet(sourceFile, position, 3);
+                const kind = this.getDependencyKind(node, isComponentImport);
               
-              // Get normalized path of the declaration
-              const declarationPath = FileSystemService.normalizeFilePath(declarationSourceFile.fileName, rootPath);
+                // Try to resolve the symbol using TypeScript's type checker
+                let symbol = typeChecker.getSymbolAtLocation(node);
               
-              // Find the target symbol entry in our index
-              const targetFileSymbols = symbolIndex[declarationPath] || [];
-              const targetSymbol = targetFileSymbols.find(s => s.name === identifierName);
+                // Imported identifiers resolve to the import itself, so follow it to the declaration
+                if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+                  symbol = typeChecker.getAliasedSymbol(symbol);
+                }
               
-              if (!targetSymbol) {
-                return;
-              }
+                // Get the declaration of the symbol. Imports from modules that can't be resolved have none
+                const declarations = symbol?.getDeclarations();
+                if (!declarations || declarations.length === 0) {
+                  if (!this.isMemberName(node) && !this.isIntrinsicElementName(node)) {
+                    projectReport.unresolvedIdentifiers++;
+                  }
+                  return;
+                }
               
-              // Get the current container symbol (closest enclosing declaration)
-              const currentSymbol = containerStack.length > 0 ? containerStack[containerStack.length - 1] : null;
+                // Renamed imports are indexed under the name they were declared with
+                const targetName = this.getTargetName(declarations[0], identifierName);
               
-              if (currentSymbol) {
-                // Skip self-references
-                if (currentSymbol.name === targetSymbol.name && currentSymbol.filePath === targetSymbol.filePath) {
+                // Find the source file of the declaration
+                const declarationSourceFile = declarations[0].getSourceFile();
+                if (!declarationSourceFile) {
                   return;
                 }
-                
-                // Add dependency relationship
-                const existingDependency = currentSymbol.depends_on.find(
-                  (dep: any) => dep.name === targetSymbol.name && dep.filePath === targetSymbol.filePath
-                );
-                
-                if (!existingDependency) {
-                  currentSymbol.depends_on.push({
-                    name: targetSymbol.name,
-                    filePath: targetSymbol.filePath,
-                    line: lineNumber
-                  });
+              
+                // Skip if it's an external library
+                const isNodeModule = declarationSourceFile.fileName.includes('node_modules');
+                if (isNodeModule) {
+                  return;
                 }
-                
-                // Add to target symbol's dependents list
-                const existingDependent = targetSymbol.dependents.find(
-                  (dep: any) => dep.name === currentSymbol.name && dep.filePath === currentSymbol.filePath
+              
+                // Get the current container symbol (closest enclosing declaration)
+                const currentSymbol = containerStack.length > 0 ? containerStack[containerStack.length - 1] : null;
+              
+                // Declarations in another root of the workspace (imported through a path alias or a workspace package)
+                const declarationRoot = WorkspaceService.findRootForFile(
+                  declarationSourceFile.fileName,
+                  [rootPath, ...otherRoots.keys()]
                 );
-                
-                if (!existingDependent) {
-                  targetSymbol.dependents.push({
-                    name: currentSymbol.name,
-                    filePath: currentSymbol.filePath,
-                    line: lineNumber,
-                    contextSnippet
-                  });
-                }
-              } else {
-                // Handle top-level references (outside any container)
-                // These will be recorded as file-level dependencies
-                const fileSymbols = symbolIndex[normalizedPath] || [];
-                
-                // Try to find an existing file-level symbol (representing the module/file)
-                let fileSymbol = fileSymbols.find(s => s.name === '__file__');
-                
-                // Create a file-level symbol if none exists
-                if (!fileSymbol) {
-                  fileSymbol = {
-                    name: '__file__',
-                    type: 'other',
-                    filePath: normalizedPath,
-                    location: { line: 1, character: 0 },
-                    docstring: '/** File-level symbol */',
-                    snippet: '',
-                    dependents: [],
-                    depends_on: []
-                  };
-                  
-                  if (!symbolIndex[normalizedPath]) {
-                    symbolIndex[normalizedPath] = [];
-                  }
-                  
-                  symbolIndex[normalizedPath].push(fileSymbol);
+                if (declarationRoot && declarationRoot !== rootPath) {
+                  this.addCrossRootDependency(
+                    currentSymbol ?? this.getTopLevelSymbol(symbolIndex, normalizedPath),
+                    declarations[0],
+                    targetName,
+                    declarationRoot,
+                    otherRoots.get(declarationRoot),
+                    lineNumber,
+                    kind,
+                    this.getCallSite(node, kind, sourceFile, lineNumber),
+                    this.isRenderReference(node, isComponentImport)
+                  );
+                  return;
                 }
-                
-                // Add dependency relationship for file-level symbol
-                const existingDependency = fileSymbol.depends_on.find(
-                  (dep: any) => dep.name === targetSymbol.name && dep.filePath === targetSymbol.filePath
-                );
-                
-                if (!existingDependency) {
-                  fileSymbol.depends_on.push({
-                    name: targetSymbol.name,
-                    filePath: targetSymbol.filePath,
-                    line: lineNumber
-                  });
+              
+                // Get normalized path of the declaration
+                const declarationPath = FileSystemService.normalizeFilePath(declarationSourceFile.fileName, rootPath);
+              
+                // Find the target symbol entry in our index
+                const targetFileSymbols = symbolIndex[declarationPath] || [];
+                const targetSymbol = targetFileSymbols.find(s => s.name === targetName);
+              
+                if (!targetSymbol) {
+                  return;
                 }
-                
-                // Add to target symbol's dependents list
-                const existingDependent = targetSymbol.dependents.find(
-                  (dep: any) => dep.name === fileSymbol.name && dep.filePath === fileSymbol.filePath
+              
+                // References outside any container are recorded as dependencies of the file (or component)
+                this.addDependency(
+                  currentSymbol ?? this.getTopLevelSymbol(symbolIndex, normalizedPath),
+                  targetSymbol,
+                  kind,
+                  lineNumber,
+                  contextSnippet,
+                  this.getCallSite(node, kind, sourceFile, lineNumber)
                 );
-                
-                if (!existingDependent) {
-                  targetSymbol.dependents.push({
-                    name: fileSymbol.name,
-                    filePath: fileSymbol.filePath,
-                    line: lineNumber,
-                    contextSnippet
-                  });
+              
+                if (this.isRenderReference(node, isComponentImport)) {
+                  this.addRenderedComponent(currentSymbol ?? this.getTopLevelSymbol(symbolIndex, normalizedPath), targetSymbol, lineNumber);
                 }
               }
-            }
             
-            // Continue with child nodes
-            ts.forEachChild(node, visit);
+              // Continue with child nodes
+              ts.forEachChild(node, visit);
             
-            // Remove the container from the stack if we entered a new one
-            if (enteredNewContainer && containerStack.length > 0) {
-              containerStack.pop();
+              // Remove the container from the stack if we entered a new one
+              if (enteredNewContainer && containerStack.length > 0) {
+                containerStack.pop();
+              }
+            } catch (error) {
+              console.error(`Error processing node in ${filePath}:`, error);
             }
-          } catch (error) {
-            console.error(`Error processing node in ${filePath}:`, error);
-          }
-        };
+          };
         
-        // Start the traversal
-        visit(sourceFile);
+          // Start the traversal
+          visit(sourceFile);
+        }
+        
+        report.unresolvedIdentifiers += projectReport.unresolvedIdentifiers;
       }
     } catch (error) {
       console.error(`Error resolving dependencies:`, error);
     }
+    
+    return report;
   },
   
+  /**
+   * Gets the name a declaration is indexed under
+   * @param declaration - Declaration of the referenced symbol
+   * @param identifierName - Name used in the reference
+   * @returns The declared name, `Parent.member` for class and object-literal members,
+   * or the component name for the default export of a component file
+   */
+  getTargetName(declaration: ts.Declaration, identifierName: string): string {
+    const declarationFile = declaration.getSourceFile().fileName;
+    if (ComponentFileService.isComponentFile(declarationFile) && (ts.isExportAssignment(declaration) || ts.isSourceFile(declaration))) {
+      return ComponentFileService.getComponentName(declarationFile);
+    }
+    
+    const memberName = MemberSymbolService.getMemberSymbolName(declaration);
+    if (memberName) {
+      return memberName;
+    }
+    
+    const declarationName = ts.getNameOfDeclaration(declaration);
+    return declarationName && ts.isIdentifier(declarationName) ? declarationName.text : identifierName;
+  },
+
+  /**
+   * Gets the expression an identifier names, including the object it is a member of,
+   * like `FooService.bar` for `bar` in `FooService.bar()`
+   * @param node - The identifier node
+   * @returns The property access or qualified name the identifier ends, or the identifier itself
+   */
+  getReferenceExpression(node: ts.Identifier): ts.Node {
+    let expression: ts.Node = node;
+    while ((ts.isPropertyAccessExpression(expression.parent) && expression.parent.name === expression) ||
+        (ts.isQualifiedName(expression.parent) && expression.parent.right === expression)) {
+      expression = expression.parent;
+    }
+    return expression;
+  },
+
+  /**
+   * Determines how a reference uses the referenced symbol
+   * @param node - The referencing identifier
+   * @param isComponentImport - Whether the identifier imports into a single-file component, whose template renders it
+   * @returns The dependency kind
+   */
+  getDependencyKind(node: ts.Identifier, isComponentImport: boolean): DependencyKind {
+    if (isComponentImport) {
+      return 'calls';
+    }
+    
+    const expression = this.getReferenceExpression(node);
+    const parent = expression.parent;
+    
+    if (ts.isExpressionWithTypeArguments(parent) && ts.isHeritageClause(parent.parent)) {
+      return parent.parent.token === ts.SyntaxKind.ImplementsKeyword ? 'implements' : 'extends';
+    }
+    if ((ts.isCallExpression(parent) && parent.expression === expression) ||
+        (ts.isTaggedTemplateExpression(parent) && parent.tag === expression) ||
+        ts.isDecorator(parent) ||
+        ((ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) || ts.isJsxClosingElement(parent)) && parent.tagName === expression)) {
+      return 'calls';
+    }
+    if (ts.isNewExpression(parent) && parent.expression === expression) {
+      return 'instantiates';
+    }
+    
+    // Names in type positions, including both sides of qualified names like `ns.Props`
+    let typeName: ts.Node = node;
+    while (ts.isQualifiedName(typeName.parent)) {
+      typeName = typeName.parent;
+    }
+    if (ts.isTypeNode(typeName.parent)) {
+      return 'references-type';
+    }
+    
+    const isAssignment = ts.isBinaryExpression(parent) && parent.left === expression &&
+      parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment && parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment;
+    const isIncrement = (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) &&
+      (parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken);
+    return isAssignment || isIncrement ? 'writes' : 'reads';
+  },
+
+  /**
+   * Gets the call site of a call or instantiation, with its arguments
+   * JSX elements pass their attributes and tagged templates their template
+   * @param node - The referencing identifier
+   * @param kind - The dependency kind of the reference
+   * @param sourceFile - The source file
+   * @param lineNumber - Line of the reference
+   * @returns The call site, or undefined for other kinds of reference and for closing JSX tags
+   */
+  getCallSite(node: ts.Identifier, kind: DependencyKind, sourceFile: ts.SourceFile, lineNumber: number): CallSite | undefined {
+    if (kind !== 'calls' && kind !== 'instantiates') {
+      return undefined;
+    }
+    
+    const parent = this.getReferenceExpression(node).parent;
+    if (ts.isJsxClosingElement(parent)) {
+      return undefined;
+    }
+    
+    const args: readonly ts.Node[] = ts.isCallExpression(parent) || ts.isNewExpression(parent) ? parent.arguments ?? []
+      : ts.isTaggedTemplateExpression(parent) ? [parent.template]
+      : ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) ? parent.attributes.properties
+      : [];
+    
+    return {
+      line: lineNumber,
+      arguments: args.map(arg => {
+        const text = arg.getText(sourceFile).replace(/\s+/g, ' ');
+        return text.length > MAX_ARGUMENT_LENGTH ? `${text.slice(0, MAX_ARGUMENT_LENGTH - 3)}...` : text;
+      })
+    };
+  },
+
+  /**
+   * Records that a symbol depends on another, on both ends of the edge
+   * Each kind of use is a separate edge, and calls and instantiations keep every call site
+   * @param sourceSymbol - The symbol containing the reference
+   * @param targetSymbol - The referenced symbol
+   * @param kind - How the reference uses the symbol
+   * @param lineNumber - Line of the reference
+   * @param contextSnippet - Code around the reference
+   * @param callSite - The call site, for calls and instantiations
+   */
+  addDependency(
+    sourceSymbol: SymbolIndexEntry,
+    targetSymbol: SymbolIndexEntry,
+    kind: DependencyKind,
+    lineNumber: number,
+    contextSnippet: string,
+    callSite?: CallSite
+  ): void {
+    // Skip self-references
+    if (sourceSymbol.name === targetSymbol.name && sourceSymbol.filePath === targetSymbol.filePath) {
+      return;
+    }
+    
+    let dependency = sourceSymbol.depends_on.find(
+      dep => dep.name === targetSymbol.name && dep.filePath === targetSymbol.filePath && !dep.root && dep.kind === kind
+    );
+    if (!dependency) {
+      dependency = { name: targetSymbol.name, filePath: targetSymbol.filePath, line: lineNumber, kind };
+      sourceSymbol.depends_on.push(dependency);
+    }
+    
+    let dependent = targetSymbol.dependents.find(
+      dep => dep.name === sourceSymbol.name && dep.filePath === sourceSymbol.filePath && !dep.root && dep.kind === kind
+    );
+    if (!dependent) {
+      dependent = { name: sourceSymbol.name, filePath: sourceSymbol.filePath, line: lineNumber, contextSnippet, kind };
+      targetSymbol.dependents.push(dependent);
+    }
+    
+    if (callSite) {
+      (dependency.callSites ??= []).push(callSite);
+      (dependent.callSites ??= []).push({ ...callSite });
+    }
+  },
+
+  /**
+   * Removes the edges from a file's symbols, on both ends, before its references are resolved again
+   * @param symbolIndex - The symbol index
+   * @param normalizedPath - Normalized path of the file
+   */
+  clearOutgoingEdges(symbolIndex: SymbolIndex, normalizedPath: string): void {
+    for (const symbol of symbolIndex[normalizedPath]) {
+      for (const dependency of symbol.depends_on) {
+        const targetSymbol = dependency.root
+          ? undefined
+          : (symbolIndex[dependency.filePath] || []).find(s => s.name === dependency.name);
+        if (targetSymbol) {
+          targetSymbol.dependents = targetSymbol.dependents.filter(
+            dependent => dependent.name !== symbol.name || dependent.filePath !== normalizedPath || !!dependent.root
+          );
+        }
+      }
+      symbol.depends_on = [];
+      delete symbol.renders;
+    }
+  },
+
+  /**
+   * Gets the symbol that owns a file's top-level code: the component of a component file,
+   * or the file-level symbol otherwise
+   * @param symbolIndex - The symbol index
+   * @param normalizedPath - Normalized path of the file
+   * @returns The symbol owning the top-level code
+   */
+  getTopLevelSymbol(symbolIndex: SymbolIndex, normalizedPath: string): SymbolIndexEntry {
+    const componentSymbol = ComponentFileService.isComponentFile(normalizedPath)
+      ? (symbolIndex[normalizedPath] || []).find(s => s.type === 'component')
+      : undefined;
+    return componentSymbol ?? this.getFileLevelSymbol(symbolIndex, normalizedPath);
+  },
+
+  /**
+   * Determines if a reference renders the referenced component
+   * @param node - The referencing identifier
+   * @param isComponentImport - Whether the identifier imports into a single-file component, whose template renders it
+   * @returns True for the tag name of a JSX element and for the imports of single-file components
+   */
+  isRenderReference(node: ts.Identifier, isComponentImport: boolean): boolean {
+    const parent = node.parent;
+    return isComponentImport ||
+      ((ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent)) && parent.tagName === node);
+  },
+
+  /**
+   * Records that a component renders another component as a child
+   * @param sourceSymbol - The rendering symbol
+   * @param targetSymbol - The rendered symbol
+   * @param lineNumber - Line of the element or import
+   */
+  addRenderedComponent(sourceSymbol: SymbolIndexEntry, targetSymbol: SymbolIndexEntry, lineNumber: number): void {
+    if (sourceSymbol.type !== 'component' || targetSymbol.type !== 'component' || sourceSymbol === targetSymbol) {
+      return;
+    }
+    
+    const renders = sourceSymbol.renders ??= [];
+    const isKnown = renders.some(child => child.name === targetSymbol.name && child.filePath === targetSymbol.filePath && !child.root);
+    if (!isKnown) {
+      renders.push({ name: targetSymbol.name, filePath: targetSymbol.filePath, line: lineNumber });
+    }
+  },
+
+  /**
+   * Gets the symbol representing a file's top-level code, creating it if needed
+   * @param symbolIndex - The symbol index
+   * @param normalizedPath - Normalized path of the file
+   * @returns The file-level symbol
+   */
+  getFileLevelSymbol(symbolIndex: SymbolIndex, normalizedPath: string): SymbolIndexEntry {
+    const fileSymbols = symbolIndex[normalizedPath] ??= [];
+    
+    // Try to find an existing file-level symbol (representing the module/file)
+    let fileSymbol = fileSymbols.find(s => s.name === '__file__');
+    
+    // Create a file-level symbol if none exists
+    if (!fileSymbol) {
+      fileSymbol = {
+        name: '__file__',
+        type: 'other',
+        filePath: normalizedPath,
+        location: { line: 1, character: 0 },
+        docstring: '/** File-level symbol */',
+        snippet: '',
+        dependents: [],
+        depends_on: []
+      };
+      fileSymbols.push(fileSymbol);
+    }
+    
+    return fileSymbol;
+  },
+
+  /**
+   * Records a dependency on a symbol declared in another root of the workspace
+   * Only the depending side is recorded here: the other root derives its dependents from it
+   * @param sourceSymbol - The symbol containing the reference
+   * @param declaration - Declaration of the referenced symbol
+   * @param targetName - Name of the referenced symbol
+   * @param targetRoot - Path of the root containing the declaration
+   * @param targetIndex - Stored index of that root, if it has been indexed
+   * @param lineNumber - Line of the reference
+   * @param kind - How the reference uses the symbol
+   * @param callSite - The call site, for calls and instantiations
+   * @param isRenderReference - Whether the reference renders the symbol, recorded once the other root's index shows it is a component
+   */
+  addCrossRootDependency(
+    sourceSymbol: SymbolIndexEntry,
+    declaration: ts.Declaration,
+    targetName: string,
+    targetRoot: string,
+    targetIndex: SymbolIndex | undefined,
+    lineNumber: number,
+    kind: DependencyKind,
+    callSite?: CallSite,
+    isRenderReference: boolean = false
+  ): void {
+    const targetPath = FileSystemService.normalizeFilePath(declaration.getSourceFile().fileName, targetRoot);
+    const root = WorkspaceService.getRootName(targetRoot);
+    
+    // Without an index for the other root yet, accept any top-level declaration, as those are what gets indexed
+    const isIndexedSymbol = targetIndex
+      ? (targetIndex[targetPath] || []).some(s => s.name === targetName)
+      : this.isTopLevelDeclaration(declaration);
+    if (!isIndexedSymbol) {
+      return;
+    }
+    
+    let dependency = sourceSymbol.depends_on.find(
+      dep => dep.name === targetName && dep.filePath === targetPath && dep.root === root && dep.kind === kind
+    );
+    if (!dependency) {
+      dependency = { name: targetName, filePath: targetPath, line: lineNumber, root, kind };
+      sourceSymbol.depends_on.push(dependency);
+    }
+    if (callSite) {
+      (dependency.callSites ??= []).push(callSite);
+    }
+    
+    const isRenderedComponent = isRenderReference && sourceSymbol.type === 'component' &&
+      (targetIndex?.[targetPath] || []).some(s => s.name === targetName && s.type === 'component');
+    if (isRenderedComponent) {
+      const renders = sourceSymbol.renders ??= [];
+      if (!renders.some(child => child.name === targetName && child.filePath === targetPath && child.root === root)) {
+        renders.push({ name: targetName, filePath: targetPath, line: lineNumber, root });
+      }
+    }
+  },
+
+  /**
+   * Determines if a declaration is at the top level of its file
+   * @param declaration - The declaration
+   * @returns True for top-level functions, classes, interfaces, types, enums and variables, and their members
+   */
+  isTopLevelDeclaration(declaration: ts.Declaration): boolean {
+    if (MemberSymbolService.isMemberDeclaration(declaration)) {
+      return this.isTopLevelDeclaration(MemberSymbolService.getParentDeclaration(declaration));
+    }
+    if (ts.isVariableDeclaration(declaration)) {
+      // VariableDeclaration -> VariableDeclarationList -> VariableStatement -> SourceFile
+      return ts.isSourceFile(declaration.parent.parent.parent);
+    }
+    return ts.isSourceFile(declaration.parent);
+  },
+
+  /**
+   * Determines if an identifier is the local name of an import
+   * @param node - The identifier node
+   * @returns True for default, named and namespace import names
+   */
+  isImportName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return (ts.isImportClause(parent) || ts.isImportSpecifier(parent) || ts.isNamespaceImport(parent)) && parent.name === node;
+  },
+
+  /**
+   * Determines if an identifier names a member, like `b` in `a.b`
+   * Members of untyped values can't be resolved, so they don't count as unresolved identifiers
+   * @param node - The identifier node
+   * @returns True if the identifier is a member name
+   */
+  isMemberName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+      (ts.isQualifiedName(parent) && parent.right === node) ||
+      ts.isJsxAttribute(parent) ||
+      ts.isLabeledStatement(parent) ||
+      ts.isBreakOrContinueStatement(parent);
+  },
+
+  /**
+   * Determines if an identifier is the tag name of an intrinsic JSX element, like `div` in `<div>`
+   * Intrinsic elements have no declaration without React's type definitions, so they don't count as unresolved identifiers
+   * @param node - The identifier node
+   * @returns True for lowercase JSX tag names
+   */
+  isIntrinsicElementName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return (ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) || ts.isJsxClosingElement(parent)) &&
+      parent.tagName === node && /^[a-z]/.test(node.text);
+  },
+
   /**
    * Determines if an identifier is in a declaration position
    * @param node - The identifier node
@@ -0,0 +1,119 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as readline from 'readline';
+import { SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+
+const CHECKPOINT_FILENAME = 'index-checkpoint.ndjson';
+
+// Bumped when extraction changes, so a checkpoint written by an older version is not resumed
+const CHECKPOINT_VERSION = 2;
+
+/**
+ * The extracted symbols of one file, one line of the checkpoint log
+ */
+export interface CheckpointEntry {
+  filePath: string;
+  mtimeMs: number;
+  symbols: SymbolIndexEntry[];
+}
+
+/**
+ * Appends extracted files to the checkpoint log of a running index build
+ */
+export interface CheckpointWriter {
+  append(entry: CheckpointEntry): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Service for the append-only log of the files extracted by a full index build
+ * Each file is appended as soon as it is extracted, so a build interrupted by a restart
+ * picks up where it stopped instead of extracting every file again
+ */
+export const IndexCheckpointService = {
+  /**
+   * Gets the path of the checkpoint log
+   * @param rootPath - The workspace root path
+   * @returns The log file path
+   */
+  getCheckpointPath(rootPath: string): string {
+    return path.join(WorkspaceService.getCursorCrawlDir(rootPath), CHECKPOINT_FILENAME);
+  },
+
+  /**
+   * Reads the files extracted by an interrupted build, line by line
+   * A line cut off by the interruption is skipped, and so is a log written by another version
+   * @param rootPath - The workspace root path
+   * @returns Map of normalized file paths to their checkpoint entries, empty if there is nothing to resume
+   */
+  async readCheckpoint(rootPath: string): Promise<Map<string, CheckpointEntry>> {
+    const entries = new Map<string, CheckpointEntry>();
+    const checkpointPath = this.getCheckpointPath(rootPath);
+    if (!await fs.pathExists(checkpointPath)) {
+      return entries;
+    }
+
+    const lines = readline.createInterface({ input: fs.createReadStream(checkpointPath, 'utf8'), crlfDelay: Infinity });
+    let isHeader = true;
+    for await (const line of lines) {
+      if (!line) {
+        continue;
+      }
+
+      let parsed;
+      try {
+        parsed = JSON.parse(line);
+      } catch (error) {
+        console.warn(`Skipping an incomplete line of ${checkpointPath}`);
+      }
+
+      if (isHeader) {
+        if (parsed?.checkpointVersion !== CHECKPOINT_VERSION) {
+          break;
+        }
+        isHeader = false;
+      } else if (parsed) {
+        entries.set(parsed.filePath, parsed as CheckpointEntry);
+      }
+    }
+    lines.close();
+
+    return entries;
+  },
+
+  /**
+   * Opens the checkpoint log for appending
+   * @param rootPath - The workspace root path
+   * @param resume - Whether to keep the entries already in the log, or start a new one
+   * @returns The writer
+   */
+  async openCheckpoint(rootPath: string, resume: boolean): Promise<CheckpointWriter> {
+    await WorkspaceService.ensureCursorCrawlDir(rootPath);
+    const checkpointPath = this.getCheckpointPath(rootPath);
+    if (!resume) {
+      await fs.writeFile(checkpointPath, `${JSON.stringify({ checkpointVersion: CHECKPOINT_VERSION })}\n`);
+    }
+
+    // Each line is written straight to the file, so at most the line being written is lost in a crash.
+    // A resumed log starts on a new line, in case the interrupted build left half a line
+    const handle = await fs.open(checkpointPath, 'a');
+    if (resume) {
+      await fs.write(handle, '\n');
+    }
+    return {
+      append: async (entry: CheckpointEntry) => {
+        await fs.write(handle, `${JSON.stringify(entry)}\n`);
+      },
+      close: () => fs.close(handle)
+    };
+  },
+
+  /**
+   * Removes the checkpoint log once the index it was building has been stored
+   * @param rootPath - The workspace root path
+   */
+  async clearCheckpoint(rootPath: string): Promise<void> {
+    await fs.remove(this.getCheckpointPath(rootPath));
+  }
+};
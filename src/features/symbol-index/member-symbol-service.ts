@@ -0,0 +1,120 @@
+import * as ts from 'typescript';
+import { ReactSymbolService } from '@/features/symbol-index/react-symbol-service';
+
+/**
+ * Members indexed as `Parent.member` symbols: class methods, constructors, properties, parameter properties
+ * and accessors, and the methods, function-valued properties and accessors of object literals assigned to a variable
+ */
+export type MemberDeclaration =
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration
+  | ts.PropertyDeclaration
+  | ts.ParameterPropertyDeclaration
+  | ts.AccessorDeclaration
+  | ts.PropertyAssignment;
+
+/**
+ * Service for naming the members of classes and object-literal services
+ */
+export const MemberSymbolService = {
+  /**
+   * Gets the object literal a variable is initialized with, looking through parentheses, `as` and `satisfies`
+   * @param initializer - The variable initializer
+   * @returns The object literal, or undefined if the initializer is something else
+   */
+  getObjectLiteral(initializer: ts.Expression): ts.ObjectLiteralExpression | undefined {
+    let expression = initializer;
+    while (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression) || ts.isSatisfiesExpression(expression)) {
+      expression = expression.expression;
+    }
+    return ts.isObjectLiteralExpression(expression) ? expression : undefined;
+  },
+
+  /**
+   * Gets the variable an object literal is assigned to, looking through parentheses, `as` and `satisfies`
+   * @param node - The object literal
+   * @returns The variable declaration, or undefined if the object isn't a variable's initializer
+   */
+  getAssignedVariable(node: ts.ObjectLiteralExpression): ts.VariableDeclaration | undefined {
+    let current: ts.Node = node;
+    while (ts.isParenthesizedExpression(current.parent) || ts.isAsExpression(current.parent) || ts.isSatisfiesExpression(current.parent)) {
+      current = current.parent;
+    }
+    return ts.isVariableDeclaration(current.parent) && current.parent.initializer === current ? current.parent : undefined;
+  },
+
+  /**
+   * Gets the function a member holds
+   * @param member - The member declaration
+   * @returns The method, constructor or accessor itself, the function a property is initialized with,
+   * or undefined for other properties
+   */
+  getMemberFunction(member: MemberDeclaration): ts.FunctionLikeDeclaration | undefined {
+    if (ts.isPropertyDeclaration(member) || ts.isPropertyAssignment(member)) {
+      const initializer = member.initializer && ReactSymbolService.skipParentheses(member.initializer);
+      return initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) ? initializer : undefined;
+    }
+    return ts.isParameter(member) ? undefined : member;
+  },
+
+  /**
+   * Checks if a node declares a member that is indexed on its own
+   * @param node - The node
+   * @returns Whether the node is a member of a named class, or a function or accessor of an object-literal variable
+   */
+  isMemberDeclaration(node: ts.Node): node is MemberDeclaration {
+    if (ts.isParameter(node)) {
+      return ts.isParameterPropertyDeclaration(node, node.parent) && ts.isIdentifier(node.name) &&
+        ts.isClassDeclaration(node.parent.parent) && !!node.parent.parent.name;
+    }
+
+    if (node.parent && ts.isClassDeclaration(node.parent)) {
+      return !!node.parent.name && (ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) ||
+        ts.isPropertyDeclaration(node) || ts.isAccessor(node));
+    }
+
+    if (node.parent && ts.isObjectLiteralExpression(node.parent) &&
+        (ts.isMethodDeclaration(node) || ts.isAccessor(node) || (ts.isPropertyAssignment(node) && !!this.getMemberFunction(node)))) {
+      const variable = this.getAssignedVariable(node.parent);
+      return !!variable && ts.isIdentifier(variable.name);
+    }
+
+    return false;
+  },
+
+  /**
+   * Gets the class or variable declaring a member
+   * @param member - The member declaration
+   * @returns The class, or the variable the member's object literal is assigned to
+   */
+  getParentDeclaration(member: MemberDeclaration): ts.ClassDeclaration | ts.VariableDeclaration {
+    const parent = ts.isParameter(member) ? member.parent.parent : member.parent;
+    return ts.isClassDeclaration(parent) ? parent : this.getAssignedVariable(parent as ts.ObjectLiteralExpression)!;
+  },
+
+  /**
+   * Gets the name a member is indexed under
+   * @param node - The node
+   * @returns `Parent.member`, e.g. `Store.load` or `SymbolIndexService.readSymbolIndex`,
+   * or undefined if the node isn't an indexed member
+   */
+  getMemberSymbolName(node: ts.Node): string | undefined {
+    if (!this.isMemberDeclaration(node)) {
+      return undefined;
+    }
+
+    // Both kinds of parent are known to be named
+    const parentName = (this.getParentDeclaration(node).name as ts.Identifier).text;
+    const memberName = ts.isConstructorDeclaration(node) ? 'constructor' : node.name.getText(node.getSourceFile());
+    return `${parentName}.${memberName}`;
+  },
+
+  /**
+   * Gets the symbol type of a member
+   * @param member - The member declaration
+   * @returns `method` for members holding a function, `property` for other properties and accessors
+   */
+  getMemberType(member: MemberDeclaration): 'method' | 'property' {
+    return ts.isAccessor(member) || !this.getMemberFunction(member) ? 'property' : 'method';
+  }
+};
@@ -0,0 +1,260 @@
+import * as ts from 'typescript';
+import { ComponentFileService } from '@/shared/services/component-file-service';
+
+// Calls that wrap a component without changing what it renders, e.g. memo(forwardRef(...))
+const COMPONENT_WRAPPERS = ['forwardRef', 'memo'];
+
+// Type names that carry a component's props as their type argument, e.g. React.FC<ButtonProps>
+const COMPONENT_TYPE_NAMES = ['FC', 'FunctionComponent', 'VFC', 'VoidFunctionComponent'];
+
+/**
+ * What a function declares in React terms, with the props of components
+ */
+export interface ReactSymbolInfo {
+  type: 'component' | 'hook';
+  props?: string[];
+  propsType?: string;
+}
+
+/**
+ * Service for recognizing React components and hooks among functions and variables
+ */
+export const ReactSymbolService = {
+  /**
+   * Checks if a name follows the naming convention of components
+   * @param name - The symbol name
+   * @returns Whether the name starts with an uppercase letter
+   */
+  isComponentName(name: string): boolean {
+    return /^[A-Z]/.test(name);
+  },
+
+  /**
+   * Checks if a name follows the naming convention of hooks
+   * @param name - The function name
+   * @returns Whether the name is `use` or starts with `use` followed by an uppercase letter or digit
+   */
+  isHookName(name: string): boolean {
+    return /^use([A-Z0-9]|$)/.test(name);
+  },
+
+  /**
+   * Skips the parentheses and `as` casts around an expression
+   * @param expression - The expression
+   * @returns The innermost expression
+   */
+  skipParentheses(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current)) {
+      current = current.expression;
+    }
+    return current;
+  },
+
+  /**
+   * Gets the name of a wrapper call like `forwardRef(...)` or `React.memo(...)`
+   * @param node - The call expression
+   * @returns The wrapper name, or undefined if the call doesn't wrap a component
+   */
+  getWrapperName(node: ts.CallExpression): string | undefined {
+    const callee = node.expression;
+    const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined;
+    return name && COMPONENT_WRAPPERS.includes(name) ? name : undefined;
+  },
+
+  /**
+   * Finds the function a variable is initialized with, looking through forwardRef() and memo() wrappers
+   * @param initializer - The variable initializer
+   * @returns The function and the wrapper calls around it, outermost first
+   */
+  unwrapFunction(initializer: ts.Expression): { node?: ts.ArrowFunction | ts.FunctionExpression; wrappers: ts.CallExpression[] } {
+    const wrappers: ts.CallExpression[] = [];
+    let expression = this.skipParentheses(initializer);
+
+    while (ts.isCallExpression(expression) && this.getWrapperName(expression) && expression.arguments.length > 0) {
+      wrappers.push(expression);
+      expression = this.skipParentheses(expression.arguments[0]);
+    }
+
+    return ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)
+      ? { node: expression, wrappers }
+      : { wrappers };
+  },
+
+  /**
+   * Gets the name of the variable a function is assigned to, looking through forwardRef() and memo() wrappers
+   * @param node - An arrow function or function expression
+   * @returns The variable name, or undefined if the function isn't assigned to a variable
+   */
+  getAssignedName(node: ts.ArrowFunction | ts.FunctionExpression): string | undefined {
+    let current: ts.Node = node;
+    while (ts.isParenthesizedExpression(current.parent) || ts.isAsExpression(current.parent) ||
+        (ts.isCallExpression(current.parent) && this.getWrapperName(current.parent) && current.parent.arguments[0] === current)) {
+      current = current.parent;
+    }
+    return ts.isVariableDeclaration(current.parent) && current.parent.initializer === current && ts.isIdentifier(current.parent.name)
+      ? current.parent.name.text
+      : undefined;
+  },
+
+  /**
+   * Checks if an expression evaluates to JSX, including through conditionals and logical operators
+   * @param expression - The expression to check
+   * @returns Whether a JSX element or fragment can be the result
+   */
+  isJsxExpression(expression: ts.Expression): boolean {
+    const node = this.skipParentheses(expression);
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+      return true;
+    }
+    if (ts.isConditionalExpression(node)) {
+      return this.isJsxExpression(node.whenTrue) || this.isJsxExpression(node.whenFalse);
+    }
+    if (ts.isBinaryExpression(node)) {
+      return this.isJsxExpression(node.left) || this.isJsxExpression(node.right);
+    }
+    return false;
+  },
+
+  /**
+   * Checks if a function returns JSX, ignoring the returns of nested functions
+   * @param node - The function
+   * @returns Whether any of its return values is JSX
+   */
+  returnsJsx(node: ts.FunctionLikeDeclaration): boolean {
+    if (!node.body) {
+      return false;
+    }
+    if (!ts.isBlock(node.body)) {
+      return this.isJsxExpression(node.body);
+    }
+
+    let found = false;
+    const visit = (child: ts.Node) => {
+      if (found || ts.isFunctionLike(child)) {
+        return;
+      }
+      if (ts.isReturnStatement(child) && child.expression && this.isJsxExpression(child.expression)) {
+        found = true;
+        return;
+      }
+      ts.forEachChild(child, visit);
+    };
+    ts.forEachChild(node.body, visit);
+    return found;
+  },
+
+  /**
+   * Checks if a function calls a hook, ignoring calls in nested functions as the rules of hooks do
+   * @param node - The function
+   * @returns Whether the function calls `useX()` or `React.useX()`
+   */
+  callsHook(node: ts.FunctionLikeDeclaration): boolean {
+    let found = false;
+    const visit = (child: ts.Node) => {
+      if (found || ts.isFunctionLike(child)) {
+        return;
+      }
+      if (ts.isCallExpression(child)) {
+        const callee = child.expression;
+        const calleeName = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : '';
+        if (this.isHookName(calleeName)) {
+          found = true;
+          return;
+        }
+      }
+      ts.forEachChild(child, visit);
+    };
+    if (node.body) {
+      ts.forEachChild(node.body, visit);
+    }
+    return found;
+  },
+
+  /**
+   * Finds the declared type of a component's props
+   * @param node - The component function
+   * @param wrappers - The forwardRef()/memo() calls around the function
+   * @param variableType - Type annotation of the component variable, e.g. `React.FC<ButtonProps>`
+   * @returns The props type, or undefined if the props aren't typed
+   */
+  getPropsTypeNode(
+    node: ts.FunctionLikeDeclaration,
+    wrappers: ts.CallExpression[] = [],
+    variableType?: ts.TypeNode
+  ): ts.TypeNode | undefined {
+    // forwardRef<HTMLButtonElement, ButtonProps>(...)
+    const forwardRef = wrappers.find(wrapper => this.getWrapperName(wrapper) === 'forwardRef');
+    if (forwardRef?.typeArguments?.[1]) {
+      return forwardRef.typeArguments[1];
+    }
+
+    // const Button: React.FC<ButtonProps> = ...
+    if (variableType && ts.isTypeReferenceNode(variableType) && variableType.typeArguments?.[0]) {
+      const typeName = ts.isQualifiedName(variableType.typeName) ? variableType.typeName.right.text : variableType.typeName.text;
+      if (COMPONENT_TYPE_NAMES.includes(typeName)) {
+        return variableType.typeArguments[0];
+      }
+    }
+
+    return node.parameters[0]?.type;
+  },
+
+  /**
+   * Gets the prop names of a component, from its props type or from destructuring
+   * Only types declared in the same file can be followed
+   * @param node - The component function
+   * @param propsType - The declared props type
+   * @param sourceFile - The source file
+   * @returns The prop names
+   */
+  getPropNames(node: ts.FunctionLikeDeclaration, propsType: ts.TypeNode | undefined, sourceFile: ts.SourceFile): string[] {
+    const typedNames = propsType ? ComponentFileService.getTypeMemberNames(propsType, sourceFile) : [];
+    if (typedNames.length > 0) {
+      return typedNames;
+    }
+
+    const parameter = node.parameters[0];
+    if (!parameter || !ts.isObjectBindingPattern(parameter.name)) {
+      return [];
+    }
+    return parameter.name.elements.flatMap(element => {
+      const propName = element.propertyName ?? element.name;
+      return !element.dotDotDotToken && (ts.isIdentifier(propName) || ts.isStringLiteral(propName)) ? [propName.text] : [];
+    });
+  },
+
+  /**
+   * Determines whether a function is a React component or hook
+   * Components have a capitalized name and return JSX or are wrapped in forwardRef()/memo();
+   * hooks are `use*` functions that call other hooks
+   * @param name - Name of the function or variable
+   * @param node - The function
+   * @param sourceFile - The source file
+   * @param wrappers - The forwardRef()/memo() calls around the function
+   * @param variableType - Type annotation of the variable the function is assigned to
+   * @returns The React symbol info, or undefined for other functions
+   */
+  getReactSymbolInfo(
+    name: string,
+    node: ts.FunctionLikeDeclaration,
+    sourceFile: ts.SourceFile,
+    wrappers: ts.CallExpression[] = [],
+    variableType?: ts.TypeNode
+  ): ReactSymbolInfo | undefined {
+    if (this.isComponentName(name) && (wrappers.length > 0 || this.returnsJsx(node))) {
+      const propsType = this.getPropsTypeNode(node, wrappers, variableType);
+      return {
+        type: 'component',
+        props: this.getPropNames(node, propsType, sourceFile),
+        ...(propsType ? { propsType: propsType.getText(sourceFile) } : {})
+      };
+    }
+
+    if (this.isHookName(name) && this.callsHook(node)) {
+      return { type: 'hook' };
+    }
+
+    return undefined;
+  }
+};
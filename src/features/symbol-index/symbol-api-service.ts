@@ -0,0 +1,179 @@
+import * as ts from 'typescript';
+import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { FileSystemService } from '@/shared/services/file-system-service';
+import { TsAnalyzerService } from '@/shared/services/ts-analyzer-service';
+import { ComponentFileService } from '@/shared/services/component-file-service';
+import { ReactSymbolService } from '@/features/symbol-index/react-symbol-service';
+import { MemberDeclaration, MemberSymbolService } from '@/features/symbol-index/member-symbol-service';
+
+// Declarations whose symbols get modifiers and signatures
+type ApiDeclaration = ts.FunctionDeclaration | ts.ClassDeclaration | ts.VariableDeclaration | MemberDeclaration;
+
+// Signatures are written arrow style and in full, e.g. `(name: string) => Promise<void>`
+const SIGNATURE_FORMAT_FLAGS = ts.TypeFormatFlags.WriteArrowStyleSignature | ts.TypeFormatFlags.NoTruncation;
+
+/**
+ * Service for filling in the exports, modifiers and signatures of indexed symbols with the type checker
+ */
+export const SymbolApiService = {
+  /**
+   * Annotates the symbols of a file, and marks the symbols the file re-exports from other files
+   * @param sourceFile - The file, from the project's program
+   * @param normalizedPath - Normalized path of the file
+   * @param symbolIndex - The symbol index
+   * @param typeChecker - The project's type checker
+   * @param rootPath - Project root path
+   */
+  annotateFile(
+    sourceFile: ts.SourceFile,
+    normalizedPath: string,
+    symbolIndex: SymbolIndex,
+    typeChecker: ts.TypeChecker,
+    rootPath: string
+  ): void {
+    const fileSymbols = symbolIndex[normalizedPath] || [];
+    for (const symbol of fileSymbols) {
+      delete symbol.exported;
+      delete symbol.visibility;
+      delete symbol.isStatic;
+      delete symbol.isAsync;
+      delete symbol.signature;
+    }
+
+    // Modifiers and signatures of every indexed declaration
+    const visit = (node: ts.Node) => {
+      if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isVariableDeclaration(node) ||
+          MemberSymbolService.isMemberDeclaration(node)) {
+        const symbol = this.findIndexedSymbol(node, fileSymbols);
+        if (symbol) {
+          this.annotateDeclaration(symbol, node, typeChecker);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    // Exports, following `export { a as b }` and `export * from` to the declarations
+    const moduleSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) {
+      return;
+    }
+
+    for (const exportSymbol of typeChecker.getExportsOfModule(moduleSymbol)) {
+      const targetSymbol = exportSymbol.flags & ts.SymbolFlags.Alias ? typeChecker.getAliasedSymbol(exportSymbol) : exportSymbol;
+
+      for (const declaration of targetSymbol.getDeclarations() ?? []) {
+        const declarationFile = declaration.getSourceFile();
+
+        if (declarationFile === sourceFile) {
+          const symbol = this.findIndexedSymbol(declaration, fileSymbols);
+          // A symbol exported both ways is recorded by its name, which is how most modules import it
+          if (symbol && symbol.exported !== 'named') {
+            symbol.exported = exportSymbol.escapedName === 'default' ? 'default' : 'named';
+          }
+          continue;
+        }
+
+        if (declarationFile.fileName.includes('node_modules')) {
+          continue;
+        }
+        const declarationPath = FileSystemService.normalizeFilePath(declarationFile.fileName, rootPath);
+        const symbol = this.findIndexedSymbol(declaration, symbolIndex[declarationPath] || []);
+        if (symbol && !symbol.reExportedBy?.includes(normalizedPath)) {
+          (symbol.reExportedBy ??= []).push(normalizedPath);
+        }
+      }
+    }
+  },
+
+  /**
+   * Finds the index entry of a declaration, by its indexed name and position
+   * @param declaration - The declaration
+   * @param fileSymbols - Symbols of the declaration's file
+   * @returns The entry, or undefined if the declaration isn't indexed
+   */
+  findIndexedSymbol(declaration: ts.Declaration, fileSymbols: SymbolIndexEntry[]): SymbolIndexEntry | undefined {
+    const declarationFile = declaration.getSourceFile();
+
+    // The default export of a single-file component is its component symbol
+    if (ComponentFileService.isComponentFile(declarationFile.fileName) &&
+        (ts.isExportAssignment(declaration) || ts.isSourceFile(declaration))) {
+      return fileSymbols.find(symbol => symbol.type === 'component');
+    }
+
+    // Members are indexed as `Parent.member`
+    const declarationName = ts.getNameOfDeclaration(declaration);
+    const name = MemberSymbolService.getMemberSymbolName(declaration) ??
+      (declarationName && (ts.isIdentifier(declarationName) || ts.isStringLiteral(declarationName)) ? declarationName.text : undefined);
+    if (!name) {
+      return undefined;
+    }
+
+    const { line, character } = TsAnalyzerService.getLineAndCharacter(declarationFile, declaration);
+    return fileSymbols.find(symbol =>
+      symbol.name === name && symbol.location.line === line && symbol.location.character === character
+    );
+  },
+
+  /**
+   * Fills in the modifiers and signature of a symbol from its declaration
+   * @param symbol - The symbol entry
+   * @param declaration - The symbol's declaration
+   * @param typeChecker - The project's type checker
+   */
+  annotateDeclaration(
+    symbol: SymbolIndexEntry,
+    declaration: ApiDeclaration,
+    typeChecker: ts.TypeChecker
+  ): void {
+    const isMember = MemberSymbolService.isMemberDeclaration(declaration);
+    if (isMember && ts.isClassDeclaration(MemberSymbolService.getParentDeclaration(declaration))) {
+      const modifierFlags = ts.getCombinedModifierFlags(declaration);
+      symbol.visibility = modifierFlags & ts.ModifierFlags.Private || (declaration.name && ts.isPrivateIdentifier(declaration.name))
+        ? 'private'
+        : modifierFlags & ts.ModifierFlags.Protected ? 'protected' : 'public';
+      if (modifierFlags & ts.ModifierFlags.Static) {
+        symbol.isStatic = true;
+      }
+    }
+
+    // Variables and properties are async when they hold an async function, possibly wrapped in forwardRef()/memo()
+    const functionNode = ts.isVariableDeclaration(declaration)
+      ? declaration.initializer && ReactSymbolService.unwrapFunction(declaration.initializer).node
+      : isMember ? MemberSymbolService.getMemberFunction(declaration) : declaration;
+    if (functionNode && !ts.isClassDeclaration(functionNode) && ts.getCombinedModifierFlags(functionNode) & ts.ModifierFlags.Async) {
+      symbol.isAsync = true;
+    }
+
+    const signature = this.getSignature(declaration, typeChecker);
+    if (signature) {
+      symbol.signature = signature;
+    }
+  },
+
+  /**
+   * Gets the signature of a declaration as the type checker writes it
+   * Overloaded functions get the signature of the declaration itself
+   * @param declaration - The declaration
+   * @param typeChecker - The project's type checker
+   * @returns The signature, or undefined for classes without a constructor type and variables and properties that aren't callable
+   */
+  getSignature(declaration: ApiDeclaration, typeChecker: ts.TypeChecker): string | undefined {
+    if (ts.isFunctionDeclaration(declaration) || ts.isMethodDeclaration(declaration) || ts.isConstructorDeclaration(declaration)) {
+      const signature = typeChecker.getSignatureFromDeclaration(declaration);
+      return signature && typeChecker.signatureToString(signature, declaration, SIGNATURE_FORMAT_FLAGS);
+    }
+
+    if (ts.isClassDeclaration(declaration)) {
+      const classSymbol = declaration.name && typeChecker.getSymbolAtLocation(declaration.name);
+      const [constructSignature] = classSymbol
+        ? typeChecker.getTypeOfSymbolAtLocation(classSymbol, declaration).getConstructSignatures()
+        : [];
+      return constructSignature &&
+        typeChecker.signatureToString(constructSignature, declaration, SIGNATURE_FORMAT_FLAGS, ts.SignatureKind.Construct);
+    }
+
+    const [callSignature] = typeChecker.getTypeAtLocation(declaration.name).getCallSignatures();
+    return callSignature && typeChecker.signatureToString(callSignature, declaration, SIGNATURE_FORMAT_FLAGS);
+  }
+};
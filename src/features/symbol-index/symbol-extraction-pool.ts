@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { HostService } from '@/shared/services/host-service';
+import { SymbolExtractionService } from '@/features/symbol-index/symbol-extraction-service';
+
+// The worker is bundled next to the extension, the CLI and the MCP server by esbuild.js
+const WORKER_SCRIPT = path.join(__dirname, 'symbol-extraction-worker.js');
+
+/**
+ * A file to extract, as posted to a worker
+ */
+export interface ExtractionRequest {
+  filePath: string;
+  normalizedPath: string;
+  rootPath: string;
+}
+
+/**
+ * The symbols of a file, or why they couldn't be extracted, as posted back by a worker
+ */
+export interface ExtractionResponse {
+  symbols?: SymbolIndexEntry[];
+  error?: string;
+}
+
+/**
+ * Pool of worker threads extracting symbols in parallel
+ */
+export interface SymbolExtractionPool {
+  /**
+   * Number of files extracted at the same time
+   */
+  readonly size: number;
+
+  /**
+   * Extracts the symbols of a file on the next free worker
+   * @param filePath - Absolute path of the file
+   * @param normalizedPath - Path of the file relative to the project root
+   * @param rootPath - Project root path
+   * @returns The symbols of the file
+   */
+  extract(filePath: string, normalizedPath: string, rootPath: string): Promise<SymbolIndexEntry[]>;
+
+  /**
+   * Stops the workers, failing the files that are still queued or being extracted
+   */
+  terminate(): Promise<void>;
+}
+
+/**
+ * A queued or running extraction
+ */
+interface ExtractionTask {
+  request: ExtractionRequest;
+  resolve: (symbols: SymbolIndexEntry[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Gets the number of worker threads to extract symbols with
+ * @returns The configured pool size, or one less than the number of CPUs (leaving one for the extension host)
+ */
+export const getSymbolExtractionPoolSize = (): number => {
+  const configuredSize = HostService.getAdapter().getConfiguration<number>('symbolExtractionWorkers', 0);
+  return configuredSize > 0 ? Math.floor(configuredSize) : Math.max(1, os.cpus().length - 1);
+};
+
+/**
+ * Creates a pool of worker threads extracting symbols
+ * Without the bundled worker script, files are extracted on the calling thread
+ * @param size - Number of worker threads
+ * @returns The pool
+ */
+export const createSymbolExtractionPool = (size: number): SymbolExtractionPool => {
+  if (!fs.existsSync(WORKER_SCRIPT)) {
+    return {
+      size: 1,
+      extract: (filePath, normalizedPath, rootPath) => SymbolExtractionService.extractSymbols(filePath, normalizedPath, rootPath),
+      terminate: async () => {}
+    };
+  }
+
+  const workers = new Set<Worker>();
+  const idleWorkers: Worker[] = [];
+  const runningTasks = new Map<Worker, ExtractionTask>();
+  const queue: ExtractionTask[] = [];
+  let terminated = false;
+
+  const extractInThread = (task: ExtractionTask) => {
+    const { filePath, normalizedPath, rootPath } = task.request;
+    SymbolExtractionService.extractSymbols(filePath, normalizedPath, rootPath).then(task.resolve, task.reject);
+  };
+
+  const dispatch = () => {
+    // Once every worker is gone, the remaining files are extracted on this thread
+    if (workers.size === 0) {
+      queue.splice(0).forEach(extractInThread);
+      return;
+    }
+    while (idleWorkers.length > 0 && queue.length > 0) {
+      const worker = idleWorkers.pop()!;
+      const task = queue.shift()!;
+      runningTasks.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  };
+
+  const startWorker = () => {
+    const worker = new Worker(WORKER_SCRIPT);
+    workers.add(worker);
+
+    worker.on('message', (response: ExtractionResponse) => {
+      const task = runningTasks.get(worker);
+      runningTasks.delete(worker);
+      if (response.error !== undefined) {
+        task?.reject(new Error(response.error));
+      } else {
+        task?.resolve(response.symbols ?? []);
+      }
+      idleWorkers.push(worker);
+      dispatch();
+    });
+
+    // A worker that crashes or can't be loaded hands its file back to the others. It isn't replaced,
+    // so a worker that can't start doesn't restart forever
+    worker.on('error', error => console.error('Symbol extraction worker failed:', error));
+    worker.on('exit', () => {
+      workers.delete(worker);
+      const idleIndex = idleWorkers.indexOf(worker);
+      if (idleIndex >= 0) {
+        idleWorkers.splice(idleIndex, 1);
+      }
+      const task = runningTasks.get(worker);
+      runningTasks.delete(worker);
+      if (task && !terminated) {
+        queue.unshift(task);
+      }
+      if (!terminated) {
+        dispatch();
+      }
+    });
+
+    idleWorkers.push(worker);
+  };
+
+  for (let i = 0; i < Math.max(1, size); i++) {
+    startWorker();
+  }
+
+  return {
+    size: Math.max(1, size),
+
+    extract(filePath: string, normalizedPath: string, rootPath: string): Promise<SymbolIndexEntry[]> {
+      if (terminated) {
+        return Promise.reject(new Error('The symbol extraction pool was terminated'));
+      }
+      return new Promise((resolve, reject) => {
+        queue.push({ request: { filePath, normalizedPath, rootPath }, resolve, reject });
+        dispatch();
+      });
+    },
+
+    async terminate(): Promise<void> {
+      terminated = true;
+      const error = new Error('The symbol extraction pool was terminated');
+      queue.splice(0).forEach(task => task.reject(error));
+      runningTasks.forEach(task => task.reject(error));
+      runningTasks.clear();
+      await Promise.all([...workers].map(worker => worker.terminate()));
+    }
+  };
+};
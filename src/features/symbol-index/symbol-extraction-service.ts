@@ -3,6 +3,10 @@ import * as ts from 'typescript';
 import { SymbolIndexEntry } from '@/shared/types/symbol-index';
 import { FileSystemService } from '@/shared/services/file-system-service';
 import { TsAnalyzerService } from '@/shared/services/ts-analyzer-service';
+import { ComponentFileService } from '@/shared/services/component-file-service';
+import { ReactSymbolService } from '@/features/symbol-index/react-symbol-service';
+import { MemberDeclaration, MemberSymbolService } from '@/features/symbol-index/member-symbol-service';
+import { hashSnippet } from '@/shared/utils/snippet-hash';
 
 // Configuration for symbol extraction
 const SYMBOL_EXTRACTION_CONFIG = {
@@ -13,7 +17,7 @@ const SYMBOL_EXTRACTION_CONFIG = {
 };
 
 // Valid symbol types
-type SymbolType = 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'enum' | 'other';
+type SymbolType = 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'enum' | 'component' | 'hook' | 'property' | 'other';
 
 /**
  * Service for extracting symbols from TypeScript files
@@ -103,13 +107,52 @@ export const SymbolExtractionService = {
     const name = node.name.text;
     if (SYMBOL_EXTRACTION_CONFIG.excludedIdentifiers.includes(name)) {return null;}
 
-    return this.createSymbolIndexEntry({
-      name,
-      type: 'function',
-      filePath,
-      node,
-      sourceFile
-    });
+    // React components and hooks replace the function type, and components add their props
+    return {
+      ...this.createSymbolIndexEntry({
+        name,
+        type: 'function',
+        filePath,
+        node,
+        sourceFile
+      }),
+      ...ReactSymbolService.getReactSymbolInfo(name, node, sourceFile)
+    };
+  },
+
+  /**
+   * Creates the `Parent.member` symbols of class or object-literal members
+   * A getter and setter pair is one property symbol, at the first of the two
+   * @param members - The member declarations, in source order
+   * @param sourceFile - The source file
+   * @param filePath - Normalized file path
+   * @returns Array of symbol index entries
+   */
+  createMemberSymbols(
+    members: MemberDeclaration[],
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): SymbolIndexEntry[] {
+    const symbols: SymbolIndexEntry[] = [];
+
+    for (const member of members) {
+      const name = MemberSymbolService.getMemberSymbolName(member);
+      if (!name || symbols.some(symbol => symbol.name === name && ts.isAccessor(member) && symbol.type === 'property')) {
+        continue;
+      }
+
+      symbols.push(
+        this.createSymbolIndexEntry({
+          name,
+          type: MemberSymbolService.getMemberType(member),
+          filePath,
+          node: member,
+          sourceFile
+        })
+      );
+    }
+
+    return symbols;
   },
 
   /**
@@ -139,22 +182,12 @@ export const SymbolExtractionService = {
       })
     ];
 
-    // Process class methods
-    node.members.forEach(member => {
-      if (ts.isMethodDeclaration(member) && member.name) {
-        const methodName = member.name.getText(sourceFile);
-        
-        symbols.push(
-          this.createSymbolIndexEntry({
-            name: `${name}.${methodName}`,
-            type: 'method',
-            filePath,
-            node: member,
-            sourceFile
-          })
-        );
-      }
-    });
+    // Process class members: methods, constructors, properties (including constructor parameter properties) and accessors
+    const members = node.members.flatMap<ts.Node>(member => ts.isConstructorDeclaration(member)
+      ? [member, ...member.parameters]
+      : [member]
+    ).filter(member => MemberSymbolService.isMemberDeclaration(member));
+    symbols.push(...this.createMemberSymbols(members, sourceFile, filePath));
 
     return symbols;
   },
@@ -257,32 +290,75 @@ export const SymbolExtractionService = {
         
         if (SYMBOL_EXTRACTION_CONFIG.excludedIdentifiers.includes(name)) {return;}
 
-        symbols.push(
-          this.createSymbolIndexEntry({
+        // Variables holding a function, possibly wrapped in forwardRef()/memo(), can be React components or hooks
+        const { node: functionNode, wrappers } = declaration.initializer
+          ? ReactSymbolService.unwrapFunction(declaration.initializer)
+          : { node: undefined, wrappers: [] };
+
+        symbols.push({
+          ...this.createSymbolIndexEntry({
             name,
             type: 'variable',
             filePath,
             node: declaration,
             sourceFile
-          })
-        );
+          }),
+          ...(functionNode && ReactSymbolService.getReactSymbolInfo(name, functionNode, sourceFile, wrappers, declaration.type))
+        });
+
+        // Object-literal services, like `export const FooService = { ... }`, get a symbol for each of their functions
+        const objectLiteral = declaration.initializer && MemberSymbolService.getObjectLiteral(declaration.initializer);
+        if (objectLiteral) {
+          const members = objectLiteral.properties.filter(member => MemberSymbolService.isMemberDeclaration(member));
+          symbols.push(...this.createMemberSymbols(members, sourceFile, filePath));
+        }
       }
     });
 
     return symbols;
   },
 
+  /**
+   * Creates the symbol of a single-file component, with its props and emitted events
+   * @param sourceFile - The virtual source of the component
+   * @param filePath - Normalized file path
+   * @param content - Content of the component file
+   * @returns The component symbol
+   */
+  createComponentSymbol(
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    content: string
+  ): SymbolIndexEntry {
+    const { props, emits } = ComponentFileService.extractComponentInterface(sourceFile);
+
+    return {
+      name: ComponentFileService.getComponentName(filePath),
+      type: 'component',
+      filePath,
+      location: { line: 1, character: 0 },
+      docstring: '/** */',
+      snippet: content,
+      props,
+      emits,
+      dependents: [],
+      depends_on: []
+    };
+  },
+
   /**
    * Extracts symbols from a file
    * @param filePath - Path to the file
    * @param normalizedPath - Normalized file path relative to project root
    * @param rootPath - Project root path
+   * @param content - Content to extract from instead of the file on disk, like the unsaved text of an editor
    * @returns Array of symbol entries
    */
   async extractSymbols(
     filePath: string,
     normalizedPath: string,
-    rootPath: string
+    rootPath: string,
+    content?: string
   ): Promise<SymbolIndexEntry[]> {
     try {
       // Skip non-analyzable files
@@ -291,7 +367,7 @@ export const SymbolExtractionService = {
       }
       
       // Read the file content
-      const fileContent = await fs.readFile(filePath, 'utf8');
+      const fileContent = content ?? await fs.readFile(filePath, 'utf8');
       
       // Skip files that are too large
       if (fileContent.length > SYMBOL_EXTRACTION_CONFIG.fileSizeLimit) {
@@ -299,15 +375,21 @@ export const SymbolExtractionService = {
         return [];
       }
       
+      // Components are parsed through their script blocks, at their original positions
+      const isComponentFile = ComponentFileService.isComponentFile(filePath);
+      
       // Create a TypeScript source file
       const sourceFile = ts.createSourceFile(
         filePath,
-        fileContent,
+        isComponentFile ? ComponentFileService.toVirtualScript(filePath, fileContent) : fileContent,
         ts.ScriptTarget.Latest,
-        true
+        true,
+        isComponentFile ? ComponentFileService.getScriptKind(filePath, fileContent) : undefined
       );
       
-      const symbols: SymbolIndexEntry[] = [];
+      const symbols: SymbolIndexEntry[] = isComponentFile
+        ? [this.createComponentSymbol(sourceFile, normalizedPath, fileContent)]
+        : [];
       
       // Recursively visit nodes to extract symbols
       const visit = (node: ts.Node) => {
@@ -348,6 +430,11 @@ export const SymbolExtractionService = {
       // Start the traversal
       visit(sourceFile);
       
+      // The hash tells a rewritten symbol from a reformatted one, to find docstrings describing old code
+      for (const symbol of symbols) {
+        symbol.snippetHash = hashSnippet(symbol.snippet);
+      }
+      
       return symbols;
     } catch (error) {
       console.error(`Error extracting symbols from ${filePath}:`, error);
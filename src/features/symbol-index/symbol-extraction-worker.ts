@@ -0,0 +1,18 @@
+import { parentPort } from 'worker_threads';
+import { SymbolExtractionService } from '@/features/symbol-index/symbol-extraction-service';
+import { ExtractionRequest, ExtractionResponse } from '@/features/symbol-index/symbol-extraction-pool';
+
+/**
+ * Worker thread of the symbol extraction pool
+ * Parses one file per message and posts its symbols back, so parsing doesn't block the extension host
+ */
+parentPort?.on('message', async (request: ExtractionRequest) => {
+  let response: ExtractionResponse;
+  try {
+    const symbols = await SymbolExtractionService.extractSymbols(request.filePath, request.normalizedPath, request.rootPath);
+    response = { symbols };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
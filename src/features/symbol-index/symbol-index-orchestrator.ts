@@ -1,9 +1,32 @@
+import * as fs from 'fs-extra';
 import * as path from 'path';
 import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
-import { FileSystemService, MAX_FILES_TO_PROCESS } from '@/shared/services/file-system-service';
+import { FileSystemService } from '@/shared/services/file-system-service';
 import { SymbolExtractionService } from '@/features/symbol-index/symbol-extraction-service';
-import { DependencyResolverService } from '@/features/symbol-index/dependency-resolver-service';
+import { IndexCheckpointService, CheckpointEntry } from '@/features/symbol-index/index-checkpoint-service';
+import { SymbolExtractionPool, createSymbolExtractionPool, getSymbolExtractionPoolSize } from '@/features/symbol-index/symbol-extraction-pool';
+import { DependencyResolverService, DependencyResolutionReport } from '@/features/symbol-index/dependency-resolver-service';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
+import { SymbolStoreService } from '@/shared/services/symbol-store-service';
+import { WorkspaceService, appendLog } from '@/shared/services/workspace-service';
+import { HostCancellationToken } from '@/shared/types/progress-reporter';
+import { hashSnippet, isDocstringStale } from '@/shared/utils/snippet-hash';
+
+/**
+ * The symbols of a file extracted during a full build
+ */
+interface ExtractedFile {
+  normalizedPath: string;
+  mtimeMs: number;
+  symbols: SymbolIndexEntry[];
+  fromCheckpoint: boolean;
+}
+
+// Duration of the last full dependency resolution of each root, to compare incremental updates against
+const fullResolutionTimes = new Map<string, number>();
+
+// The full build running for each root, so the file watcher and the build command never index a root twice at once
+const runningBuilds = new Map<string, Promise<SymbolIndex>>();
 
 /**
  * Service that orchestrates the symbol indexing process
@@ -11,69 +34,124 @@ import { SymbolIndexService } from '@/shared/services/symbol-index-service';
 export const SymbolIndexOrchestrator = {
   /**
    * Creates a complete symbol index for a project
+   * A build already running for the root is waited for instead of starting another one
    * @param rootPath - Path to the project root
    * @param ignoredPatterns - Patterns to ignore during file processing
    * @param progress - Optional progress reporter
+   * @param token - Optional cancellation token; the files extracted before cancelling are kept for the next build
    * @returns The complete symbol index
+   * @throws Error if the build was cancelled
    */
-  async createSymbolIndex(
+  createSymbolIndex(
     rootPath: string,
     ignoredPatterns: string[] = [],
-    progress?: { report: (info: { message: string }) => void }
+    progress?: { report: (info: { message: string }) => void },
+    token?: HostCancellationToken
+  ): Promise<SymbolIndex> {
+    const runningBuild = runningBuilds.get(rootPath);
+    if (runningBuild) {
+      progress?.report({ message: 'Waiting for the symbol index build already running...' });
+      return runningBuild;
+    }
+    
+    const build = this.buildSymbolIndex(rootPath, ignoredPatterns, progress, token)
+      .finally(() => runningBuilds.delete(rootPath));
+    runningBuilds.set(rootPath, build);
+    return build;
+  },
+
+  /**
+   * Builds a complete symbol index for a project
+   * Files are parsed in parallel by a pool of worker threads, and handed back in order. Each file is merged with
+   * the docstrings stored for it, so the previous index is never held in memory. The extracted files are only kept in
+   * memory and in the checkpoint until the dependencies are resolved, and the store is written once at the end, so
+   * readers keep seeing the previous index with its edges during the build and after an interrupted one
+   * @param rootPath - Path to the project root
+   * @param ignoredPatterns - Patterns to ignore during file processing
+   * @param progress - Optional progress reporter
+   * @param token - Optional cancellation token; the files extracted before cancelling are kept for the next build
+   * @returns The complete symbol index
+   * @throws Error if the build was cancelled
+   */
+  async buildSymbolIndex(
+    rootPath: string,
+    ignoredPatterns: string[] = [],
+    progress?: { report: (info: { message: string }) => void },
+    token?: HostCancellationToken
   ): Promise<SymbolIndex> {
     try {
       progress?.report({ message: 'Analyzing project structure...' });
       
       // Get all project files
       const projectFiles = await FileSystemService.getProjectFiles(rootPath, ignoredPatterns);
+      const analyzableFiles = projectFiles.filter(filePath => FileSystemService.isAnalyzableFile(filePath));
       
-      // Safety check - limit number of files to process
-      if (projectFiles.length > MAX_FILES_TO_PROCESS) {
-        console.warn(`Project contains ${projectFiles.length} files, which exceeds the limit of ${MAX_FILES_TO_PROCESS}. Only processing the first ${MAX_FILES_TO_PROCESS} files.`);
-        projectFiles.length = MAX_FILES_TO_PROCESS;
+      // Files extracted before an interrupted build are reused if they haven't changed since
+      const checkpoint = await IndexCheckpointService.readCheckpoint(rootPath);
+      if (checkpoint.size > 0) {
+        progress?.report({ message: `Resuming indexing, ${checkpoint.size} files were already extracted...` });
       }
+      const checkpointWriter = await IndexCheckpointService.openCheckpoint(rootPath, checkpoint.size > 0);
+      const pool = createSymbolExtractionPool(getSymbolExtractionPoolSize());
       
-      // First check if there's an existing symbol index to preserve docstrings
-      const existingSymbolIndex = await SymbolIndexService.readSymbolIndex(rootPath);
-      
-      // Initialize the symbol index with file-based organization
       const symbolIndex: SymbolIndex = {};
       
-      // First pass: Extract all symbols and their basic information
-      progress?.report({ message: 'Extracting symbols from files...' });
-      for (let i = 0; i < projectFiles.length; i++) {
-        const filePath = projectFiles[i];
-        
-        // Skip files we shouldn't analyze
-        if (!FileSystemService.isAnalyzableFile(filePath)) {
-          continue;
+      // Files are handed to the pool a few at a time ahead of the one being added,
+      // so the workers stay busy without the whole project being read at once
+      const extractions = new Map<number, Promise<ExtractedFile | undefined>>();
+      const startExtraction = (fileIndex: number) => {
+        if (fileIndex < analyzableFiles.length && !extractions.has(fileIndex)) {
+          extractions.set(fileIndex, this.extractFile(analyzableFiles[fileIndex], rootPath, checkpoint, pool));
         }
-        
-        progress?.report({ 
-          message: `Processing file ${i + 1}/${projectFiles.length}: ${path.basename(filePath)}` 
-        });
-        
-        const normalizedPath = FileSystemService.normalizeFilePath(filePath, rootPath);
-        
-        // Extract symbols from the file
-        const symbols = await SymbolExtractionService.extractSymbols(
-          filePath, 
-          normalizedPath, 
-          rootPath
-        );
-        
-        // Preserve docstrings from existing symbol index if available
-        const existingFileSymbols = existingSymbolIndex?.[normalizedPath] || [];
-        const mergedSymbols = this.mergeDocstrings(existingFileSymbols, symbols);
-        
-        // Initialize file entry in the index
-        if (mergedSymbols.length > 0) {
-          symbolIndex[normalizedPath] = mergedSymbols;
+      };
+      
+      // First pass: Extract all symbols and their basic information
+      progress?.report({ message: `Extracting symbols from files with ${pool.size} workers...` });
+      try {
+        for (let i = 0; i < analyzableFiles.length; i++) {
+          if (token?.isCancellationRequested) {
+            throw new Error('Symbol indexing was cancelled');
+          }
+          
+          for (let ahead = i; ahead < i + pool.size * 2; ahead++) {
+            startExtraction(ahead);
+          }
+          const extractedFile = await extractions.get(i)!;
+          extractions.delete(i);
+          
+          // Files deleted since git last saw them are skipped
+          if (!extractedFile) {
+            continue;
+          }
+          
+          progress?.report({ 
+            message: `Processing file ${i + 1}/${analyzableFiles.length}: ${path.basename(analyzableFiles[i])}` 
+          });
+          
+          const { normalizedPath, mtimeMs, symbols, fromCheckpoint } = extractedFile;
+          if (!fromCheckpoint) {
+            await checkpointWriter.append({ filePath: normalizedPath, mtimeMs, symbols });
+          }
+          
+          // Preserve the docstrings stored for the file
+          const storedSymbols = await SymbolStoreService.readSymbolIndex(rootPath, [normalizedPath]);
+          const mergedSymbols = this.mergeDocstrings(storedSymbols[normalizedPath] || [], symbols);
+          
+          if (mergedSymbols.length > 0) {
+            symbolIndex[normalizedPath] = mergedSymbols;
+          }
         }
+      } finally {
+        // Extractions started ahead of a cancellation are abandoned
+        extractions.forEach(extraction => extraction.catch(() => undefined));
+        await pool.terminate();
+        await checkpointWriter.close();
       }
       
-      // Complete the indexing with shared post-processing
-      return this.finishIndexCreation(symbolIndex, projectFiles, rootPath, progress);
+      // Complete the indexing with shared post-processing, the checkpoint is no longer needed once the index is stored
+      const completedIndex = await this.finishIndexCreation(symbolIndex, projectFiles, rootPath, progress);
+      await IndexCheckpointService.clearCheckpoint(rootPath);
+      return completedIndex;
     } catch (error) {
       console.error('Error creating symbol index:', error);
       throw error;
@@ -81,79 +159,127 @@ export const SymbolIndexOrchestrator = {
   },
 
   /**
-   * Updates the symbol index for a changed file
+   * Extracts the symbols of a file, reusing the checkpoint of an interrupted build if the file hasn't changed since
+   * Entries are dropped from the checkpoint once used, so it doesn't hold a second copy of the index
+   * @param filePath - Absolute path of the file
+   * @param rootPath - Project root path
+   * @param checkpoint - Files extracted by the interrupted build
+   * @param pool - Worker pool to extract the file with
+   * @returns The extracted file, or undefined if it no longer exists
+   */
+  async extractFile(
+    filePath: string,
+    rootPath: string,
+    checkpoint: Map<string, CheckpointEntry>,
+    pool: SymbolExtractionPool
+  ): Promise<ExtractedFile | undefined> {
+    const normalizedPath = FileSystemService.normalizeFilePath(filePath, rootPath);
+    const checkpointEntry = checkpoint.get(normalizedPath);
+    checkpoint.delete(normalizedPath);
+    
+    // git ls-files still lists tracked files deleted from the working tree
+    const stats = await fs.stat(filePath).catch(() => undefined);
+    if (!stats) {
+      return undefined;
+    }
+    
+    if (checkpointEntry?.mtimeMs === stats.mtimeMs) {
+      return { normalizedPath, mtimeMs: stats.mtimeMs, symbols: checkpointEntry.symbols, fromCheckpoint: true };
+    }
+    
+    const symbols = await pool.extract(filePath, normalizedPath, rootPath);
+    return { normalizedPath, mtimeMs: stats.mtimeMs, symbols, fromCheckpoint: false };
+  },
+
+  /**
+   * Updates the symbol index for a set of changed files
    * @param rootPath - Project root path
    * @param existingIndex - Existing symbol index
-   * @param changedFilePath - Path to the changed file
+   * @param changedFilePaths - Paths to the changed files, including deleted ones
    * @param ignoredPatterns - Patterns to ignore
    * @returns Updated symbol index
    */
   async updateSymbolIndex(
     rootPath: string,
     existingIndex: SymbolIndex,
-    changedFilePath: string,
+    changedFilePaths: string[],
     ignoredPatterns: string[] = []
   ): Promise<SymbolIndex> {
     try {
-      // Read the on-disk symbol index to preserve any manually added docstrings
-      const onDiskSymbolIndex = await SymbolIndexService.readSymbolIndex(rootPath);
-      
-      // Create a deep copy of the existing index to avoid modifying the original,
-      // but prioritize the on-disk index if available to preserve manual edits
-      const updatedIndex: SymbolIndex = onDiskSymbolIndex 
-        ? JSON.parse(JSON.stringify(onDiskSymbolIndex)) 
-        : JSON.parse(JSON.stringify(existingIndex));
+      // A full build running meanwhile rewrites the index, so the update starts from its result
+      await runningBuilds.get(rootPath)?.catch(() => undefined);
       
-      // Normalize the changed file path
-      const normalizedChangedPath = FileSystemService.normalizeFilePath(changedFilePath, rootPath);
+      // Read the stored symbol index to preserve any docstrings written since the cache was filled.
+      // The store returns fresh objects, so only the fallback needs copying to keep the original intact
+      const storedSymbolIndex = await SymbolIndexService.readSymbolIndex(rootPath);
+      const updatedIndex: SymbolIndex = storedSymbolIndex ?? structuredClone(existingIndex);
       
-      // Skip if not a file we should analyze
-      if (!FileSystemService.isAnalyzableFile(changedFilePath)) {
+      // Skip files we shouldn't analyze
+      const analyzableFiles = changedFilePaths.filter(filePath =>
+        FileSystemService.isAnalyzableFile(filePath) && !FileSystemService.isIgnored(filePath, rootPath, ignoredPatterns)
+      );
+      if (analyzableFiles.length === 0) {
         return updatedIndex;
       }
       
-      // Handle file deletion
-      const fileExists = await FileSystemService.fileExists(changedFilePath);
-      if (!fileExists) {
-        return this.handleDeletedFile(updatedIndex, normalizedChangedPath, rootPath);
+      const changedFiles: string[] = [];
+      const deletedFiles: string[] = [];
+      for (const filePath of analyzableFiles) {
+        (await FileSystemService.fileExists(filePath) ? changedFiles : deletedFiles).push(filePath);
       }
       
-      // Store existing symbols from both the in-memory cache and the on-disk file 
-      const existingFileSymbols = updatedIndex[normalizedChangedPath] || [];
-      const inMemoryFileSymbols = existingIndex[normalizedChangedPath] || [];
-      
-      // Combine docstrings from both sources, prioritizing on-disk version
-      const combinedExistingSymbols = this.mergeExistingSymbols(
-        existingFileSymbols,
-        inMemoryFileSymbols
-      );
-      
-      // Remove the changed file from the index
-      delete updatedIndex[normalizedChangedPath];
+      // Only the changed files and the files depending on them need their references resolved again.
+      // A new file may satisfy references that failed before, so it gets a full resolution
+      const normalizedPaths = new Set(analyzableFiles.map(filePath => FileSystemService.normalizeFilePath(filePath, rootPath)));
+      const hasNewFile = changedFiles.some(filePath => !updatedIndex[FileSystemService.normalizeFilePath(filePath, rootPath)]);
+      const filesToResolve = hasNewFile ? undefined : [...new Set([
+        ...changedFiles,
+        ...[...normalizedPaths]
+          .flatMap(normalizedPath => this.getDependentFiles(updatedIndex, normalizedPath))
+          .filter(filePath => !normalizedPaths.has(filePath))
+          .map(filePath => path.join(rootPath, filePath))
+      ])];
       
-      // Remove references to the changed file from the index
-      this.pruneSymbolReferences(updatedIndex, normalizedChangedPath);
-      
-      // Extract new symbols from the changed file
-      const newSymbols = await SymbolExtractionService.extractSymbols(
-        changedFilePath, 
-        normalizedChangedPath, 
-        rootPath
-      );
+      for (const filePath of deletedFiles) {
+        this.removeDeletedFile(updatedIndex, FileSystemService.normalizeFilePath(filePath, rootPath));
+      }
       
-      // Merge docstrings from existing symbols to new symbols
-      const mergedSymbols = this.mergeDocstrings(combinedExistingSymbols, newSymbols);
+      // Only deletions, so there is nothing to resolve again
+      if (changedFiles.length === 0) {
+        await SymbolIndexService.writeSymbolIndex(rootPath, updatedIndex);
+        return updatedIndex;
+      }
       
-      // Add merged symbols to the index
-      if (mergedSymbols.length > 0) {
-        updatedIndex[normalizedChangedPath] = mergedSymbols;
+      for (const changedFilePath of changedFiles) {
+        const normalizedChangedPath = FileSystemService.normalizeFilePath(changedFilePath, rootPath);
+        
+        // Combine docstrings from the symbol store and the in-memory cache, prioritizing the stored version
+        const combinedExistingSymbols = this.mergeExistingSymbols(
+          updatedIndex[normalizedChangedPath] || [],
+          existingIndex[normalizedChangedPath] || []
+        );
+        
+        // Remove the changed file and the references to it from the index
+        delete updatedIndex[normalizedChangedPath];
+        this.pruneSymbolReferences(updatedIndex, normalizedChangedPath);
+        
+        // Extract new symbols from the changed file and keep their docstrings
+        const newSymbols = await SymbolExtractionService.extractSymbols(
+          changedFilePath, 
+          normalizedChangedPath, 
+          rootPath
+        );
+        const mergedSymbols = this.mergeDocstrings(combinedExistingSymbols, newSymbols);
+        if (mergedSymbols.length > 0) {
+          updatedIndex[normalizedChangedPath] = mergedSymbols;
+        }
       }
       
       // Get all project files to resolve dependencies
       const projectFiles = await FileSystemService.getProjectFiles(rootPath, ignoredPatterns);
       
       // Complete the indexing with shared post-processing
-      return this.finishIndexCreation(updatedIndex, projectFiles, rootPath);
+      return this.finishIndexCreation(updatedIndex, projectFiles, rootPath, undefined, filesToResolve);
     } catch (error) {
       console.error('Error updating symbol index:', error);
       // If anything goes wrong during the update, return the original index unchanged
@@ -181,11 +307,12 @@ export const SymbolIndexOrchestrator = {
       );
       
       if (existingIndex >= 0) {
-        // Update existing symbol, prioritizing on-disk docstring
+        // Update existing symbol, prioritizing on-disk docstring and the code it was written for
         if (onDiskSymbol.docstring && 
             onDiskSymbol.docstring !== '/** */' && 
             onDiskSymbol.docstring !== '') {
           result[existingIndex].docstring = onDiskSymbol.docstring;
+          result[existingIndex].docstringHash = onDiskSymbol.docstringHash;
         }
       } else {
         // Add on-disk symbol not found in in-memory cache
@@ -197,31 +324,24 @@ export const SymbolIndexOrchestrator = {
   },
 
   /**
-   * Handles when a file is deleted from the project
+   * Removes a file deleted from the project from the index
    * @param updatedIndex - The current index being updated
    * @param normalizedChangedPath - Normalized path of the deleted file
-   * @param rootPath - Project root path
-   * @returns The updated index
    */
-  async handleDeletedFile(
+  removeDeletedFile(
     updatedIndex: SymbolIndex,
-    normalizedChangedPath: string,
-    rootPath: string
-  ): Promise<SymbolIndex> {
+    normalizedChangedPath: string
+  ): void {
     // Remove the file from the index
     delete updatedIndex[normalizedChangedPath];
     
     // Remove references to the deleted file from the index
     this.pruneSymbolReferences(updatedIndex, normalizedChangedPath);
-    
-    // Write the updated index to file
-    await SymbolIndexService.writeSymbolIndex(rootPath, updatedIndex);
-    
-    return updatedIndex;
   },
 
   /**
    * Merges docstrings from existing symbols to new symbols
+   * A docstring kept for a symbol whose code changed since it was written is flagged as stale
    * @param existingSymbols - Existing symbols from the file
    * @param newSymbols - Newly extracted symbols
    * @returns Merged symbols with preserved docstrings
@@ -238,9 +358,13 @@ export const SymbolIndexOrchestrator = {
       
       // If a match is found and it has a non-empty docstring, preserve it
       if (existingSymbol && existingSymbol.docstring && existingSymbol.docstring !== '/** */' && existingSymbol.docstring !== '') {
+        // Docstrings written before hashes were recorded are assumed to match the previously indexed code
+        const docstringHash = existingSymbol.docstringHash ?? existingSymbol.snippetHash ?? hashSnippet(existingSymbol.snippet);
         return {
           ...newSymbol,
-          docstring: existingSymbol.docstring
+          docstring: existingSymbol.docstring,
+          docstringHash,
+          ...(isDocstringStale(docstringHash, newSymbol.snippetHash) ? { stale: true } : {})
         };
       }
       
@@ -265,15 +389,25 @@ export const SymbolIndexOrchestrator = {
       const fileSymbols = index[indexFilePath];
       
       for (const symbol of fileSymbols) {
-        // Remove references to the file in dependents
+        // Remove references to the file in dependents (references from other roots are kept)
         symbol.dependents = symbol.dependents.filter(
-          dependent => dependent.filePath !== filePath
+          dependent => dependent.filePath !== filePath || !!dependent.root
         );
         
         // Remove dependencies on symbols from the file
         symbol.depends_on = symbol.depends_on.filter(dep => 
-          dep.filePath !== filePath
+          dep.filePath !== filePath || !!dep.root
         );
+        
+        // Remove rendered components from the file
+        if (symbol.renders) {
+          symbol.renders = symbol.renders.filter(child => child.filePath !== filePath || !!child.root);
+        }
+        
+        // Remove re-exports by the file
+        if (symbol.reExportedBy) {
+          symbol.reExportedBy = symbol.reExportedBy.filter(reExportingFile => reExportingFile !== filePath);
+        }
       }
     }
   },
@@ -284,23 +418,189 @@ export const SymbolIndexOrchestrator = {
    * @param projectFiles - List of project files
    * @param rootPath - Project root path
    * @param progress - Optional progress reporter
+   * @param filesToResolve - Only resolve the references in these files (all project files by default)
    * @returns The finalized symbol index
    */
   async finishIndexCreation(
     index: SymbolIndex,
     projectFiles: string[],
     rootPath: string,
-    progress?: { report: (info: { message: string }) => void }
+    progress?: { report: (info: { message: string }) => void },
+    filesToResolve?: string[]
   ): Promise<SymbolIndex> {
-    // Resolve dependencies between symbols
+    // Resolve dependencies between symbols, including those in the other roots of the workspace
     progress?.report({ message: 'Resolving symbol dependencies...' });
-    await DependencyResolverService.resolveDependencies(index, projectFiles, rootPath);
+    const otherRoots = await this.readOtherRootIndexes(rootPath);
+    const resolutionStart = Date.now();
+    const resolutionReport = await DependencyResolverService.resolveDependencies(index, projectFiles, rootPath, otherRoots, filesToResolve);
+    this.reportResolutionTime(rootPath, Date.now() - resolutionStart, filesToResolve);
+    this.reportUnresolvedIdentifiers(resolutionReport, progress);
+    this.linkCrossRootDependents(rootPath, index, otherRoots);
     
-    // Write the symbol index to file
-    progress?.report({ message: 'Writing symbol index to file...' });
+    // Write the changed files to the symbol store
+    progress?.report({ message: 'Writing symbol index to store...' });
     await SymbolIndexService.writeSymbolIndex(rootPath, index);
     
+    // Our dependencies on the other roots may have changed, so refresh their dependents
+    await this.refreshOtherRootDependents(rootPath, index, otherRoots);
+    
     progress?.report({ message: 'Symbol index creation complete.' });
     return index;
+  },
+
+  /**
+   * Finds the files with symbols depending on a file, and the files re-exporting its symbols
+   * @param index - The symbol index
+   * @param filePath - Normalized path of the file
+   * @returns Normalized paths of the dependent files in the same root
+   */
+  getDependentFiles(index: SymbolIndex, filePath: string): string[] {
+    const dependentFiles = new Set<string>();
+    for (const symbol of index[filePath] || []) {
+      for (const dependent of symbol.dependents) {
+        if (!dependent.root && dependent.filePath !== filePath) {
+          dependentFiles.add(dependent.filePath);
+        }
+      }
+      // Barrels re-exporting the file's symbols mark the new symbols as re-exported
+      for (const reExportingFile of symbol.reExportedBy ?? []) {
+        dependentFiles.add(reExportingFile);
+      }
+    }
+    return [...dependentFiles];
+  },
+
+  /**
+   * Logs how long dependency resolution took, and for incremental updates how much a full resolution would have taken
+   * @param rootPath - Project root path
+   * @param duration - Resolution time in milliseconds
+   * @param filesToResolve - The files that were resolved, undefined for a full resolution
+   */
+  reportResolutionTime(rootPath: string, duration: number, filesToResolve?: string[]): void {
+    const rootName = WorkspaceService.getRootName(rootPath);
+    
+    if (!filesToResolve) {
+      fullResolutionTimes.set(rootPath, duration);
+      appendLog(`Resolved all dependencies of ${rootName} in ${duration} ms`);
+      return;
+    }
+    
+    const fullDuration = fullResolutionTimes.get(rootPath);
+    appendLog(
+      `Re-resolved dependencies of ${filesToResolve.length} changed and dependent files in ${rootName} in ${duration} ms` +
+      (fullDuration !== undefined ? `, saving ${Math.max(0, fullDuration - duration)} ms over the last full resolution (${fullDuration} ms)` : '')
+    );
+  },
+
+  /**
+   * Reports how many identifiers could not be resolved, as these are dependency edges missing from the index
+   * @param report - The dependency resolution report
+   * @param progress - Optional progress reporter
+   */
+  reportUnresolvedIdentifiers(
+    report: DependencyResolutionReport,
+    progress?: { report: (info: { message: string }) => void }
+  ): void {
+    for (const project of report.projects) {
+      console.log(`${project.configPath ?? 'Files outside any tsconfig.json'}: ${project.files} files, ${project.unresolvedIdentifiers} unresolved identifiers`);
+    }
+    
+    const projectCount = report.projects.filter(project => project.configPath).length;
+    const message = `Resolved dependencies in ${projectCount} TypeScript projects, ${report.unresolvedIdentifiers} identifiers could not be resolved`;
+    if (report.unresolvedIdentifiers > 0) {
+      console.warn(message);
+    } else {
+      console.log(message);
+    }
+    progress?.report({ message });
+  },
+
+  /**
+   * Reads the stored indexes of the other roots of a multi-root workspace
+   * @param rootPath - Project root path
+   * @returns Map of the other root paths to their index (undefined if not indexed yet)
+   */
+  async readOtherRootIndexes(rootPath: string): Promise<Map<string, SymbolIndex | undefined>> {
+    const otherRoots = new Map<string, SymbolIndex | undefined>();
+    for (const otherRoot of WorkspaceService.getWorkspaceFolders()) {
+      if (otherRoot !== rootPath) {
+        otherRoots.set(otherRoot, await SymbolIndexService.readSymbolIndex(otherRoot));
+      }
+    }
+    return otherRoots;
+  },
+
+  /**
+   * Rebuilds the dependents a root's symbols have in the other roots of the workspace
+   * Each root only stores its own dependencies on other roots, so the reverse edges are derived from those
+   * @param rootPath - Project root path
+   * @param index - The symbol index of the root
+   * @param otherRoots - The indexes of the other roots
+   */
+  linkCrossRootDependents(
+    rootPath: string,
+    index: SymbolIndex,
+    otherRoots: Map<string, SymbolIndex | undefined>
+  ): void {
+    const rootName = WorkspaceService.getRootName(rootPath);
+    
+    for (const fileSymbols of Object.values(index)) {
+      for (const symbol of fileSymbols) {
+        symbol.dependents = symbol.dependents.filter(dependent => !dependent.root);
+      }
+    }
+    
+    for (const [otherRoot, otherIndex] of otherRoots) {
+      const otherRootName = WorkspaceService.getRootName(otherRoot);
+      
+      for (const otherSymbol of Object.values(otherIndex ?? {}).flat()) {
+        for (const dependency of otherSymbol.depends_on) {
+          if (dependency.root !== rootName) {
+            continue;
+          }
+          
+          const targetSymbol = index[dependency.filePath]?.find(s => s.name === dependency.name);
+          const isKnownDependent = targetSymbol?.dependents.some(dependent =>
+            dependent.name === otherSymbol.name && dependent.filePath === otherSymbol.filePath &&
+            dependent.root === otherRootName && dependent.kind === dependency.kind
+          );
+          if (targetSymbol && !isKnownDependent) {
+            targetSymbol.dependents.push({
+              name: otherSymbol.name,
+              filePath: otherSymbol.filePath,
+              line: dependency.line,
+              root: otherRootName,
+              ...(dependency.kind ? { kind: dependency.kind } : {}),
+              ...(dependency.callSites ? { callSites: dependency.callSites } : {})
+            });
+          }
+        }
+      }
+    }
+  },
+
+  /**
+   * Re-links the cross-root dependents of the other indexed roots after a root was re-indexed
+   * @param rootPath - Path of the root that was re-indexed
+   * @param index - Its new symbol index
+   * @param otherRoots - The indexes of the other roots
+   */
+  async refreshOtherRootDependents(
+    rootPath: string,
+    index: SymbolIndex,
+    otherRoots: Map<string, SymbolIndex | undefined>
+  ): Promise<void> {
+    for (const [otherRoot, otherIndex] of otherRoots) {
+      if (!otherIndex) {
+        continue;
+      }
+      
+      const rootsSeenFromOther = new Map(otherRoots);
+      rootsSeenFromOther.delete(otherRoot);
+      rootsSeenFromOther.set(rootPath, index);
+      
+      this.linkCrossRootDependents(otherRoot, otherIndex, rootsSeenFromOther);
+      await SymbolIndexService.writeSymbolIndex(otherRoot, otherIndex);
+    }
   }
 }; 
\ No newline at end of file
@@ -44,23 +44,23 @@ const extractJSDocComment = (node: ts.Node, sourceFile: ts.SourceFile): string =
 };
 
 /**
- * Updates the symbol index for a changed file
+ * Updates the symbol index for a set of changed files
  * @param rootPath - Project root path
  * @param existingIndex - The existing symbol index
- * @param changedFilePath - Path to the changed file
+ * @param changedFilePaths - Paths to the changed files, including deleted ones
  * @param ignoredPatterns - Patterns to ignore during file processing
  * @returns The updated symbol index
  */
 export const updateSymbolIndex = async (
   rootPath: string,
   existingIndex: SymbolIndex,
-  changedFilePath: string,
+  changedFilePaths: string[],
   ignoredPatterns: string[] = []
 ): Promise<SymbolIndex> => {
   return SymbolIndexOrchestrator.updateSymbolIndex(
     rootPath,
     existingIndex,
-    changedFilePath,
+    changedFilePaths,
     ignoredPatterns
   );
 }; 
\ No newline at end of file
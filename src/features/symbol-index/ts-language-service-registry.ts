@@ -0,0 +1,172 @@
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TsProject } from '@/features/symbol-index/ts-project-service';
+import { ComponentFileService } from '@/shared/services/component-file-service';
+
+/**
+ * A long-lived language service for one TypeScript project
+ */
+interface ProjectLanguageService {
+  rootPath: string;
+  // The project as of the latest program, its files and options can change between programs
+  project: TsProject;
+  languageService: ts.LanguageService;
+}
+
+// Shared between projects, so files included by several projects are only parsed once
+const documentRegistry = ts.createDocumentRegistry(ts.sys.useCaseSensitiveFileNames);
+
+// Language services by config file path, or `<root>#inferred` for files outside any project
+const languageServices = new Map<string, ProjectLanguageService>();
+
+/**
+ * Gets the version of a file, which changes whenever the file is saved
+ * The language service only re-parses files whose version changed since the last program
+ * @param fileName - Path of the file
+ * @returns The version, or an empty string if the file doesn't exist
+ */
+const getScriptVersion = (fileName: string): string => {
+  try {
+    const stats = fs.statSync(fileName);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Resolves an import of a component file, which TypeScript's module resolution doesn't look for
+ * Relative imports and `paths` aliases (like SvelteKit's `$lib`) are supported
+ * @param moduleName - The imported module, e.g. `./UserCard.vue`
+ * @param containingFile - The importing file
+ * @param options - The project's compiler options
+ * @returns Path of the component file, or undefined if it doesn't exist
+ */
+const resolveComponentImport = (moduleName: string, containingFile: string, options: ts.CompilerOptions): string | undefined => {
+  const candidates: string[] = [];
+
+  if (moduleName.startsWith('./') || moduleName.startsWith('../')) {
+    candidates.push(path.resolve(path.dirname(containingFile), moduleName));
+  } else {
+    const pathsBasePath = (options.pathsBasePath as string | undefined) ?? options.baseUrl;
+    for (const [pattern, targets] of Object.entries(options.paths ?? {})) {
+      const [prefix, suffix = ''] = pattern.split('*');
+      const isMatch = pattern.includes('*')
+        ? moduleName.startsWith(prefix) && moduleName.endsWith(suffix) && moduleName.length >= prefix.length + suffix.length
+        : moduleName === pattern;
+      if (isMatch && pathsBasePath) {
+        const wildcard = moduleName.substring(prefix.length, moduleName.length - suffix.length);
+        candidates.push(...targets.map(target => path.resolve(pathsBasePath, target.replace('*', wildcard))));
+      }
+    }
+    if (options.baseUrl) {
+      candidates.push(path.resolve(options.baseUrl, moduleName));
+    }
+  }
+
+  return candidates.find(candidate => ts.sys.fileExists(candidate));
+};
+
+/**
+ * Creates the host through which a language service reads the project from disk
+ * @param rootPath - Project root path
+ * @param getProject - Gets the current state of the project
+ * @returns The language service host
+ */
+const createLanguageServiceHost = (rootPath: string, getProject: () => TsProject): ts.LanguageServiceHost => ({
+  // Component files are root files too, which TypeScript only accepts with allowNonTsExtensions
+  getCompilationSettings: () => ({ ...getProject().options, allowNonTsExtensions: true }),
+  getScriptFileNames: () => getProject().fileNames,
+  getScriptVersion,
+  getScriptSnapshot: fileName => {
+    const text = ts.sys.readFile(fileName);
+    if (text === undefined) {
+      return undefined;
+    }
+    return ts.ScriptSnapshot.fromString(
+      ComponentFileService.isComponentFile(fileName) ? ComponentFileService.toVirtualScript(fileName, text) : text
+    );
+  },
+  getScriptKind: fileName => {
+    if (!ComponentFileService.isComponentFile(fileName)) {
+      // Unknown lets TypeScript derive the kind from the extension
+      return ts.ScriptKind.Unknown;
+    }
+    return ComponentFileService.getScriptKind(fileName, ts.sys.readFile(fileName) ?? '');
+  },
+  resolveModuleNameLiterals: (moduleLiterals, containingFile, redirectedReference, options, containingSourceFile) => {
+    return moduleLiterals.map(moduleLiteral => {
+      const moduleName = moduleLiteral.text;
+      const resolution = ts.resolveModuleName(
+        moduleName, containingFile, options, ts.sys, undefined, redirectedReference,
+        ts.getModeForUsageLocation(containingSourceFile, moduleLiteral, options)
+      );
+      if (resolution.resolvedModule || !ComponentFileService.isComponentFile(moduleName)) {
+        return resolution;
+      }
+
+      const resolvedFileName = resolveComponentImport(moduleName, containingFile, options);
+      return resolvedFileName
+        ? { resolvedModule: { resolvedFileName, extension: ts.Extension.Ts, isExternalLibraryImport: false } }
+        : resolution;
+    });
+  },
+  getCurrentDirectory: () => rootPath,
+  getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+  fileExists: ts.sys.fileExists,
+  readFile: ts.sys.readFile,
+  readDirectory: ts.sys.readDirectory,
+  directoryExists: ts.sys.directoryExists,
+  getDirectories: ts.sys.getDirectories,
+  realpath: ts.sys.realpath,
+  useCaseSensitiveFileNames: () => ts.sys.useCaseSensitiveFileNames
+});
+
+/**
+ * Keeps one TypeScript language service per project for the lifetime of the process,
+ * so each new program reuses the source files and module resolutions that did not change
+ */
+export const TsLanguageServiceRegistry = {
+  /**
+   * Gets an up-to-date program for a project
+   * @param rootPath - Project root path
+   * @param project - The project, with its current options and files
+   * @returns The program
+   */
+  getProgram(rootPath: string, project: TsProject): ts.Program {
+    const key = project.configPath ?? `${rootPath}#inferred`;
+
+    let projectService = languageServices.get(key);
+    if (!projectService) {
+      const languageService = ts.createLanguageService(
+        createLanguageServiceHost(rootPath, () => languageServices.get(key)!.project),
+        documentRegistry
+      );
+      projectService = { rootPath, project, languageService };
+      languageServices.set(key, projectService);
+    }
+
+    // Files and options are refreshed on every call, the language service picks up the differences
+    projectService.project = project;
+
+    const program = projectService.languageService.getProgram();
+    if (!program) {
+      throw new Error(`Could not create a program for ${key}`);
+    }
+    return program;
+  },
+
+  /**
+   * Releases the language services of a root, e.g. when it leaves the workspace
+   * @param rootPath - Project root path
+   */
+  disposeRoot(rootPath: string): void {
+    for (const [key, projectService] of languageServices) {
+      if (projectService.rootPath === rootPath) {
+        projectService.languageService.dispose();
+        languageServices.delete(key);
+      }
+    }
+  }
+};
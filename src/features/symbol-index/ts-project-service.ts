@@ -0,0 +1,208 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import { FileSystemService } from '@/shared/services/file-system-service';
+import { ComponentFileService } from '@/shared/services/component-file-service';
+
+// Constants
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+/**
+ * Compiler options for files that are not part of any tsconfig.json or jsconfig.json project
+ */
+export const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.Latest,
+  module: ts.ModuleKind.CommonJS,
+  allowJs: true,
+  checkJs: false,
+  esModuleInterop: true,
+  moduleResolution: ts.ModuleResolutionKind.NodeJs,
+};
+
+/**
+ * A TypeScript project and the project files it owns
+ */
+export interface TsProject {
+  // Path of the tsconfig.json/jsconfig.json, undefined for files outside any project
+  configPath?: string;
+  options: ts.CompilerOptions;
+  fileNames: string[];
+}
+
+/**
+ * A parsed config file, with its file names normalized once for the lookups of every project file
+ */
+interface ParsedConfig {
+  commandLine: ts.ParsedCommandLine;
+  fileNames: Set<string>;
+}
+
+/**
+ * Service for discovering the TypeScript projects of a workspace root
+ */
+export const TsProjectService = {
+  /**
+   * Groups the project files by the tsconfig.json/jsconfig.json project they belong to
+   * Like the TypeScript language server, each file belongs to its nearest config file, or to one of
+   * the projects that config references when the config itself doesn't include the file
+   * @param rootPath - Project root path
+   * @param projectFiles - List of project files
+   * @returns One project per config file owning files, plus an inferred project for the rest
+   */
+  getProjects(rootPath: string, projectFiles: string[]): TsProject[] {
+    const configPathCache = new Map<string, string | undefined>();
+    const parsedConfigs = new Map<string, ParsedConfig | undefined>();
+    const projectFileNames = new Map<string | undefined, string[]>();
+
+    for (const filePath of projectFiles) {
+      if (!FileSystemService.isAnalyzableFile(filePath)) {
+        continue;
+      }
+
+      const nearestConfigPath = this.findConfigFile(path.dirname(filePath), rootPath, configPathCache);
+      const configPath = nearestConfigPath
+        ? this.findProjectForFile(filePath, nearestConfigPath, parsedConfigs, new Set())
+        : undefined;
+
+      const fileNames = projectFileNames.get(configPath) ?? [];
+      fileNames.push(filePath);
+      projectFileNames.set(configPath, fileNames);
+    }
+
+    return [...projectFileNames].map(([configPath, fileNames]) => ({
+      configPath,
+      options: configPath ? this.getProgramOptions(configPath, parsedConfigs.get(configPath)!.commandLine) : DEFAULT_COMPILER_OPTIONS,
+      fileNames
+    }));
+  },
+
+  /**
+   * Finds the nearest config file of a directory, without leaving the root
+   * @param directory - The directory to start from
+   * @param rootPath - Project root path
+   * @param cache - Config file found for each directory visited so far
+   * @returns Path of the config file, or undefined if there is none
+   */
+  findConfigFile(directory: string, rootPath: string, cache: Map<string, string | undefined>): string | undefined {
+    if (cache.has(directory)) {
+      return cache.get(directory);
+    }
+
+    const configPath = CONFIG_FILE_NAMES
+      .map(fileName => path.join(directory, fileName))
+      .find(candidate => ts.sys.fileExists(candidate));
+
+    const parentDirectory = path.dirname(directory);
+    const isRoot = path.relative(rootPath, directory) === '' || parentDirectory === directory;
+    const result = configPath ?? (isRoot ? undefined : this.findConfigFile(parentDirectory, rootPath, cache));
+
+    cache.set(directory, result);
+    return result;
+  },
+
+  /**
+   * Finds the project that includes a file, searching a config file and then the projects it references
+   * Solution-style configs only list references, so the file is usually found in one of those
+   * @param filePath - The file to find a project for
+   * @param configPath - Path of the config file to search
+   * @param parsedConfigs - Parsed config files, keyed by path
+   * @param visited - Config files already searched, to stop at reference cycles
+   * @returns Path of the config file including the file, or undefined if none does
+   */
+  findProjectForFile(
+    filePath: string,
+    configPath: string,
+    parsedConfigs: Map<string, ParsedConfig | undefined>,
+    visited: Set<string>
+  ): string | undefined {
+    if (visited.has(configPath)) {
+      return undefined;
+    }
+    visited.add(configPath);
+
+    const parsedConfig = this.parseConfigFile(configPath, parsedConfigs);
+    if (!parsedConfig) {
+      return undefined;
+    }
+
+    if (this.includesFile(parsedConfig, configPath, filePath)) {
+      return configPath;
+    }
+
+    for (const reference of parsedConfig.commandLine.projectReferences ?? []) {
+      const referencedConfigPath = ts.resolveProjectReferencePath(reference);
+      const projectPath = this.findProjectForFile(filePath, referencedConfigPath, parsedConfigs, visited);
+      if (projectPath) {
+        return projectPath;
+      }
+    }
+
+    return undefined;
+  },
+
+  /**
+   * Checks if a project includes a file
+   * TypeScript leaves component files (.vue, .svelte, .astro) out of a project's files, so a project
+   * with files of its own is assumed to include the components below its config file
+   * @param parsedConfig - The parsed config
+   * @param configPath - Path of the config file
+   * @param filePath - The file to check
+   * @returns Whether the project includes the file
+   */
+  includesFile(parsedConfig: ParsedConfig, configPath: string, filePath: string): boolean {
+    if (ComponentFileService.isComponentFile(filePath)) {
+      const relativePath = path.relative(path.dirname(configPath), filePath);
+      return parsedConfig.fileNames.size > 0 && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    }
+
+    return parsedConfig.fileNames.has(path.normalize(filePath));
+  },
+
+  /**
+   * Parses a config file, following its `extends` chain
+   * @param configPath - Path of the config file
+   * @param parsedConfigs - Parsed config files, keyed by path
+   * @returns The parsed config with its normalized file names, or undefined if it can't be read
+   */
+  parseConfigFile(
+    configPath: string,
+    parsedConfigs: Map<string, ParsedConfig | undefined>
+  ): ParsedConfig | undefined {
+    if (parsedConfigs.has(configPath)) {
+      return parsedConfigs.get(configPath);
+    }
+
+    let configError: ts.Diagnostic | undefined;
+    const commandLine = ts.getParsedCommandLineOfConfigFile(configPath, undefined, {
+      ...ts.sys,
+      onUnRecoverableConfigFileDiagnostic: diagnostic => {
+        configError = diagnostic;
+      }
+    });
+
+    if (configError) {
+      console.warn(`Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(configError.messageText, '\n')}`);
+    }
+
+    const parsedConfig = commandLine && {
+      commandLine,
+      fileNames: new Set(commandLine.fileNames.map(fileName => path.normalize(fileName)))
+    };
+    parsedConfigs.set(configPath, parsedConfig);
+    return parsedConfig;
+  },
+
+  /**
+   * Gets the options to create a project's program with
+   * @param configPath - Path of the config file
+   * @param parsedConfig - The parsed config
+   * @returns The compiler options
+   */
+  getProgramOptions(configPath: string, parsedConfig: ts.ParsedCommandLine): ts.CompilerOptions {
+    return {
+      ...parsedConfig.options,
+      // jsconfig.json implies allowJs, as in the TypeScript language server
+      ...(path.basename(configPath) === 'jsconfig.json' ? { allowJs: true } : {}),
+      noEmit: true,
+    };
+  }
+};
@@ -0,0 +1,110 @@
+// Standalone stdio MCP server exposing the symbol index to AI editors and agents
+// Usage: node dist/mcp-server.js [--root <workspace>]
+import * as path from 'path';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { McpToolsService } from '@/features/mcp-server/mcp-tools-service';
+import { HostService, createNodeHostAdapter } from '@/shared/services/host-service';
+
+// stdout carries the protocol, so service logging has to go to stderr
+console.log = console.error;
+
+/**
+ * Resolves the workspace root from `--root`, CURSORCRAWL_ROOT or the working directory
+ * @returns The absolute workspace root path
+ */
+const resolveRootPath = (): string => {
+  const rootFlagIndex = process.argv.indexOf('--root');
+  const rootArg = rootFlagIndex >= 0 ? process.argv[rootFlagIndex + 1] : undefined;
+  return path.resolve(rootArg ?? process.env.CURSORCRAWL_ROOT ?? process.cwd());
+};
+
+/**
+ * Wraps a tool implementation so results are returned as JSON text and errors as tool errors
+ * @param operation - The tool implementation
+ * @returns The MCP tool result
+ */
+const runTool = async (operation: () => Promise<unknown>) => {
+  try {
+    const result = await operation();
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text' as const, text: error instanceof Error ? error.message : String(error) }],
+      isError: true
+    };
+  }
+};
+
+const symbolArgs = {
+  name: z.string().describe('Symbol name, e.g. "activate" or "SymbolIndexService.readSymbolIndex"'),
+  filePath: z.string().optional().describe('Workspace-relative or absolute path of the file defining the symbol')
+};
+
+/**
+ * Creates the MCP server with the symbol index tools
+ * @param rootPath - The workspace root path
+ * @returns The server
+ */
+const createServer = (rootPath: string): McpServer => {
+  const server = new McpServer({ name: 'cursorcrawl', version: '0.0.1' });
+
+  server.registerTool('find_symbol', {
+    description: 'Searches functions, classes, methods, types and variables in the codebase by name',
+    inputSchema: {
+      query: z.string().describe('Text to look for in symbol names'),
+      type: z.enum(['function', 'class', 'interface', 'type', 'variable', 'method', 'enum', 'component', 'hook', 'property', 'other']).optional()
+        .describe('Only return symbols of this type'),
+      limit: z.number().int().positive().optional().describe('Maximum number of results (default 20)')
+    }
+  }, ({ query, type, limit }) => runTool(() => McpToolsService.findSymbol(rootPath, query, type, limit)));
+
+  server.registerTool('get_dependents', {
+    description: 'Lists the symbols that use a symbol, with the line and code around each use',
+    inputSchema: symbolArgs
+  }, ({ name, filePath }) => runTool(() => McpToolsService.getDependents(rootPath, name, filePath)));
+
+  server.registerTool('get_dependencies', {
+    description: 'Lists the symbols a symbol uses',
+    inputSchema: symbolArgs
+  }, ({ name, filePath }) => runTool(() => McpToolsService.getDependencies(rootPath, name, filePath)));
+
+  server.registerTool('get_docstring', {
+    description: 'Gets the generated docstring and the source snippet of a symbol',
+    inputSchema: symbolArgs
+  }, ({ name, filePath }) => runTool(() => McpToolsService.getDocstring(rootPath, name, filePath)));
+
+  server.registerTool('find_similar_functions', {
+    description: 'Finds existing functions that duplicate a symbol, from the duplicate analysis and structural clone detection. Check this before writing a new helper.',
+    inputSchema: {
+      ...symbolArgs,
+      minScore: z.number().min(1).max(5).optional().describe('Minimum duplication score from 1 to 5 (default 3)')
+    }
+  }, ({ name, filePath, minScore }) => runTool(() => McpToolsService.findSimilarFunctions(rootPath, name, filePath, minScore)));
+
+  server.registerTool('get_relevant_context', {
+    description: 'Gets the symbols defined in a set of files and the import relationships between them and the rest of the codebase',
+    inputSchema: {
+      files: z.array(z.string()).min(1).describe('Workspace-relative or absolute file paths')
+    }
+  }, ({ files }) => runTool(() => McpToolsService.getRelevantContext(rootPath, files)));
+
+  return server;
+};
+
+/**
+ * Starts the server on stdio
+ */
+const main = async (): Promise<void> => {
+  const rootPath = resolveRootPath();
+  HostService.setAdapter(createNodeHostAdapter(rootPath));
+  const server = createServer(rootPath);
+  await server.connect(new StdioServerTransport());
+  console.error(`CursorCrawl MCP server running for ${rootPath}`);
+};
+
+main().catch(error => {
+  console.error('Failed to start the CursorCrawl MCP server:', error);
+  process.exit(1);
+});
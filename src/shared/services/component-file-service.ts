@@ -0,0 +1,283 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+// Constants
+export const COMPONENT_EXTENSIONS = ['.vue', '.svelte', '.astro'];
+
+// Matches <script> blocks, capturing their attributes and content
+const SCRIPT_BLOCK_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+// Matches the frontmatter fence of an .astro file
+const ASTRO_FRONTMATTER_PATTERN = /^(\s*---[^\S\n]*\r?\n)([\s\S]*?)\r?\n---/;
+
+/**
+ * A block of script code inside a component file
+ */
+interface ScriptBlock {
+  // Offsets of the code in the component file
+  start: number;
+  end: number;
+  lang?: string;
+}
+
+/**
+ * Props and emitted events of a component
+ */
+export interface ComponentInterface {
+  props: string[];
+  emits: string[];
+}
+
+/**
+ * Service for single-file components (.vue, .svelte and .astro)
+ * Their script blocks are analyzed as a virtual TypeScript file: everything outside the blocks is blanked out,
+ * which keeps every line and character at the same position as in the component file
+ */
+export const ComponentFileService = {
+  /**
+   * Checks if a file is a single-file component
+   * @param filePath - The file path to check
+   * @returns Whether the file is a component file
+   */
+  isComponentFile(filePath: string): boolean {
+    return COMPONENT_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  },
+
+  /**
+   * Finds the script blocks of a component file
+   * @param filePath - Path of the component file
+   * @param content - Content of the component file
+   * @returns The script blocks, in file order
+   */
+  getScriptBlocks(filePath: string, content: string): ScriptBlock[] {
+    const blocks: ScriptBlock[] = [];
+
+    // Astro components run their frontmatter on the server, and it is always TypeScript
+    if (path.extname(filePath).toLowerCase() === '.astro') {
+      const frontmatter = ASTRO_FRONTMATTER_PATTERN.exec(content);
+      if (frontmatter) {
+        const start = frontmatter[1].length;
+        blocks.push({ start, end: start + frontmatter[2].length, lang: 'ts' });
+      }
+    }
+
+    for (const match of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+      const [fullMatch, attributes, code] = match;
+      // The code starts right after the opening tag, whose attributes never contain '>'
+      const start = match.index! + fullMatch.indexOf('>') + 1;
+      const lang = /\blang\s*=\s*["']([^"']+)["']/i.exec(attributes)?.[1].toLowerCase();
+      blocks.push({ start, end: start + code.length, lang });
+    }
+
+    return blocks;
+  },
+
+  /**
+   * Creates the virtual TypeScript source of a component file
+   * Components are always importable as a default export, so one is appended when the script has none
+   * @param filePath - Path of the component file
+   * @param content - Content of the component file
+   * @returns The script code with everything else replaced by whitespace
+   */
+  toVirtualScript(filePath: string, content: string): string {
+    const blank = (text: string) => text.replace(/[^\r\n]/g, ' ');
+
+    let virtualScript = '';
+    let offset = 0;
+    for (const block of this.getScriptBlocks(filePath, content)) {
+      virtualScript += blank(content.substring(offset, block.start)) + content.substring(block.start, block.end);
+      offset = block.end;
+    }
+    virtualScript += blank(content.substring(offset));
+
+    return /\bexport\s+default\b/.test(virtualScript) ? virtualScript : `${virtualScript}\nexport default {};\n`;
+  },
+
+  /**
+   * Gets the script kind of a component file's virtual source
+   * @param filePath - Path of the component file
+   * @param content - Content of the component file
+   * @returns TS or TSX when a block is TypeScript, JS or JSX otherwise
+   */
+  getScriptKind(filePath: string, content: string): ts.ScriptKind {
+    const langs = this.getScriptBlocks(filePath, content).map(block => block.lang);
+    if (langs.includes('tsx')) {
+      return ts.ScriptKind.TSX;
+    }
+    if (langs.includes('ts') || langs.includes('typescript')) {
+      return ts.ScriptKind.TS;
+    }
+    return langs.includes('jsx') ? ts.ScriptKind.JSX : ts.ScriptKind.JS;
+  },
+
+  /**
+   * Gets the name a component is imported under, from its file name
+   * @param filePath - Path of the component file
+   * @returns The file name in PascalCase, e.g. `UserCard` for user-card.vue
+   */
+  getComponentName(filePath: string): string {
+    const baseName = path.basename(filePath, path.extname(filePath));
+    const name = baseName
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map(part => part[0].toUpperCase() + part.substring(1))
+      .join('');
+    return name || 'Component';
+  },
+
+  /**
+   * Finds the props and emitted events declared in a component's script
+   * Covers Vue (defineProps/defineEmits/defineModel and the options API), Svelte (`export let`,
+   * `$props()` and createEventDispatcher) and Astro (the `Props` type and `Astro.props`)
+   * @param sourceFile - The virtual source of the component
+   * @returns The prop and event names
+   */
+  extractComponentInterface(sourceFile: ts.SourceFile): ComponentInterface {
+    const props = new Set<string>();
+    const emits = new Set<string>();
+    const dispatchers = new Set<string>();
+    const isAstro = path.extname(sourceFile.fileName).toLowerCase() === '.astro';
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+        const calleeName = node.expression.text;
+        const [typeArgument] = node.typeArguments ?? [];
+        const [argument] = node.arguments;
+
+        if (calleeName === 'defineProps') {
+          this.getDeclaredNames(typeArgument, argument, sourceFile).forEach(name => props.add(name));
+        } else if (calleeName === 'defineEmits') {
+          this.getDeclaredNames(typeArgument, argument, sourceFile).forEach(name => emits.add(name));
+        } else if (calleeName === 'defineModel') {
+          // defineModel('title') adds a `title` prop and an `update:title` event
+          const modelName = argument && ts.isStringLiteral(argument) ? argument.text : 'modelValue';
+          props.add(modelName);
+          emits.add(`update:${modelName}`);
+        } else if (dispatchers.has(calleeName) && argument && ts.isStringLiteralLike(argument)) {
+          emits.add(argument.text);
+        }
+      }
+
+      if (ts.isVariableDeclaration(node) && node.initializer) {
+        const initializer = node.initializer;
+
+        // Svelte event dispatchers: const dispatch = createEventDispatcher<{ change: string }>()
+        if (ts.isCallExpression(initializer) && ts.isIdentifier(initializer.expression) &&
+            initializer.expression.text === 'createEventDispatcher') {
+          if (ts.isIdentifier(node.name)) {
+            dispatchers.add(node.name.text);
+          }
+          this.getDeclaredNames(initializer.typeArguments?.[0], undefined, sourceFile).forEach(name => emits.add(name));
+        }
+
+        // Svelte 5 runes and Astro: let { title, size } = $props() / Astro.props
+        const isPropsSource = (ts.isCallExpression(initializer) && ts.isIdentifier(initializer.expression) &&
+            initializer.expression.text === '$props') ||
+          (ts.isPropertyAccessExpression(initializer) && initializer.getText(sourceFile) === 'Astro.props');
+        if (isPropsSource && ts.isObjectBindingPattern(node.name)) {
+          for (const element of node.name.elements) {
+            const propName = element.propertyName ?? element.name;
+            if (!element.dotDotDotToken && (ts.isIdentifier(propName) || ts.isStringLiteral(propName))) {
+              props.add(propName.text);
+            }
+          }
+        }
+      }
+
+      // Svelte 4 props: export let title
+      if (ts.isVariableStatement(node) && node.parent === sourceFile &&
+          node.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword) &&
+          !(node.declarationList.flags & ts.NodeFlags.Const) && sourceFile.fileName.endsWith('.svelte')) {
+        node.declarationList.declarations.forEach(declaration => {
+          if (ts.isIdentifier(declaration.name)) {
+            props.add(declaration.name.text);
+          }
+        });
+      }
+
+      // Vue options API: export default { props: [...], emits: [...] }, optionally wrapped in defineComponent()
+      if (ts.isExportAssignment(node)) {
+        const options = ts.isCallExpression(node.expression) ? node.expression.arguments[0] : node.expression;
+        if (options && ts.isObjectLiteralExpression(options)) {
+          for (const property of options.properties) {
+            if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.name)) {
+              const names = property.name.text === 'props' ? props : property.name.text === 'emits' ? emits : undefined;
+              this.getDeclaredNames(undefined, property.initializer, sourceFile).forEach(name => names?.add(name));
+            }
+          }
+        }
+      }
+
+      // Astro props: interface Props { ... } or type Props = { ... }
+      if (isAstro && node.parent === sourceFile && (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) &&
+          node.name.text === 'Props') {
+        this.getTypeMemberNames(node, sourceFile).forEach(name => props.add(name));
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return { props: [...props], emits: [...emits] };
+  },
+
+  /**
+   * Gets the names declared by a type argument or a runtime declaration, like the props in `defineProps`
+   * @param typeNode - Type argument, e.g. `<{ title: string }>` or `<Props>`
+   * @param expression - Runtime declaration, e.g. `['title']` or `{ title: String }`
+   * @param sourceFile - The source file
+   * @returns The declared names
+   */
+  getDeclaredNames(typeNode: ts.TypeNode | undefined, expression: ts.Expression | undefined, sourceFile: ts.SourceFile): string[] {
+    if (typeNode) {
+      return this.getTypeMemberNames(typeNode, sourceFile);
+    }
+    if (expression && ts.isArrayLiteralExpression(expression)) {
+      return expression.elements.filter(ts.isStringLiteralLike).map(element => element.text);
+    }
+    if (expression && ts.isObjectLiteralExpression(expression)) {
+      return expression.properties
+        .map(property => property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) ? property.name.text : undefined)
+        .filter((name): name is string => name !== undefined);
+    }
+    return [];
+  },
+
+  /**
+   * Gets the member names of a type, following references to types declared in the same file
+   * Call signatures like `(e: 'change', id: number): void` contribute the literal type of their first parameter
+   * @param node - A type node, interface or type alias
+   * @param sourceFile - The source file
+   * @returns The member names
+   */
+  getTypeMemberNames(node: ts.Node, sourceFile: ts.SourceFile): string[] {
+    if (ts.isTypeAliasDeclaration(node)) {
+      return this.getTypeMemberNames(node.type, sourceFile);
+    }
+
+    if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+      const typeName = node.typeName.text;
+      const declaration = sourceFile.statements.find(
+        (statement): statement is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+          (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) && statement.name.text === typeName
+      );
+      return declaration ? this.getTypeMemberNames(declaration, sourceFile) : [];
+    }
+
+    if (ts.isIntersectionTypeNode(node)) {
+      return node.types.flatMap(type => this.getTypeMemberNames(type, sourceFile));
+    }
+
+    if (!ts.isTypeLiteralNode(node) && !ts.isInterfaceDeclaration(node)) {
+      return [];
+    }
+
+    return node.members.flatMap(member => {
+      if (ts.isCallSignatureDeclaration(member)) {
+        const eventType = member.parameters[0]?.type;
+        return eventType && ts.isLiteralTypeNode(eventType) && ts.isStringLiteral(eventType.literal) ? [eventType.literal.text] : [];
+      }
+      return member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) ? [member.name.text] : [];
+    });
+  }
+};
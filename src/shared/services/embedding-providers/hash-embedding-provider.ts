@@ -0,0 +1,61 @@
+import { EmbeddingProvider, EmbeddingProviderConfig } from '@/shared/types/embedding-provider';
+
+// Number of buckets tokens are hashed into
+const HASH_DIMENSIONS = 512;
+
+/**
+ * Splits text into lowercase word tokens, breaking camelCase and snake_case identifiers apart
+ * @param text - The text to tokenize
+ * @returns The tokens
+ */
+const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+
+/**
+ * 32-bit FNV-1a hash
+ * @param value - The string to hash
+ * @returns The unsigned hash
+ */
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a deterministic embedding provider based on feature hashing of word tokens and bigrams
+ * It needs no model or network access, so results are reproducible in tests and offline
+ * @param config - The provider configuration
+ * @returns The embedding provider
+ */
+export const createHashEmbeddingProvider = (config: EmbeddingProviderConfig): EmbeddingProvider => {
+  const embedText = (text: string): number[] => {
+    const vector = new Array<number>(HASH_DIMENSIONS).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]}_${token}`)];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // Use one hash bit as the sign so unrelated features cancel out instead of piling up
+      vector[hash % HASH_DIMENSIONS] += (hash & 0x80000000) ? -1 : 1;
+    }
+
+    return vector;
+  };
+
+  return {
+    kind: config.provider,
+    model: config.model,
+
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map(embedText);
+    }
+  };
+};
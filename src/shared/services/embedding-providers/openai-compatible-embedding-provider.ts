@@ -0,0 +1,44 @@
+import OpenAI from 'openai';
+import { EmbeddingProvider, EmbeddingProviderConfig } from '@/shared/types/embedding-provider';
+
+// Local OpenAI-compatible servers ignore the key, but the SDK refuses to start without one
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+/**
+ * Creates an embedding provider for OpenAI and OpenAI-compatible endpoints (Ollama, llama.cpp, vLLM, ...)
+ * @param config - The provider configuration
+ * @returns The embedding provider
+ */
+export const createOpenAiCompatibleEmbeddingProvider = (config: EmbeddingProviderConfig): EmbeddingProvider => {
+  const client = new OpenAI({
+    apiKey: config.apiKey || PLACEHOLDER_API_KEY,
+    baseURL: config.baseUrl || undefined,
+  });
+
+  return {
+    kind: config.provider,
+    model: config.model,
+
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      const response = await client.embeddings.create({
+        model: config.model,
+        input: texts,
+      });
+
+      // The API doesn't guarantee response order, so sort by the input index
+      const vectors = [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+
+      if (vectors.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings from ${config.provider} API but received ${vectors.length}`);
+      }
+
+      return vectors;
+    }
+  };
+};
@@ -0,0 +1,121 @@
+import { LlmService } from '@/shared/services/llm-service';
+import { EmbeddingProvider, EmbeddingProviderConfig, EmbeddingProviderKind } from '@/shared/types/embedding-provider';
+import { createOpenAiCompatibleEmbeddingProvider } from '@/shared/services/embedding-providers/openai-compatible-embedding-provider';
+import { createHashEmbeddingProvider } from '@/shared/services/embedding-providers/hash-embedding-provider';
+
+// Constants
+const EMBEDDING_PROVIDERS: EmbeddingProviderKind[] = ['openai', 'ollama', 'hash'];
+
+const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderKind, string> = {
+  openai: 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+  hash: 'feature-hash-512',
+};
+
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Service for configuring embedding providers and working with embedding vectors
+ */
+export const EmbeddingService = {
+  /**
+   * Resolves the embedding provider configuration for a workspace
+   * @param workspaceFolder - The workspace folder path
+   * @returns The provider configuration
+   */
+  getProviderConfig(workspaceFolder?: string): EmbeddingProviderConfig {
+    const envVars = LlmService.loadEnvironmentVars(workspaceFolder);
+
+    const requestedProvider = (envVars.CURSORCRAWL_EMBEDDING_PROVIDER || 'openai').toLowerCase() as EmbeddingProviderKind;
+    const provider = EMBEDDING_PROVIDERS.includes(requestedProvider) ? requestedProvider : 'openai';
+    if (provider !== requestedProvider) {
+      console.warn(`Unknown embedding provider "${requestedProvider}", falling back to openai`);
+    }
+
+    return {
+      provider,
+      model: envVars.CURSORCRAWL_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider],
+      baseUrl: envVars.CURSORCRAWL_EMBEDDING_BASE_URL || (provider === 'ollama' ? DEFAULT_OLLAMA_BASE_URL : undefined),
+      apiKey: provider === 'openai' ? envVars.OPENAI_API_KEY : undefined,
+    };
+  },
+
+  /**
+   * Determines if an embedding configuration still needs an API key
+   * @param config - The provider configuration
+   * @returns Whether an API key is required but missing
+   */
+  isMissingApiKey(config: EmbeddingProviderConfig): boolean {
+    return config.provider === 'openai' && !config.apiKey && !config.baseUrl;
+  },
+
+  /**
+   * Creates an embedding provider from a configuration
+   * @param config - The provider configuration
+   * @returns The embedding provider
+   */
+  createProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+    switch (config.provider) {
+      case 'hash':
+        return createHashEmbeddingProvider(config);
+      case 'openai':
+      case 'ollama':
+      default:
+        return createOpenAiCompatibleEmbeddingProvider(config);
+    }
+  },
+
+  /**
+   * Creates the configured embedding provider for a workspace
+   * @param workspaceFolder - The workspace folder path
+   * @returns The embedding provider
+   * @throws Error if the provider requires an API key that isn't configured
+   */
+  createProviderForWorkspace(workspaceFolder?: string): EmbeddingProvider {
+    const config = this.getProviderConfig(workspaceFolder);
+
+    if (this.isMissingApiKey(config)) {
+      throw new Error('OpenAI API key not found for embeddings. Set an API key, or use the ollama or hash embedding provider.');
+    }
+
+    return this.createProvider(config);
+  },
+
+  /**
+   * Scales a vector to unit length so cosine similarity becomes a dot product
+   * @param vector - The vector to normalize
+   * @returns The normalized vector (all zeros if the input has no length)
+   */
+  normalize(vector: ArrayLike<number>): Float32Array {
+    let sumOfSquares = 0;
+    for (let i = 0; i < vector.length; i++) {
+      sumOfSquares += vector[i] * vector[i];
+    }
+
+    const normalized = new Float32Array(vector.length);
+    const length = Math.sqrt(sumOfSquares);
+    if (length === 0) {
+      return normalized;
+    }
+
+    for (let i = 0; i < vector.length; i++) {
+      normalized[i] = vector[i] / length;
+    }
+    return normalized;
+  },
+
+  /**
+   * Computes the cosine similarity of two unit-length vectors
+   * @param a - The first normalized vector
+   * @param b - The second normalized vector
+   * @returns The similarity between -1 and 1
+   */
+  cosineSimilarity(a: Float32Array, b: Float32Array): number {
+    const length = Math.min(a.length, b.length);
+    let dot = 0;
+    for (let i = 0; i < length; i++) {
+      dot += a[i] * b[i];
+    }
+    return dot;
+  }
+};
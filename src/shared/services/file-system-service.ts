@@ -2,14 +2,110 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import { promisify } from 'util';
 import { exec } from 'child_process';
+import { COMPONENT_EXTENSIONS } from '@/shared/services/component-file-service';
+import { HostService } from '@/shared/services/host-service';
+import { globToRegExp } from '@/shared/utils/glob';
 
 // Constants
-export const ANALYZABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+export const ANALYZABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', ...COMPONENT_EXTENSIONS];
 export const ALWAYS_IGNORED_DIRS = ['node_modules', '.next', 'dist', 'build', '.git', '.vscode'];
-export const MAX_FILES_TO_PROCESS = 2000;
+export const CURSORCRAWL_IGNORE_FILENAME = '.cursorcrawlignore';
 
 export const execAsync = promisify(exec);
 
+/**
+ * A compiled ignore rule
+ */
+interface IgnoreRule {
+  negated: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+}
+
+/**
+ * A compiled include path, with the part before its first wildcard
+ */
+interface IncludePath {
+  base: string;
+  regex: RegExp;
+}
+
+// Rules and include paths are checked against every file of a traversal, so each is compiled once
+const ignoreRuleCache = new Map<string, IgnoreRule>();
+const includePathCache = new Map<string, IncludePath>();
+
+/**
+ * Anchors a rule of a nested ignore file at the file's directory
+ * @param rule - The rule as written in the file
+ * @param directory - Directory of the file relative to the project root
+ * @returns The rule relative to the project root
+ */
+const rebaseIgnoreRule = (rule: string, directory: string): string => {
+  const negated = rule.startsWith('!');
+  const pattern = negated ? rule.substring(1) : rule;
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  const rebased = anchored ? `/${directory}/${pattern.replace(/^\//, '')}` : `/${directory}/**/${pattern}`;
+  return negated ? `!${rebased}` : rebased;
+};
+
+/**
+ * Compiles a gitignore rule relative to the project root
+ * @param rule - The rule, e.g. `*.log`, `!keep.log`, `/dist/` or `src/**\/generated`
+ * @returns The compiled rule
+ */
+const compileIgnoreRule = (rule: string): IgnoreRule => {
+  let compiled = ignoreRuleCache.get(rule);
+  if (!compiled) {
+    const negated = rule.startsWith('!');
+    let pattern = negated ? rule.substring(1) : rule;
+    const directoryOnly = pattern.endsWith('/');
+    pattern = directoryOnly ? pattern.slice(0, -1) : pattern;
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+    compiled = { negated, directoryOnly, regex: globToRegExp(anchored ? pattern : `**/${pattern}`) };
+    ignoreRuleCache.set(rule, compiled);
+  }
+  return compiled;
+};
+
+/**
+ * Checks a path against ignore rules, the last matching rule deciding
+ * @param rules - The compiled rules
+ * @param relPath - The path relative to the project root
+ * @param isDirectory - Whether the path is a directory
+ * @returns Whether the rules exclude the path
+ */
+const matchesIgnoreRules = (rules: IgnoreRule[], relPath: string, isDirectory: boolean): boolean => {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    if ((!rule.directoryOnly || isDirectory) && rule.regex.test(relPath)) {
+      return !rule.negated;
+    }
+  }
+  return false;
+};
+
+/**
+ * Compiles an include path, a folder standing for everything inside it
+ * @param includePath - The folder or glob, e.g. `packages/app` or `packages/*\/src/**`
+ * @returns The compiled include path
+ */
+const compileIncludePath = (includePath: string): IncludePath => {
+  let compiled = includePathCache.get(includePath);
+  if (!compiled) {
+    const pattern = includePath.replace(/\\/g, '/').replace(/^\.?\//, '').replace(/\/+$/, '');
+    const isGlob = /[*?[{]/.test(pattern);
+    const segments = pattern.split('/');
+    const wildcardIndex = segments.findIndex(segment => /[*?[{]/.test(segment));
+    compiled = {
+      base: isGlob ? segments.slice(0, wildcardIndex).join('/') : pattern,
+      regex: globToRegExp(isGlob ? pattern : `${pattern}/**`)
+    };
+    includePathCache.set(includePath, compiled);
+  }
+  return compiled;
+};
+
 /**
  * Service for file system operations
  */
@@ -35,64 +131,160 @@ export const FileSystemService = {
   },
 
   /**
-   * Parses .gitignore and returns its rules
-   * @param rootPath - The project root path
-   * @returns Array of gitignore rules
+   * Reads the rules of an ignore file, rewritten to apply from the project root
+   * A rule of a nested file only matches inside the file's directory, so it is anchored there,
+   * e.g. `foo` in `pkg/.gitignore` becomes `/pkg/**\/foo` and `/foo` becomes `/pkg/foo`
+   * @param filePath - Path of the ignore file
+   * @param directory - Directory of the file relative to the project root, empty for the root
+   * @returns Array of rules, or an empty array if the file doesn't exist
    */
-  async parseGitignore(rootPath: string): Promise<string[]> {
+  async parseIgnoreFile(filePath: string, directory: string = ''): Promise<string[]> {
     try {
-      const gitignorePath = path.join(rootPath, '.gitignore');
-      if (await fs.pathExists(gitignorePath)) {
-        const content = await fs.readFile(gitignorePath, 'utf8');
-        return content
-          .split('\n')
-          .map((line: string) => line.trim())
-          .filter((line: string) => line && !line.startsWith('#'));
+      if (!await fs.pathExists(filePath)) {
+        return [];
       }
-      return [];
+
+      const content = await fs.readFile(filePath, 'utf8');
+      return content
+        .split(/\r?\n/)
+        // Trailing spaces are only kept when escaped
+        .map((line: string) => line.replace(/(?<!\\)\s+$/, ''))
+        .filter((line: string) => line && !line.startsWith('#'))
+        .map((line: string) => directory ? rebaseIgnoreRule(line, directory) : line);
     } catch (error) {
-      console.error('Error parsing .gitignore:', error);
+      console.error(`Error parsing ${filePath}:`, error);
       return [];
     }
   },
 
   /**
-   * Checks if a file path should be ignored based on gitignore patterns
-   * @param filePath - The file path to check
+   * Gets the ignore rules of a project, in increasing precedence:
+   * `.git/info/exclude`, `.gitignore`, nested `.gitignore` files from the shallowest to the deepest, then `.cursorcrawlignore`
    * @param rootPath - The project root path
-   * @param ignoredPatterns - Array of patterns to ignore
-   * @returns Whether the file should be ignored
+   * @returns Array of rules, all relative to the project root
    */
-  isIgnored(filePath: string, rootPath: string, ignoredPatterns: string[]): boolean {
-    const relPath = path.relative(rootPath, filePath);
+  async getIgnoreRules(rootPath: string): Promise<string[]> {
+    const rules = [
+      ...await this.parseIgnoreFile(path.join(rootPath, '.git', 'info', 'exclude')),
+      ...await this.parseIgnoreFile(path.join(rootPath, '.gitignore'))
+    ];
+
+    // Nested files are applied parent first, and not at all inside a directory that is already ignored
+    const addNestedRules = async (directory: string): Promise<void> => {
+      if (!this.isIgnored(path.join(rootPath, directory), rootPath, rules, true)) {
+        rules.push(...await this.parseIgnoreFile(path.join(rootPath, directory, '.gitignore'), directory));
+      }
+    };
+
+    try {
+      const { stdout } = await execAsync('git ls-files -- "*.gitignore"', { cwd: rootPath });
+      const directories = stdout
+        .split('\n')
+        .filter(file => path.posix.basename(file) === '.gitignore' && file.includes('/'))
+        .map(file => path.posix.dirname(file))
+        .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+
+      for (const directory of directories) {
+        await addNestedRules(directory);
+      }
+    } catch (error) {
+      // Without git, walk the directories the rules read so far don't exclude
+      const traverseDirectory = async (directory: string): Promise<void> => {
+        const entries = await fs.readdir(path.join(rootPath, directory), { withFileTypes: true });
+        for (const entry of entries) {
+          const subdirectory = directory ? `${directory}/${entry.name}` : entry.name;
+          if (entry.isDirectory() && !this.isIgnored(path.join(rootPath, subdirectory), rootPath, rules, true)) {
+            await addNestedRules(subdirectory);
+            await traverseDirectory(subdirectory);
+          }
+        }
+      };
+
+      await traverseDirectory('');
+    }
+
+    rules.push(...await this.parseIgnoreFile(path.join(rootPath, CURSORCRAWL_IGNORE_FILENAME)));
+    return rules;
+  },
+
+  /**
+   * Gets the paths indexing is limited to, for working on part of a monorepo
+   * @returns Folders or globs relative to the project root, empty to include everything
+   */
+  getIncludePaths(): string[] {
+    return HostService.getAdapter().getConfiguration<string[]>('includePaths', []);
+  },
+
+  /**
+   * Checks if a path is in one of the include paths
+   * @param relPath - The path relative to the project root
+   * @param isDirectory - Whether the path is a directory
+   * @returns Whether the path is included, or for a directory whether it may contain included files
+   */
+  isIncluded(relPath: string, isDirectory: boolean = false): boolean {
+    const includePaths = this.getIncludePaths();
+    if (includePaths.length === 0) {
+      return true;
+    }
+
+    return includePaths.some(includePath => {
+      const include = compileIncludePath(includePath);
+      if (include.regex.test(relPath)) {
+        return true;
+      }
+      // A directory above or inside the literal part of the include path may still contain matches
+      return isDirectory && (
+        !include.base ||
+        relPath === include.base ||
+        include.base.startsWith(`${relPath}/`) ||
+        relPath.startsWith(`${include.base}/`)
+      );
+    });
+  },
+
+  /**
+   * Checks if a path should be ignored, following gitignore semantics:
+   * - the last matching rule wins, and a `!` rule re-includes what an earlier rule excluded
+   * - a rule with a `/` at the start or in the middle is anchored at the root, others match at any depth
+   * - a rule ending with `/` only matches directories, and everything inside an ignored directory is ignored
+   * Paths outside the include paths are ignored as well
+   * @param filePath - The path to check
+   * @param rootPath - The project root path
+   * @param ignoredPatterns - Array of rules relative to the project root, as returned by getIgnoreRules
+   * @param isDirectory - Whether the path is a directory
+   * @returns Whether the path should be ignored
+   */
+  isIgnored(filePath: string, rootPath: string, ignoredPatterns: string[], isDirectory: boolean = false): boolean {
+    const relPath = this.normalizeFilePath(filePath, rootPath);
+    if (!relPath || relPath.startsWith('../')) {
+      return false;
+    }
+
+    const segments = relPath.split('/');
     
     // Check if the path contains any of the always ignored directories
-    if (ALWAYS_IGNORED_DIRS.some(dir => 
-      relPath.startsWith(dir + path.sep) || 
-      relPath === dir ||
-      relPath.includes(path.sep + dir + path.sep)
-    )) {
+    if (segments.some(segment => ALWAYS_IGNORED_DIRS.includes(segment))) {
       return true;
     }
     
-    // Check against gitignore patterns
-    return ignoredPatterns.some(pattern => {
-      // Simple pattern matching (can be enhanced for more complex gitignore rules)
-      if (pattern.endsWith('/')) {
-        // Directory pattern
-        return relPath.startsWith(pattern) || relPath.includes(`/${pattern}`);
+    // Git doesn't look inside an ignored directory, so nothing in it can be re-included
+    const rules = ignoredPatterns.map(compileIgnoreRule);
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const isLastSegment = depth === segments.length;
+      if (matchesIgnoreRules(rules, segments.slice(0, depth).join('/'), !isLastSegment || isDirectory)) {
+        return true;
       }
-      // File pattern
-      return relPath === pattern || relPath.endsWith(`/${pattern}`) || 
-             // Handle wildcard patterns like *.vsix
-             (pattern.startsWith('*') && relPath.endsWith(pattern.substring(1)));
-    });
+    }
+
+    return !this.isIncluded(relPath, isDirectory);
   },
 
   /**
-   * Gets all project files, respecting gitignore rules
+   * Gets all project files, respecting the ignore rules
+   * With git these are the tracked files, which .gitignore doesn't apply to (e.g. files added with --force),
+   * so only .cursorcrawlignore and the include paths filter them
    * @param rootPath - The project root path
-   * @param ignoredPatterns - Array of patterns to ignore
+   * @param ignoredPatterns - Array of rules to ignore when git isn't available, as returned by getIgnoreRules
    * @returns Array of file paths
    */
   async getProjectFiles(
@@ -105,11 +297,12 @@ export const FileSystemService = {
     try {
       const { stdout } = await execAsync('git ls-files', { cwd: rootPath });
       const files = stdout.split('\n').filter(Boolean);
+      const cursorCrawlRules = await this.parseIgnoreFile(path.join(rootPath, CURSORCRAWL_IGNORE_FILENAME));
       
       // Convert relative paths to absolute
       return files
         .map(file => path.join(rootPath, file))
-        .filter(file => !this.isIgnored(file, rootPath, ignoredPatterns));
+        .filter(file => !this.isIgnored(file, rootPath, cursorCrawlRules));
     } catch (error) {
       // Fallback to manual traversal if git is not available
       console.warn('Git ls-files failed, falling back to manual traversal:', error);
@@ -119,13 +312,12 @@ export const FileSystemService = {
         
         for (const item of items) {
           const itemPath = path.join(currentPath, item);
+          const stats = await fs.stat(itemPath);
           
-          if (this.isIgnored(itemPath, rootPath, ignoredPatterns)) {
+          if (this.isIgnored(itemPath, rootPath, ignoredPatterns, stats.isDirectory())) {
             continue;
           }
           
-          const stats = await fs.stat(itemPath);
-          
           if (stats.isDirectory()) {
             await traverseDirectory(itemPath);
           } else {
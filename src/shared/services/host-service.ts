@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { HostAdapter } from '@/shared/types/host-adapter';
+
+// Prefix of the extension's settings in .vscode/settings.json
+const SETTINGS_PREFIX = 'cursorcrawl.';
+
+/**
+ * Reads the `cursorcrawl.*` settings of a workspace from .vscode/settings.json
+ * The file is JSON with comments, so it is parsed with the TypeScript JSON parser
+ * @param rootPath - The workspace root path
+ * @returns Map of setting names (without prefix) to values
+ */
+const readWorkspaceSettings = (rootPath: string): Record<string, unknown> => {
+  const settingsPath = path.join(rootPath, '.vscode', 'settings.json');
+  if (!fs.existsSync(settingsPath)) {
+    return {};
+  }
+
+  const { config, error } = ts.parseConfigFileTextToJson(settingsPath, fs.readFileSync(settingsPath, 'utf8'));
+  if (error || !config) {
+    console.error(`Could not parse ${settingsPath}, using default settings`);
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(config as Record<string, unknown>)
+      .filter(([key]) => key.startsWith(SETTINGS_PREFIX))
+      .map(([key, value]) => [key.substring(SETTINGS_PREFIX.length), value])
+  );
+};
+
+/**
+ * Creates the host used outside VS Code (CLI and MCP server)
+ * Settings come from the workspace's .vscode/settings.json and messages go to stderr,
+ * which leaves stdout free for command output and the MCP protocol
+ * @param rootPath - The workspace root path
+ * @returns The host adapter
+ */
+export const createNodeHostAdapter = (rootPath: string): HostAdapter => {
+  const settings = readWorkspaceSettings(rootPath);
+
+  return {
+    getConfiguration<T>(key: string, defaultValue: T): T {
+      return key in settings ? settings[key] as T : defaultValue;
+    },
+
+    async updateConfiguration(key: string): Promise<void> {
+      throw new Error(`Cannot change the "${SETTINGS_PREFIX}${key}" setting outside the editor`);
+    },
+
+    getWorkspaceFolders(): string[] {
+      return [rootPath];
+    },
+
+    async showInformationMessage(message: string): Promise<string | undefined> {
+      console.error(message);
+      return undefined;
+    },
+
+    async showWarningMessage(message: string): Promise<string | undefined> {
+      console.error(`Warning: ${message}`);
+      return undefined;
+    },
+
+    async showErrorMessage(message: string): Promise<string | undefined> {
+      console.error(`Error: ${message}`);
+      return undefined;
+    },
+
+    appendLog(message: string): void {
+      console.error(message);
+    },
+
+    async showInputBox(): Promise<string | undefined> {
+      return undefined;
+    },
+
+    async showQuickPick<T>(): Promise<T | undefined> {
+      return undefined;
+    },
+
+    async executeCommand(command: string): Promise<void> {
+      throw new Error(`The "${command}" command is only available in the editor`);
+    }
+  };
+};
+
+let currentAdapter: HostAdapter = createNodeHostAdapter(process.cwd());
+
+/**
+ * Service giving the core services access to the host environment
+ */
+export const HostService = {
+  /**
+   * Replaces the host adapter, e.g. with the VS Code adapter on activation
+   * @param adapter - The host adapter to use
+   */
+  setAdapter(adapter: HostAdapter): void {
+    currentAdapter = adapter;
+  },
+
+  /**
+   * Gets the current host adapter
+   * @returns The host adapter
+   */
+  getAdapter(): HostAdapter {
+    return currentAdapter;
+  }
+};
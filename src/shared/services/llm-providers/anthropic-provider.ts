@@ -0,0 +1,81 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import {
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmStructuredRequest
+} from '@/shared/types/llm-provider';
+import { toJsonSchema } from '@/shared/utils/llm-json';
+
+// Anthropic requires an explicit output limit on every request
+const MAX_OUTPUT_TOKENS = 8192;
+
+/**
+ * Creates a provider for the Anthropic Messages API
+ * @param config - The provider configuration
+ * @param client - The SDK client, replaced by a stub in tests
+ * @returns The LLM provider
+ */
+export const createAnthropicProvider = (
+  config: LlmProviderConfig,
+  client: Anthropic = new Anthropic({ apiKey: config.apiKey, baseURL: config.baseUrl || undefined })
+): LlmProvider => {
+
+  const temperatureFor = (request: LlmCompletionRequest) =>
+    request.temperature === undefined ? {} : { temperature: request.temperature };
+
+  return {
+    kind: config.provider,
+    model: config.model,
+
+    async complete(request: LlmCompletionRequest): Promise<string> {
+      const message = await client.messages.create({
+        model: config.model,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+        ...temperatureFor(request),
+      });
+
+      const text = message.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+
+      if (!text) {
+        throw new Error('Empty response from anthropic API');
+      }
+
+      return text;
+    },
+
+    async completeStructured<T extends z.ZodTypeAny>(request: LlmStructuredRequest<T>): Promise<z.infer<T>> {
+      // Force a single tool call so the reply arrives as JSON matching the schema
+      const message = await client.messages.create({
+        model: config.model,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+        tools: [{
+          name: request.schemaName,
+          description: 'Return the result in this exact structure.',
+          input_schema: toJsonSchema(request.schema, request.schemaName) as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: 'tool', name: request.schemaName },
+        ...temperatureFor(request),
+      });
+
+      const toolUse = message.content.find(block => block.type === 'tool_use');
+      if (!toolUse || toolUse.type !== 'tool_use') {
+        throw new Error('Failed to parse response: no structured output returned');
+      }
+
+      try {
+        return request.schema.parse(toolUse.input);
+      } catch (parseError) {
+        console.error('Failed to parse structured response:', parseError);
+        throw new Error('Failed to parse response: ' + String(parseError));
+      }
+    }
+  };
+};
@@ -0,0 +1,137 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import {
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmStructuredRequest
+} from '@/shared/types/llm-provider';
+import { parseJsonReply, toJsonSchema } from '@/shared/utils/llm-json';
+
+// Local OpenAI-compatible servers ignore the key, but the SDK refuses to start without one
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+// OpenAI reasoning models (o1, o3-mini, o4-mini, ...) reject any temperature other than the default
+const REASONING_MODEL_PATTERN = /^o\d/;
+
+/**
+ * Determines if a failed structured request should be retried in plain JSON mode
+ * @param error - The error thrown by the structured request
+ * @returns Whether to fall back to JSON mode
+ */
+const shouldFallbackToJsonMode = (error: unknown): boolean => {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // Authentication and rate limit errors won't be fixed by changing the response format
+  return !(
+    error.message.includes('401') ||
+    error.message.includes('403') ||
+    error.message.includes('429') ||
+    error.message.includes('rate limit')
+  );
+};
+
+/**
+ * Creates the SDK client of an OpenAI or OpenAI-compatible endpoint
+ * @param config - The provider configuration
+ * @returns The client
+ */
+export const createOpenAiClient = (config: LlmProviderConfig): OpenAI => new OpenAI({
+  apiKey: config.apiKey || PLACEHOLDER_API_KEY,
+  baseURL: config.baseUrl || undefined,
+});
+
+/**
+ * Creates a provider for OpenAI and OpenAI-compatible endpoints (Ollama, llama.cpp, vLLM, ...)
+ * @param config - The provider configuration
+ * @param client - The SDK client, replaced by a stub in tests
+ * @returns The LLM provider
+ */
+export const createOpenAiCompatibleProvider = (
+  config: LlmProviderConfig,
+  client: OpenAI = createOpenAiClient(config)
+): LlmProvider => {
+
+  const temperatureFor = (request: LlmCompletionRequest) =>
+    request.temperature === undefined || REASONING_MODEL_PATTERN.test(config.model) ? {} : { temperature: request.temperature };
+
+  return {
+    kind: config.provider,
+    model: config.model,
+
+    async complete(request: LlmCompletionRequest): Promise<string> {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt }
+        ],
+        ...temperatureFor(request),
+      });
+
+      const content = completion.choices[0]?.message.content;
+      if (!content) {
+        throw new Error(`Empty response from ${config.provider} API`);
+      }
+
+      return content;
+    },
+
+    async completeStructured<T extends z.ZodTypeAny>(request: LlmStructuredRequest<T>): Promise<z.infer<T>> {
+      try {
+        // First try the beta.chat.completions.parse method
+        const completion = await client.beta.chat.completions.parse({
+          model: config.model,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.prompt }
+          ],
+          response_format: zodResponseFormat(request.schema, request.schemaName),
+          ...temperatureFor(request),
+        });
+
+        const parsed = completion.choices[0]?.message.parsed;
+        if (parsed === null || parsed === undefined) {
+          throw new Error('Failed to parse structured response');
+        }
+
+        return parsed as z.infer<T>;
+      } catch (error) {
+        if (!shouldFallbackToJsonMode(error)) {
+          throw error;
+        }
+
+        // Many compatible servers don't support json_schema response formats, so fall back to JSON mode
+        console.warn('Structured output failed, falling back to JSON mode:', error);
+
+        const fallbackCompletion = await client.chat.completions.create({
+          model: config.model,
+          messages: [
+            {
+              role: 'system',
+              content: `${request.system} Return ONLY valid JSON matching this schema: ${JSON.stringify(toJsonSchema(request.schema, request.schemaName))}`
+            },
+            { role: 'user', content: request.prompt + '\n\nReturn ONLY valid JSON with no explanation.' }
+          ],
+          response_format: { type: 'json_object' },
+          ...temperatureFor(request),
+        });
+
+        const content = fallbackCompletion.choices[0]?.message.content;
+        if (!content) {
+          throw new Error(`Empty response from ${config.provider} API`);
+        }
+
+        try {
+          return request.schema.parse(parseJsonReply(content));
+        } catch (parseError) {
+          console.error('Failed to parse fallback response:', parseError);
+          throw new Error('Failed to parse response: ' + String(parseError));
+        }
+      }
+    }
+  };
+};
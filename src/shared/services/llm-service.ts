@@ -0,0 +1,308 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { LlmProvider, LlmProviderConfig, LlmProviderKind } from '@/shared/types/llm-provider';
+import { createOpenAiCompatibleProvider } from '@/shared/services/llm-providers/openai-compatible-provider';
+import { createAnthropicProvider } from '@/shared/services/llm-providers/anthropic-provider';
+import { HostService } from '@/shared/services/host-service';
+
+interface EnvVars {
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  CURSORCRAWL_LLM_PROVIDER?: string;
+  CURSORCRAWL_LLM_MODEL?: string;
+  CURSORCRAWL_LLM_BASE_URL?: string;
+  CURSORCRAWL_EMBEDDING_PROVIDER?: string;
+  CURSORCRAWL_EMBEDDING_MODEL?: string;
+  CURSORCRAWL_EMBEDDING_BASE_URL?: string;
+}
+
+// Constants
+const LLM_PROVIDERS: LlmProviderKind[] = ['openai', 'anthropic', 'ollama'];
+
+const DEFAULT_MODELS: Record<LlmProviderKind, string> = {
+  openai: 'o3-mini',
+  anthropic: 'claude-3-7-sonnet-latest',
+  ollama: 'llama3.1',
+};
+
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Settings key holding the API key for each provider that needs one
+ */
+const API_KEY_SETTINGS: Partial<Record<LlmProviderKind, string>> = {
+  openai: 'openaiApiKey',
+  anthropic: 'anthropicApiKey',
+};
+
+/**
+ * Display names used in user-facing messages
+ */
+const PROVIDER_DISPLAY_NAMES: Record<LlmProviderKind, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  ollama: 'Ollama',
+};
+
+/**
+ * Configuration for retry logic
+ */
+export interface RetryConfig {
+  /** Maximum number of retry attempts */
+  maxRetries: number;
+  /** Initial delay before first retry (in milliseconds) */
+  initialDelayMs: number;
+  /** Factor to multiply delay by after each retry */
+  backoffFactor: number;
+  /** Maximum delay between retries (in milliseconds) */
+  maxDelayMs: number;
+  /** Whether to log detailed retry information */
+  verbose: boolean;
+}
+
+/**
+ * Default retry configuration
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  backoffFactor: 2,
+  maxDelayMs: 10000,
+  verbose: true
+};
+
+/**
+ * Service for configuring LLM providers and running requests against them
+ */
+export const LlmService = {
+  /**
+   * Loads environment variables from .env.local file
+   * @param workspaceFolder - The workspace folder path
+   * @returns An object containing loaded environment variables
+   */
+  loadEnvironmentVars(workspaceFolder?: string): EnvVars {
+    // Try to load from .env.local in workspace root if provided
+    if (workspaceFolder) {
+      const envLocalPath = path.join(workspaceFolder, '.env.local');
+      if (fs.existsSync(envLocalPath)) {
+        const result = dotenv.config({ path: envLocalPath });
+        if (result.error) {
+          console.error('Error loading .env.local file:', result.error);
+        } else {
+          console.log('.env.local loaded successfully from workspace folder');
+        }
+      }
+    }
+
+    // Values missing from process.env fall back to the editor settings
+    const host = HostService.getAdapter();
+    const config = {
+      get: <T>(key: string) => host.getConfiguration<T | undefined>(key, undefined)
+    };
+
+    return {
+      OPENAI_API_KEY: process.env.OPENAI_API_KEY || config.get<string>('openaiApiKey'),
+      ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || config.get<string>('anthropicApiKey'),
+      CURSORCRAWL_LLM_PROVIDER: process.env.CURSORCRAWL_LLM_PROVIDER || config.get<string>('llmProvider'),
+      CURSORCRAWL_LLM_MODEL: process.env.CURSORCRAWL_LLM_MODEL || config.get<string>('llmModel'),
+      CURSORCRAWL_LLM_BASE_URL: process.env.CURSORCRAWL_LLM_BASE_URL || config.get<string>('llmBaseUrl'),
+      CURSORCRAWL_EMBEDDING_PROVIDER: process.env.CURSORCRAWL_EMBEDDING_PROVIDER || config.get<string>('embeddingProvider'),
+      CURSORCRAWL_EMBEDDING_MODEL: process.env.CURSORCRAWL_EMBEDDING_MODEL || config.get<string>('embeddingModel'),
+      CURSORCRAWL_EMBEDDING_BASE_URL: process.env.CURSORCRAWL_EMBEDDING_BASE_URL || config.get<string>('embeddingBaseUrl'),
+    };
+  },
+
+  /**
+   * Resolves the LLM provider configuration for a workspace
+   * @param workspaceFolder - The workspace folder path
+   * @returns The provider configuration
+   */
+  getProviderConfig(workspaceFolder?: string): LlmProviderConfig {
+    const envVars = this.loadEnvironmentVars(workspaceFolder);
+
+    const requestedProvider = (envVars.CURSORCRAWL_LLM_PROVIDER || 'openai').toLowerCase() as LlmProviderKind;
+    const provider = LLM_PROVIDERS.includes(requestedProvider) ? requestedProvider : 'openai';
+    if (provider !== requestedProvider) {
+      console.warn(`Unknown LLM provider "${requestedProvider}", falling back to openai`);
+    }
+
+    const apiKey = provider === 'openai'
+      ? envVars.OPENAI_API_KEY
+      : provider === 'anthropic' ? envVars.ANTHROPIC_API_KEY : undefined;
+
+    return {
+      provider,
+      model: envVars.CURSORCRAWL_LLM_MODEL || DEFAULT_MODELS[provider],
+      baseUrl: envVars.CURSORCRAWL_LLM_BASE_URL || (provider === 'ollama' ? DEFAULT_OLLAMA_BASE_URL : undefined),
+      apiKey,
+    };
+  },
+
+  /**
+   * Determines if a provider configuration still needs an API key
+   * Local servers (Ollama, or any custom base URL on the OpenAI-compatible provider) don't
+   * @param config - The provider configuration
+   * @returns Whether an API key is required but missing
+   */
+  isMissingApiKey(config: LlmProviderConfig): boolean {
+    if (config.apiKey) {
+      return false;
+    }
+
+    if (config.provider === 'ollama') {
+      return false;
+    }
+
+    return !(config.provider === 'openai' && config.baseUrl);
+  },
+
+  /**
+   * Gets the display name of a provider for user-facing messages
+   * @param provider - The provider backend
+   * @returns The display name
+   */
+  getDisplayName(provider: LlmProviderKind): string {
+    return PROVIDER_DISPLAY_NAMES[provider];
+  },
+
+  /**
+   * Asks the user for the API key of a provider and stores it in the global settings
+   * @param provider - The provider backend
+   * @returns The entered API key, or undefined if the user declined
+   */
+  async promptForApiKey(provider: LlmProviderKind): Promise<string | undefined> {
+    const settingKey = API_KEY_SETTINGS[provider];
+    if (!settingKey) {
+      return undefined;
+    }
+
+    const displayName = this.getDisplayName(provider);
+    const host = HostService.getAdapter();
+    const setKey = await host.showErrorMessage(
+      `${displayName} API key not found. Would you like to set it now?`,
+      'Yes', 'No'
+    );
+
+    if (setKey !== 'Yes') {
+      return undefined;
+    }
+
+    const apiKey = await host.showInputBox({
+      prompt: `Enter your ${displayName} API Key`,
+      password: true
+    });
+
+    if (apiKey) {
+      await host.updateConfiguration(settingKey, apiKey);
+    }
+
+    return apiKey || undefined;
+  },
+
+  /**
+   * Creates an LLM provider from a configuration
+   * @param config - The provider configuration
+   * @returns The LLM provider
+   */
+  createProvider(config: LlmProviderConfig): LlmProvider {
+    switch (config.provider) {
+      case 'anthropic':
+        return createAnthropicProvider(config);
+      case 'openai':
+      case 'ollama':
+      default:
+        return createOpenAiCompatibleProvider(config);
+    }
+  },
+
+  /**
+   * Creates the configured LLM provider for a workspace
+   * @param workspaceFolder - The workspace folder path
+   * @returns The LLM provider
+   * @throws Error if the provider requires an API key that isn't configured
+   */
+  createProviderForWorkspace(workspaceFolder?: string): LlmProvider {
+    const config = this.getProviderConfig(workspaceFolder);
+
+    if (this.isMissingApiKey(config)) {
+      throw new Error(`${this.getDisplayName(config.provider)} API key not found. Check your API key configuration.`);
+    }
+
+    return this.createProvider(config);
+  },
+
+  /**
+   * Executes a function with retry logic using exponential backoff
+   * @param operation - Async function to execute with retry logic
+   * @param retryConfig - Configuration for retry behavior
+   * @returns Promise resolving to the operation result
+   */
+  async withRetry<T>(
+    operation: () => Promise<T>,
+    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+  ): Promise<T> {
+    let lastError: unknown;
+    let delay = retryConfig.initialDelayMs;
+
+    for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
+      try {
+        if (attempt > 0 && retryConfig.verbose) {
+          console.log(`Retry attempt ${attempt}/${retryConfig.maxRetries} after ${delay}ms delay...`);
+        }
+
+        // Execute the operation
+        return await operation();
+      } catch (error) {
+        lastError = error;
+
+        // Check if we've reached max retries
+        if (attempt >= retryConfig.maxRetries) {
+          if (retryConfig.verbose) {
+            console.error(`All ${retryConfig.maxRetries} retry attempts failed.`);
+          }
+
+          // Enhance the error message to indicate retry exhaustion
+          if (error instanceof Error) {
+            error.message = `After ${retryConfig.maxRetries} retry attempts: ${error.message}`;
+            // Add a marker property to indicate this error persisted after retries
+            (error as any).retriesExhausted = true;
+          }
+
+          break;
+        }
+
+        // Check if error is retryable (5xx status codes are usually temporary server errors)
+        const isRetryable = error instanceof Error &&
+          (error.message.includes('500') ||
+           error.message.includes('502') ||
+           error.message.includes('503') ||
+           error.message.includes('504') ||
+           error.message.includes('529') ||
+           error.message.includes('rate limit') ||
+           error.message.includes('timeout'));
+
+        if (!isRetryable) {
+          if (retryConfig.verbose) {
+            console.error('Non-retryable error encountered:', error);
+          }
+          break;
+        }
+
+        // Log the error
+        if (retryConfig.verbose) {
+          console.warn(`Attempt ${attempt + 1} failed:`, error);
+        }
+
+        // Wait before retrying
+        await new Promise(resolve => setTimeout(resolve, delay));
+
+        // Increase delay for next retry using exponential backoff
+        delay = Math.min(delay * retryConfig.backoffFactor, retryConfig.maxDelayMs);
+      }
+    }
+
+    // If we got here, all retries failed
+    throw lastError;
+  }
+};
@@ -1,8 +1,9 @@
-import * as vscode from 'vscode';
 import { WorkspaceService } from '@/shared/services/workspace-service';
-import { FileSystemService, execAsync } from '@/shared/services/file-system-service';
+import { FileSystemService } from '@/shared/services/file-system-service';
 import { SymbolIndexService } from '@/shared/services/symbol-index-service';
-import { OpenAiService } from '@/shared/services/openai-service';
+import { LlmService } from '@/shared/services/llm-service';
+import { LlmProviderConfig } from '@/shared/types/llm-provider';
+import { HostService } from '@/shared/services/host-service';
 
 /**
  * Project initialization result type
@@ -11,7 +12,7 @@ export interface ProjectInitResult {
   rootPath: string;
   cursorCrawlDir: string;
   ignoredPatterns: string[];
-  openAiKey?: string;
+  llmConfig?: LlmProviderConfig;
 }
 
 /**
@@ -24,25 +25,26 @@ export const ProjectService = {
    * @returns Project initialization result
    */
   async initializeWorkspace({
-    checkOpenAi = false,
-    requireOpenAi = false,
+    checkLlm = false,
+    requireLlm = false,
     validateSymbolIndex = false,
   }: {
-    checkOpenAi?: boolean;
-    requireOpenAi?: boolean; 
+    checkLlm?: boolean;
+    requireLlm?: boolean; 
     validateSymbolIndex?: boolean;
   } = {}): Promise<ProjectInitResult> {
-    // Get the workspace folder
-    const rootPath = WorkspaceService.getWorkspaceFolder();
+    // Get the workspace folder, asking which one in multi-root workspaces
+    const rootPath = await WorkspaceService.pickWorkspaceFolder();
     if (!rootPath) {
-      throw new Error('No workspace folder found. Please open a folder first.');
+      // No folder is open (already reported) or the picker was cancelled
+      return { rootPath: '', cursorCrawlDir: '', ignoredPatterns: [] };
     }
 
     // Ensure the .cursorcrawl directory exists
     const cursorCrawlDir = await WorkspaceService.ensureCursorCrawlDir(rootPath);
 
-    // Parse .gitignore patterns
-    const ignoredPatterns = await FileSystemService.parseGitignore(rootPath);
+    // Read the .gitignore and .cursorcrawlignore rules
+    const ignoredPatterns = await FileSystemService.getIgnoreRules(rootPath);
 
     // Initialize result object
     const result: ProjectInitResult = {
@@ -51,38 +53,20 @@ export const ProjectService = {
       ignoredPatterns,
     };
 
-    // Check for OpenAI API key if requested
-    if (checkOpenAi) {
-      const envVars = OpenAiService.loadEnvironmentVars(rootPath);
-      result.openAiKey = envVars.OPENAI_API_KEY;
+    // Check the LLM provider configuration if requested
+    if (checkLlm) {
+      const llmConfig = LlmService.getProviderConfig(rootPath);
+      result.llmConfig = llmConfig;
 
-      if (requireOpenAi && !result.openAiKey) {
-        // Handle missing OpenAI key
-        const setKey = await vscode.window.showErrorMessage(
-          'OpenAI API key not found. Would you like to set it now?',
-          'Yes', 'No'
-        );
+      if (requireLlm && LlmService.isMissingApiKey(llmConfig)) {
+        // Handle missing API key
+        const apiKey = await LlmService.promptForApiKey(llmConfig.provider);
         
-        if (setKey === 'Yes') {
-          const apiKey = await vscode.window.showInputBox({
-            prompt: 'Enter your OpenAI API Key',
-            password: true,
-            ignoreFocusOut: true
-          });
-          
-          if (apiKey) {
-            await vscode.workspace.getConfiguration('cursorcrawl').update(
-              'openaiApiKey',
-              apiKey,
-              vscode.ConfigurationTarget.Global
-            );
-            result.openAiKey = apiKey;
-          } else if (requireOpenAi) {
-            throw new Error('OpenAI API key is required but was not provided');
-          }
-        } else if (requireOpenAi) {
-          throw new Error('OpenAI API key is required but was not provided');
+        if (!apiKey) {
+          throw new Error(`${LlmService.getDisplayName(llmConfig.provider)} API key is required but was not provided`);
         }
+        
+        llmConfig.apiKey = apiKey;
       }
     }
 
@@ -91,14 +75,14 @@ export const ProjectService = {
       const symbolIndexExists = await SymbolIndexService.symbolIndexExists(rootPath);
       
       if (!symbolIndexExists) {
-        const response = await vscode.window.showErrorMessage(
+        const response = await HostService.getAdapter().showErrorMessage(
           'Symbol index not found. Would you like to build the symbol index first?',
           'Yes', 'No'
         );
         
         if (response === 'Yes') {
           // Run build symbol index first
-          await vscode.commands.executeCommand('cursorcrawl.buildSymbolIndex');
+          await HostService.getAdapter().executeCommand('cursorcrawl.buildSymbolIndex', rootPath);
         } else {
           throw new Error('Symbol index is required but does not exist');
         }
@@ -109,34 +93,22 @@ export const ProjectService = {
   },
 
   /**
-   * Generates a project tree respecting .gitignore rules
+   * Generates a project tree respecting the ignore rules
    * @param rootPath - The workspace root path
    * @param ignoredPatterns - Patterns to ignore
    * @returns Tree content as a string
    */
   async generateProjectTree(rootPath: string, ignoredPatterns: string[]): Promise<string> {
-    try {
-      // Use git ls-files to get a list of files not ignored by gitignore
-      const { stdout } = await execAsync('git ls-files', { cwd: rootPath });
-      const files = stdout.split('\n').filter(Boolean);
-      
-      // Build the tree structure
-      const tree = FileSystemService.buildTreeFromPaths(files);
-      return FileSystemService.formatTree(tree);
-    } catch (error) {
-      console.error('Error using git ls-files, using fallback method:', error);
-      
-      // Get all project files
-      const projectFiles = await FileSystemService.getProjectFiles(rootPath, ignoredPatterns);
-      
-      // Convert to relative paths
-      const relativePaths = projectFiles.map(file => 
-        FileSystemService.normalizeFilePath(file, rootPath)
-      );
-      
-      // Build and format the tree
-      const tree = FileSystemService.buildTreeFromPaths(relativePaths);
-      return FileSystemService.formatTree(tree);
-    }
+    // Get all project files, from git ls-files when available
+    const projectFiles = await FileSystemService.getProjectFiles(rootPath, ignoredPatterns);
+    
+    // Convert to relative paths
+    const relativePaths = projectFiles.map(file => 
+      FileSystemService.normalizeFilePath(file, rootPath)
+    );
+    
+    // Build and format the tree
+    const tree = FileSystemService.buildTreeFromPaths(relativePaths);
+    return FileSystemService.formatTree(tree);
   }
 }; 
\ No newline at end of file
@@ -1,17 +1,20 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { SymbolIndex } from '@/shared/types/symbol-index';
+import { DependencyKind, SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { HostService } from '@/shared/services/host-service';
 import { WorkspaceService } from '@/shared/services/workspace-service';
+import { SymbolStoreService } from '@/shared/services/symbol-store-service';
 
 // Constants
 const SYMBOL_INDEX_FILENAME = 'symbol-index.json';
 
 /**
  * Service for handling symbol index operations
+ * The index is stored in SQLite (see SymbolStoreService); symbol-index.json is an export of it
  */
 export const SymbolIndexService = {
   /**
-   * Gets the path to the symbol index file
+   * Gets the path to the exported symbol index JSON file
    * @param rootPath - The workspace root path
    * @returns The path to the symbol index file
    */
@@ -20,20 +23,63 @@ export const SymbolIndexService = {
   },
 
   /**
-   * Reads the symbol index from disk
+   * Determines if symbol-index.json should be rewritten whenever the index changes
+   * @returns Whether the JSON export is enabled
+   */
+  isJsonExportEnabled(): boolean {
+    return HostService.getAdapter().getConfiguration<boolean>('writeSymbolIndexJson', true);
+  },
+
+  /**
+   * Determines if context, cursor rules and the graph should only show the public API
+   * @returns Whether the public API filter is enabled
+   */
+  isPublicApiOnly(): boolean {
+    return HostService.getAdapter().getConfiguration<boolean>('publicApiOnly', false);
+  },
+
+  /**
+   * Gets the kinds of edges extracted context follows to related files
+   * @returns The edge kinds, empty to follow every edge
+   */
+  getContextEdgeKinds(): DependencyKind[] {
+    return HostService.getAdapter().getConfiguration<DependencyKind[]>('contextEdgeKinds', []);
+  },
+
+  /**
+   * Checks if a symbol is part of its module's public API
+   * Exported and re-exported symbols are public, and so are the public members of exported classes and object-literal services
+   * @param symbol - The symbol
+   * @param fileSymbols - Symbols of the symbol's file, to look up the parent of a `Parent.member` symbol
+   * @returns Whether the symbol is public
+   */
+  isPublicApi(symbol: SymbolIndexEntry, fileSymbols: SymbolIndexEntry[]): boolean {
+    if (symbol.visibility === 'private' || symbol.visibility === 'protected') {
+      return false;
+    }
+    if (symbol.exported || symbol.reExportedBy?.length) {
+      return true;
+    }
+    if (symbol.type === 'method' || symbol.type === 'property') {
+      const parentName = symbol.name.slice(0, symbol.name.indexOf('.'));
+      const parentSymbol = fileSymbols.find(candidate => candidate.name === parentName && candidate.type !== 'method' && candidate.type !== 'property');
+      return !!parentSymbol && this.isPublicApi(parentSymbol, fileSymbols);
+    }
+    return false;
+  },
+
+  /**
+   * Reads the symbol index from the symbol store
    * @param rootPath - The workspace root path
    * @returns The symbol index, or undefined if it doesn't exist
    */
   async readSymbolIndex(rootPath: string): Promise<SymbolIndex | undefined> {
     try {
-      const indexPath = this.getSymbolIndexPath(rootPath);
-      
-      if (!await fs.pathExists(indexPath)) {
+      if (!await this.symbolIndexExists(rootPath)) {
         return undefined;
       }
       
-      const content = await fs.readFile(indexPath, 'utf8');
-      return JSON.parse(content) as SymbolIndex;
+      return await SymbolStoreService.readSymbolIndex(rootPath);
     } catch (error) {
       console.error('Error reading symbol index:', error);
       return undefined;
@@ -41,34 +87,75 @@ export const SymbolIndexService = {
   },
 
   /**
-   * Writes the symbol index to disk
+   * Writes the symbol index to the symbol store, only touching files that changed
    * @param rootPath - The workspace root path
    * @param symbolIndex - The symbol index to write
    */
   async writeSymbolIndex(rootPath: string, symbolIndex: SymbolIndex): Promise<void> {
     try {
-      await WorkspaceService.ensureCursorCrawlDir(rootPath);
-      const indexPath = this.getSymbolIndexPath(rootPath);
-      await fs.writeJson(indexPath, symbolIndex, { spaces: 2 });
-      console.log(`Symbol index written to ${indexPath}`);
+      const changedFiles = await SymbolStoreService.syncSymbolIndex(rootPath, symbolIndex);
+      console.log(`Symbol store updated (${changedFiles} files changed)`);
+      
+      const jsonOutdated = changedFiles > 0 || !await fs.pathExists(this.getSymbolIndexPath(rootPath));
+      if (jsonOutdated && this.isJsonExportEnabled()) {
+        await this.exportSymbolIndexJson(rootPath, symbolIndex);
+      }
     } catch (error) {
       console.error('Error writing symbol index:', error);
       throw error;
     }
   },
 
+  /**
+   * Exports the symbol index to symbol-index.json for tools that read the JSON format
+   * @param rootPath - The workspace root path
+   * @param symbolIndex - The symbol index to export (read from the store if omitted)
+   * @returns The path to the exported file
+   */
+  async exportSymbolIndexJson(rootPath: string, symbolIndex?: SymbolIndex): Promise<string> {
+    const index = symbolIndex ?? await this.getSymbolIndexOrThrow(rootPath);
+    
+    await WorkspaceService.ensureCursorCrawlDir(rootPath);
+    const indexPath = this.getSymbolIndexPath(rootPath);
+    await this.writeSymbolIndexJson(indexPath, index);
+    console.log(`Symbol index written to ${indexPath}`);
+    
+    return indexPath;
+  },
+
+  /**
+   * Writes a symbol index as JSON one file at a time, in the same format as `JSON.stringify(index, null, 2)`
+   * Large indexes would otherwise be serialized to a single string, which V8 limits to about 512 MB
+   * @param outputPath - Path of the JSON file
+   * @param symbolIndex - The symbol index to write
+   */
+  async writeSymbolIndexJson(outputPath: string, symbolIndex: SymbolIndex): Promise<void> {
+    const handle = await fs.open(outputPath, 'w');
+    try {
+      const filePaths = Object.keys(symbolIndex);
+      await fs.write(handle, '{');
+      for (let i = 0; i < filePaths.length; i++) {
+        const entries = JSON.stringify(symbolIndex[filePaths[i]], null, 2).replace(/\n/g, '\n  ');
+        await fs.write(handle, `${i > 0 ? ',' : ''}\n  ${JSON.stringify(filePaths[i])}: ${entries}`);
+      }
+      await fs.write(handle, filePaths.length > 0 ? '\n}\n' : '}\n');
+    } finally {
+      await fs.close(handle);
+    }
+  },
+
   /**
    * Checks if the symbol index exists
    * @param rootPath - The workspace root path
    * @returns Whether the symbol index exists
    */
   async symbolIndexExists(rootPath: string): Promise<boolean> {
-    const indexPath = this.getSymbolIndexPath(rootPath);
-    return fs.pathExists(indexPath);
+    // A legacy JSON index counts, since it's imported when the store is first opened
+    return await SymbolStoreService.storeExists(rootPath) || fs.pathExists(this.getSymbolIndexPath(rootPath));
   },
 
   /**
-   * Gets the symbol index, reading it from disk if needed
+   * Gets the symbol index, reading it from the symbol store if needed
    * Either returns the symbol index or throws an error
    * @param rootPath - The workspace root path
    * @param errorMessage - Optional custom error message when index doesn't exist
@@ -0,0 +1,890 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import initSqlJs from 'sql.js';
+import { DependencyKind, SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+import { WorkspaceService } from '@/shared/services/workspace-service';
+import { isDocstringStale } from '@/shared/utils/snippet-hash';
+
+type Database = initSqlJs.Database;
+type SqlValue = initSqlJs.SqlValue;
+
+// Constants
+const SYMBOL_STORE_FILENAME = 'symbol-index.sqlite';
+const LEGACY_SYMBOL_INDEX_FILENAME = 'symbol-index.json';
+const SCHEMA_VERSION = '7';
+
+const SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS files (
+    file_path TEXT PRIMARY KEY,
+    content_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS symbols (
+    id INTEGER PRIMARY KEY,
+    file_path TEXT NOT NULL,
+    ordinal INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    character INTEGER NOT NULL,
+    snippet TEXT NOT NULL,
+    props TEXT,
+    emits TEXT,
+    props_type TEXT,
+    exported TEXT,
+    re_exported_by TEXT,
+    visibility TEXT,
+    is_static INTEGER,
+    is_async INTEGER,
+    signature TEXT,
+    snippet_hash TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_symbols_file ON symbols(file_path);
+  CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name);
+  CREATE TABLE IF NOT EXISTS docstrings (
+    symbol_id INTEGER PRIMARY KEY,
+    docstring TEXT NOT NULL,
+    snippet_hash TEXT
+  );
+  CREATE TABLE IF NOT EXISTS edges (
+    id INTEGER PRIMARY KEY,
+    symbol_id INTEGER NOT NULL,
+    direction TEXT NOT NULL,
+    ordinal INTEGER NOT NULL,
+    target_name TEXT NOT NULL,
+    target_file_path TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    context_snippet TEXT,
+    target_root TEXT,
+    kind TEXT,
+    call_sites TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_edges_symbol ON edges(symbol_id);
+  CREATE INDEX IF NOT EXISTS idx_edges_target ON edges(target_file_path, target_name);
+  CREATE TABLE IF NOT EXISTS scores (
+    file_path TEXT NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    score_type TEXT NOT NULL,
+    score REAL NOT NULL,
+    related_file_path TEXT,
+    related_name TEXT,
+    PRIMARY KEY (file_path, name, type, score_type)
+  );
+  CREATE TABLE IF NOT EXISTS embeddings (
+    file_path TEXT NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    model TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    vector BLOB NOT NULL,
+    PRIMARY KEY (file_path, name, type, model)
+  );
+`;
+
+/**
+ * A score attached to a symbol, e.g. the duplicate analysis result
+ */
+export interface StoredScore {
+  /**
+   * Path to the file containing the symbol
+   */
+  filePath: string;
+
+  /**
+   * Name of the symbol
+   */
+  name: string;
+
+  /**
+   * Type of the symbol
+   */
+  type: string;
+
+  /**
+   * Kind of score (e.g. "duplicateAnalysis")
+   */
+  scoreType: string;
+
+  /**
+   * Score value
+   */
+  score: number;
+
+  /**
+   * Path to the file of a related symbol (e.g. the likely duplicate)
+   */
+  relatedFilePath?: string;
+
+  /**
+   * Name of a related symbol (e.g. the likely duplicate)
+   */
+  relatedName?: string;
+}
+
+/**
+ * An embedding vector cached for a symbol
+ */
+export interface StoredEmbedding {
+  /**
+   * Path to the file containing the symbol
+   */
+  filePath: string;
+
+  /**
+   * Name of the symbol
+   */
+  name: string;
+
+  /**
+   * Type of the symbol
+   */
+  type: string;
+
+  /**
+   * Hash of the embedded text, used to detect when the vector is stale
+   */
+  contentHash: string;
+
+  /**
+   * The embedding vector
+   */
+  vector: Float32Array;
+}
+
+// Open databases, keyed by workspace root, shared by every caller in the extension host
+const openStores = new Map<string, Promise<Database>>();
+
+/**
+ * An open database, the version of the file it holds and the changes made to it since
+ */
+interface StoreState {
+  db: Database;
+
+  /**
+   * Modification time and size of the file when it was last read or written, undefined if there was no file
+   */
+  fileStamp?: string;
+
+  /**
+   * Changes not written yet, applied again on top of the file if another process wrote it in the meantime
+   */
+  pendingChanges: Array<(db: Database) => void>;
+}
+
+// The extension host, the CLI and the MCP server each hold their own copy of a store, so each copy
+// records which version of the file it holds, to pick up the writes of the others
+const storeStates = new Map<string, StoreState>();
+
+// How long a write waits for more changes to batch with, like a burst of file-watcher saves
+const PERSIST_DELAY_MS = 200;
+
+// The write in progress and the one waiting after it, per workspace root, so writes of a store never overlap
+const storeWrites = new Map<string, { running?: Promise<void>; queued?: Promise<void> }>();
+
+/**
+ * Reads all rows of a query as objects
+ * @param db - The database
+ * @param sql - The query
+ * @param params - Query parameters
+ * @returns The result rows
+ */
+const queryRows = (db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] => {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Record<string, SqlValue>[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+};
+
+/**
+ * Service for the SQLite-backed symbol store
+ * Symbols, dependency edges, docstrings, scores and embeddings are stored in separate tables
+ * so single files can be updated without rewriting the whole index
+ */
+export const SymbolStoreService = {
+  /**
+   * Gets the path to the symbol store database
+   * @param rootPath - The workspace root path
+   * @returns The path to the database file
+   */
+  getStorePath(rootPath: string): string {
+    return path.join(WorkspaceService.getCursorCrawlDir(rootPath), SYMBOL_STORE_FILENAME);
+  },
+
+  /**
+   * Checks if the symbol store database exists
+   * @param rootPath - The workspace root path
+   * @returns Whether the database file exists
+   */
+  async storeExists(rootPath: string): Promise<boolean> {
+    return openStores.has(rootPath) || fs.pathExists(this.getStorePath(rootPath));
+  },
+
+  /**
+   * Opens the symbol store for a workspace, creating it if needed
+   * A legacy symbol-index.json is imported the first time the store is created, and a store
+   * another process wrote since it was read is read again
+   * @param rootPath - The workspace root path
+   * @returns The open database
+   */
+  openStore(rootPath: string): Promise<Database> {
+    const openedStore = openStores.get(rootPath);
+    if (openedStore) {
+      return openedStore.then(async db => {
+        if (!await this.isChangedOnDisk(rootPath)) {
+          return db;
+        }
+        // The first caller to notice drops the stale copy, the others wait for the copy it loads
+        if (openStores.get(rootPath) === openedStore) {
+          await this.closeStore(rootPath);
+        }
+        return this.openStore(rootPath);
+      });
+    }
+
+    const store = this.loadStore(rootPath);
+    openStores.set(rootPath, store);
+    // Allow a retry on the next call if opening failed
+    store.catch(() => openStores.delete(rootPath));
+    return store;
+  },
+
+  /**
+   * Gets the version of a store file, to tell whether another process wrote it
+   * @param filePath - The database file path
+   * @returns The modification time and size of the file, or undefined if there is none
+   */
+  async getFileStamp(filePath: string): Promise<string | undefined> {
+    const stats = await fs.stat(filePath).catch(() => undefined);
+    return stats && `${stats.mtimeMs}:${stats.size}`;
+  },
+
+  /**
+   * Checks if another process wrote the store file since the open copy was read or written
+   * A copy with changes still to write is kept, its write applies them on top of the other version
+   * @param rootPath - The workspace root path
+   * @returns Whether the open copy should be read again
+   */
+  async isChangedOnDisk(rootPath: string): Promise<boolean> {
+    const state = storeStates.get(rootPath);
+    if (!state || state.pendingChanges.length > 0 || storeWrites.has(rootPath)) {
+      return false;
+    }
+    return await this.getFileStamp(this.getStorePath(rootPath)) !== state.fileStamp;
+  },
+
+  /**
+   * Closes the cached database so the next call reloads it from disk
+   * Used by processes that only read a store another process writes to
+   * @param rootPath - The workspace root path
+   */
+  async closeStore(rootPath: string): Promise<void> {
+    const store = openStores.get(rootPath);
+    if (!store) {
+      return;
+    }
+
+    openStores.delete(rootPath);
+    storeStates.delete(rootPath);
+    try {
+      (await store).close();
+    } catch (error) {
+      // The store failed to open, so there is nothing to close
+    }
+  },
+
+  /**
+   * Loads the database file from disk or initializes a new one
+   * @param rootPath - The workspace root path
+   * @returns The loaded database
+   */
+  async loadStore(rootPath: string): Promise<Database> {
+    const { db, fileStamp } = await this.readStoreFile(rootPath);
+    storeStates.set(rootPath, { db, fileStamp, pendingChanges: [] });
+    if (fileStamp) {
+      return db;
+    }
+
+    // Migrate an existing JSON index so docstrings aren't lost on upgrade
+    const legacyPath = path.join(WorkspaceService.getCursorCrawlDir(rootPath), LEGACY_SYMBOL_INDEX_FILENAME);
+    if (await fs.pathExists(legacyPath)) {
+      try {
+        const legacyIndex = await fs.readJson(legacyPath) as SymbolIndex;
+        this.applyChange(rootPath, db, target => {
+          for (const [filePath, entries] of Object.entries(legacyIndex)) {
+            this.writeFileRows(target, filePath, entries);
+          }
+        });
+        await this.persist(rootPath);
+        console.log(`Imported ${Object.keys(legacyIndex).length} files from ${legacyPath} into the symbol store`);
+      } catch (error) {
+        console.error('Error importing legacy symbol index:', error);
+      }
+    }
+
+    return db;
+  },
+
+  /**
+   * Reads the database file, or initializes a new database if there is none
+   * @param rootPath - The workspace root path
+   * @returns The database and the version of the file it was read from
+   */
+  async readStoreFile(rootPath: string): Promise<{ db: Database; fileStamp?: string }> {
+    // The wasm binary is copied next to the bundled extension by esbuild.js, the compiled tests load it from the package
+    const SQL = await initSqlJs({
+      locateFile: (file: string) => {
+        const bundledPath = path.join(__dirname, file);
+        return fs.existsSync(bundledPath) ? bundledPath : require.resolve(`sql.js/dist/${file}`);
+      }
+    });
+
+    // Stamped before reading, so a write landing in between is picked up on the next open
+    const storePath = this.getStorePath(rootPath);
+    const fileStamp = await this.getFileStamp(storePath);
+    if (fileStamp) {
+      const db = new SQL.Database(await fs.readFile(storePath));
+      db.exec(SCHEMA_SQL);
+      this.migrateSchema(db);
+      return { db, fileStamp };
+    }
+
+    const db = new SQL.Database();
+    db.exec(SCHEMA_SQL);
+    db.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', ['schemaVersion', SCHEMA_VERSION]);
+    return { db };
+  },
+
+  /**
+   * Applies a change to an open store in a transaction, and keeps it until the store is written
+   * @param rootPath - The workspace root path
+   * @param db - The open database
+   * @param change - The writes, made to the database it is given
+   */
+  applyChange(rootPath: string, db: Database, change: (db: Database) => void): void {
+    this.runInTransaction(db, () => change(db));
+    storeStates.get(rootPath)?.pendingChanges.push(change);
+  },
+
+  /**
+   * Writes the database to disk
+   * sql.js can only export the whole database, so changes made while a write is pending or running
+   * are batched into a single write after it, instead of exporting the store once per change
+   * @param rootPath - The workspace root path
+   * @returns Resolves once a write including the current changes is on disk
+   */
+  persist(rootPath: string): Promise<void> {
+    const writes = storeWrites.get(rootPath) ?? {};
+    if (writes.queued) {
+      return writes.queued;
+    }
+
+    const previous = writes.running ?? Promise.resolve();
+    const write: Promise<void> = previous
+      .catch(() => undefined)
+      .then(() => new Promise(resolve => setTimeout(resolve, PERSIST_DELAY_MS)))
+      .then(() => {
+        // The export below takes the changes made so far, later ones need another write
+        writes.queued = undefined;
+        writes.running = write;
+        return this.writeStoreFile(rootPath);
+      })
+      .finally(() => {
+        if (writes.running === write) {
+          writes.running = undefined;
+        }
+        if (!writes.running && !writes.queued) {
+          storeWrites.delete(rootPath);
+        }
+      });
+
+    writes.queued = write;
+    storeWrites.set(rootPath, writes);
+    return write;
+  },
+
+  /**
+   * Exports the database to its file
+   * If another process wrote the file since it was read, its version is loaded and the pending changes are
+   * applied on top of it, so the write doesn't discard what the other process stored
+   * @param rootPath - The workspace root path
+   */
+  async writeStoreFile(rootPath: string): Promise<void> {
+    const state = storeStates.get(rootPath);
+    if (!state) {
+      return;
+    }
+
+    await WorkspaceService.ensureCursorCrawlDir(rootPath);
+    const storePath = this.getStorePath(rootPath);
+
+    if (await this.getFileStamp(storePath) !== state.fileStamp) {
+      const { db, fileStamp } = await this.readStoreFile(rootPath);
+      if (storeStates.get(rootPath) !== state) {
+        db.close();
+        return;
+      }
+      for (const change of state.pendingChanges) {
+        this.runInTransaction(db, () => change(db));
+      }
+      state.db.close();
+      state.db = db;
+      state.fileStamp = fileStamp;
+      openStores.set(rootPath, Promise.resolve(db));
+    }
+
+    // Write to a temporary file first so a crash never leaves a truncated database. The name is unique,
+    // so the CLI or MCP server writing the same store at the same time can't interleave with this write
+    const tempPath = `${storePath}.${process.pid}-${crypto.randomBytes(4).toString('hex')}.tmp`;
+    const writtenChanges = state.pendingChanges.length;
+    try {
+      await fs.writeFile(tempPath, state.db.export());
+      // Renaming keeps the modification time, so the stamp of the temporary file is the one of the store
+      const fileStamp = await this.getFileStamp(tempPath);
+      await fs.move(tempPath, storePath, { overwrite: true });
+      state.fileStamp = fileStamp;
+      state.pendingChanges.splice(0, writtenChanges);
+    } catch (error) {
+      await fs.remove(tempPath);
+      throw error;
+    }
+  },
+
+  /**
+   * Runs a function inside a transaction, rolling back if it throws
+   * @param db - The database
+   * @param operation - The writes to run
+   */
+  runInTransaction(db: Database, operation: () => void): void {
+    db.exec('BEGIN TRANSACTION');
+    try {
+      operation();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  },
+
+  /**
+   * Upgrades a store written by an older version in place
+   * @param db - The database
+   */
+  migrateSchema(db: Database): void {
+    // Version 2 records the workspace folder of cross-root edges
+    const edgeColumns = queryRows(db, 'PRAGMA table_info(edges)').map(row => row.name);
+    if (!edgeColumns.includes('target_root')) {
+      db.run('ALTER TABLE edges ADD COLUMN target_root TEXT');
+    }
+
+    // Version 3 records the props and emitted events of components, as JSON arrays
+    const symbolColumns = queryRows(db, 'PRAGMA table_info(symbols)').map(row => row.name);
+    if (!symbolColumns.includes('props')) {
+      db.run('ALTER TABLE symbols ADD COLUMN props TEXT');
+      db.run('ALTER TABLE symbols ADD COLUMN emits TEXT');
+    }
+
+    // Version 4 records the props type of React components. Rendered components are edges in the 'renders' direction
+    if (!symbolColumns.includes('props_type')) {
+      db.run('ALTER TABLE symbols ADD COLUMN props_type TEXT');
+    }
+
+    // Version 5 records exports, modifiers and signatures. Re-exporting files are a JSON array
+    if (!symbolColumns.includes('signature')) {
+      db.run('ALTER TABLE symbols ADD COLUMN exported TEXT');
+      db.run('ALTER TABLE symbols ADD COLUMN re_exported_by TEXT');
+      db.run('ALTER TABLE symbols ADD COLUMN visibility TEXT');
+      db.run('ALTER TABLE symbols ADD COLUMN is_static INTEGER');
+      db.run('ALTER TABLE symbols ADD COLUMN is_async INTEGER');
+      db.run('ALTER TABLE symbols ADD COLUMN signature TEXT');
+    }
+
+    // Version 6 records the kind of each edge and its call sites, as a JSON array
+    if (!edgeColumns.includes('kind')) {
+      db.run('ALTER TABLE edges ADD COLUMN kind TEXT');
+      db.run('ALTER TABLE edges ADD COLUMN call_sites TEXT');
+    }
+
+    // Version 7 records the snippet hash of each symbol, and of the code its docstring was written for
+    if (!symbolColumns.includes('snippet_hash')) {
+      db.run('ALTER TABLE symbols ADD COLUMN snippet_hash TEXT');
+      db.run('ALTER TABLE docstrings ADD COLUMN snippet_hash TEXT');
+    }
+    db.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', ['schemaVersion', SCHEMA_VERSION]);
+  },
+
+  /**
+   * Computes the content hash used to skip unchanged files
+   * @param entries - The file's symbol entries
+   * @returns The hash
+   */
+  hashEntries(entries: SymbolIndexEntry[]): string {
+    return crypto.createHash('sha1').update(JSON.stringify(entries)).digest('hex');
+  },
+
+  /**
+   * Deletes every row belonging to a file
+   * @param db - The database
+   * @param filePath - Normalized path of the file
+   */
+  deleteFileRows(db: Database, filePath: string): void {
+    db.run('DELETE FROM edges WHERE symbol_id IN (SELECT id FROM symbols WHERE file_path = ?)', [filePath]);
+    db.run('DELETE FROM docstrings WHERE symbol_id IN (SELECT id FROM symbols WHERE file_path = ?)', [filePath]);
+    db.run('DELETE FROM symbols WHERE file_path = ?', [filePath]);
+    db.run('DELETE FROM files WHERE file_path = ?', [filePath]);
+  },
+
+  /**
+   * Replaces the rows of a file with the given entries
+   * Must be called inside a transaction
+   * @param db - The database
+   * @param filePath - Normalized path of the file
+   * @param entries - The file's symbol entries
+   */
+  writeFileRows(db: Database, filePath: string, entries: SymbolIndexEntry[]): void {
+    this.deleteFileRows(db, filePath);
+    db.run('INSERT INTO files (file_path, content_hash) VALUES (?, ?)', [filePath, this.hashEntries(entries)]);
+
+    const insertSymbol = db.prepare(
+      'INSERT INTO symbols (file_path, ordinal, name, type, line, character, snippet, props, emits, props_type, ' +
+      'exported, re_exported_by, visibility, is_static, is_async, signature, snippet_hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    const insertDocstring = db.prepare('INSERT INTO docstrings (symbol_id, docstring, snippet_hash) VALUES (?, ?, ?)');
+    const insertEdge = db.prepare(
+      'INSERT INTO edges (symbol_id, direction, ordinal, target_name, target_file_path, line, context_snippet, target_root, kind, call_sites) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+
+    try {
+      entries.forEach((entry, ordinal) => {
+        insertSymbol.run([
+          filePath, ordinal, entry.name, entry.type,
+          entry.location.line, entry.location.character, entry.snippet || '',
+          entry.props ? JSON.stringify(entry.props) : null,
+          entry.emits ? JSON.stringify(entry.emits) : null,
+          entry.propsType ?? null,
+          entry.exported ?? null,
+          entry.reExportedBy?.length ? JSON.stringify(entry.reExportedBy) : null,
+          entry.visibility ?? null,
+          entry.isStatic ? 1 : null,
+          entry.isAsync ? 1 : null,
+          entry.signature ?? null,
+          entry.snippetHash ?? null
+        ]);
+        const symbolId = db.exec('SELECT last_insert_rowid()')[0].values[0][0];
+
+        if (entry.docstring) {
+          insertDocstring.run([symbolId, entry.docstring, entry.docstringHash ?? null]);
+        }
+
+        entry.depends_on.forEach((dependency, index) => {
+          insertEdge.run([
+            symbolId, 'depends_on', index, dependency.name, dependency.filePath, dependency.line, null,
+            dependency.root ?? null, dependency.kind ?? null,
+            dependency.callSites ? JSON.stringify(dependency.callSites) : null
+          ]);
+        });
+
+        entry.dependents.forEach((dependent, index) => {
+          insertEdge.run([
+            symbolId, 'dependent', index, dependent.name, dependent.filePath, dependent.line,
+            dependent.contextSnippet ?? null, dependent.root ?? null, dependent.kind ?? null,
+            dependent.callSites ? JSON.stringify(dependent.callSites) : null
+          ]);
+        });
+
+        entry.renders?.forEach((child, index) => {
+          insertEdge.run([
+            symbolId, 'renders', index, child.name, child.filePath, child.line, null, child.root ?? null, null, null
+          ]);
+        });
+      });
+    } finally {
+      insertSymbol.free();
+      insertDocstring.free();
+      insertEdge.free();
+    }
+  },
+
+  /**
+   * Upserts the given files in a single transaction
+   * Files whose entries are unchanged since the last write are skipped
+   * @param rootPath - The workspace root path
+   * @param files - Map of normalized file paths to their symbol entries
+   * @param removedFiles - Normalized paths of files to remove from the store
+   * @returns The number of files written or removed
+   */
+  async upsertFiles(rootPath: string, files: SymbolIndex, removedFiles: string[] = []): Promise<number> {
+    const db = await this.openStore(rootPath);
+
+    const storedHashes = new Map<string, string>();
+    for (const row of queryRows(db, 'SELECT file_path, content_hash FROM files')) {
+      storedHashes.set(row.file_path as string, row.content_hash as string);
+    }
+
+    const removed = removedFiles.filter(filePath => storedHashes.has(filePath));
+    const changed = Object.keys(files).filter(filePath => storedHashes.get(filePath) !== this.hashEntries(files[filePath]));
+    if (removed.length === 0 && changed.length === 0) {
+      return 0;
+    }
+
+    this.applyChange(rootPath, db, target => {
+      for (const filePath of removed) {
+        this.deleteFileRows(target, filePath);
+      }
+      for (const filePath of changed) {
+        this.writeFileRows(target, filePath, files[filePath]);
+      }
+    });
+    await this.persist(rootPath);
+
+    return removed.length + changed.length;
+  },
+
+  /**
+   * Makes the store match a complete symbol index
+   * Only files that were added, changed or removed are written
+   * @param rootPath - The workspace root path
+   * @param symbolIndex - The complete symbol index
+   * @returns The number of files written or removed
+   */
+  async syncSymbolIndex(rootPath: string, symbolIndex: SymbolIndex): Promise<number> {
+    const db = await this.openStore(rootPath);
+    const removedFiles = queryRows(db, 'SELECT file_path FROM files')
+      .map(row => row.file_path as string)
+      .filter(filePath => !(filePath in symbolIndex));
+
+    return this.upsertFiles(rootPath, symbolIndex, removedFiles);
+  },
+
+  /**
+   * Reads symbol entries from the store
+   * @param rootPath - The workspace root path
+   * @param filePaths - Optional normalized paths to restrict the read to
+   * @returns The symbol index (only the requested files if filePaths is given)
+   */
+  async readSymbolIndex(rootPath: string, filePaths?: string[]): Promise<SymbolIndex> {
+    const db = await this.openStore(rootPath);
+    const fileFilter = filePaths
+      ? `WHERE s.file_path IN (${filePaths.map(() => '?').join(', ')})`
+      : '';
+    const params = filePaths ?? [];
+
+    const symbolIndex: SymbolIndex = {};
+    const symbolsById = new Map<number, SymbolIndexEntry>();
+
+    const symbolRows = queryRows(
+      db,
+      `SELECT s.id, s.file_path, s.name, s.type, s.line, s.character, s.snippet, s.props, s.emits, s.props_type,
+              s.exported, s.re_exported_by, s.visibility, s.is_static, s.is_async, s.signature, s.snippet_hash,
+              d.docstring, d.snippet_hash AS docstring_hash
+       FROM symbols s LEFT JOIN docstrings d ON d.symbol_id = s.id
+       ${fileFilter}
+       ORDER BY s.file_path, s.ordinal`,
+      params
+    );
+
+    for (const row of symbolRows) {
+      const filePath = row.file_path as string;
+      const entry: SymbolIndexEntry = {
+        name: row.name as string,
+        type: row.type as SymbolIndexEntry['type'],
+        filePath,
+        location: { line: row.line as number, character: row.character as number },
+        docstring: (row.docstring as string | null) ?? '',
+        snippet: row.snippet as string,
+        ...(row.snippet_hash !== null ? { snippetHash: row.snippet_hash as string } : {}),
+        ...(row.docstring_hash !== null && row.docstring_hash !== undefined ? { docstringHash: row.docstring_hash as string } : {}),
+        ...(isDocstringStale(row.docstring_hash as string | undefined, row.snippet_hash as string | undefined) ? { stale: true } : {}),
+        ...(row.exported !== null ? { exported: row.exported as SymbolIndexEntry['exported'] } : {}),
+        ...(row.re_exported_by !== null ? { reExportedBy: JSON.parse(row.re_exported_by as string) } : {}),
+        ...(row.visibility !== null ? { visibility: row.visibility as SymbolIndexEntry['visibility'] } : {}),
+        ...(row.is_static ? { isStatic: true } : {}),
+        ...(row.is_async ? { isAsync: true } : {}),
+        ...(row.signature !== null ? { signature: row.signature as string } : {}),
+        ...(row.props !== null ? { props: JSON.parse(row.props as string) } : {}),
+        ...(row.props_type !== null ? { propsType: row.props_type as string } : {}),
+        ...(row.emits !== null ? { emits: JSON.parse(row.emits as string) } : {}),
+        dependents: [],
+        depends_on: []
+      };
+
+      (symbolIndex[filePath] ??= []).push(entry);
+      symbolsById.set(row.id as number, entry);
+    }
+
+    const edgeRows = queryRows(
+      db,
+      `SELECT e.symbol_id, e.direction, e.target_name, e.target_file_path, e.line, e.context_snippet, e.target_root, e.kind, e.call_sites
+       FROM edges e JOIN symbols s ON s.id = e.symbol_id
+       ${fileFilter}
+       ORDER BY e.symbol_id, e.direction, e.ordinal`,
+      params
+    );
+
+    for (const row of edgeRows) {
+      const entry = symbolsById.get(row.symbol_id as number);
+      if (!entry) {
+        continue;
+      }
+
+      if (row.direction === 'depends_on') {
+        entry.depends_on.push({
+          name: row.target_name as string,
+          filePath: row.target_file_path as string,
+          line: row.line as number,
+          ...(row.target_root !== null ? { root: row.target_root as string } : {}),
+          ...(row.kind !== null ? { kind: row.kind as DependencyKind } : {}),
+          ...(row.call_sites !== null ? { callSites: JSON.parse(row.call_sites as string) } : {})
+        });
+      } else if (row.direction === 'renders') {
+        (entry.renders ??= []).push({
+          name: row.target_name as string,
+          filePath: row.target_file_path as string,
+          line: row.line as number,
+          ...(row.target_root !== null ? { root: row.target_root as string } : {})
+        });
+      } else {
+        entry.dependents.push({
+          name: row.target_name as string,
+          filePath: row.target_file_path as string,
+          line: row.line as number,
+          ...(row.context_snippet !== null ? { contextSnippet: row.context_snippet as string } : {}),
+          ...(row.target_root !== null ? { root: row.target_root as string } : {}),
+          ...(row.kind !== null ? { kind: row.kind as DependencyKind } : {}),
+          ...(row.call_sites !== null ? { callSites: JSON.parse(row.call_sites as string) } : {})
+        });
+      }
+    }
+
+    return symbolIndex;
+  },
+
+  /**
+   * Counts the files in the store
+   * @param rootPath - The workspace root path
+   * @returns The number of indexed files
+   */
+  async countFiles(rootPath: string): Promise<number> {
+    const db = await this.openStore(rootPath);
+    return queryRows(db, 'SELECT COUNT(*) AS count FROM files')[0].count as number;
+  },
+
+  /**
+   * Replaces all scores of one type
+   * @param rootPath - The workspace root path
+   * @param scoreType - Kind of score being replaced
+   * @param scores - The new scores
+   */
+  async replaceScores(rootPath: string, scoreType: string, scores: Omit<StoredScore, 'scoreType'>[]): Promise<void> {
+    const db = await this.openStore(rootPath);
+
+    this.applyChange(rootPath, db, target => {
+      target.run('DELETE FROM scores WHERE score_type = ?', [scoreType]);
+
+      const insertScore = target.prepare(
+        `INSERT OR REPLACE INTO scores (file_path, name, type, score_type, score, related_file_path, related_name)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      );
+      try {
+        for (const score of scores) {
+          insertScore.run([
+            score.filePath, score.name, score.type, scoreType, score.score,
+            score.relatedFilePath ?? null, score.relatedName ?? null
+          ]);
+        }
+      } finally {
+        insertScore.free();
+      }
+    });
+
+    await this.persist(rootPath);
+  },
+
+  /**
+   * Reads stored scores
+   * @param rootPath - The workspace root path
+   * @param scoreType - Optional kind of score to restrict the read to
+   * @returns The stored scores
+   */
+  async readScores(rootPath: string, scoreType?: string): Promise<StoredScore[]> {
+    const db = await this.openStore(rootPath);
+    const rows = scoreType
+      ? queryRows(db, 'SELECT * FROM scores WHERE score_type = ?', [scoreType])
+      : queryRows(db, 'SELECT * FROM scores');
+
+    return rows.map(row => ({
+      filePath: row.file_path as string,
+      name: row.name as string,
+      type: row.type as string,
+      scoreType: row.score_type as string,
+      score: row.score as number,
+      ...(row.related_file_path !== null ? { relatedFilePath: row.related_file_path as string } : {}),
+      ...(row.related_name !== null ? { relatedName: row.related_name as string } : {})
+    }));
+  },
+
+  /**
+   * Reads the embeddings cached for a model
+   * @param rootPath - The workspace root path
+   * @param model - Identifier of the embedding model
+   * @returns The cached embeddings
+   */
+  async readEmbeddings(rootPath: string, model: string): Promise<StoredEmbedding[]> {
+    const db = await this.openStore(rootPath);
+
+    return queryRows(db, 'SELECT * FROM embeddings WHERE model = ?', [model]).map(row => {
+      const bytes = row.vector as Uint8Array;
+      return {
+        filePath: row.file_path as string,
+        name: row.name as string,
+        type: row.type as string,
+        contentHash: row.content_hash as string,
+        // Copy into an aligned buffer, the blob may start at any byte offset
+        vector: new Float32Array(bytes.slice().buffer)
+      };
+    });
+  },
+
+  /**
+   * Replaces all cached embeddings of a model
+   * @param rootPath - The workspace root path
+   * @param model - Identifier of the embedding model
+   * @param embeddings - The embeddings to cache
+   */
+  async replaceEmbeddings(rootPath: string, model: string, embeddings: StoredEmbedding[]): Promise<void> {
+    const db = await this.openStore(rootPath);
+
+    this.applyChange(rootPath, db, target => {
+      target.run('DELETE FROM embeddings WHERE model = ?', [model]);
+
+      const insertEmbedding = target.prepare(
+        `INSERT OR REPLACE INTO embeddings (file_path, name, type, model, content_hash, vector)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      );
+      try {
+        for (const embedding of embeddings) {
+          insertEmbedding.run([
+            embedding.filePath, embedding.name, embedding.type, model, embedding.contentHash,
+            new Uint8Array(embedding.vector.buffer, embedding.vector.byteOffset, embedding.vector.byteLength)
+          ]);
+        }
+      } finally {
+        insertEmbedding.free();
+      }
+    });
+
+    await this.persist(rootPath);
+  }
+};
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { HostAdapter } from '@/shared/types/host-adapter';
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Host adapter backed by the VS Code API
+ */
+export const VscodeHostAdapter: HostAdapter = {
+  getConfiguration<T>(key: string, defaultValue: T): T {
+    return vscode.workspace.getConfiguration('cursorcrawl').get<T>(key, defaultValue);
+  },
+
+  async updateConfiguration(key: string, value: unknown): Promise<void> {
+    await vscode.workspace.getConfiguration('cursorcrawl').update(key, value, vscode.ConfigurationTarget.Global);
+  },
+
+  getWorkspaceFolders(): string[] {
+    return (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+  },
+
+  async showInformationMessage(message: string, ...actions: string[]): Promise<string | undefined> {
+    return vscode.window.showInformationMessage(message, ...actions);
+  },
+
+  async showWarningMessage(message: string, ...actions: string[]): Promise<string | undefined> {
+    return vscode.window.showWarningMessage(message, ...actions);
+  },
+
+  async showErrorMessage(message: string, ...actions: string[]): Promise<string | undefined> {
+    return vscode.window.showErrorMessage(message, ...actions);
+  },
+
+  appendLog(message: string): void {
+    outputChannel ??= vscode.window.createOutputChannel('CursorCrawl');
+    outputChannel.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+  },
+
+  async showInputBox(options: { prompt: string; password?: boolean }): Promise<string | undefined> {
+    return vscode.window.showInputBox({ ...options, ignoreFocusOut: true });
+  },
+
+  async showQuickPick<T extends { label: string; description?: string }>(items: T[], placeHolder: string): Promise<T | undefined> {
+    return vscode.window.showQuickPick(items, { placeHolder, ignoreFocusOut: true });
+  },
+
+  async executeCommand(command: string, ...args: unknown[]): Promise<void> {
+    await vscode.commands.executeCommand(command, ...args);
+  }
+};
@@ -1,6 +1,6 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { HostService } from '@/shared/services/host-service';
 
 // Constants
 const CURSOR_TEST_DIR = '.cursorcrawl';
@@ -14,11 +14,101 @@ export const WorkspaceService = {
    * @returns The workspace folder path or undefined if no workspace is open
    */
   getWorkspaceFolder(): string | undefined {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    const workspaceFolders = HostService.getAdapter().getWorkspaceFolders();
+    if (workspaceFolders.length === 0) {
       return undefined;
     }
-    return workspaceFolders[0].uri.fsPath;
+    return workspaceFolders[0];
+  },
+
+  /**
+   * Gets every root of the workspace
+   * @returns The workspace folder paths (empty if none are open)
+   */
+  getWorkspaceFolders(): string[] {
+    return HostService.getAdapter().getWorkspaceFolders();
+  },
+
+  /**
+   * Gets the name identifying a root in a multi-root workspace
+   * Cross-root dependencies are keyed by this name, so roots sharing a folder name, like apps/web
+   * and packages/web, are told apart by as many parent folders as needed
+   * @param rootPath - The workspace root path
+   * @returns The folder name, prefixed with its parent folders if another root has the same name
+   */
+  getRootName(rootPath: string): string {
+    const segments = path.resolve(rootPath).split(path.sep).filter(Boolean);
+    const otherRoots = this.getWorkspaceFolders()
+      .filter(folder => path.resolve(folder) !== path.resolve(rootPath))
+      .map(folder => path.resolve(folder).split(path.sep).filter(Boolean));
+
+    for (let count = 1; count < segments.length; count++) {
+      const name = segments.slice(-count).join('/');
+      if (!otherRoots.some(otherSegments => otherSegments.slice(-count).join('/') === name)) {
+        return name;
+      }
+    }
+    return segments.join('/');
+  },
+
+  /**
+   * Finds the workspace root containing a file, preferring the innermost one for nested roots
+   * @param filePath - Absolute path of the file
+   * @param rootPaths - The workspace roots to search
+   * @returns The root path, or undefined if the file is outside all of them
+   */
+  findRootForFile(filePath: string, rootPaths: string[]): string | undefined {
+    return rootPaths
+      .filter(rootPath => {
+        const relativePath = path.relative(rootPath, filePath);
+        return relativePath !== '' && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+      })
+      .sort((a, b) => b.length - a.length)[0];
+  },
+
+  /**
+   * Asks which workspace folder to run a command on
+   * Single-folder workspaces are returned without asking
+   * @param placeHolder - Hint shown in the folder picker
+   * @returns The chosen folder, or undefined if none is open or the user cancelled
+   */
+  async pickWorkspaceFolder(placeHolder: string = 'Select a workspace folder'): Promise<string | undefined> {
+    const workspaceFolders = this.getWorkspaceFolders();
+    if (workspaceFolders.length === 0) {
+      showErrorMessage('No workspace folder found. Please open a folder first.');
+      return undefined;
+    }
+    if (workspaceFolders.length === 1) {
+      return workspaceFolders[0];
+    }
+
+    const picked = await HostService.getAdapter().showQuickPick(
+      workspaceFolders.map(rootPath => ({ label: this.getRootName(rootPath), description: rootPath, rootPath })),
+      placeHolder
+    );
+    return picked?.rootPath;
+  },
+
+  /**
+   * Asks which workspace folders to run a command on, offering all of them at once
+   * @param placeHolder - Hint shown in the folder picker
+   * @returns The chosen folders (empty if none is open or the user cancelled)
+   */
+  async pickWorkspaceFolders(placeHolder: string = 'Select a workspace folder'): Promise<string[]> {
+    const workspaceFolders = this.getWorkspaceFolders();
+    if (workspaceFolders.length <= 1) {
+      const rootPath = await this.pickWorkspaceFolder(placeHolder);
+      return rootPath ? [rootPath] : [];
+    }
+
+    const picked = await HostService.getAdapter().showQuickPick(
+      [
+        { label: 'All workspace folders', description: `${workspaceFolders.length} folders`, rootPaths: workspaceFolders },
+        ...workspaceFolders.map(rootPath => ({ label: this.getRootName(rootPath), description: rootPath, rootPaths: [rootPath] }))
+      ],
+      placeHolder
+    );
+    return picked?.rootPaths ?? [];
   },
 
   /**
@@ -119,27 +209,35 @@ export const WorkspaceService = {
 };
 
 /**
- * Shows an information message in VS Code
+ * Shows an information message in the host
  * @param message - The message to show
  */
 export const showInformationMessage = (message: string): void => {
-  vscode.window.showInformationMessage(message);
+  HostService.getAdapter().showInformationMessage(message);
 };
 
 /**
- * Shows an error message in VS Code
+ * Shows an error message in the host
  * @param message - The message to show
  * @param error - The error object
  */
 export const showErrorMessage = (message: string, error?: any): void => {
   const errorMessage = error instanceof Error ? error.message : String(error || '');
-  vscode.window.showErrorMessage(`${message}${errorMessage ? `: ${errorMessage}` : ''}`);
+  HostService.getAdapter().showErrorMessage(`${message}${errorMessage ? `: ${errorMessage}` : ''}`);
 };
 
 /**
- * Shows a warning message in VS Code
+ * Shows a warning message in the host
  * @param message - The message to show
  */
 export const showWarningMessage = (message: string): void => {
-  vscode.window.showWarningMessage(message);
-}; 
\ No newline at end of file
+  HostService.getAdapter().showWarningMessage(message);
+};
+
+/**
+ * Appends a line to the host's output log
+ * @param message - The line to append
+ */
+export const appendLog = (message: string): void => {
+  HostService.getAdapter().appendLog(message);
+};
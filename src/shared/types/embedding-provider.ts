@@ -0,0 +1,54 @@
+/**
+ * Supported embedding provider backends
+ * - openai: OpenAI or any OpenAI-compatible /embeddings endpoint
+ * - ollama: a local Ollama server through its OpenAI-compatible API
+ * - hash: deterministic feature-hashing embedder that runs offline, for tests and machines without a model
+ */
+export type EmbeddingProviderKind = 'openai' | 'ollama' | 'hash';
+
+/**
+ * Resolved configuration for an embedding provider
+ */
+export interface EmbeddingProviderConfig {
+  /**
+   * The provider backend to use
+   */
+  provider: EmbeddingProviderKind;
+
+  /**
+   * Model name passed to the provider
+   */
+  model: string;
+
+  /**
+   * Optional base URL overriding the provider's default endpoint
+   */
+  baseUrl?: string;
+
+  /**
+   * API key for the provider (not required for local servers)
+   */
+  apiKey?: string;
+}
+
+/**
+ * Common interface implemented by every embedding backend
+ */
+export interface EmbeddingProvider {
+  /**
+   * The provider backend
+   */
+  readonly kind: EmbeddingProviderKind;
+
+  /**
+   * The model texts are embedded with
+   */
+  readonly model: string;
+
+  /**
+   * Embeds a batch of texts
+   * @param texts - The texts to embed
+   * @returns One vector per text, in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,78 @@
+/**
+ * Environment the core services run in (the VS Code extension host or a plain Node process)
+ * Services call the adapter instead of importing 'vscode' so they can run headless
+ */
+export interface HostAdapter {
+  /**
+   * Reads a `cursorcrawl.*` setting
+   * @param key - Setting name without the `cursorcrawl.` prefix
+   * @param defaultValue - Value used when the setting is not set
+   * @returns The setting value
+   */
+  getConfiguration<T>(key: string, defaultValue: T): T;
+
+  /**
+   * Writes a `cursorcrawl.*` setting to the user (global) settings
+   * @param key - Setting name without the `cursorcrawl.` prefix
+   * @param value - The value to store
+   */
+  updateConfiguration(key: string, value: unknown): Promise<void>;
+
+  /**
+   * Gets the root paths of the open workspace folders
+   * @returns The workspace folder paths (empty if none are open)
+   */
+  getWorkspaceFolders(): string[];
+
+  /**
+   * Shows an information message
+   * @param message - The message to show
+   * @param actions - Optional buttons to offer
+   * @returns The chosen action, or undefined if dismissed (always undefined without a UI)
+   */
+  showInformationMessage(message: string, ...actions: string[]): Promise<string | undefined>;
+
+  /**
+   * Shows a warning message
+   * @param message - The message to show
+   * @param actions - Optional buttons to offer
+   * @returns The chosen action, or undefined if dismissed (always undefined without a UI)
+   */
+  showWarningMessage(message: string, ...actions: string[]): Promise<string | undefined>;
+
+  /**
+   * Shows an error message
+   * @param message - The message to show
+   * @param actions - Optional buttons to offer
+   * @returns The chosen action, or undefined if dismissed (always undefined without a UI)
+   */
+  showErrorMessage(message: string, ...actions: string[]): Promise<string | undefined>;
+
+  /**
+   * Appends a line to the CursorCrawl output log
+   * @param message - The line to append
+   */
+  appendLog(message: string): void;
+
+  /**
+   * Asks the user for a value
+   * @param options - The prompt and whether the value is secret
+   * @returns The entered value, or undefined if cancelled (always undefined without a UI)
+   */
+  showInputBox(options: { prompt: string; password?: boolean }): Promise<string | undefined>;
+
+  /**
+   * Lets the user pick one of several items
+   * @param items - The items to choose from
+   * @param placeHolder - Hint shown in the picker
+   * @returns The picked item, or undefined if cancelled (always undefined without a UI)
+   */
+  showQuickPick<T extends { label: string; description?: string }>(items: T[], placeHolder: string): Promise<T | undefined>;
+
+  /**
+   * Runs a CursorCrawl command
+   * @param command - The command ID
+   * @param args - Arguments passed to the command
+   */
+  executeCommand(command: string, ...args: unknown[]): Promise<void>;
+}
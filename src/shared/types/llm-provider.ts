@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+/**
+ * Supported LLM provider backends
+ * - openai: OpenAI or any OpenAI-compatible endpoint (e.g. a llama.cpp server via base URL)
+ * - anthropic: Anthropic Messages API
+ * - ollama: a local Ollama server through its OpenAI-compatible API
+ */
+export type LlmProviderKind = 'openai' | 'anthropic' | 'ollama';
+
+/**
+ * Resolved configuration for an LLM provider
+ */
+export interface LlmProviderConfig {
+  /**
+   * The provider backend to use
+   */
+  provider: LlmProviderKind;
+
+  /**
+   * Model name passed to the provider
+   */
+  model: string;
+
+  /**
+   * Optional base URL overriding the provider's default endpoint
+   */
+  baseUrl?: string;
+
+  /**
+   * API key for the provider (not required for local servers)
+   */
+  apiKey?: string;
+}
+
+/**
+ * A plain text completion request
+ */
+export interface LlmCompletionRequest {
+  /**
+   * System prompt describing the assistant's role
+   */
+  system: string;
+
+  /**
+   * The user prompt
+   */
+  prompt: string;
+
+  /**
+   * Optional sampling temperature, not sent to OpenAI reasoning models (o1, o3, o4) since they reject it
+   */
+  temperature?: number;
+}
+
+/**
+ * A completion request whose reply must match a zod schema
+ */
+export interface LlmStructuredRequest<T extends z.ZodTypeAny> extends LlmCompletionRequest {
+  /**
+   * Schema the reply is parsed and validated against
+   */
+  schema: T;
+
+  /**
+   * Name of the schema, used by providers that require named response formats or tools
+   */
+  schemaName: string;
+}
+
+/**
+ * Common interface implemented by every LLM backend
+ */
+export interface LlmProvider {
+  /**
+   * The provider backend
+   */
+  readonly kind: LlmProviderKind;
+
+  /**
+   * The model requests are sent to
+   */
+  readonly model: string;
+
+  /**
+   * Sends a completion request and returns the reply text
+   * @param request - The completion request
+   * @returns The reply text
+   */
+  complete(request: LlmCompletionRequest): Promise<string>;
+
+  /**
+   * Sends a completion request and returns the reply parsed against the request schema
+   * @param request - The structured completion request
+   * @returns The validated reply
+   */
+  completeStructured<T extends z.ZodTypeAny>(request: LlmStructuredRequest<T>): Promise<z.infer<T>>;
+}
@@ -1,5 +1,3 @@
-import * as vscode from 'vscode';
-
 /**
  * Interface for a progress reporter that can be used across different contexts
  */
@@ -18,9 +16,18 @@ export interface ProgressReporter {
 }
 
 /**
- * Type for a VSCode progress object that can be used as a ProgressReporter
+ * Progress object supplied by the host (structurally compatible with vscode.Progress)
+ */
+export interface HostProgress {
+  report(value: { message?: string }): void;
+}
+
+/**
+ * Cancellation token supplied by the host (structurally compatible with vscode.CancellationToken)
  */
-export type VSCodeProgressReporter = vscode.Progress<{ message?: string }>;
+export interface HostCancellationToken {
+  readonly isCancellationRequested: boolean;
+}
 
 /**
  * Creates a null progress reporter that does nothing
@@ -32,15 +39,15 @@ export const createNullProgressReporter = (): ProgressReporter => ({
 });
 
 /**
- * Adapts a VSCode progress reporter to match the ProgressReporter interface
- * @param vscodeProgress - The VSCode progress reporter to adapt
+ * Adapts a host progress object to match the ProgressReporter interface
+ * @param hostProgress - The host progress object to adapt
  * @param token - Optional cancellation token for the operation
- * @returns A progress reporter that forwards to the VSCode progress reporter
+ * @returns A progress reporter that forwards to the host progress object
  */
-export const adaptVSCodeProgress = (
-  vscodeProgress: VSCodeProgressReporter, 
-  token?: vscode.CancellationToken
+export const adaptHostProgress = (
+  hostProgress: HostProgress, 
+  token?: HostCancellationToken
 ): ProgressReporter => ({
-  report: (info: { message: string }) => vscodeProgress.report({ message: info.message }),
+  report: (info: { message: string }) => hostProgress.report({ message: info.message }),
   isCancelled: token ? () => token.isCancellationRequested : undefined
 }); 
\ No newline at end of file
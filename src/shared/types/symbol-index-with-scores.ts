@@ -5,7 +5,7 @@ import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
  */
 export interface ScoreInfo {
   /**
-   * Type of the score (e.g., "duplicateAnalysis")
+   * Type of the score (e.g., "duplicateAnalysis" or "structuralClone")
    */
   type: string;
   
@@ -14,7 +14,7 @@ export interface SymbolIndexEntry {
   /**
    * Type of the symbol
    */
-  type: 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'enum' | 'other';
+  type: 'function' | 'class' | 'interface' | 'type' | 'variable' | 'method' | 'enum' | 'component' | 'hook' | 'property' | 'other';
 
   /**
    * Path to the file containing the symbol
@@ -38,6 +38,69 @@ export interface SymbolIndexEntry {
    * Original code snippet
    */
   snippet: string;
+  /**
+   * Hash of the snippet's tokens, ignoring whitespace and comments
+   */
+  snippetHash?: string;
+  /**
+   * Snippet hash of the code the docstring was written for
+   */
+  docstringHash?: string;
+  /**
+   * Whether the code changed since the docstring was written, so the docstring may describe code that no longer exists
+   */
+  stale?: boolean;
+
+  /**
+   * How the symbol's own module exports it, undefined when it isn't exported
+   */
+  exported?: 'named' | 'default';
+
+  /**
+   * Files re-exporting the symbol from its module, like an index.ts barrel
+   */
+  reExportedBy?: string[];
+
+  /**
+   * Accessibility of a class member (methods only)
+   */
+  visibility?: 'public' | 'protected' | 'private';
+
+  /**
+   * Whether a method is static (methods only)
+   */
+  isStatic?: boolean;
+
+  /**
+   * Whether a function or method is async
+   */
+  isAsync?: boolean;
+
+  /**
+   * Parameter and return types of a function, method, class constructor or callable variable,
+   * e.g. `(name: string) => Promise<void>`
+   */
+  signature?: string;
+
+  /**
+   * Props a component accepts (components only)
+   */
+  props?: string[];
+
+  /**
+   * Declared type of a React component's props, e.g. `ButtonProps` (components only)
+   */
+  propsType?: string;
+
+  /**
+   * Events a component emits (components only)
+   */
+  emits?: string[];
+
+  /**
+   * Components this component renders as children (components only)
+   */
+  renders?: DependencyInfo[];
 
   /**
    * Symbols that depend on this symbol
@@ -50,6 +113,31 @@ export interface SymbolIndexEntry {
   depends_on: DependencyInfo[];
 }
 
+/**
+ * How a symbol uses a symbol it depends on
+ * - calls: calls it, or renders it as a JSX element
+ * - instantiates: constructs it with `new`
+ * - extends / implements: names it in an `extends` or `implements` clause
+ * - references-type: names it in a type annotation or other type position
+ * - reads / writes: reads its value, or assigns to it
+ */
+export type DependencyKind = 'calls' | 'instantiates' | 'extends' | 'implements' | 'references-type' | 'reads' | 'writes';
+
+/**
+ * A place where a symbol calls or instantiates another symbol
+ */
+export interface CallSite {
+  /**
+   * Line number of the call
+   */
+  line: number;
+
+  /**
+   * Source text of each argument, shortened when long
+   */
+  arguments: string[];
+}
+
 /**
  * Information about a symbol that depends on another symbol
  */
@@ -65,7 +153,7 @@ export interface DependentInfo {
   filePath: string;
 
   /**
-   * Line number where the dependency occurs
+   * Line number where the dependency first occurs
    */
   line: number;
 
@@ -73,6 +161,22 @@ export interface DependentInfo {
    * Code context around the dependency
    */
   contextSnippet?: string;
+
+  /**
+   * How the dependency is used. Each kind of use between two symbols is a separate edge
+   */
+  kind?: DependencyKind;
+
+  /**
+   * Every call or `new` of the symbol, in source order (`calls` and `instantiates` edges only)
+   */
+  callSites?: CallSite[];
+
+  /**
+   * Name identifying the workspace folder containing the dependent symbol, unique within the workspace
+   * Only set when it lives in a different root of a multi-root workspace
+   */
+  root?: string;
 }
 
 /**
@@ -90,9 +194,25 @@ export interface DependencyInfo {
   filePath: string;
 
   /**
-   * Line number where the dependency occurs
+   * Line number where the dependency first occurs
    */
   line: number;
+
+  /**
+   * How the dependency is used. Each kind of use between two symbols is a separate edge
+   */
+  kind?: DependencyKind;
+
+  /**
+   * Every call or `new` of the symbol, in source order (`calls` and `instantiates` edges only)
+   */
+  callSites?: CallSite[];
+
+  /**
+   * Name identifying the workspace folder containing the symbol being depended on, unique within the workspace
+   * Only set when it lives in a different root of a multi-root workspace
+   */
+  root?: string;
 }
 
 /**
@@ -0,0 +1,60 @@
+/**
+ * Escapes a string for use in a regular expression
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Converts a glob to a regular expression matching whole `/`-separated paths
+ * - `*` matches within one path segment, `?` one character of it
+ * - `**` matches across segments, and `**\/` any number of directories, including none
+ * - `{a,b}` matches either alternative, `[abc]` and `[!abc]` one character of a set
+ * - `\` escapes the next character, e.g. `\*` for a literal `*`
+ * @param pattern - The glob, e.g. `src/features/**` or `**\/*.{ts,tsx}`
+ * @returns The regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let regex = '';
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '\\' && i + 1 < pattern.length) {
+            regex += escapeRegExp(pattern[++i]);
+        } else if (char === '*' && pattern[i + 1] === '*') {
+            const followedBySlash = pattern[i + 2] === '/';
+            regex += followedBySlash ? '(?:.*/)?' : '.*';
+            i += followedBySlash ? 2 : 1;
+        } else if (char === '*') {
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else if (char === '{' && pattern.indexOf('}', i) > i) {
+            const end = pattern.indexOf('}', i);
+            regex += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+            i = end;
+        } else if (char === '[' && pattern.indexOf(']', i) > i + 1) {
+            const end = pattern.indexOf(']', i);
+            const set = pattern.slice(i + 1, end);
+            regex += set.startsWith('!') ? `[^${set.slice(1).replace(/\\/g, '\\\\')}]` : `[${set.replace(/\\/g, '\\\\')}]`;
+            i = end;
+        } else {
+            regex += escapeRegExp(char);
+        }
+    }
+
+    return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Checks if a path matches a glob
+ * @param filePath - The path, relative and `/`-separated
+ * @param pattern - The glob
+ * @returns Whether the whole path matches
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+    return globToRegExp(pattern).test(filePath);
+}
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { zodResponseFormat } from 'openai/helpers/zod';
+
+/**
+ * Converts a zod schema to a JSON schema object
+ * @param schema - The zod schema to convert
+ * @param name - Name of the schema
+ * @returns The JSON schema
+ */
+export function toJsonSchema(schema: z.ZodTypeAny, name: string): Record<string, unknown> {
+    return zodResponseFormat(schema, name).json_schema.schema ?? {};
+}
+
+/**
+ * Parses a JSON reply from an LLM, tolerating markdown code fences and surrounding prose
+ * @param content - The raw reply text
+ * @returns The parsed JSON value
+ * @throws Error if no JSON object can be found in the reply
+ */
+export function parseJsonReply(content: string): unknown {
+    const trimmed = content.trim();
+    
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        // Local models often wrap the JSON in a code fence or add a sentence around it
+        const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+        const candidate = fenced
+            ? fenced[1]
+            : trimmed.substring(trimmed.indexOf('{'), trimmed.lastIndexOf('}') + 1);
+        
+        if (!candidate) {
+            throw new Error('Failed to parse response: no JSON object found in reply');
+        }
+        
+        return JSON.parse(candidate);
+    }
+}
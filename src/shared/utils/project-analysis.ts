@@ -1,12 +1,14 @@
-import * as vscode from 'vscode';
 import { createSymbolIndex } from '@/features/symbol-index/symbol-index';
 import { generateDocstringIndex } from '@/features/generate-docstring/generate-docstring';
 import { FileSystemService } from '@/shared/services/file-system-service';
 import { WorkspaceService, showInformationMessage, showErrorMessage } from '@/shared/services/workspace-service';
-import { OpenAiService } from '@/shared/services/openai-service';
+import { LlmService } from '@/shared/services/llm-service';
 import { ProjectService } from '@/shared/services/project-service';
+import { SymbolIndexService } from '@/shared/services/symbol-index-service';
 import { SymbolIndex } from '@/shared/types/symbol-index';
+import { HostProgress, HostCancellationToken } from '@/shared/types/progress-reporter';
 import { SymbolIndexOrchestrator } from '@/features/symbol-index/symbol-index-orchestrator';
+import { CursorRulesService } from '@/features/cursor-rules/cursor-rules-service';
 
 /**
  * Type definition for project analysis options
@@ -14,9 +16,10 @@ import { SymbolIndexOrchestrator } from '@/features/symbol-index/symbol-index-or
 export interface ProjectAnalysisOptions {
     generateDocstrings?: boolean;
     showMessages?: boolean;
-    progress?: vscode.Progress<{ message: string }>;
+    progress?: HostProgress;
+    token?: HostCancellationToken;
     incremental?: boolean;
-    changedFile?: string;
+    changedFiles?: string[];
     symbolIndexCache?: SymbolIndex;
 }
 
@@ -36,12 +39,12 @@ export async function ensureProjectSetup(rootPath: string): Promise<boolean> {
 }
 
 /**
- * Gets the ignored patterns from .gitignore
+ * Gets the ignored patterns from the .gitignore files and .cursorcrawlignore
  * @param rootPath - The workspace root path
  * @returns List of ignored patterns
  */
 export async function getIgnoredPatterns(rootPath: string): Promise<string[]> {
-    return await FileSystemService.parseGitignore(rootPath);
+    return await FileSystemService.getIgnoreRules(rootPath);
 }
 
 /**
@@ -54,7 +57,7 @@ export async function getIgnoredPatterns(rootPath: string): Promise<string[]> {
 export async function generateProjectTreeFile(
     rootPath: string,
     ignoredPatterns: string[],
-    progress?: vscode.Progress<{ message: string }>
+    progress?: HostProgress
 ): Promise<boolean> {
     try {
         progress?.report({ message: 'Generating project tree...' });
@@ -67,6 +70,28 @@ export async function generateProjectTreeFile(
     }
 }
 
+/**
+ * Generates the .cursor/rules files from the symbol index
+ * @param rootPath - The workspace root path
+ * @param symbolIndex - The symbol index to generate rules from
+ * @param progress - Optional progress reporter
+ * @returns Whether the operation was successful
+ */
+export async function generateCursorRulesFiles(
+    rootPath: string,
+    symbolIndex: SymbolIndex,
+    progress?: HostProgress
+): Promise<boolean> {
+    try {
+        progress?.report({ message: 'Generating cursor rules...' });
+        await CursorRulesService.writeRules(rootPath, symbolIndex);
+        return true;
+    } catch (error) {
+        console.error('Error generating cursor rules:', error);
+        return false;
+    }
+}
+
 /**
  * Builds or updates the symbol index
  * @param rootPath - The workspace root path
@@ -78,26 +103,27 @@ export async function buildSymbolIndex(
     rootPath: string,
     ignoredPatterns: string[],
     options: {
-        progress?: vscode.Progress<{ message: string }>;
+        progress?: HostProgress;
+        token?: HostCancellationToken;
         incremental?: boolean;
-        changedFile?: string;
+        changedFiles?: string[];
         symbolIndexCache?: SymbolIndex;
     } = {}
 ): Promise<SymbolIndex | null> {
     try {
-        const { progress, incremental = false, changedFile, symbolIndexCache } = options;
+        const { progress, token, incremental = false, changedFiles = [], symbolIndexCache } = options;
         
         progress?.report({ message: 'Building symbol index...' });
         
-        if (incremental && symbolIndexCache && changedFile) {
+        if (incremental && symbolIndexCache && changedFiles.length > 0) {
             return await SymbolIndexOrchestrator.updateSymbolIndex(
                 rootPath,
                 symbolIndexCache,
-                changedFile,
+                changedFiles,
                 ignoredPatterns
             );
         } else {
-            return await SymbolIndexOrchestrator.createSymbolIndex(rootPath, ignoredPatterns, progress);
+            return await SymbolIndexOrchestrator.createSymbolIndex(rootPath, ignoredPatterns, progress, token);
         }
     } catch (error) {
         console.error('Error building symbol index:', error);
@@ -106,39 +132,24 @@ export async function buildSymbolIndex(
 }
 
 /**
- * Checks for and handles OpenAI API key requirement for docstring generation
+ * Checks for and handles the LLM provider API key requirement for docstring generation
  * @param rootPath - The workspace root path
  * @param showMessages - Whether to show UI messages
- * @returns Whether the API key is available
+ * @returns Whether the provider is usable (API key available or not required)
  */
-export async function ensureOpenAIApiKey(
+export async function ensureLlmApiKey(
     rootPath: string,
     showMessages: boolean
 ): Promise<boolean> {
-    const envVars = OpenAiService.loadEnvironmentVars(rootPath);
+    const config = LlmService.getProviderConfig(rootPath);
     
-    if (envVars.OPENAI_API_KEY) {
+    if (!LlmService.isMissingApiKey(config)) {
         return true;
     }
     
     if (showMessages) {
-        const setKey = await vscode.window.showErrorMessage(
-            'OpenAI API key not found. Would you like to set it now?',
-            'Yes', 'No'
-        );
-        
-        if (setKey === 'Yes') {
-            const apiKey = await vscode.window.showInputBox({
-                prompt: 'Enter your OpenAI API Key',
-                password: true,
-                ignoreFocusOut: true
-            });
-            
-            if (apiKey) {
-                await vscode.workspace.getConfiguration('cursorcrawl').update('openaiApiKey', apiKey, vscode.ConfigurationTarget.Global);
-                return true;
-            }
-        }
+        const apiKey = await LlmService.promptForApiKey(config.provider);
+        return !!apiKey;
     }
     
     return false;
@@ -155,8 +166,8 @@ export async function ensureOpenAIApiKey(
 export async function generateDocstrings(
     rootPath: string,
     ignoredPatterns: string[],
-    progress?: vscode.Progress<{ message: string }>,
-    token?: vscode.CancellationToken
+    progress?: HostProgress,
+    token?: HostCancellationToken
 ): Promise<boolean> {
     try {
         progress?.report({ message: 'Generating docstrings...' });
@@ -200,8 +211,9 @@ export async function ensureProjectAnalysis(
         generateDocstrings: shouldGenerateDocstrings = false, 
         showMessages = true, 
         progress,
+        token,
         incremental = false,
-        changedFile,
+        changedFiles,
         symbolIndexCache
     } = options;
     
@@ -219,27 +231,40 @@ export async function ensureProjectAnalysis(
         // Step 4: Build symbol index
         const symbolIndex = await buildSymbolIndex(rootPath, ignoredPatterns, {
             progress,
+            token,
             incremental,
-            changedFile,
+            changedFiles,
             symbolIndexCache
         });
         
+        if (!symbolIndex && token?.isCancellationRequested) {
+            if (showMessages) {
+                showInformationMessage('Building the symbol index was cancelled. Build it again to continue where it stopped.');
+            }
+            return { success: false, symbolIndex: null };
+        }
         if (!symbolIndex) {throw new Error('Failed to build symbol index');}
         
         // Step 5: Optionally generate docstrings
         let docsGenerated = false;
         if (shouldGenerateDocstrings) {
-            const apiKeyAvailable = await ensureOpenAIApiKey(rootPath, showMessages);
+            const apiKeyAvailable = await ensureLlmApiKey(rootPath, showMessages);
             
             if (apiKeyAvailable) {
                 docsGenerated = await generateDocstrings(rootPath, ignoredPatterns, progress);
             }
         }
         
-        // Step 6: Show appropriate messages
+        // Step 6: Keep the generated cursor rules in sync with the index, including the docstrings just generated
+        const finalSymbolIndex = docsGenerated
+            ? await SymbolIndexService.readSymbolIndex(rootPath) ?? symbolIndex
+            : symbolIndex;
+        await generateCursorRulesFiles(rootPath, finalSymbolIndex, progress);
+        
+        // Step 7: Show appropriate messages
         showAnalysisMessages(showMessages, docsGenerated);
         
-        return { success: true, symbolIndex };
+        return { success: true, symbolIndex: finalSymbolIndex };
     } catch (error) {
         console.error('Error in project analysis:', error);
         if (showMessages) {
@@ -0,0 +1,29 @@
+import * as crypto from 'crypto';
+import * as ts from 'typescript';
+
+/**
+ * Hashes a code snippet by its tokens, so whitespace, formatting and comments don't change the hash
+ * @param snippet - The code snippet
+ * @returns The hash
+ */
+export function hashSnippet(snippet: string): string {
+    const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.JSX, snippet);
+    const tokens: string[] = [];
+
+    while (scanner.scan() !== ts.SyntaxKind.EndOfFileToken) {
+        tokens.push(scanner.getTokenText());
+    }
+
+    return crypto.createHash('sha1').update(tokens.join(' ')).digest('hex');
+}
+
+/**
+ * Checks if a docstring was written for a different version of its symbol's code
+ * Docstrings without a recorded hash, like the placeholders of new symbols, are never stale
+ * @param docstringHash - Hash of the snippet the docstring was written for
+ * @param snippetHash - Hash of the current snippet
+ * @returns Whether the code changed since the docstring was written
+ */
+export function isDocstringStale(docstringHash?: string, snippetHash?: string): boolean {
+    return !!docstringHash && !!snippetHash && docstringHash !== snippetHash;
+}
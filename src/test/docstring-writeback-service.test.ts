@@ -0,0 +1,173 @@
+import './register-path-alias';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DocstringWritebackService, DocstringEdit } from '@/features/docstring-writeback/docstring-writeback-service';
+import { SymbolExtractionService } from '@/features/symbol-index/symbol-extraction-service';
+import { HostService, createNodeHostAdapter } from '@/shared/services/host-service';
+import { SymbolIndexEntry } from '@/shared/types/symbol-index';
+
+const FILE_PATH = 'src/service.ts';
+
+/**
+ * Applies docstring edits to a file's content, the way the code action does
+ * @param content - The file content
+ * @param edits - The edits
+ * @returns The edited content
+ */
+const applyEdits = (content: string, edits: DocstringEdit[]): string => {
+	const lines = content.split('\n');
+	for (const edit of [...edits].sort((a, b) => b.startLine - a.startLine)) {
+		lines.splice(edit.startLine, edit.endLine - edit.startLine, ...edit.text.replace(/\n$/, '').split('\n'));
+	}
+	return lines.join('\n');
+};
+
+suite('Docstring rendering', () => {
+	test('indents the generated docstring like the declaration', () => {
+		const text = DocstringWritebackService.renderDocstring(
+			'/**\n * Adds two numbers\n *\n * @param a - First number\n * @returns The sum\n */',
+			undefined,
+			'  ',
+			'\n'
+		);
+
+		assert.strictEqual(text, '  /**\n   * Adds two numbers\n   *\n   * @param a - First number\n   * @returns The sum\n   */\n');
+	});
+
+	test('keeps the existing tags the generated docstring has no counterpart for', () => {
+		const text = DocstringWritebackService.renderDocstring(
+			'/**\n * Adds two numbers\n * @param a - First number\n * @returns The sum\n */',
+			'/**\n * Old description\n * @deprecated Use sum instead\n * @param a - Old text\n * @param b - Second number\n * @returns Old result\n */',
+			'',
+			'\n'
+		);
+
+		assert.strictEqual(
+			text,
+			'/**\n * Adds two numbers\n * @param a - First number\n * @param b - Second number\n * @returns The sum\n * @deprecated Use sum instead\n */\n'
+		);
+	});
+
+	test('uses the line break of the file', () => {
+		const text = DocstringWritebackService.renderDocstring('/** Formats a date */', undefined, '', '\r\n');
+
+		assert.strictEqual(text, '/**\r\n * Formats a date\r\n */\r\n');
+	});
+});
+
+suite('JSDoc and decorator lookup', () => {
+	test('finds a JSDoc right above the declaration', () => {
+		const lines = ['const a = 1;', '/**', ' * Doc', ' */', 'function foo() {}'];
+
+		assert.strictEqual(DocstringWritebackService.findJsDocStart(lines, 4), 1);
+		assert.strictEqual(DocstringWritebackService.findJsDocStart(['/** Doc */', 'function foo() {}'], 1), 0);
+	});
+
+	test('ignores plain block comments and code ending in a comment', () => {
+		assert.strictEqual(DocstringWritebackService.findJsDocStart(['/*', ' * Plain', ' */', 'function foo() {}'], 3), undefined);
+		assert.strictEqual(DocstringWritebackService.findJsDocStart(['const a = 1; /* note */', 'function foo() {}'], 1), undefined);
+		assert.strictEqual(DocstringWritebackService.findJsDocStart(['const a = 1;', 'function foo() {}'], 1), undefined);
+		assert.strictEqual(DocstringWritebackService.findJsDocStart(['function foo() {}'], 0), undefined);
+	});
+
+	test('skips the decorators above a declaration, including multi-line ones', () => {
+		const lines = ['/** Doc */', '@Component({', '  selector: \'app\'', '})', '@Injectable()', 'export class Foo {}'];
+
+		assert.strictEqual(DocstringWritebackService.findDecoratorsStart(lines, 5), 1);
+		assert.strictEqual(DocstringWritebackService.findDecoratorsStart(['@A() @B()', 'class Foo {}'], 1), 0);
+		assert.strictEqual(DocstringWritebackService.findDecoratorsStart(['const a = 1;', 'class Foo {}'], 1), 1);
+	});
+
+	test('doesn\'t take a decorated member or a closing block for decorators', () => {
+		assert.strictEqual(DocstringWritebackService.findDecoratorsStart(['  @Input() value = 1;', '  other = 2;'], 1), 1);
+		assert.strictEqual(DocstringWritebackService.findDecoratorsStart(['function foo() {', '}', 'class Foo {}'], 2), 2);
+	});
+});
+
+suite('Docstring edits', () => {
+	let rootPath: string;
+	const savedAdapter = HostService.getAdapter();
+
+	setup(() => {
+		rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'cursorcrawl-writeback-'));
+		HostService.setAdapter(createNodeHostAdapter(rootPath));
+	});
+
+	teardown(() => {
+		HostService.setAdapter(savedAdapter);
+		fs.rmSync(rootPath, { recursive: true, force: true });
+	});
+
+	/**
+	 * Extracts the symbols of a file and gives them generated docstrings for their current code
+	 * @param content - The file content
+	 * @param docstrings - Docstrings by symbol name
+	 * @returns The symbols with a docstring
+	 */
+	const withDocstrings = async (content: string, docstrings: Record<string, string>): Promise<SymbolIndexEntry[]> => {
+		fs.mkdirSync(path.join(rootPath, 'src'), { recursive: true });
+		fs.writeFileSync(path.join(rootPath, FILE_PATH), content);
+		const symbols = await SymbolExtractionService.extractSymbols(path.join(rootPath, FILE_PATH), FILE_PATH, rootPath, content);
+		return symbols
+			.filter(symbol => symbol.name in docstrings)
+			.map(symbol => ({ ...symbol, docstring: docstrings[symbol.name], docstringHash: symbol.snippetHash }));
+	};
+
+	test('inserts a docstring above an undocumented declaration and replaces an existing one', async () => {
+		const content = 'export function add(a: number, b: number) {\n  return a + b;\n}\n\n/** Old */\nexport function sub(a: number, b: number) {\n  return a - b;\n}\n';
+		const symbols = await withDocstrings(content, { add: '/** Adds two numbers */', sub: '/** Subtracts two numbers */' });
+
+		const { edits, refusedReason } = await DocstringWritebackService.planFileEdits(rootPath, FILE_PATH, symbols, content);
+
+		assert.strictEqual(refusedReason, undefined);
+		assert.deepStrictEqual(edits.map(edit => edit.replacesExisting), [false, true]);
+		assert.strictEqual(
+			applyEdits(content, edits),
+			'/**\n * Adds two numbers\n */\nexport function add(a: number, b: number) {\n  return a + b;\n}\n\n' +
+			'/**\n * Subtracts two numbers\n */\nexport function sub(a: number, b: number) {\n  return a - b;\n}\n'
+		);
+	});
+
+	test('leaves a docstring already in the source alone', async () => {
+		const content = '/**\n * Adds two numbers\n */\nexport function add(a: number, b: number) {\n  return a + b;\n}\n';
+		const symbols = await withDocstrings(content, { add: '/** Adds two numbers */' });
+
+		const { edits } = await DocstringWritebackService.planFileEdits(rootPath, FILE_PATH, symbols, content);
+
+		assert.deepStrictEqual(edits, []);
+	});
+
+	test('writes the docstring of a decorated class above its decorators', async () => {
+		const content = '/** Old */\n@Injectable()\nexport class Foo {\n  run() {}\n}\n';
+		const symbols = await withDocstrings(content, { Foo: '/** Runs the jobs */' });
+
+		const { edits } = await DocstringWritebackService.planFileEdits(rootPath, FILE_PATH, symbols, content);
+
+		assert.strictEqual(applyEdits(content, edits), '/**\n * Runs the jobs\n */\n@Injectable()\nexport class Foo {\n  run() {}\n}\n');
+	});
+
+	test('writes the docstrings of accessors', async () => {
+		const content = 'export class Foo {\n  get size(): number {\n    return 1;\n  }\n  set size(value: number) {}\n}\n';
+		const symbols = await withDocstrings(content, { 'Foo.size': '/** Number of items */' });
+
+		const { edits } = await DocstringWritebackService.planFileEdits(rootPath, FILE_PATH, symbols, content);
+
+		assert.strictEqual(
+			applyEdits(content, edits),
+			'export class Foo {\n  /**\n   * Number of items\n   */\n  get size(): number {\n    return 1;\n  }\n  set size(value: number) {}\n}\n'
+		);
+	});
+
+	test('refuses the file if a symbol changed since its docstring was generated', async () => {
+		const content = 'export function add(a: number, b: number) {\n  return a + b;\n}\n';
+		const symbols = await withDocstrings(content, { add: '/** Adds two numbers */' });
+		const changedContent = content.replace('a + b', 'b + a');
+
+		const { edits, refusedReason } = await DocstringWritebackService.planFileEdits(rootPath, FILE_PATH, symbols, changedContent);
+
+		assert.deepStrictEqual(edits, []);
+		assert.ok(refusedReason?.includes('add'));
+	});
+});
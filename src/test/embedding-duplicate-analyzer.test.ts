@@ -0,0 +1,284 @@
+import './register-path-alias';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { EmbeddingDuplicateAnalyzerService } from '@/features/docstring-analyzer/embedding-duplicate-analyzer';
+import { CodebaseContext } from '@/features/docstring-analyzer/codebase-context-generator';
+import { DuplicateLogicResult } from '@/features/docstring-analyzer/duplicate-logic-analyzer';
+import { SymbolStoreService } from '@/shared/services/symbol-store-service';
+import { createHashEmbeddingProvider } from '@/shared/services/embedding-providers/hash-embedding-provider';
+import { EmbeddingProvider } from '@/shared/types/embedding-provider';
+import { LlmProvider, LlmStructuredRequest } from '@/shared/types/llm-provider';
+import { SymbolIndex, SymbolIndexEntry } from '@/shared/types/symbol-index';
+
+type EmbeddedEntry = Awaited<ReturnType<typeof EmbeddingDuplicateAnalyzerService.prepareEntries>>[number];
+
+const MODEL_KEY = 'hash:feature-hash-512';
+const THRESHOLD = 0.7;
+
+/**
+ * Creates a function symbol of the index
+ * @param filePath - Normalized file path
+ * @param name - Name of the function
+ * @param docstring - Its docstring
+ * @param snippet - Its code
+ * @returns The symbol
+ */
+const createSymbol = (filePath: string, name: string, docstring: string, snippet: string): SymbolIndexEntry => ({
+	name,
+	type: 'function',
+	filePath,
+	location: { line: 1, character: 0 },
+	docstring,
+	snippet,
+	dependents: [],
+	depends_on: []
+});
+
+const SUM_SNIPPET = 'const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);\nreturn total;';
+
+/**
+ * Creates an index with two functions computing the same total and one unrelated function
+ * @param sumSnippet - Code of the second total function
+ * @returns The symbol index
+ */
+const createSymbolIndex = (sumSnippet = SUM_SNIPPET): SymbolIndex => ({
+	'src/cart.ts': [
+		createSymbol('src/cart.ts', 'getCartTotal', '/** Sums the price times the quantity of every item in the cart */', SUM_SNIPPET)
+	],
+	'src/order.ts': [
+		createSymbol('src/order.ts', 'getOrderTotal', '/** Sums the price times the quantity of every item in the order */', sumSnippet)
+	],
+	'src/format.ts': [
+		createSymbol('src/format.ts', 'formatDate', '/** Formats a date as an ISO day string for display */', 'return date.toISOString().slice(0, 10);')
+	]
+});
+
+/**
+ * Builds the codebase context of a symbol index
+ * @param symbolIndex - The symbol index
+ * @returns The context, one entry per symbol
+ */
+const toCodebaseContext = (symbolIndex: SymbolIndex): CodebaseContext => Object.fromEntries(
+	Object.entries(symbolIndex).map(([filePath, symbols]) => [
+		filePath,
+		symbols.map(symbol => ({ name: symbol.name, type: symbol.type, filePath, docstring: symbol.docstring }))
+	])
+);
+
+/**
+ * Wraps the hash embedding provider to record the texts it embeds
+ * @returns The provider and the embedded texts
+ */
+const createRecordingProvider = () => {
+	const embedded: string[] = [];
+	const hashProvider = createHashEmbeddingProvider({ provider: 'hash', model: 'feature-hash-512' });
+	const provider: EmbeddingProvider = {
+		kind: hashProvider.kind,
+		model: hashProvider.model,
+		async embed(texts: string[]): Promise<number[][]> {
+			embedded.push(...texts);
+			return hashProvider.embed(texts);
+		}
+	};
+	return { provider, embedded };
+};
+
+/**
+ * Creates an LLM provider stub that records its structured requests
+ * @param reply - The structured output, or the error it throws
+ * @returns The provider and its recorded requests
+ */
+const createStubLlmProvider = (reply: unknown) => {
+	const requests: LlmStructuredRequest<z.ZodTypeAny>[] = [];
+	const provider: LlmProvider = {
+		kind: 'openai',
+		model: 'stub',
+		complete: async () => '',
+		completeStructured: async <T extends z.ZodTypeAny>(request: LlmStructuredRequest<T>): Promise<z.infer<T>> => {
+			requests.push(request);
+			if (reply instanceof Error) {
+				throw reply;
+			}
+			return reply;
+		}
+	};
+	return { provider, requests };
+};
+
+/**
+ * Keys embedded entries like the analyzer does
+ * @param entries - The entries
+ * @returns The entries keyed by "filePath|name"
+ */
+const keyEntries = (entries: EmbeddedEntry[]): Map<string, EmbeddedEntry> =>
+	new Map(entries.map(entry => [`${entry.filePath}|${entry.name}`, entry]));
+
+suite('Embedding duplicate analyzer', () => {
+	let rootPath: string;
+
+	setup(async () => {
+		rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'cursorcrawl-embeddings-'));
+		await SymbolStoreService.upsertFiles(rootPath, createSymbolIndex());
+	});
+
+	teardown(async () => {
+		await SymbolStoreService.closeStore(rootPath);
+		fs.rmSync(rootPath, { recursive: true, force: true });
+	});
+
+	/**
+	 * Prepares and embeds the entries of the stored index
+	 * @param provider - The embedding provider
+	 * @returns The embedded entries
+	 */
+	const embedStoredEntries = async (provider: EmbeddingProvider): Promise<EmbeddedEntry[]> => {
+		const entries = await EmbeddingDuplicateAnalyzerService.prepareEntries(rootPath, toCodebaseContext(createSymbolIndex()));
+		await EmbeddingDuplicateAnalyzerService.embedEntries(rootPath, provider, entries);
+		return entries;
+	};
+
+	suite('Vector cache', () => {
+		test('embeds every entry on a miss and caches the vectors', async () => {
+			const { provider, embedded } = createRecordingProvider();
+			const entries = await embedStoredEntries(provider);
+
+			assert.strictEqual(embedded.length, 3);
+			assert.ok(entries.every(entry => entry.vector));
+
+			const cached = await SymbolStoreService.readEmbeddings(rootPath, MODEL_KEY);
+			assert.deepStrictEqual(cached.map(embedding => embedding.name).sort(), ['formatDate', 'getCartTotal', 'getOrderTotal']);
+		});
+
+		test('reuses the cached vectors when nothing changed', async () => {
+			const first = await embedStoredEntries(createRecordingProvider().provider);
+
+			const { provider, embedded } = createRecordingProvider();
+			const second = await embedStoredEntries(provider);
+
+			assert.strictEqual(embedded.length, 0);
+			second.forEach((entry, index) => {
+				assert.deepStrictEqual(Array.from(entry.vector ?? []), Array.from(first[index].vector ?? []));
+			});
+		});
+
+		test('embeds again only the entry whose snippet changed', async () => {
+			const first = await embedStoredEntries(createRecordingProvider().provider);
+
+			const changedSnippet = 'return items.length;';
+			await SymbolStoreService.upsertFiles(rootPath, { 'src/order.ts': createSymbolIndex(changedSnippet)['src/order.ts'] });
+
+			const { provider, embedded } = createRecordingProvider();
+			const second = await embedStoredEntries(provider);
+
+			assert.strictEqual(embedded.length, 1);
+			assert.ok(embedded[0].includes(changedSnippet));
+
+			const changed = second.find(entry => entry.name === 'getOrderTotal');
+			const previous = first.find(entry => entry.name === 'getOrderTotal');
+			assert.notStrictEqual(changed?.contentHash, previous?.contentHash);
+		});
+
+		test('ignores vectors cached for another model', async () => {
+			await embedStoredEntries(createRecordingProvider().provider);
+
+			const { provider: hashProvider, embedded } = createRecordingProvider();
+			const provider: EmbeddingProvider = { ...hashProvider, model: 'other-model', embed: texts => hashProvider.embed(texts) };
+			await embedStoredEntries(provider);
+
+			assert.strictEqual(embedded.length, 3);
+		});
+	});
+
+	suite('Candidate threshold', () => {
+		test('maps similarities to scores around the threshold', () => {
+			const scores = [0.95, 0.85, 0.75, THRESHOLD, 0.65, 0.5]
+				.map(similarity => EmbeddingDuplicateAnalyzerService.similarityToScore(similarity, THRESHOLD));
+
+			assert.deepStrictEqual(scores, [5, 4, 3, 3, 2, 1]);
+		});
+
+		test('names a duplicate only for neighbours above the threshold', async () => {
+			const entries = await embedStoredEntries(createRecordingProvider().provider);
+			const results = EmbeddingDuplicateAnalyzerService.findNearestNeighbours(entries, THRESHOLD);
+
+			const cartTotal = results.find(result => result.name === 'getCartTotal');
+			assert.ok((cartTotal?.score ?? 0) >= 3);
+			assert.strictEqual(cartTotal?.duplicateName, 'getOrderTotal');
+			assert.strictEqual(cartTotal?.duplicateFilePath, 'src/order.ts');
+
+			const formatDate = results.find(result => result.name === 'formatDate');
+			assert.ok((formatDate?.similarity ?? 1) < THRESHOLD);
+			assert.ok((formatDate?.score ?? 5) < 3);
+			assert.strictEqual(formatDate?.duplicateName, undefined);
+		});
+
+		test('scores an entry without neighbours as unlikely', async () => {
+			const entries = await embedStoredEntries(createRecordingProvider().provider);
+			const [result] = EmbeddingDuplicateAnalyzerService.findNearestNeighbours(entries.slice(0, 1), THRESHOLD);
+
+			assert.deepStrictEqual(result, { filePath: 'src/cart.ts', name: 'getCartTotal', type: 'function', score: 1 });
+		});
+	});
+
+	suite('LLM confirmation', () => {
+		/**
+		 * Creates the results of a candidate pair
+		 * @param score - Embedding score of both results
+		 * @param similarity - Similarity of the pair
+		 * @returns The result of each side of the pair
+		 */
+		const createPairResults = (score: number, similarity: number): DuplicateLogicResult[] => [
+			{ filePath: 'src/cart.ts', name: 'getCartTotal', type: 'function', score, similarity, duplicateFilePath: 'src/order.ts', duplicateName: 'getOrderTotal' },
+			{ filePath: 'src/order.ts', name: 'getOrderTotal', type: 'function', score, similarity, duplicateFilePath: 'src/cart.ts', duplicateName: 'getCartTotal' }
+		];
+
+		test('sends the top candidates and applies the verdicts', async () => {
+			const entries = await embedStoredEntries(createRecordingProvider().provider);
+			const results = [
+				...createPairResults(4, 0.9),
+				{ filePath: 'src/format.ts', name: 'formatDate', type: 'function', score: 2, similarity: 0.65 }
+			];
+			const { provider, requests } = createStubLlmProvider({
+				pairs: [{ id: 0, isDuplicate: true, score: 2 }, { id: 1, isDuplicate: false, score: 4 }]
+			});
+
+			await EmbeddingDuplicateAnalyzerService.confirmTopCandidates(provider, results, keyEntries(entries), 20);
+
+			assert.strictEqual(requests.length, 1);
+			assert.strictEqual(requests[0].schemaName, 'response');
+			assert.ok(requests[0].prompt.includes('PAIR 0') && requests[0].prompt.includes('PAIR 1'));
+			assert.ok(!requests[0].prompt.includes('PAIR 2'));
+			assert.ok(!requests[0].prompt.includes('formatDate'));
+
+			// The score is kept consistent with the verdict
+			assert.deepStrictEqual(results.map(result => [result.llmConfirmed, result.score]), [[true, 3], [false, 2], [undefined, 2]]);
+		});
+
+		test('sends no more than the requested number of pairs, most similar first', async () => {
+			const entries = await embedStoredEntries(createRecordingProvider().provider);
+			const results = [...createPairResults(3, 0.75), ...createPairResults(5, 0.95)];
+			const { provider, requests } = createStubLlmProvider({ pairs: [{ id: 0, isDuplicate: true, score: 5 }] });
+
+			await EmbeddingDuplicateAnalyzerService.confirmTopCandidates(provider, results, keyEntries(entries), 1);
+
+			assert.strictEqual(requests.length, 1);
+			assert.ok(!requests[0].prompt.includes('PAIR 1'));
+			assert.deepStrictEqual(results.map(result => result.llmConfirmed), [undefined, undefined, true, undefined]);
+		});
+
+		test('keeps the embedding scores when the LLM fails', async () => {
+			const entries = await embedStoredEntries(createRecordingProvider().provider);
+			const results = createPairResults(4, 0.9);
+			const { provider } = createStubLlmProvider(new Error('Invalid API key'));
+			const messages: string[] = [];
+
+			await EmbeddingDuplicateAnalyzerService.confirmTopCandidates(provider, results, keyEntries(entries), 20, message => messages.push(message));
+
+			assert.deepStrictEqual(results.map(result => [result.llmConfirmed, result.score]), [[undefined, 4], [undefined, 4]]);
+			assert.ok(messages.some(message => message.includes('Invalid API key')));
+		});
+	});
+});
@@ -0,0 +1,168 @@
+import './register-path-alias';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { FileSystemService } from '@/shared/services/file-system-service';
+import { globToRegExp, matchesGlob } from '@/shared/utils/glob';
+
+const ROOT = path.join(os.tmpdir(), 'cursorcrawl-ignore-root');
+
+/**
+ * Checks a path against ignore rules
+ * @param relPath - The path relative to the project root
+ * @param rules - The rules, relative to the project root
+ * @param isDirectory - Whether the path is a directory
+ * @returns Whether the path is ignored
+ */
+const isIgnored = (relPath: string, rules: string[], isDirectory = false): boolean =>
+	FileSystemService.isIgnored(path.join(ROOT, relPath), ROOT, rules, isDirectory);
+
+suite('Glob matching', () => {
+	test('* and ? stay within one path segment', () => {
+		assert.ok(matchesGlob('src/index.ts', 'src/*.ts'));
+		assert.ok(!matchesGlob('src/lib/index.ts', 'src/*.ts'));
+		assert.ok(matchesGlob('src/a.ts', 'src/?.ts'));
+		assert.ok(!matchesGlob('src/ab.ts', 'src/?.ts'));
+	});
+
+	test('** matches across segments, and **/ any number of directories including none', () => {
+		assert.ok(matchesGlob('src/features/a/b.ts', 'src/features/**'));
+		assert.ok(matchesGlob('index.ts', '**/*.ts'));
+		assert.ok(matchesGlob('src/deep/index.ts', '**/*.ts'));
+		assert.ok(matchesGlob('src/test/a.test.ts', 'src/**/*.test.ts'));
+		assert.ok(matchesGlob('src/a.test.ts', 'src/**/*.test.ts'));
+	});
+
+	test('braces, character sets and escapes', () => {
+		assert.ok(matchesGlob('a.tsx', '*.{ts,tsx}'));
+		assert.ok(!matchesGlob('a.js', '*.{ts,tsx}'));
+		assert.ok(matchesGlob('b.ts', '[abc].ts'));
+		assert.ok(!matchesGlob('b.ts', '[!abc].ts'));
+		assert.ok(matchesGlob('*.ts', '\\*.ts'));
+		assert.ok(!matchesGlob('a.ts', '\\*.ts'));
+	});
+
+	test('matches whole paths only', () => {
+		assert.strictEqual(globToRegExp('src/*.ts').test('lib/src/a.ts'), false);
+		assert.strictEqual(globToRegExp('src').test('src/a.ts'), false);
+	});
+});
+
+suite('Ignore rules', () => {
+	test('a rule without a slash matches at any depth', () => {
+		assert.ok(isIgnored('debug.log', ['*.log']));
+		assert.ok(isIgnored('logs/deep/debug.log', ['*.log']));
+		assert.ok(!isIgnored('debug.ts', ['*.log']));
+	});
+
+	test('a rule starting with or containing a slash is anchored at the root', () => {
+		assert.ok(isIgnored('config.ts', ['/config.ts']));
+		assert.ok(!isIgnored('src/config.ts', ['/config.ts']));
+		assert.ok(isIgnored('src/generated/a.ts', ['src/generated']));
+		assert.ok(!isIgnored('lib/src/generated/a.ts', ['src/generated']));
+	});
+
+	test('a rule ending with a slash only matches directories, and everything inside them', () => {
+		assert.ok(isIgnored('tmp', ['tmp/'], true));
+		assert.ok(isIgnored('src/tmp/a.ts', ['tmp/']));
+		assert.ok(!isIgnored('tmp', ['tmp/']));
+		assert.ok(!isIgnored('src/tmp.ts', ['tmp/']));
+	});
+
+	test('** rules match any number of directories', () => {
+		assert.ok(isIgnored('src/fixtures/a.ts', ['**/fixtures/**']));
+		assert.ok(isIgnored('fixtures/a.ts', ['**/fixtures/**']));
+		assert.ok(isIgnored('logs/debug.log', ['logs/**/debug.log']));
+		assert.ok(isIgnored('logs/a/b/debug.log', ['logs/**/debug.log']));
+		assert.ok(!isIgnored('src/logs/debug.log', ['logs/**/debug.log']));
+	});
+
+	test('a negated rule re-includes what an earlier rule excluded', () => {
+		assert.ok(!isIgnored('keep.log', ['*.log', '!keep.log']));
+		assert.ok(isIgnored('other.log', ['*.log', '!keep.log']));
+	});
+
+	test('the last matching rule wins', () => {
+		assert.ok(isIgnored('keep.log', ['*.log', '!keep.log', 'keep.log']));
+		assert.ok(!isIgnored('keep.log', ['keep.log', '!*.log']));
+	});
+
+	test('nothing inside an ignored directory can be re-included', () => {
+		assert.ok(isIgnored('out/keep.ts', ['out/', '!out/keep.ts']));
+		assert.ok(!isIgnored('out/keep.ts', ['out/*', '!out/keep.ts']));
+	});
+
+	test('always ignored directories are ignored without a rule', () => {
+		assert.ok(isIgnored('node_modules/pkg/index.js', []));
+		assert.ok(isIgnored('packages/app/node_modules/pkg/index.js', []));
+	});
+});
+
+suite('Ignore files', () => {
+	let rootPath: string;
+
+	setup(() => {
+		rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'cursorcrawl-ignore-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(rootPath, { recursive: true, force: true });
+	});
+
+	/**
+	 * Writes a file of the project, creating its directories
+	 * @param relPath - The path relative to the project root
+	 * @param content - The file content
+	 */
+	const writeFile = (relPath: string, content = ''): void => {
+		fs.mkdirSync(path.dirname(path.join(rootPath, relPath)), { recursive: true });
+		fs.writeFileSync(path.join(rootPath, relPath), content);
+	};
+
+	test('rules of a nested .gitignore are rebased onto its directory', async () => {
+		writeFile('pkg/.gitignore', '# generated\n*.gen.ts\n/local.ts\nsrc/cache/\n!keep.gen.ts\n');
+
+		const rules = await FileSystemService.parseIgnoreFile(path.join(rootPath, 'pkg', '.gitignore'), 'pkg');
+
+		assert.deepStrictEqual(rules, ['/pkg/**/*.gen.ts', '/pkg/local.ts', '/pkg/src/cache/', '!/pkg/**/keep.gen.ts']);
+		const check = (relPath: string, isDirectory = false) =>
+			FileSystemService.isIgnored(path.join(rootPath, relPath), rootPath, rules, isDirectory);
+		assert.ok(check('pkg/a.gen.ts'));
+		assert.ok(check('pkg/deep/a.gen.ts'));
+		assert.ok(!check('other/a.gen.ts'));
+		assert.ok(check('pkg/local.ts'));
+		assert.ok(!check('pkg/sub/local.ts'));
+		assert.ok(check('pkg/src/cache', true));
+		assert.ok(!check('src/cache', true));
+		assert.ok(!check('pkg/keep.gen.ts'));
+	});
+
+	test('nested .gitignore files take precedence over the root one, and .cursorcrawlignore over both', async () => {
+		writeFile('.gitignore', '*.gen.ts\n');
+		writeFile('pkg/.gitignore', '!*.gen.ts\n');
+		writeFile('.cursorcrawlignore', 'pkg/skip.gen.ts\n');
+
+		const rules = await FileSystemService.getIgnoreRules(rootPath);
+
+		const check = (relPath: string) => FileSystemService.isIgnored(path.join(rootPath, relPath), rootPath, rules);
+		assert.ok(check('a.gen.ts'));
+		assert.ok(!check('pkg/a.gen.ts'));
+		assert.ok(check('pkg/skip.gen.ts'));
+	});
+
+	test('tracked files are listed even if .gitignore matches them, .cursorcrawlignore still applies', async () => {
+		writeFile('.gitignore', '*.gen.ts\n');
+		writeFile('.cursorcrawlignore', 'secret.ts\n');
+		writeFile('index.ts');
+		writeFile('forced.gen.ts');
+		writeFile('secret.ts');
+		execSync('git init -q && git add . && git add --force forced.gen.ts', { cwd: rootPath });
+
+		const files = await FileSystemService.getProjectFiles(rootPath, await FileSystemService.getIgnoreRules(rootPath));
+
+		const relPaths = files.map(file => FileSystemService.normalizeFilePath(file, rootPath)).sort();
+		assert.deepStrictEqual(relPaths, ['.cursorcrawlignore', '.gitignore', 'forced.gen.ts', 'index.ts']);
+	});
+});
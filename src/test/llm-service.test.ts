@@ -0,0 +1,309 @@
+import './register-path-alias';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { LlmService } from '@/shared/services/llm-service';
+import { HostService, createNodeHostAdapter } from '@/shared/services/host-service';
+import { createOpenAiClient, createOpenAiCompatibleProvider } from '@/shared/services/llm-providers/openai-compatible-provider';
+import { createAnthropicProvider } from '@/shared/services/llm-providers/anthropic-provider';
+import { LlmProviderConfig } from '@/shared/types/llm-provider';
+
+// Environment variables that would override the settings written by the tests
+const ENV_KEYS = ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'CURSORCRAWL_LLM_PROVIDER', 'CURSORCRAWL_LLM_MODEL', 'CURSORCRAWL_LLM_BASE_URL'];
+
+const SummarySchema = z.object({ summary: z.string(), score: z.number() });
+
+/**
+ * A request recorded by a stubbed SDK client
+ */
+interface RecordedCall {
+	method: string;
+	body: Record<string, unknown>;
+}
+
+/**
+ * Reads a nested field of a recorded request body, failing the test if a field on the way isn't an object
+ * @param body - The request body
+ * @param keys - Field names and array indexes leading to the field
+ * @returns The field's value
+ */
+const getField = (body: unknown, ...keys: Array<string | number>): unknown =>
+	keys.reduce<unknown>((value, key) => {
+		assert.ok(value !== null && typeof value === 'object', `Expected an object before ${key}`);
+		return (value as Record<string | number, unknown>)[key];
+	}, body);
+
+/**
+ * Lists the properties of a JSON schema found in a recorded request body
+ * @param body - The request body
+ * @param keys - Field names and array indexes leading to the schema
+ * @returns The property names
+ */
+const getSchemaProperties = (body: unknown, ...keys: Array<string | number>): string[] =>
+	Object.keys(getField(body, ...keys, 'properties') as Record<string, unknown>);
+
+/**
+ * Creates an OpenAI client stub that records its requests
+ * @param replies - Reply of each method, or the error it throws
+ * @returns The client and its recorded requests
+ */
+const createStubOpenAiClient = (replies: { create?: string | Error; parse?: unknown }) => {
+	const calls: RecordedCall[] = [];
+	const reply = (method: string, body: Record<string, unknown>, value: unknown, toMessage: (value: unknown) => object) => {
+		calls.push({ method, body });
+		if (value instanceof Error) {
+			throw value;
+		}
+		return { choices: [{ message: toMessage(value) }] };
+	};
+	const client = {
+		chat: { completions: { create: async (body: Record<string, unknown>) => reply('create', body, replies.create, content => ({ content })) } },
+		beta: { chat: { completions: { parse: async (body: Record<string, unknown>) => reply('parse', body, replies.parse, parsed => ({ parsed })) } } }
+	};
+	return { client: client as unknown as OpenAI, calls };
+};
+
+/**
+ * Creates an Anthropic client stub that records its requests
+ * @param content - Content blocks of the reply
+ * @returns The client and its recorded requests
+ */
+const createStubAnthropicClient = (content: object[]) => {
+	const calls: RecordedCall[] = [];
+	const client = {
+		messages: {
+			create: async (body: Record<string, unknown>) => {
+				calls.push({ method: 'create', body });
+				return { content };
+			}
+		}
+	};
+	return { client: client as unknown as Anthropic, calls };
+};
+
+const openAiConfig: LlmProviderConfig = { provider: 'openai', model: 'gpt-4o-mini', apiKey: 'test-key' };
+const anthropicConfig: LlmProviderConfig = { provider: 'anthropic', model: 'claude-3-7-sonnet-latest', apiKey: 'test-key' };
+
+suite('LLM provider selection', () => {
+	let workspace: string;
+	const savedEnv: Record<string, string | undefined> = {};
+	const savedAdapter = HostService.getAdapter();
+
+	/**
+	 * Writes the workspace settings and routes the host through them
+	 * @param settings - The `cursorcrawl.*` settings, without the prefix
+	 */
+	const useSettings = (settings: Record<string, unknown>) => {
+		fs.mkdirSync(path.join(workspace, '.vscode'), { recursive: true });
+		fs.writeFileSync(
+			path.join(workspace, '.vscode', 'settings.json'),
+			JSON.stringify(Object.fromEntries(Object.entries(settings).map(([key, value]) => [`cursorcrawl.${key}`, value])))
+		);
+		HostService.setAdapter(createNodeHostAdapter(workspace));
+	};
+
+	setup(() => {
+		workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'cursorcrawl-llm-'));
+		for (const key of ENV_KEYS) {
+			savedEnv[key] = process.env[key];
+			delete process.env[key];
+		}
+		useSettings({});
+	});
+
+	teardown(() => {
+		for (const key of ENV_KEYS) {
+			if (savedEnv[key] === undefined) {
+				delete process.env[key];
+			} else {
+				process.env[key] = savedEnv[key];
+			}
+		}
+		HostService.setAdapter(savedAdapter);
+		fs.rmSync(workspace, { recursive: true, force: true });
+	});
+
+	test('defaults to OpenAI and its default model', () => {
+		const config = LlmService.getProviderConfig(workspace);
+		assert.strictEqual(config.provider, 'openai');
+		assert.strictEqual(config.model, 'o3-mini');
+		assert.strictEqual(config.baseUrl, undefined);
+		assert.strictEqual(LlmService.isMissingApiKey(config), true);
+	});
+
+	test('reads the provider, model and API key from the settings', () => {
+		useSettings({ llmProvider: 'anthropic', llmModel: 'claude-3-5-haiku-latest', anthropicApiKey: 'settings-key' });
+		const config = LlmService.getProviderConfig(workspace);
+		assert.deepStrictEqual(config, {
+			provider: 'anthropic',
+			model: 'claude-3-5-haiku-latest',
+			baseUrl: undefined,
+			apiKey: 'settings-key'
+		});
+		assert.strictEqual(LlmService.createProvider(config).kind, 'anthropic');
+	});
+
+	test('prefers environment variables over the settings', () => {
+		useSettings({ llmProvider: 'anthropic' });
+		process.env.CURSORCRAWL_LLM_PROVIDER = 'openai';
+		process.env.OPENAI_API_KEY = 'env-key';
+		const config = LlmService.getProviderConfig(workspace);
+		assert.strictEqual(config.provider, 'openai');
+		assert.strictEqual(config.apiKey, 'env-key');
+	});
+
+	test('falls back to OpenAI for an unknown provider', () => {
+		useSettings({ llmProvider: 'mystery' });
+		assert.strictEqual(LlmService.getProviderConfig(workspace).provider, 'openai');
+	});
+
+	test('points Ollama at its local OpenAI-compatible endpoint without an API key', () => {
+		useSettings({ llmProvider: 'ollama' });
+		const config = LlmService.getProviderConfig(workspace);
+		assert.strictEqual(config.baseUrl, 'http://localhost:11434/v1');
+		assert.strictEqual(config.model, 'llama3.1');
+		assert.strictEqual(LlmService.isMissingApiKey(config), false);
+		assert.strictEqual(createOpenAiClient(config).baseURL, 'http://localhost:11434/v1');
+
+		const provider = LlmService.createProviderForWorkspace(workspace);
+		assert.strictEqual(provider.kind, 'ollama');
+		assert.strictEqual(provider.model, 'llama3.1');
+	});
+
+	test('does not require an API key for a custom OpenAI-compatible base URL', () => {
+		useSettings({ llmBaseUrl: 'http://localhost:8080/v1' });
+		const config = LlmService.getProviderConfig(workspace);
+		assert.strictEqual(LlmService.isMissingApiKey(config), false);
+		assert.strictEqual(createOpenAiClient(config).baseURL, 'http://localhost:8080/v1');
+	});
+
+	test('refuses to create a provider that is missing its API key', () => {
+		useSettings({ llmProvider: 'anthropic' });
+		assert.throws(() => LlmService.createProviderForWorkspace(workspace), /Anthropic API key not found/);
+	});
+});
+
+suite('OpenAI-compatible provider requests', () => {
+	test('sends the system prompt, the user prompt and the temperature', async () => {
+		const { client, calls } = createStubOpenAiClient({ create: 'Hello' });
+		const provider = createOpenAiCompatibleProvider(openAiConfig, client);
+
+		assert.strictEqual(await provider.complete({ system: 'Be brief.', prompt: 'Hi', temperature: 0.3 }), 'Hello');
+		assert.deepStrictEqual(calls[0].body, {
+			model: 'gpt-4o-mini',
+			messages: [
+				{ role: 'system', content: 'Be brief.' },
+				{ role: 'user', content: 'Hi' }
+			],
+			temperature: 0.3
+		});
+	});
+
+	test('leaves the temperature out when the request has none', async () => {
+		const { client, calls } = createStubOpenAiClient({ create: 'Hello' });
+		await createOpenAiCompatibleProvider(openAiConfig, client).complete({ system: 'Be brief.', prompt: 'Hi' });
+		assert.strictEqual('temperature' in calls[0].body, false);
+	});
+
+	test('leaves the temperature out for reasoning models', async () => {
+		const { client, calls } = createStubOpenAiClient({ create: 'Hello', parse: { summary: 'Short', score: 4 } });
+		const provider = createOpenAiCompatibleProvider({ ...openAiConfig, model: 'o3-mini' }, client);
+
+		await provider.complete({ system: 'Be brief.', prompt: 'Hi', temperature: 0.2 });
+		await provider.completeStructured({ system: 'Be brief.', prompt: 'Hi', temperature: 0.2, schema: SummarySchema, schemaName: 'summary' });
+		assert.deepStrictEqual(calls.map(call => 'temperature' in call.body), [false, false]);
+	});
+
+	test('fails on an empty reply', async () => {
+		const { client } = createStubOpenAiClient({ create: '' });
+		await assert.rejects(
+			createOpenAiCompatibleProvider(openAiConfig, client).complete({ system: 'Be brief.', prompt: 'Hi' }),
+			/Empty response from openai API/
+		);
+	});
+
+	test('requests structured output with the zod schema as a named JSON schema', async () => {
+		const { client, calls } = createStubOpenAiClient({ parse: { summary: 'ok', score: 1 } });
+		const provider = createOpenAiCompatibleProvider(openAiConfig, client);
+
+		const reply = await provider.completeStructured({ system: 'Rate it.', prompt: 'Code', schema: SummarySchema, schemaName: 'summary' });
+		assert.deepStrictEqual(reply, { summary: 'ok', score: 1 });
+		assert.strictEqual(calls[0].method, 'parse');
+		assert.strictEqual(getField(calls[0].body, 'response_format', 'type'), 'json_schema');
+		assert.strictEqual(getField(calls[0].body, 'response_format', 'json_schema', 'name'), 'summary');
+		assert.deepStrictEqual(getSchemaProperties(calls[0].body, 'response_format', 'json_schema', 'schema'), ['summary', 'score']);
+	});
+
+	test('falls back to JSON mode and validates the reply against the schema', async () => {
+		const { client, calls } = createStubOpenAiClient({
+			parse: new Error('response_format json_schema is not supported'),
+			create: '```json\n{ "summary": "ok", "score": 2 }\n```'
+		});
+		const provider = createOpenAiCompatibleProvider(openAiConfig, client);
+
+		const reply = await provider.completeStructured({ system: 'Rate it.', prompt: 'Code', schema: SummarySchema, schemaName: 'summary' });
+		assert.deepStrictEqual(reply, { summary: 'ok', score: 2 });
+		assert.deepStrictEqual(calls.map(call => call.method), ['parse', 'create']);
+		assert.deepStrictEqual(calls[1].body.response_format, { type: 'json_object' });
+		assert.match(String(getField(calls[1].body, 'messages', 0, 'content')), /^Rate it\. Return ONLY valid JSON matching this schema/);
+	});
+
+	test('rejects a JSON mode reply that does not match the schema', async () => {
+		const { client } = createStubOpenAiClient({ parse: new Error('unsupported'), create: '{ "summary": 3 }' });
+		await assert.rejects(
+			createOpenAiCompatibleProvider(openAiConfig, client)
+				.completeStructured({ system: 'Rate it.', prompt: 'Code', schema: SummarySchema, schemaName: 'summary' }),
+			/Failed to parse response/
+		);
+	});
+
+	test('does not fall back to JSON mode on authentication errors', async () => {
+		const { client, calls } = createStubOpenAiClient({ parse: new Error('401 Incorrect API key provided') });
+		await assert.rejects(
+			createOpenAiCompatibleProvider(openAiConfig, client)
+				.completeStructured({ system: 'Rate it.', prompt: 'Code', schema: SummarySchema, schemaName: 'summary' }),
+			/401/
+		);
+		assert.strictEqual(calls.length, 1);
+	});
+});
+
+suite('Anthropic provider requests', () => {
+	test('sends the system prompt separately from the messages', async () => {
+		const { client, calls } = createStubAnthropicClient([{ type: 'text', text: 'Hello' }]);
+		const provider = createAnthropicProvider(anthropicConfig, client);
+
+		assert.strictEqual(await provider.complete({ system: 'Be brief.', prompt: 'Hi', temperature: 0.5 }), 'Hello');
+		assert.deepStrictEqual(calls[0].body, {
+			model: 'claude-3-7-sonnet-latest',
+			max_tokens: 8192,
+			system: 'Be brief.',
+			messages: [{ role: 'user', content: 'Hi' }],
+			temperature: 0.5
+		});
+	});
+
+	test('forces a tool call named after the schema for structured output', async () => {
+		const { client, calls } = createStubAnthropicClient([{ type: 'tool_use', name: 'summary', input: { summary: 'ok', score: 3 } }]);
+		const provider = createAnthropicProvider(anthropicConfig, client);
+
+		const reply = await provider.completeStructured({ system: 'Rate it.', prompt: 'Code', schema: SummarySchema, schemaName: 'summary' });
+		assert.deepStrictEqual(reply, { summary: 'ok', score: 3 });
+		assert.strictEqual(getField(calls[0].body, 'tools', 0, 'name'), 'summary');
+		assert.deepStrictEqual(getSchemaProperties(calls[0].body, 'tools', 0, 'input_schema'), ['summary', 'score']);
+		assert.deepStrictEqual(calls[0].body.tool_choice, { type: 'tool', name: 'summary' });
+	});
+
+	test('rejects a tool call that does not match the schema', async () => {
+		const { client } = createStubAnthropicClient([{ type: 'tool_use', name: 'summary', input: { summary: 'ok' } }]);
+		await assert.rejects(
+			createAnthropicProvider(anthropicConfig, client)
+				.completeStructured({ system: 'Rate it.', prompt: 'Code', schema: SummarySchema, schemaName: 'summary' }),
+			/Failed to parse response/
+		);
+	});
+});
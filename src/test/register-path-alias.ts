@@ -0,0 +1,17 @@
+import * as path from 'path';
+import Module = require('module');
+
+/**
+ * Resolves the `@/` imports of the compiled sources, which esbuild handles for the bundles but tsc leaves as they are
+ * Imported first by every test that loads the extension's modules
+ */
+const outRoot = path.resolve(__dirname, '..');
+const moduleLoader = Module as unknown as {
+	_resolveFilename(request: string, ...rest: unknown[]): string;
+};
+const resolveFilename = moduleLoader._resolveFilename;
+
+moduleLoader._resolveFilename = function (request: string, ...rest: unknown[]): string {
+	const aliasedRequest = request.startsWith('@/') ? path.join(outRoot, request.slice(2)) : request;
+	return resolveFilename.call(this, aliasedRequest, ...rest);
+};